@@ -1,8 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  // Exclude canvas (optional pdfjs-dist dep) from server bundle
-  serverExternalPackages: ["canvas"],
+  // Exclude canvas (optional pdfjs-dist dep) and the native canvas used to
+  // crop evidence photos from the server bundle
+  serverExternalPackages: ["canvas", "@napi-rs/canvas"],
 };
 
 export default nextConfig;
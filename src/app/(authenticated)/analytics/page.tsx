@@ -17,7 +17,8 @@ import {
   PieChart, Pie, Cell,
   BarChart, Bar,
 } from 'recharts';
-import { STATUS_LABELS } from '@/lib/status-transitions';
+import { statusLabel } from '@/lib/workflow';
+import { useWorkflow } from '@/components/workflow/workflow-provider';
 import type { Property } from '@/lib/types';
 
 interface AnalyticsData {
@@ -28,6 +29,8 @@ interface AnalyticsData {
   status_distribution: Record<string, number>;
   fines_by_property: Array<{ address: string; fines: number }>;
   contractor_performance: Array<{ contractor_name: string; total_assignments: number; completed: number; on_time: number }>;
+  violations_by_trade?: Array<{ trade_category: string; items: number; open_items: number; fines: number }>;
+  top_codes?: Array<{ code: string; title: string | null; trade_category: string; items: number; fines: number }>;
 }
 
 const STATUS_COLORS: Record<string, string> = {
@@ -49,6 +52,7 @@ const STATUS_COLORS: Record<string, string> = {
 const PIE_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#0ea5e9', '#f97316', '#84cc16', '#06b6d4', '#22c55e', '#eab308', '#6b7280'];
 
 export default function AnalyticsPage() {
+  const { workflow } = useWorkflow();
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [properties, setProperties] = useState<Property[]>([]);
@@ -92,7 +96,7 @@ export default function AnalyticsPage() {
 
   const statusPieData = data?.status_distribution
     ? Object.entries(data.status_distribution).map(([status, count]) => ({
-        name: STATUS_LABELS[status as keyof typeof STATUS_LABELS] || status,
+        name: statusLabel(status, workflow),
         value: count,
         fill: STATUS_COLORS[status] || '#6b7280',
       }))
@@ -275,6 +279,60 @@ export default function AnalyticsPage() {
                 </CardContent>
               </Card>
             </div>
+
+            {/* Charts Row 3 — grouped by the violation code catalog */}
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Violation Items by Trade</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {data.violations_by_trade && data.violations_by_trade.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={280}>
+                      <BarChart data={data.violations_by_trade} layout="vertical">
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" tick={{ fontSize: 11 }} allowDecimals={false} />
+                        <YAxis type="category" dataKey="trade_category" tick={{ fontSize: 10 }} width={120} />
+                        <Tooltip />
+                        <Legend />
+                        <Bar dataKey="items" name="Items" fill="#3b82f6" radius={[0, 4, 4, 0]} />
+                        <Bar dataKey="open_items" name="Open" fill="#f59e0b" radius={[0, 4, 4, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  ) : (
+                    <p className="py-12 text-center text-sm text-gray-400">No violation item data</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Most Cited Codes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {data.top_codes && data.top_codes.length > 0 ? (
+                    <div className="divide-y text-sm">
+                      {data.top_codes.map(c => (
+                        <div key={c.code} className="flex items-center justify-between gap-4 py-2">
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900 truncate">{c.code}</p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {c.title || 'Not in catalog'} · {c.trade_category}
+                            </p>
+                          </div>
+                          <div className="shrink-0 text-right">
+                            <p className="font-medium">{c.items} item{c.items !== 1 ? 's' : ''}</p>
+                            <p className="text-xs text-gray-500">${Number(c.fines).toLocaleString()}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="py-12 text-center text-sm text-gray-400">No code data</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
           </>
         ) : (
           <p className="py-12 text-center text-gray-400">Failed to load analytics data</p>
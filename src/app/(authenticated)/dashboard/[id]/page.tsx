@@ -10,6 +10,13 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   ArrowLeft,
   MapPin,
@@ -21,23 +28,46 @@ import {
   CheckCircle2,
   Circle,
   Building2,
+  ClipboardCheck,
+  RefreshCw,
+  FileText,
+  Lock,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Progress } from '@/components/ui/progress';
-import type { Violation, ViolationItem, Photo, AuditLogEntry, WorkOrder } from '@/lib/types';
+import { DOCUMENT_TYPE_LABELS } from '@/lib/types';
+import type { Violation, ViolationItem, ItemStatus, Photo, AuditLogEntry, WorkOrder, ViolationDocument } from '@/lib/types';
 import {
-  STATUS_LABELS,
-  STATUS_COLORS,
   getPriorityColor,
   getPriorityLabel,
   getDaysRemaining,
   getUrgencyColor,
   getNextStatuses,
 } from '@/lib/status-transitions';
+import { statusLabel } from '@/lib/workflow';
+import {
+  ITEM_LIFECYCLE,
+  MANUAL_ITEM_STATUSES,
+  countItemStatuses,
+  itemStage,
+  itemStatusColor,
+  itemStatusLabel,
+} from '@/lib/item-status';
+import type { TransitionOption } from '@/lib/violation-transitions';
+import { formatDueDate } from '@/lib/deadlines';
+import { evidenceImageOf } from '@/lib/evidence-images';
 import { toast } from 'sonner';
 import dynamic from 'next/dynamic';
 import { AssignWorkOrderDialog } from '@/components/contractor/assign-work-order-dialog';
 import { SubmissionTab } from '@/components/dashboard/submission-tab';
+import { ReparseDialog } from '@/components/dashboard/reparse-dialog';
+import { PhotoMatchBoard } from '@/components/dashboard/photo-match-board';
+import { StatusBadge } from '@/components/workflow/status-badge';
+import { useWorkflow } from '@/components/workflow/workflow-provider';
+
+// Inspector photos carry signed URLs for the image the parser extracted
+type ExtractedPhoto = Photo & { signed_url?: string | null; thumbnail_url?: string | null };
+type ReceivedDocument = ViolationDocument & { signed_url: string | null };
 
 const EvidencePhoto = dynamic(() => import('@/components/parser/evidence-photo').then(m => m.EvidencePhoto), {
   ssr: false,
@@ -57,27 +87,41 @@ export default function ViolationDetailPage() {
   const params = useParams();
   const router = useRouter();
   const id = params.id as string;
+  const { workflow } = useWorkflow();
 
   const [violation, setViolation] = useState<Violation | null>(null);
   const [items, setItems] = useState<ViolationItem[]>([]);
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [documents, setDocuments] = useState<ReceivedDocument[]>([]);
   const [workOrder, setWorkOrder] = useState<WorkOrder | null>(null);
   const [contractorToken, setContractorToken] = useState<string | null>(null);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
+  const [reparseDialogOpen, setReparseDialogOpen] = useState(false);
   const [lightboxPhoto, setLightboxPhoto] = useState<string | null>(null);
+  // Next statuses with the reason each is blocked; null until loaded
+  const [transitionOptions, setTransitionOptions] = useState<TransitionOption[] | null>(null);
+
+  const fetchTransitions = useCallback(async () => {
+    const res = await fetch(`/api/violations/${id}/transitions`);
+    if (res.ok) {
+      const data = await res.json();
+      setTransitionOptions(data.options);
+    }
+  }, [id]);
 
   const fetchData = useCallback(async () => {
     const supabase = createClient();
 
-    const [violationRes, itemsRes, photosRes, auditRes, workOrderRes] = await Promise.all([
+    const [violationRes, itemsRes, photosRes, auditRes, workOrderRes, documentsRes] = await Promise.all([
       supabase.from('violations').select('*').eq('id', id).single(),
       supabase.from('violation_items').select('*').eq('violation_id', id).order('item_number'),
       supabase.from('photos').select('*').eq('violation_id', id).order('page_number'),
       supabase.from('audit_log').select('*').eq('record_id', id).order('created_at', { ascending: false }).limit(20),
       supabase.from('work_orders').select('*').eq('violation_id', id).order('created_at', { ascending: false }).limit(1).maybeSingle(),
+      supabase.from('violation_documents').select('*').eq('violation_id', id).order('created_at', { ascending: false }),
     ]);
 
     if (violationRes.data) {
@@ -92,9 +136,23 @@ export default function ViolationDetailPage() {
     }
     if (itemsRes.data) setItems(itemsRes.data as ViolationItem[]);
     if (photosRes.data) {
-      // Generate signed URLs for AFTER photos (contractor uploads)
+      // Generate signed URLs for AFTER photos (contractor uploads) and
+      // extracted inspector photos
       const photosWithUrls = await Promise.all(
         (photosRes.data as Photo[]).map(async (photo) => {
+          const evidenceImage = evidenceImageOf(photo);
+          if (evidenceImage) {
+            const [{ data: imageUrl }, { data: thumbnailUrl }] = await Promise.all([
+              supabase.storage.from('noi-pdfs').createSignedUrl(evidenceImage.path, 3600),
+              supabase.storage.from('noi-pdfs').createSignedUrl(evidenceImage.thumbnail_path, 3600),
+            ]);
+
+            return {
+              ...photo,
+              signed_url: imageUrl?.signedUrl || null,
+              thumbnail_url: thumbnailUrl?.signedUrl || null,
+            };
+          }
           if (photo.photo_type === 'AFTER' && photo.storage_path) {
             const { data: urlData } = await supabase.storage
               .from('contractor-photos')
@@ -111,6 +169,17 @@ export default function ViolationDetailPage() {
       setPhotos(photosWithUrls);
     }
     if (auditRes.data) setAuditLog(auditRes.data as AuditLogEntry[]);
+    if (documentsRes.data) {
+      // DOB correspondence filed on this violation by the parse pipeline
+      setDocuments(await Promise.all(
+        (documentsRes.data as ViolationDocument[]).map(async (document) => {
+          const { data: urlData } = await supabase.storage
+            .from('noi-pdfs')
+            .createSignedUrl(document.storage_path, 3600);
+          return { ...document, signed_url: urlData?.signedUrl || null };
+        })
+      ));
+    }
     if (workOrderRes.data) {
       setWorkOrder(workOrderRes.data as WorkOrder);
 
@@ -126,8 +195,9 @@ export default function ViolationDetailPage() {
         setContractorToken(tokenRes.data.token);
       }
     }
+    await fetchTransitions();
     setLoading(false);
-  }, [id]);
+  }, [id, fetchTransitions]);
 
   useEffect(() => {
     fetchData();
@@ -153,6 +223,11 @@ export default function ViolationDetailPage() {
         { event: '*', schema: 'public', table: 'photos', filter: `violation_id=eq.${id}` },
         debouncedFetch,
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'violation_items', filter: `violation_id=eq.${id}` },
+        debouncedFetch,
+      )
       .on(
         'postgres_changes',
         { event: '*', schema: 'public', table: 'work_orders', filter: `violation_id=eq.${id}` },
@@ -195,17 +270,19 @@ export default function ViolationDetailPage() {
 
   // Group photos by violation_item_id for the Items tab
   const photosByItem = new Map<string, Photo[]>();
-  const unmatchedPhotos: Photo[] = [];
   for (const photo of photos) {
     if (photo.violation_item_id) {
       const existing = photosByItem.get(photo.violation_item_id) || [];
       existing.push(photo);
       photosByItem.set(photo.violation_item_id, existing);
-    } else {
-      unmatchedPhotos.push(photo);
     }
   }
 
+  const itemLabel = (itemId: string | null | undefined) => {
+    const item = itemId ? items.find(i => i.id === itemId) : null;
+    return item ? `item #${item.item_number}` : 'unmatched';
+  };
+
   // Compute contractor repair progress (INSPECTOR photos with matching AFTER photos)
   const inspectorPhotos = photos.filter(p => p.photo_type === 'INSPECTOR');
   const afterPhotos = photos.filter(p => p.photo_type === 'AFTER');
@@ -238,15 +315,43 @@ export default function ViolationDetailPage() {
       body: JSON.stringify({ id, status: newStatus }),
     });
 
+    const data = await res.json();
+    if (res.ok) {
+      setViolation(data as Violation);
+      toast.success(`Status updated to ${statusLabel(newStatus, workflow)}`);
+    } else {
+      toast.error(data.error || 'Failed to update status');
+    }
+    await fetchTransitions();
+  };
+
+  const handleItemStatusChange = async (itemId: string, newStatus: ItemStatus) => {
+    const res = await fetch(`/api/violations/${id}/items/${itemId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: newStatus }),
+    });
+
+    const data = await res.json();
     if (res.ok) {
-      const updated = await res.json();
-      setViolation(updated as Violation);
-      toast.success(`Status updated to ${STATUS_LABELS[newStatus as keyof typeof STATUS_LABELS]}`);
+      setItems((prev) => prev.map((item) => (item.id === itemId ? data.item as ViolationItem : item)));
+      if (data.violation_status && data.violation_status !== violation?.status) {
+        setViolation((prev) => (prev ? { ...prev, status: data.violation_status } : prev));
+        toast.success(`Item updated — violation moved to ${statusLabel(data.violation_status, workflow)}`);
+      } else {
+        toast.success(`Item marked ${itemStatusLabel(newStatus)}`);
+      }
     } else {
-      toast.error('Failed to update status');
+      toast.error(data.error || 'Failed to update item');
     }
+    await fetchTransitions();
   };
 
+  // Items done with the repair (photo approved or abated) out of those not disputed
+  const trackedItems = items.filter((item) => item.status !== 'disputed');
+  const doneItems = trackedItems.filter((item) => itemStage(item.status) >= itemStage('photo_approved'));
+  const itemProgress = trackedItems.length > 0 ? Math.round((doneItems.length / trackedItems.length) * 100) : 0;
+
   if (loading) {
     return (
       <div>
@@ -269,7 +374,10 @@ export default function ViolationDetailPage() {
 
   const daysLeft = getDaysRemaining(violation.abatement_deadline);
   const urgencyColor = getUrgencyColor(violation.abatement_deadline, violation.status);
-  const nextStatuses = getNextStatuses(violation.status);
+  // NEEDS_REVIEW → PARSED only happens through the review page, after corrections
+  const nextStatuses = (transitionOptions ?? getNextStatuses(violation.status, workflow).map((status) => ({ status, block: null })))
+    .filter(({ status }) => !(violation.status === 'NEEDS_REVIEW' && status === 'PARSED'));
+  const blockedMoves = nextStatuses.filter(({ block }) => block);
 
   return (
     <div>
@@ -298,9 +406,10 @@ export default function ViolationDetailPage() {
               </p>
             </div>
             <div className="flex items-center gap-3">
-              <Badge className={cn("px-3 py-1 text-sm font-bold uppercase tracking-wider rounded-md", STATUS_COLORS[violation.status])}>
-                {STATUS_LABELS[violation.status]}
-              </Badge>
+              <StatusBadge
+                status={violation.status}
+                className="px-3 py-1 text-sm font-bold uppercase tracking-wider rounded-md"
+              />
               <span className={cn(`rounded-md px-3 py-1 text-sm font-bold uppercase tracking-wider uppercase`, getPriorityColor(violation.priority))}>
                 {getPriorityLabel(violation.priority)}
               </span>
@@ -465,15 +574,42 @@ export default function ViolationDetailPage() {
             </Button>
           )}
 
-          {nextStatuses.length > 0 && nextStatuses.map((status) => (
+          {violation.status === 'NEEDS_REVIEW' && (
+            <Button
+              variant="default"
+              size="sm"
+              className="rounded-xl font-medium shadow-sm"
+              onClick={() => router.push(`/review/${id}`)}
+            >
+              <ClipboardCheck className="mr-2 h-4 w-4" />
+              Review Parsed Fields
+            </Button>
+          )}
+
+          {violation.pdf_storage_path && violation.status !== 'PARSING' && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="rounded-xl border-slate-200 shadow-sm bg-white"
+              onClick={() => setReparseDialogOpen(true)}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Re-parse
+            </Button>
+          )}
+
+          {nextStatuses.length > 0 && nextStatuses.map(({ status, block }) => (
             <Button
               key={status}
               variant="outline"
               size="sm"
               className="rounded-xl border-slate-200 shadow-sm bg-white"
               onClick={() => handleStatusChange(status)}
+              disabled={!!block}
+              title={block?.message}
             >
-              Move to {STATUS_LABELS[status]}
+              {block && <Lock className="mr-2 h-3.5 w-3.5" />}
+              Move to {statusLabel(status, workflow)}
             </Button>
           ))}
 
@@ -486,6 +622,18 @@ export default function ViolationDetailPage() {
               pdfUrl={pdfUrl}
             />
           )}
+
+          {blockedMoves.length > 0 && (
+            <div className="w-full space-y-1">
+              {blockedMoves.map(({ status, block }) => (
+                <p key={status} className="flex items-center gap-1.5 text-xs text-slate-500">
+                  <Lock className="h-3 w-3 shrink-0" />
+                  <span className="font-medium text-slate-600">{statusLabel(status, workflow)}:</span>
+                  {block!.message}
+                </p>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Tabbed content */}
@@ -498,8 +646,27 @@ export default function ViolationDetailPage() {
           </TabsList>
 
           <TabsContent value="items" className="mt-4 space-y-3">
+            {items.length > 0 && (
+              <div className="rounded-xl border border-slate-100 bg-slate-50/50 p-5">
+                <div className="mb-3 flex items-center justify-between">
+                  <p className="text-sm font-bold tracking-tight text-slate-900">Item Progress</p>
+                  <p className="text-xs font-medium text-slate-500">
+                    {doneItems.length} of {trackedItems.length} items approved or abated
+                  </p>
+                </div>
+                <Progress value={itemProgress} className="h-2.5 bg-slate-200" />
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {countItemStatuses(items).map(({ status, count }) => (
+                    <Badge key={status} className={itemStatusColor(status)}>
+                      {count} {itemStatusLabel(status)}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
             {items.map((item) => {
               const itemPhotos = photosByItem.get(item.id) || [];
+              const stage = itemStage(item.status);
               return (
                 <Card key={item.id}>
                   <CardContent className="p-6">
@@ -518,6 +685,35 @@ export default function ViolationDetailPage() {
                             </span>
                           )}
                         </div>
+                        {/* Lifecycle steps; a disputed item sits outside them */}
+                        <div className="mb-4 flex flex-wrap items-center gap-3">
+                          <div className="flex items-center gap-1" title={itemStatusLabel(item.status)}>
+                            {ITEM_LIFECYCLE.map((step, i) => (
+                              <span
+                                key={step}
+                                className={cn('h-1.5 w-8 rounded-full', stage >= i ? 'bg-emerald-500' : 'bg-slate-200')}
+                              />
+                            ))}
+                          </div>
+                          <Select value={item.status} onValueChange={(value) => handleItemStatusChange(item.id, value as ItemStatus)}>
+                            <SelectTrigger size="sm" className={cn('h-7 w-auto gap-1.5 border-0 text-xs', itemStatusColor(item.status))}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {/* The photo states can't be picked, only shown */}
+                              {!MANUAL_ITEM_STATUSES.includes(item.status) && (
+                                <SelectItem value={item.status} disabled>
+                                  {itemStatusLabel(item.status)}
+                                </SelectItem>
+                              )}
+                              {MANUAL_ITEM_STATUSES.map((status) => (
+                                <SelectItem key={status} value={status}>
+                                  {itemStatusLabel(status)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                         <p className="text-sm font-medium text-slate-700 leading-relaxed max-w-2xl">{item.violation_description}</p>
                         {item.task_description && (
                           <div className="mt-4 rounded-xl border border-blue-100 bg-blue-50/50 p-4">
@@ -530,7 +726,12 @@ export default function ViolationDetailPage() {
                         <div className="mt-5 flex flex-wrap gap-4 text-xs font-semibold uppercase tracking-wider text-slate-400">
                           <span className="flex items-center gap-1.5"><MapPin className="h-3.5 w-3.5" /> {item.specific_location || '—'}</span>
                           <span className="flex items-center gap-1.5"><Building2 className="h-3.5 w-3.5" /> Floor {item.floor_number || '—'}</span>
-                          <span className="flex items-center gap-1.5"><Clock className="h-3.5 w-3.5" /> {item.abatement_deadline || '—'}</span>
+                          <span
+                            className={cn('flex items-center gap-1.5', item.status !== 'abated' && getUrgencyColor(item.abatement_deadline, violation.status))}
+                            title={item.abatement_deadline_text ? `${item.abatement_deadline_text} from date of service` : undefined}
+                          >
+                            <Clock className="h-3.5 w-3.5" /> Due {formatDueDate(item.abatement_deadline)}
+                          </span>
                         </div>
                       </div>
                       <div className="flex flex-col items-end gap-1">
@@ -545,7 +746,7 @@ export default function ViolationDetailPage() {
                     {itemPhotos.length > 0 && (
                       <div className="mt-4 border-t pt-4">
                         {/* Inspector Photos (BEFORE) */}
-                        {itemPhotos.filter(p => p.photo_type === 'INSPECTOR' && p.page_number).length > 0 && pdfUrl && (
+                        {itemPhotos.filter(p => p.photo_type === 'INSPECTOR' && p.page_number).length > 0 && (
                           <div className="mb-4">
                             <p className="mb-3 flex items-center gap-1.5 text-xs font-medium text-gray-500">
                               <Camera className="h-3.5 w-3.5" />
@@ -558,6 +759,8 @@ export default function ViolationDetailPage() {
                                   pdfUrl={pdfUrl}
                                   pageNumber={photo.page_number!}
                                   width={240}
+                                  imageUrl={(photo as ExtractedPhoto).signed_url}
+                                  thumbnailUrl={(photo as ExtractedPhoto).thumbnail_url}
                                   description={
                                     (photo.metadata as Record<string, string>)?.description || undefined
                                   }
@@ -651,55 +854,14 @@ export default function ViolationDetailPage() {
           </TabsContent>
 
           <TabsContent value="photos" className="mt-4">
-            {photos.length > 0 && pdfUrl ? (
-              <div className="space-y-6">
-                {/* Matched photos grouped by violation code */}
-                {Array.from(photosByItem.entries()).map(([itemId, itemPhotos]) => {
-                  const item = items.find(i => i.id === itemId);
-                  return (
-                    <div key={itemId}>
-                      <p className="mb-3 text-sm font-medium text-gray-700">
-                        #{item?.item_number} — {itemPhotos[0]?.matched_violation_code || 'Unknown Code'}
-                      </p>
-                      <div className="flex flex-wrap gap-4">
-                        {itemPhotos.map((photo) => (
-                          <EvidencePhoto
-                            key={photo.id}
-                            pdfUrl={pdfUrl}
-                            pageNumber={photo.page_number!}
-                            width={280}
-                            description={
-                              (photo.metadata as Record<string, string>)?.description || undefined
-                            }
-                          />
-                        ))}
-                      </div>
-                    </div>
-                  );
-                })}
-
-                {/* Unmatched photos */}
-                {unmatchedPhotos.length > 0 && (
-                  <div>
-                    <p className="mb-3 text-sm font-medium text-gray-500">
-                      Unmatched Evidence Photos
-                    </p>
-                    <div className="flex flex-wrap gap-4">
-                      {unmatchedPhotos.map((photo) => (
-                        <EvidencePhoto
-                          key={photo.id}
-                          pdfUrl={pdfUrl}
-                          pageNumber={photo.page_number!}
-                          width={280}
-                          description={
-                            (photo.metadata as Record<string, string>)?.description || undefined
-                          }
-                        />
-                      ))}
-                    </div>
-                  </div>
-                )}
-              </div>
+            {photos.length > 0 && (pdfUrl || photos.some(p => evidenceImageOf(p))) ? (
+              <PhotoMatchBoard
+                violationId={id}
+                items={items}
+                photos={photos}
+                pdfUrl={pdfUrl}
+                onReassigned={fetchData}
+              />
             ) : photos.length > 0 ? (
               <div className="py-8 text-center text-gray-500">
                 <p>PDF not available for rendering photos.</p>
@@ -709,7 +871,37 @@ export default function ViolationDetailPage() {
             )}
           </TabsContent>
 
-          <TabsContent value="submissions" className="mt-4">
+          <TabsContent value="submissions" className="mt-4 space-y-4">
+            {documents.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">DOB Correspondence</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {documents.map((document) => (
+                    <div key={document.id} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="flex items-center gap-2">
+                        <FileText className="h-4 w-4 text-gray-400" />
+                        <span className="font-medium">{DOCUMENT_TYPE_LABELS[document.document_type]}</span>
+                        <span className="text-xs text-gray-400">
+                          {new Date(document.created_at).toLocaleDateString()} · {document.source}
+                        </span>
+                      </div>
+                      {document.signed_url && (
+                        <a
+                          href={document.signed_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs font-medium text-blue-700 hover:underline"
+                        >
+                          View PDF
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
             <SubmissionTab violationId={violation.id} violationStatus={violation.status} />
           </TabsContent>
 
@@ -723,7 +915,13 @@ export default function ViolationDetailPage() {
                       <p className="text-gray-700">
                         {entry.action === 'STATUS_CHANGE'
                           ? `Status changed from ${(entry.old_values as Record<string, string>)?.status || '?'} to ${(entry.new_values as Record<string, string>)?.status || '?'}`
-                          : entry.action}
+                          : entry.action === 'PHOTO_REASSIGNED'
+                            ? `Evidence photo (page ${(entry.new_values as Record<string, unknown>)?.page_number ?? '?'}) moved from ${itemLabel((entry.old_values as Record<string, string | null>)?.violation_item_id)} to ${itemLabel((entry.new_values as Record<string, string | null>)?.violation_item_id)}`
+                            : entry.action === 'DOCUMENT_RECEIVED'
+                              ? `${DOCUMENT_TYPE_LABELS[(entry.new_values as Pick<ViolationDocument, 'document_type'>).document_type] ?? 'DOB document'} received${(entry.new_values as Record<string, unknown>)?.status === 'APPROVED' ? ' — violation approved' : ''}`
+                              : entry.action === 'DOB_RESPONSE'
+                                ? `DOB response read from email "${(entry.new_values as Record<string, string>)?.email_subject ?? ''}" — status set to ${(entry.new_values as Record<string, string>)?.status || '?'}`
+                                : entry.action}
                       </p>
                       <p className="text-xs text-gray-400">
                         {new Date(entry.created_at).toLocaleString()}
@@ -747,6 +945,14 @@ export default function ViolationDetailPage() {
         onSuccess={handleAssignSuccess}
       />
 
+      {/* Re-parse Diff Dialog */}
+      <ReparseDialog
+        violationId={id}
+        open={reparseDialogOpen}
+        onOpenChange={setReparseDialogOpen}
+        onApplied={fetchData}
+      />
+
       {/* Photo Lightbox */}
       <Dialog open={!!lightboxPhoto} onOpenChange={() => setLightboxPhoto(null)}>
         <DialogContent className="max-w-4xl">
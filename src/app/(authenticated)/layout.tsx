@@ -1,5 +1,6 @@
 import { Sidebar } from '@/components/layout/sidebar';
 import { AuthListener } from '@/components/auth/auth-listener';
+import { WorkflowProvider } from '@/components/workflow/workflow-provider';
 
 export default function AuthenticatedLayout({
   children,
@@ -13,7 +14,7 @@ export default function AuthenticatedLayout({
       <main className="flex-1 min-w-0">
         <div className="flex h-full flex-col rounded-[1.25rem] bg-white shadow-sm border border-slate-200/60 overflow-hidden">
           <div className="flex-1 overflow-auto">
-            {children}
+            <WorkflowProvider>{children}</WorkflowProvider>
           </div>
         </div>
       </main>
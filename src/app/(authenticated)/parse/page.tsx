@@ -1,14 +1,18 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { Nav } from '@/components/layout/nav';
 import { UploadZone } from '@/components/parser/upload-zone';
 import { ParseProgress } from '@/components/parser/parse-progress';
 import { ParsedResults } from '@/components/parser/parsed-results';
+import { ListChecks } from 'lucide-react';
 
 type ParseState = 'upload' | 'processing' | 'results';
 
 export default function ParsePage() {
+  const router = useRouter();
   const [state, setState] = useState<ParseState>('upload');
   const [violationId, setViolationId] = useState<string | null>(null);
 
@@ -29,11 +33,23 @@ export default function ParsePage() {
           <h2 className="text-3xl font-black tracking-tight text-slate-900">Upload NOI Document</h2>
           <p className="mt-2 text-base font-medium text-slate-500 max-w-xl mx-auto">
             Upload a Notice of Infraction PDF and our AI will extract all violation data automatically.
+            Drop several PDFs or a zip to queue a whole backlog.
           </p>
+          <Link
+            href="/parse/queue"
+            className="mt-3 inline-flex items-center gap-1.5 text-sm font-semibold text-blue-600 hover:text-blue-700"
+          >
+            <ListChecks className="h-4 w-4" />
+            View parse queue
+          </Link>
         </div>
 
         {state === 'upload' && (
-          <UploadZone onUploadComplete={handleUploadComplete} />
+          <UploadZone
+            onUploadComplete={handleUploadComplete}
+            onBatchQueued={() => router.push('/parse/queue')}
+            onDuplicateLinked={(id) => router.push(`/dashboard/${id}`)}
+          />
         )}
 
         {state === 'processing' && violationId && (
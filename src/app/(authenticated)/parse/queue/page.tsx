@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/client';
+import { Nav } from '@/components/layout/nav';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileUp, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { StatusBadge } from '@/components/workflow/status-badge';
+import type { Violation } from '@/lib/types';
+import type { ParseStepStatus } from '@/lib/ai/schemas';
+
+type QueueRow = Pick<
+  Violation,
+  'id' | 'notice_id' | 'infraction_address' | 'status' | 'parse_status' | 'pdf_storage_path' | 'page_start' | 'page_end' | 'created_at'
+> & { steps: ParseStepStatus[] | null };
+
+type QueueFilter = 'all' | 'active' | 'failed' | 'done';
+
+const ACTIVE_PARSE_STATUSES = ['pending', 'processing', 'duplicate_pending'];
+// Failed parses and parses held by the monthly AI budget can be re-queued
+const RETRYABLE_PARSE_STATUSES = ['failed', 'budget_paused'];
+const DONE_PARSE_STATUSES = ['completed', 'duplicate', 'manual', 'routed'];
+
+const STEP_LABELS: Record<string, string> = {
+  classify_document: 'Type',
+  ai_parse: 'Extract',
+  insert_records: 'Save',
+  analyze_pages: 'Pages',
+  match_photos: 'Photos',
+  extract_photos: 'Crop',
+  complete: 'Done',
+};
+
+const STEP_COLORS: Record<ParseStepStatus['status'], string> = {
+  pending: 'bg-gray-100 text-gray-500',
+  running: 'bg-blue-100 text-blue-700 animate-pulse',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+function matchesFilter(row: QueueRow, filter: QueueFilter) {
+  if (filter === 'active') return ACTIVE_PARSE_STATUSES.includes(row.parse_status);
+  if (filter === 'failed') return RETRYABLE_PARSE_STATUSES.includes(row.parse_status);
+  if (filter === 'done') return DONE_PARSE_STATUSES.includes(row.parse_status);
+  return true;
+}
+
+export default function ParseQueuePage() {
+  const [rows, setRows] = useState<QueueRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<QueueFilter>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [retrying, setRetrying] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Poll while anything is still parsing
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const fetchQueue = async () => {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from('violations')
+        .select('id, notice_id, infraction_address, status, parse_status, pdf_storage_path, page_start, page_end, created_at, steps:parse_metadata->steps')
+        .eq('source', 'parser')
+        .order('created_at', { ascending: false })
+        .limit(250);
+
+      if (cancelled) return;
+      const queue = (data || []) as unknown as QueueRow[];
+      setRows(queue);
+      setLoading(false);
+      if (queue.some((r) => ACTIVE_PARSE_STATUSES.includes(r.parse_status))) {
+        timer = setTimeout(fetchQueue, 5000);
+      }
+    };
+    fetchQueue();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [reloadKey]);
+
+  const counts: Record<QueueFilter, number> = {
+    all: rows.length,
+    active: rows.filter((r) => matchesFilter(r, 'active')).length,
+    failed: rows.filter((r) => matchesFilter(r, 'failed')).length,
+    done: rows.filter((r) => matchesFilter(r, 'done')).length,
+  };
+  const visible = rows.filter((r) => matchesFilter(r, filter));
+  const retryableIds = rows.filter((r) => RETRYABLE_PARSE_STATUSES.includes(r.parse_status)).map((r) => r.id);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      const res = await fetch('/api/parse/retry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ violationIds: [...selected] }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Retry failed');
+
+      toast.success(`Retrying ${data.retried.length} parse${data.retried.length !== 1 ? 's' : ''}`);
+      setSelected(new Set());
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <div>
+      <Nav title="Parse Queue" />
+      <div className="space-y-4 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <Tabs value={filter} onValueChange={(v) => setFilter(v as QueueFilter)}>
+            <TabsList>
+              <TabsTrigger value="all">All ({counts.all})</TabsTrigger>
+              <TabsTrigger value="active">In Progress ({counts.active})</TabsTrigger>
+              <TabsTrigger value="failed">Failed / Paused ({counts.failed})</TabsTrigger>
+              <TabsTrigger value="done">Done ({counts.done})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="flex gap-2">
+            {retryableIds.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => setSelected(new Set(retryableIds))}>
+                Select all retryable
+              </Button>
+            )}
+            <Button size="sm" onClick={handleRetry} disabled={selected.size === 0 || retrying}>
+              <RotateCcw className="mr-1 h-4 w-4" />
+              Retry selected{selected.size > 0 ? ` (${selected.size})` : ''}
+            </Button>
+            <Link href="/parse">
+              <Button variant="outline" size="sm">
+                <FileUp className="mr-1 h-4 w-4" />
+                Upload more
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex h-64 items-center justify-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent" />
+          </div>
+        ) : visible.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-gray-500">No parses here.</CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>File</TableHead>
+                  <TableHead>NOI</TableHead>
+                  <TableHead>Steps</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((row) => {
+                  const fileName = row.pdf_storage_path?.split('/').pop()?.replace(/^\d+_(\d+_)?/, '') || '—';
+                  const retryable = RETRYABLE_PARSE_STATUSES.includes(row.parse_status);
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell>
+                        {retryable && (
+                          <Checkbox
+                            checked={selected.has(row.id)}
+                            onCheckedChange={(checked) => toggle(row.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[220px]">
+                        <p className="truncate text-sm" title={fileName}>{fileName}</p>
+                        {row.page_start && (
+                          <p className="text-xs text-gray-400">Pages {row.page_start}–{row.page_end}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Link href={`/dashboard/${row.id}`} className="font-medium text-blue-700 hover:underline">
+                          {row.notice_id || 'Pending'}
+                        </Link>
+                        {row.infraction_address && (
+                          <p className="text-xs text-gray-500">{row.infraction_address}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {(row.steps || []).map((step) => (
+                            <span
+                              key={step.step}
+                              className={cn('rounded px-1.5 py-0.5 text-xs font-medium', STEP_COLORS[step.status])}
+                              title={step.message || step.status}
+                            >
+                              {STEP_LABELS[step.step] || step.step}
+                            </span>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {row.parse_status === 'failed' ? (
+                          <Badge className="bg-red-100 text-red-800">Parse failed</Badge>
+                        ) : row.parse_status === 'budget_paused' ? (
+                          <Badge className="bg-orange-100 text-orange-800">Paused — AI budget</Badge>
+                        ) : row.parse_status === 'duplicate_pending' ? (
+                          <Badge className="bg-amber-100 text-amber-800">Duplicate — decide</Badge>
+                        ) : row.parse_status === 'routed' ? (
+                          <Badge className="bg-indigo-100 text-indigo-800">Filed on existing NOI</Badge>
+                        ) : (
+                          <StatusBadge status={row.status} />
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-500">
+                        {new Date(row.created_at).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,8 +8,9 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Building2, Plus, DollarSign, AlertTriangle, ChevronRight, Trash2 } from 'lucide-react';
 import Link from 'next/link';
-import { STATUS_COLORS, STATUS_LABELS } from '@/lib/status-transitions';
-import type { ViolationStatus } from '@/lib/types';
+import { statusColor, statusLabel } from '@/lib/workflow';
+import { useWorkflow } from '@/components/workflow/workflow-provider';
+import type { WorkflowStatus } from '@/lib/types';
 
 interface UnitSummary {
   id: string;
@@ -18,7 +19,7 @@ interface UnitSummary {
   occupant_name: string | null;
   occupant_phone: string | null;
   violation_count: number;
-  worst_status: ViolationStatus | null;
+  worst_status: WorkflowStatus | null;
 }
 
 interface PropertyDetail {
@@ -40,6 +41,7 @@ interface PropertyDetail {
 export default function PropertyDetailPage() {
   const params = useParams();
   const propertyId = params.id as string;
+  const { workflow } = useWorkflow();
 
   const router = useRouter();
   const [detail, setDetail] = useState<PropertyDetail | null>(null);
@@ -216,8 +218,8 @@ export default function PropertyDetailPage() {
                     <div className="flex items-center justify-between text-xs text-slate-500 font-medium border-t border-slate-100 pt-3 mt-auto">
                       <span>{unit.violation_count} violation{unit.violation_count !== 1 ? 's' : ''}</span>
                       {unit.worst_status && (
-                        <span className={`rounded-full px-2 py-1 bg-slate-100 ${STATUS_COLORS[unit.worst_status]}`}>
-                          {STATUS_LABELS[unit.worst_status]}
+                        <span className={`rounded-full px-2 py-1 bg-slate-100 ${statusColor(unit.worst_status, workflow)}`}>
+                          {statusLabel(unit.worst_status, workflow)}
                         </span>
                       )}
                     </div>
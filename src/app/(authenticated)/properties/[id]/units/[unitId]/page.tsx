@@ -14,13 +14,15 @@ import {
   ArrowRight, DollarSign, Trash2, X, Send,
 } from 'lucide-react';
 import Link from 'next/link';
-import { STATUS_COLORS, STATUS_LABELS, getDaysRemaining, getUrgencyColor } from '@/lib/status-transitions';
-import type { Unit, Violation, ViolationStatus } from '@/lib/types';
+import { getDaysRemaining, getUrgencyColor } from '@/lib/status-transitions';
+import { isBuiltInStatus } from '@/lib/workflow';
+import { StatusBadge } from '@/components/workflow/status-badge';
+import type { Unit, Violation, ViolationStatus, WorkflowStatus } from '@/lib/types';
 
 // ── Action Grouping ──────────────────────────────────────────────
 
 const NEEDS_ACTION_STATUSES: ViolationStatus[] = [
-  'NEW', 'PARSING', 'PARSED', 'READY_FOR_SUBMISSION', 'REJECTED',
+  'NEW', 'PARSING', 'PARSED', 'NEEDS_REVIEW', 'READY_FOR_SUBMISSION', 'REJECTED',
   // TODO: Add 'ADDITIONAL_INFO_REQUESTED' once DOB response tracking is implemented
 ];
 const IN_PROGRESS_STATUSES: ViolationStatus[] = [
@@ -33,11 +35,12 @@ const RESOLVED_STATUSES: ViolationStatus[] = [
   'APPROVED', 'CLOSED',
 ];
 
-function getActionLabel(status: ViolationStatus): string {
+function getActionLabel(status: WorkflowStatus): string {
   switch (status) {
     case 'NEW': return 'Review & assign';
     case 'PARSING': return 'Processing upload...';
     case 'PARSED': return 'Review parsed data';
+    case 'NEEDS_REVIEW': return 'Correct low-confidence fields';
     case 'READY_FOR_SUBMISSION': return 'Review & submit to DOB';
     // TODO: case 'ADDITIONAL_INFO_REQUESTED': return 'Respond to DOB request';
     case 'REJECTED': return 'Fix & resubmit';
@@ -50,8 +53,8 @@ function getActionLabel(status: ViolationStatus): string {
 
 function ViolationCard({ v, onDelete }: { v: Violation; onDelete?: (id: string) => void }) {
   const days = getDaysRemaining(v.abatement_deadline);
-  const urgencyColor = getUrgencyColor(v.abatement_deadline, v.status as ViolationStatus);
-  const actionLabel = getActionLabel(v.status as ViolationStatus);
+  const urgencyColor = getUrgencyColor(v.abatement_deadline, v.status);
+  const actionLabel = getActionLabel(v.status);
 
   return (
     <Link href={`/dashboard/${v.id}`}>
@@ -91,11 +94,7 @@ function ViolationCard({ v, onDelete }: { v: Violation; onDelete?: (id: string)
 
           {/* Footer: Status + Deadline + Delete */}
           <div className="flex items-center justify-between border-t border-slate-100 pt-3 mt-3">
-            <Badge
-              className={`text-[0.6rem] uppercase tracking-wider font-bold rounded-md ${STATUS_COLORS[v.status as ViolationStatus] || ''}`}
-            >
-              {STATUS_LABELS[v.status as ViolationStatus] || v.status}
-            </Badge>
+            <StatusBadge status={v.status} className="text-[0.6rem] uppercase tracking-wider font-bold rounded-md" />
             <div className="flex items-center gap-2">
               {days !== null && !['APPROVED', 'CLOSED'].includes(v.status) && (
                 <span className={`text-xs font-medium ${urgencyColor}`}>
@@ -271,8 +270,9 @@ export default function UnitDetailPage() {
       return aDays - bDays;
     });
 
+  // Stages an org added to its workflow count as work in progress
   const inProgress = violations
-    .filter(v => IN_PROGRESS_STATUSES.includes(v.status as ViolationStatus))
+    .filter(v => IN_PROGRESS_STATUSES.includes(v.status as ViolationStatus) || !isBuiltInStatus(v.status))
     .sort((a, b) => (a.priority || 3) - (b.priority || 3));
 
   const submitted = violations
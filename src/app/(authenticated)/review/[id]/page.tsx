@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { createClient } from '@/lib/supabase/client';
+import { Nav } from '@/components/layout/nav';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { ReviewForm } from '@/components/parser/review-form';
+import { StatusBadge } from '@/components/workflow/status-badge';
+import type { Violation, ViolationItem } from '@/lib/types';
+
+const PdfViewer = dynamic(() => import('@/components/parser/pdf-viewer').then(m => m.PdfViewer), {
+  ssr: false,
+  loading: () => (
+    <div className="flex h-64 items-center justify-center rounded-lg border bg-gray-50">
+      <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-400 border-t-transparent" />
+    </div>
+  ),
+});
+
+export default function ReviewViolationPage() {
+  const params = useParams();
+  const router = useRouter();
+  const id = params.id as string;
+
+  const [violation, setViolation] = useState<Violation | null>(null);
+  const [items, setItems] = useState<ViolationItem[]>([]);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const supabase = createClient();
+
+      const [violationRes, itemsRes] = await Promise.all([
+        supabase.from('violations').select('*').eq('id', id).single(),
+        supabase.from('violation_items').select('*').eq('violation_id', id).order('item_number'),
+      ]);
+
+      if (violationRes.data) {
+        setViolation(violationRes.data as Violation);
+        if (violationRes.data.pdf_storage_path) {
+          const { data: urlData } = await supabase.storage
+            .from('noi-pdfs')
+            .createSignedUrl(violationRes.data.pdf_storage_path, 3600);
+          if (urlData?.signedUrl) setPdfUrl(urlData.signedUrl);
+        }
+      }
+      if (itemsRes.data) setItems(itemsRes.data as ViolationItem[]);
+      setLoading(false);
+    };
+    fetchData();
+  }, [id, reloadKey]);
+
+  const handleSaved = (approved: boolean) => {
+    if (approved) {
+      router.push(`/dashboard/${id}`);
+    } else {
+      setReloadKey((k) => k + 1);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!violation) {
+    return (
+      <div>
+        <Nav title="Review Parse" />
+        <p className="p-6 text-center text-gray-500">Violation not found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Nav title="Review Parse" />
+      <div className="space-y-4 p-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/review">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Review Queue
+              </Button>
+            </Link>
+            <h2 className="text-lg font-semibold">{violation.notice_id || 'Unknown NOI'}</h2>
+            <StatusBadge status={violation.status} />
+          </div>
+          <Link href={`/dashboard/${id}`}>
+            <Button variant="outline" size="sm">Open Violation</Button>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <div className="lg:sticky lg:top-24 lg:max-h-[calc(100vh-7rem)] lg:overflow-y-auto">
+            {pdfUrl ? (
+              <PdfViewer pdfUrl={pdfUrl} pageStart={violation.page_start} pageEnd={violation.page_end} />
+            ) : (
+              <p className="rounded-lg border bg-gray-50 p-6 text-center text-sm text-gray-500">
+                No PDF attached to this violation.
+              </p>
+            )}
+          </div>
+          <ReviewForm
+            key={violation.updated_at}
+            violation={violation}
+            items={items}
+            onSaved={handleSaved}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Nav } from '@/components/layout/nav';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle, ChevronRight, MapPin } from 'lucide-react';
+import type { Violation } from '@/lib/types';
+import type { ParseConfidence } from '@/lib/ai/schemas';
+
+export default function ReviewQueuePage() {
+  const [violations, setViolations] = useState<Violation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Oldest first — the queue is worked front to back
+    fetch('/api/violations?status=NEEDS_REVIEW&sortBy=created_at&sortDir=asc&pageSize=100')
+      .then(res => res.json())
+      .then(data => {
+        setViolations(data.violations || []);
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, []);
+
+  return (
+    <div>
+      <Nav title="Needs Review" />
+      <div className="mx-auto max-w-4xl space-y-4 p-6">
+        <p className="text-sm text-gray-500">
+          These NOIs parsed with low-confidence fields. Check the highlighted fields against the PDF
+          and approve them before they can be assigned to a contractor.
+        </p>
+
+        {loading ? (
+          <div className="flex h-64 items-center justify-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent" />
+          </div>
+        ) : violations.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+              <CheckCircle className="h-8 w-8 text-green-500" />
+              <p className="font-medium text-slate-700">Nothing to review</p>
+              <p className="text-sm text-gray-500">Every parsed NOI is above the confidence threshold.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {violations.map((v) => {
+              const confidence = v.parse_metadata?.field_confidence as ParseConfidence | undefined;
+              return (
+                <Link key={v.id} href={`/review/${v.id}`}>
+                  <Card className="transition-shadow hover:shadow-md">
+                    <CardContent className="flex items-center justify-between p-4">
+                      <div className="space-y-1">
+                        <p className="font-semibold">{v.notice_id || 'Unknown NOI'}</p>
+                        <p className="flex items-center gap-1 text-sm text-gray-500">
+                          <MapPin className="h-3 w-3" />
+                          {v.infraction_address || '—'}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                          Parsed {new Date(v.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {confidence && (
+                          <Badge variant="outline" className="border-amber-300 text-amber-700">
+                            <AlertTriangle className="mr-1 h-3 w-3" />
+                            {confidence.low_confidence_count} field{confidence.low_confidence_count !== 1 ? 's' : ''} to check
+                          </Badge>
+                        )}
+                        <ChevronRight className="h-4 w-4 text-gray-400" />
+                      </div>
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,34 +8,81 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { AIBudgetAction, AIFeature, AIUsageSummaryRow } from '@/lib/ai/usage';
+import type { ViolationCode } from '@/lib/types';
+import {
+  DEFAULT_DEADLINE_RULES,
+  computeItemDeadline,
+  dcHolidays,
+  formatDueDate,
+  readDeadlineRules,
+  type DeadlineRules,
+} from '@/lib/deadlines';
+import {
+  readMailboxRules,
+  type MailboxRuleList,
+  type MailboxRules,
+  type RulePreviewMessage,
+} from '@/lib/mailbox-rules';
+import {
+  DEFAULT_WORKFLOW,
+  REQUIRED_STATUSES,
+  REQUIRED_TRANSITIONS,
+  WORKFLOW_COLORS,
+  readWorkflow,
+  validateWorkflow,
+  type WorkflowColor,
+  type WorkflowState,
+} from '@/lib/workflow';
+import { useWorkflow } from '@/components/workflow/workflow-provider';
 import {
   Mail,
   RefreshCw,
   Unplug,
-  CheckCircle2,
   AlertTriangle,
-  Clock,
   ExternalLink,
   Users,
   Plus,
   Shield,
   FlaskConical,
+  DollarSign,
+  CalendarClock,
+  BookOpen,
+  Inbox,
+  Copy,
+  Filter,
+  History,
+  GitBranch,
+  Trash2,
 } from 'lucide-react';
 
 interface EmailConnection {
   id: string;
+  provider: 'gmail' | 'outlook';
   connected_email: string;
   status: string;
   auto_poll_enabled: boolean;
   last_synced_at: string | null;
   last_sync_message_count: number;
+  search_rules: Record<string, unknown> | null;
+  owner_id: string | null;
+  owner: { full_name: string | null; email: string } | null;
   created_at: string;
 }
 
+interface OrgMember {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
 interface SyncLogEntry {
   id: string;
   gmail_message_id: string;
+  attachment_name: string;
   from_address: string | null;
   subject: string | null;
   received_at: string | null;
@@ -55,13 +102,15 @@ export default function SettingsPage() {
 
 function SettingsContent() {
   const searchParams = useSearchParams();
-  const [connection, setConnection] = useState<EmailConnection | null>(null);
-  const [recentSyncs, setRecentSyncs] = useState<SyncLogEntry[]>([]);
+  const [connections, setConnections] = useState<EmailConnection[]>([]);
+  const [members, setMembers] = useState<OrgMember[]>([]);
   const [loading, setLoading] = useState(true);
-  const [syncing, setSyncing] = useState(false);
   const [connecting, setConnecting] = useState(false);
-  const [disconnecting, setDisconnecting] = useState(false);
-  const [togglingPoll, setTogglingPoll] = useState(false);
+  // Connection a sync, toggle or disconnect is running for
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Mailbox whose search rules and backfills are shown
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = connections.find((c) => c.id === selectedId) ?? connections[0] ?? null;
 
   // Handle OAuth callback params
   useEffect(() => {
@@ -69,20 +118,20 @@ function SettingsContent() {
     const emailError = searchParams.get('email_error');
 
     if (emailConnected) {
-      toast.success(`Gmail connected: ${emailConnected}`);
+      toast.success(`Mailbox connected: ${emailConnected}`);
       // Clean URL
       window.history.replaceState({}, '', '/settings');
     }
     if (emailError) {
       const messages: Record<string, string> = {
-        access_denied: 'Gmail access was denied',
+        access_denied: 'Mailbox access was denied',
         missing_params: 'Missing OAuth parameters',
         invalid_state: 'Invalid OAuth state — please try again',
         no_tokens: 'Failed to get access tokens',
         storage_failed: 'Failed to save connection',
         callback_failed: 'OAuth callback failed',
       };
-      toast.error(messages[emailError] || `Gmail connection error: ${emailError}`);
+      toast.error(messages[emailError] || `Mailbox connection error: ${emailError}`);
       window.history.replaceState({}, '', '/settings');
     }
   }, [searchParams]);
@@ -92,8 +141,7 @@ function SettingsContent() {
       const response = await fetch('/api/email/status');
       const data = await response.json();
       if (response.ok) {
-        setConnection(data.connection);
-        setRecentSyncs(data.recentSyncs || []);
+        setConnections(data.connections);
       }
     } catch (err) {
       console.error('Failed to fetch email status:', err);
@@ -106,10 +154,25 @@ function SettingsContent() {
     fetchStatus();
   }, []);
 
-  const handleConnect = async () => {
+  // Members a mailbox can be handed to
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/team');
+        if (res.ok) {
+          const data = await res.json();
+          setMembers(data.members);
+        }
+      } catch {
+        console.error('Failed to load team members');
+      }
+    })();
+  }, []);
+
+  const handleConnect = async (provider: EmailConnection['provider']) => {
     setConnecting(true);
     try {
-      const response = await fetch('/api/email/connect');
+      const response = await fetch(`/api/email/connect?provider=${provider}`);
       const data = await response.json();
       if (response.ok && data.url) {
         window.location.href = data.url;
@@ -118,19 +181,23 @@ function SettingsContent() {
         setConnecting(false);
       }
     } catch {
-      toast.error('Failed to connect Gmail');
+      toast.error('Failed to connect mailbox');
       setConnecting(false);
     }
   };
 
-  const handleSync = async () => {
-    setSyncing(true);
+  const handleSync = async (connection: EmailConnection) => {
+    setBusyId(connection.id);
     try {
-      const response = await fetch('/api/email/sync', { method: 'POST' });
+      const response = await fetch('/api/email/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionId: connection.id }),
+      });
       const data = await response.json();
       if (response.ok) {
         toast.success(
-          `Sync complete: ${data.violationsCreated} new violation(s) found, ${data.skipped} skipped`,
+          `${connection.connected_email}: ${data.violationsCreated} new violation(s) found, ${data.duplicates} already imported, ${data.responses} DOB response(s), ${data.skipped} skipped`,
         );
         await fetchStatus();
       } else {
@@ -139,43 +206,46 @@ function SettingsContent() {
     } catch {
       toast.error('Sync failed');
     } finally {
-      setSyncing(false);
+      setBusyId(null);
     }
   };
 
-  const handleToggleAutoPoll = async (enabled: boolean) => {
-    setTogglingPoll(true);
+  const updateConnection = async (connection: EmailConnection, updates: Record<string, unknown>, success: string) => {
+    setBusyId(connection.id);
     try {
       const response = await fetch('/api/email/status', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ auto_poll_enabled: enabled }),
+        body: JSON.stringify({ connectionId: connection.id, ...updates }),
       });
       const data = await response.json();
       if (response.ok) {
-        setConnection(data.connection);
-        toast.success(enabled ? 'Auto-sync enabled' : 'Auto-sync disabled');
+        await fetchStatus();
+        toast.success(success);
       } else {
         toast.error(data.error || 'Failed to update setting');
       }
     } catch {
       toast.error('Failed to update setting');
     } finally {
-      setTogglingPoll(false);
+      setBusyId(null);
     }
   };
 
-  const handleDisconnect = async () => {
-    if (!confirm('Are you sure you want to disconnect Gmail? This will stop email monitoring.')) {
+  const handleDisconnect = async (connection: EmailConnection) => {
+    if (!confirm(`Disconnect ${connection.connected_email}? This will stop monitoring that mailbox.`)) {
       return;
     }
-    setDisconnecting(true);
+    setBusyId(connection.id);
     try {
-      const response = await fetch('/api/email/disconnect', { method: 'DELETE' });
+      const response = await fetch('/api/email/disconnect', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionId: connection.id }),
+      });
       if (response.ok) {
-        setConnection(null);
-        setRecentSyncs([]);
-        toast.success('Gmail disconnected');
+        setConnections((prev) => prev.filter((c) => c.id !== connection.id));
+        toast.success(`${connection.connected_email} disconnected`);
       } else {
         const data = await response.json();
         toast.error(data.error || 'Failed to disconnect');
@@ -183,7 +253,7 @@ function SettingsContent() {
     } catch {
       toast.error('Failed to disconnect');
     } finally {
-      setDisconnecting(false);
+      setBusyId(null);
     }
   };
 
@@ -196,10 +266,16 @@ function SettingsContent() {
     <div className="mx-auto max-w-3xl p-6">
       <h1 className="mb-6 text-2xl font-bold text-gray-900">Settings</h1>
 
-      <Tabs defaultValue="gmail">
+      <Tabs defaultValue={searchParams.get('tab') || 'gmail'}>
         <TabsList>
-          <TabsTrigger value="gmail">Gmail</TabsTrigger>
+          <TabsTrigger value="gmail">Mailboxes</TabsTrigger>
+          <TabsTrigger value="inbound">Inbound Email</TabsTrigger>
+          <TabsTrigger value="sync-history">Sync History</TabsTrigger>
           <TabsTrigger value="team">Team</TabsTrigger>
+          <TabsTrigger value="deadlines">Deadlines</TabsTrigger>
+          <TabsTrigger value="workflow">Workflow</TabsTrigger>
+          <TabsTrigger value="codes">Codes</TabsTrigger>
+          <TabsTrigger value="ai-usage">AI Usage</TabsTrigger>
           <TabsTrigger value="testing">Testing</TabsTrigger>
         </TabsList>
 
@@ -214,24 +290,168 @@ function SettingsContent() {
                 Automatically detect incoming NOI emails and import them into the system.
               </CardDescription>
             </CardHeader>
-            <CardContent>
-              <div className="py-10 text-center">
-                <Mail className="mx-auto mb-3 h-12 w-12 text-slate-200" />
-                <Badge variant="outline" className="text-sm font-semibold text-slate-500 border-slate-300 px-4 py-1">
-                  Coming Soon
-                </Badge>
-                <p className="mt-3 text-sm text-slate-400">
-                  Gmail integration for automatic NOI detection is under development.
-                </p>
-              </div>
+            <CardContent className="space-y-4">
+              {loading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+              ) : connections.length > 0 ? (
+                <>
+                  {connections.map((connection) => {
+                    const busy = busyId === connection.id;
+                    const active = connection.status === 'active';
+                    return (
+                      <div key={connection.id} className="space-y-3 rounded-lg border p-4">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex min-w-0 items-center gap-2">
+                            <p className="truncate font-medium text-gray-900">{connection.connected_email}</p>
+                            <Badge variant="outline">{PROVIDER_LABELS[connection.provider]}</Badge>
+                          </div>
+                          <Badge className={active ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}>
+                            {connection.status}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Last sync: {formatDate(connection.last_synced_at)}
+                          {connection.last_synced_at && ` · ${connection.last_sync_message_count} new violation(s)`}
+                        </p>
+
+                        <div className="flex flex-wrap items-center gap-4">
+                          <div className="flex items-center gap-2">
+                            <p className="text-sm text-gray-700">Owner</p>
+                            <Select
+                              value={connection.owner_id ?? ''}
+                              onValueChange={(v) => updateConnection(connection, { owner_id: v }, 'Owner updated')}
+                              disabled={busy || members.length === 0}
+                            >
+                              <SelectTrigger className="h-8 w-48">
+                                <SelectValue placeholder={connection.owner?.full_name || connection.owner?.email || 'No owner'} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {members.map((m) => (
+                                  <SelectItem key={m.id} value={m.id}>{m.full_name || m.email}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={connection.auto_poll_enabled}
+                              onCheckedChange={(enabled) => updateConnection(
+                                connection,
+                                { auto_poll_enabled: enabled },
+                                enabled ? 'Auto-sync enabled' : 'Auto-sync disabled',
+                              )}
+                              disabled={busy || !active}
+                            />
+                            <p className="text-sm text-gray-700">Auto-sync</p>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-wrap gap-2">
+                          <Button size="sm" onClick={() => handleSync(connection)} disabled={busy || !active}>
+                            <RefreshCw className={`mr-2 h-4 w-4 ${busy ? 'animate-spin' : ''}`} />
+                            Sync Now
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant={selected?.id === connection.id ? 'secondary' : 'outline'}
+                            onClick={() => setSelectedId(connection.id)}
+                          >
+                            <Filter className="mr-2 h-4 w-4" />
+                            Rules &amp; Backfill
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-red-600"
+                            onClick={() => handleDisconnect(connection)}
+                            disabled={busy}
+                          >
+                            <Unplug className="mr-2 h-4 w-4" />
+                            Disconnect
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">
+                      Each message&apos;s result is in the Sync History tab.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={() => handleConnect('gmail')} disabled={connecting}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Gmail
+                      </Button>
+                      <Button variant="outline" onClick={() => handleConnect('outlook')} disabled={connecting}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Microsoft 365
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="py-6 text-center">
+                  <Mail className="mx-auto mb-3 h-12 w-12 text-slate-200" />
+                  <p className="mb-4 text-sm text-gray-500">
+                    Connect the Gmail or Microsoft 365 mailboxes DOB sends NOIs to. Access is
+                    read-only apart from tagging imported messages DOB-Processed.
+                  </p>
+                  <div className="flex justify-center gap-2">
+                    <Button onClick={() => handleConnect('gmail')} disabled={connecting}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      {connecting ? 'Connecting...' : 'Connect Gmail'}
+                    </Button>
+                    <Button variant="outline" onClick={() => handleConnect('outlook')} disabled={connecting}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      Connect Microsoft 365
+                    </Button>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
+
+          {selected && <BackfillCard key={`backfill-${selected.id}`} connection={selected} />}
+
+          {selected && (
+            <MailboxRulesCard
+              key={selected.id}
+              connectionId={selected.id}
+              connectedEmail={selected.connected_email}
+              initialRules={readMailboxRules(selected.search_rules)}
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="inbound" className="mt-4">
+          <InboundEmailTab />
+        </TabsContent>
+
+        <TabsContent value="sync-history" className="mt-4">
+          <SyncHistoryTab />
         </TabsContent>
 
         <TabsContent value="team" className="mt-4">
           <TeamTab />
         </TabsContent>
 
+        <TabsContent value="deadlines" className="mt-4">
+          <DeadlinesTab />
+        </TabsContent>
+
+        <TabsContent value="workflow" className="mt-4">
+          <WorkflowTab />
+        </TabsContent>
+
+        <TabsContent value="codes" className="mt-4">
+          <CodesTab />
+        </TabsContent>
+
+        <TabsContent value="ai-usage" className="mt-4">
+          <AIUsageTab />
+        </TabsContent>
+
         <TabsContent value="testing" className="mt-4">
           <TestingTab />
         </TabsContent>
@@ -240,77 +460,1513 @@ function SettingsContent() {
   );
 }
 
-function TestingTab() {
-  const [skipVerification, setSkipVerification] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const [toggling, setToggling] = useState(false);
+const PROVIDER_LABELS: Record<EmailConnection['provider'], string> = {
+  gmail: 'Gmail',
+  outlook: 'Microsoft 365',
+};
+
+interface EmailBackfill {
+  id: string;
+  email_connection_id: string;
+  start_date: string;
+  end_date: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  pages_processed: number;
+  messages_found: number;
+  violations_created: number;
+  duplicates: number;
+  skipped: number;
+  failed: number;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+const BACKFILL_STATUS_STYLES: Record<EmailBackfill['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-amber-100 text-amber-800',
+};
+
+function BackfillCard({ connection }: { connection: EmailConnection }) {
+  const [backfills, setBackfills] = useState<EmailBackfill[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState(() => new Date().toLocaleDateString('en-CA'));
+  const [saving, setSaving] = useState(false);
+
+  const fetchBackfills = useCallback(async () => {
+    try {
+      const res = await fetch('/api/email/backfill');
+      if (res.ok) {
+        const data = await res.json();
+        setBackfills(data.backfills.filter((b: EmailBackfill) => b.email_connection_id === connection.id));
+      }
+    } catch {
+      console.error('Failed to load backfills');
+    }
+  }, [connection.id]);
 
   useEffect(() => {
     (async () => {
-      try {
-        const res = await fetch('/api/settings');
-        if (res.ok) {
-          const data = await res.json();
-          setSkipVerification(data.settings?.skip_photo_verification === true);
-        }
-      } catch {
-        console.error('Failed to load settings');
-      }
-      setLoading(false);
+      await fetchBackfills();
     })();
-  }, []);
+  }, [fetchBackfills]);
 
-  const handleToggle = async (enabled: boolean) => {
-    setToggling(true);
+  // Follow progress while a backfill is going
+  const inProgress = backfills.some((b) => b.status === 'pending' || b.status === 'running');
+  useEffect(() => {
+    if (!inProgress) return;
+    const interval = setInterval(fetchBackfills, 5000);
+    return () => clearInterval(interval);
+  }, [inProgress, fetchBackfills]);
+
+  const handleStart = async () => {
+    setSaving(true);
     try {
-      const res = await fetch('/api/settings', {
+      const res = await fetch('/api/email/backfill', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionId: connection.id, startDate, endDate }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success('Backfill started');
+        await fetchBackfills();
+      } else {
+        toast.error(data.error || 'Failed to start backfill');
+      }
+    } catch {
+      toast.error('Failed to start backfill');
+    }
+    setSaving(false);
+  };
+
+  const handleAction = async (backfill: EmailBackfill, method: 'POST' | 'DELETE') => {
+    try {
+      const res = await fetch(`/api/email/backfill/${backfill.id}`, { method });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(method === 'POST' ? 'Backfill resumed' : 'Backfill cancelled');
+        await fetchBackfills();
+      } else {
+        toast.error(data.error || 'Failed to update backfill');
+      }
+    } catch {
+      toast.error('Failed to update backfill');
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-blue-600" />
+          <CardTitle>Import Past Emails: {connection.connected_email}</CardTitle>
+        </div>
+        <CardDescription>
+          Import NOIs already in the mailbox from a date range, using the search rules below.
+          Messages imported before are not imported again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <p className="mb-1 text-xs font-medium text-gray-500">From</p>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="flex-1">
+            <p className="mb-1 text-xs font-medium text-gray-500">To</p>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <Button onClick={handleStart} disabled={saving || inProgress || !startDate || !endDate}>
+            {saving ? 'Starting...' : 'Start Backfill'}
+          </Button>
+        </div>
+
+        {backfills.map((backfill) => (
+          <div key={backfill.id} className="rounded-lg border p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium text-gray-900">
+                {formatDueDate(backfill.start_date)} – {formatDueDate(backfill.end_date)}
+              </p>
+              <div className="flex items-center gap-2">
+                <Badge className={BACKFILL_STATUS_STYLES[backfill.status]}>{backfill.status}</Badge>
+                {(backfill.status === 'pending' || backfill.status === 'running') && (
+                  <Button size="sm" variant="outline" onClick={() => handleAction(backfill, 'DELETE')}>
+                    Cancel
+                  </Button>
+                )}
+                {(backfill.status === 'failed' || backfill.status === 'cancelled') && (
+                  <Button size="sm" variant="outline" onClick={() => handleAction(backfill, 'POST')}>
+                    Resume
+                  </Button>
+                )}
+              </div>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {backfill.messages_found} message(s) in {backfill.pages_processed} page(s) ·{' '}
+              {backfill.violations_created} imported · {backfill.duplicates} already imported ·{' '}
+              {backfill.skipped} skipped{backfill.failed > 0 && ` · ${backfill.failed} failed`}
+            </p>
+            {backfill.error_message && <p className="mt-1 text-xs text-red-600">{backfill.error_message}</p>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+const RULE_ROWS: Array<{ label: string; hint: string; include: MailboxRuleList; exclude: MailboxRuleList }> = [
+  {
+    label: 'Senders',
+    hint: '@dc.gov for a domain, clerk@dc.gov for one address, or a name',
+    include: 'include_senders',
+    exclude: 'exclude_senders',
+  },
+  { label: 'Subjects', hint: 'Words or phrases in the subject', include: 'include_subjects', exclude: 'exclude_subjects' },
+  { label: 'Labels', hint: 'Gmail labels or Outlook categories', include: 'include_labels', exclude: 'exclude_labels' },
+  {
+    label: 'Attachments',
+    hint: 'PDF file names; * and ? are wildcards',
+    include: 'include_attachments',
+    exclude: 'exclude_attachments',
+  },
+];
+
+function MailboxRulesCard({
+  connectionId,
+  connectedEmail,
+  initialRules,
+}: {
+  connectionId: string;
+  connectedEmail: string;
+  initialRules: MailboxRules;
+}) {
+  // One rule per line while editing
+  const [lists, setLists] = useState<Record<MailboxRuleList, string>>(() => {
+    const text = {} as Record<MailboxRuleList, string>;
+    for (const row of RULE_ROWS) {
+      text[row.include] = initialRules[row.include].join('\n');
+      text[row.exclude] = initialRules[row.exclude].join('\n');
+    }
+    return text;
+  });
+  const [maxResults, setMaxResults] = useState(String(initialRules.max_results));
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [preview, setPreview] = useState<{ query: string; messages: RulePreviewMessage[] } | null>(null);
+
+  const currentRules = () => {
+    const rules: Record<string, unknown> = { max_results: Number(maxResults) };
+    for (const [key, text] of Object.entries(lists)) {
+      rules[key] = text.split('\n').map((line) => line.trim()).filter(Boolean);
+    }
+    return rules;
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/email/rules', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ skip_photo_verification: enabled }),
+        body: JSON.stringify({ connectionId, rules: currentRules() }),
       });
+      const data = await res.json();
       if (res.ok) {
-        setSkipVerification(enabled);
-        toast.success(enabled ? 'Photo verification disabled (QA mode)' : 'Photo verification re-enabled');
+        toast.success('Search rules saved');
       } else {
-        const data = await res.json();
-        toast.error(data.error || 'Failed to update setting');
+        toast.error(data.error || 'Failed to save search rules');
       }
     } catch {
-      toast.error('Failed to update setting');
+      toast.error('Failed to save search rules');
     }
-    setToggling(false);
+    setSaving(false);
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      const res = await fetch('/api/email/rules/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionId, rules: currentRules() }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setPreview(data);
+      } else {
+        toast.error(data.error || 'Failed to test search rules');
+      }
+    } catch {
+      toast.error('Failed to test search rules');
+    }
+    setTesting(false);
   };
 
   return (
-    <Card>
+    <Card className="mt-4">
       <CardHeader>
         <div className="flex items-center gap-2">
-          <FlaskConical className="h-5 w-5 text-amber-600" />
-          <CardTitle>QA & Testing</CardTitle>
+          <Filter className="h-5 w-5 text-blue-600" />
+          <CardTitle>Search Rules: {connectedEmail}</CardTitle>
         </div>
         <CardDescription>
-          Settings that make it easier to test the full workflow without real data.
+          Which emails from this mailbox are imported as NOIs. A message must match one include rule in each filled-in
+          list and no exclude rule. Empty lists don&apos;t filter.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {RULE_ROWS.map((row) => (
+          <div key={row.label} className="space-y-2 rounded-lg border p-4">
+            <div>
+              <p className="font-medium text-gray-900">{row.label}</p>
+              <p className="text-xs text-gray-500">{row.hint}, one per line.</p>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {([['Include', row.include], ['Exclude', row.exclude]] as const).map(([title, key]) => (
+                <div key={key}>
+                  <p className="mb-1 text-xs font-medium text-gray-500">{title}</p>
+                  <Textarea
+                    rows={3}
+                    value={lists[key]}
+                    onChange={(e) => setLists((l) => ({ ...l, [key]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
         <div className="flex items-center justify-between rounded-lg border p-4">
           <div>
-            <p className="font-medium text-gray-900">Skip Photo Angle Verification</p>
+            <p className="font-medium text-gray-900">Search page size</p>
+            <p className="text-sm text-gray-500">Messages fetched per mailbox search request. Syncs read every page.</p>
+          </div>
+          <Input
+            type="number"
+            min={1}
+            max={500}
+            className="w-24"
+            value={maxResults}
+            onChange={(e) => setMaxResults(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleTest} disabled={testing}>
+            <FlaskConical className="mr-2 h-4 w-4" />
+            {testing ? 'Testing...' : 'Test Rules'}
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
             <p className="text-sm text-gray-500">
-              When enabled, contractor photo uploads are auto-approved without AI verification.
+              {preview.messages.filter((m) => m.matched).length} of {preview.messages.length} recent
+              messages with attachments would be imported. Search: <code className="text-xs">{preview.query}</code>
             </p>
-            {skipVerification && (
-              <p className="mt-1 text-xs font-medium text-amber-600">
-                Active — all contractor photos will be auto-approved
-              </p>
-            )}
+            {preview.messages.map((message) => (
+              <div key={message.id} className="rounded border px-3 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge className={message.matched ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}>
+                    {message.matched ? 'Match' : 'No match'}
+                  </Badge>
+                  <p className="min-w-0 flex-1 truncate text-gray-900">{message.subject || '(no subject)'}</p>
+                </div>
+                <p className="mt-1 truncate text-xs text-gray-500">
+                  {message.from}
+                  {message.receivedAt && ` · ${new Date(message.receivedAt).toLocaleString()}`}
+                  {message.attachment && ` · imports ${message.attachment}`}
+                </p>
+                {message.reasons.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-xs">
+                    {message.reasons.map((reason) => (
+                      <li key={reason.text} className={reason.ok ? 'text-green-700' : 'text-red-600'}>
+                        {reason.text}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
           </div>
-          <Switch
-            checked={skipVerification}
-            onCheckedChange={handleToggle}
-            disabled={loading || toggling}
-          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface InboundEmailConnection {
+  id: string;
+  connected_email: string;
+  status: string;
+  last_synced_at: string | null;
+  created_at: string;
+  url: string;
+}
+
+interface SyncHistoryEntry extends SyncLogEntry {
+  violations: { notice_id: string | null } | null;
+  email_connections: { provider: string; connected_email: string } | null;
+}
+
+const SYNC_STATUS_STYLES: Record<string, string> = {
+  processed: 'bg-green-100 text-green-800',
+  response: 'bg-blue-100 text-blue-800',
+  duplicate: 'bg-gray-100 text-gray-700',
+  skipped: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function SyncHistoryTab() {
+  const [entries, setEntries] = useState<SyncHistoryEntry[]>([]);
+  const [status, setStatus] = useState('all');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (status !== 'all') params.set('status', status);
+      const res = await fetch(`/api/email/log?${params}`);
+      if (res.ok) {
+        const data = await res.json();
+        setEntries(data.entries);
+        setTotalPages(Math.max(1, data.totalPages));
+      }
+    } catch {
+      console.error('Failed to load sync history');
+    }
+    setLoading(false);
+  }, [status, page]);
+
+  useEffect(() => {
+    (async () => {
+      await fetchEntries();
+    })();
+  }, [fetchEntries]);
+
+  const handleRetry = async (entry: SyncHistoryEntry, force: boolean) => {
+    if (force && !confirm('Import every PDF in this message, even though the search rules skipped it?')) return;
+    setRetryingId(entry.id);
+    try {
+      const res = await fetch(`/api/email/log/${entry.id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ force }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        const imported = data.outcomes.filter((o: { status: string }) => o.status === 'processed').length;
+        toast.success(imported ? `Imported ${imported} attachment(s)` : `Retried: ${data.outcomes[0]?.status ?? 'nothing to import'}`);
+        await fetchEntries();
+      } else {
+        toast.error(data.error || 'Retry failed');
+      }
+    } catch {
+      toast.error('Retry failed');
+    }
+    setRetryingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-blue-600" />
+            <CardTitle>Sync History</CardTitle>
+          </div>
+          <Select
+            value={status}
+            onValueChange={(v) => {
+              setStatus(v);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All results</SelectItem>
+              <SelectItem value="processed">Imported</SelectItem>
+              <SelectItem value="response">DOB responses</SelectItem>
+              <SelectItem value="duplicate">Duplicates</SelectItem>
+              <SelectItem value="skipped">Skipped</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
+        <CardDescription>
+          Every message email sync has looked at. Retry a failed or skipped message, or force-import one the
+          search rules skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">No messages yet.</p>
+        ) : (
+          entries.map((entry) => {
+            // Webhook mail isn't stored, so only mailbox messages can be fetched again
+            const fromMailbox = !!entry.email_connections && entry.email_connections.provider !== 'webhook';
+            return (
+              <div key={entry.id} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium text-gray-900">
+                      {entry.subject || '(no subject)'}
+                      {entry.attachment_name && <span className="font-normal text-gray-500"> · {entry.attachment_name}</span>}
+                    </p>
+                    <p className="truncate text-xs text-gray-500">
+                      {entry.from_address} · {entry.received_at ? new Date(entry.received_at).toLocaleString() : 'Unknown date'}
+                      {entry.email_connections && ` · ${entry.email_connections.connected_email}`}
+                    </p>
+                  </div>
+                  <Badge className={SYNC_STATUS_STYLES[entry.status] || 'bg-gray-100 text-gray-700'}>{entry.status}</Badge>
+                </div>
+                {entry.error_message && (
+                  <p className={`mt-1 text-xs ${entry.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+                    {entry.error_message}
+                  </p>
+                )}
+                <div className="mt-2 flex items-center gap-2">
+                  {entry.violation_id && (
+                    <a
+                      href={`/dashboard/${entry.violation_id}`}
+                      className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      {entry.violations?.notice_id || 'View violation'}
+                    </a>
+                  )}
+                  <div className="ml-auto flex gap-2">
+                    {fromMailbox && (entry.status === 'failed' || entry.status === 'skipped') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={retryingId === entry.id}
+                        onClick={() => handleRetry(entry, false)}
+                      >
+                        <RefreshCw className="mr-1 h-3 w-3" />
+                        Retry
+                      </Button>
+                    )}
+                    {fromMailbox && entry.status === 'skipped' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={retryingId === entry.id}
+                        onClick={() => handleRetry(entry, true)}
+                      >
+                        Force Import
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between pt-2">
+            <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <p className="text-xs text-gray-500">Page {page} of {totalPages}</p>
+            <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function InboundEmailTab() {
+  const [connection, setConnection] = useState<InboundEmailConnection | null>(null);
+  const [label, setLabel] = useState('');
+  // Only known right after setup or rotation; the server keeps it encrypted
+  const [secret, setSecret] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/email/inbound');
+        if (res.ok) {
+          const data = await res.json();
+          setConnection(data.connection);
+        }
+      } catch {
+        console.error('Failed to load inbound email');
+      }
+      setLoading(false);
+    })();
+  }, []);
+
+  const handleSetup = async () => {
+    if (connection && !confirm('Rotate the signing secret? Requests signed with the old secret will be rejected.')) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch('/api/email/inbound', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: label.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setConnection(data.connection);
+        setSecret(data.secret);
+        setLabel('');
+        toast.success(connection ? 'Signing secret rotated' : 'Inbound email address created');
+      } else {
+        toast.error(data.error || 'Failed to set up inbound email');
+      }
+    } catch {
+      toast.error('Failed to set up inbound email');
+    }
+    setSaving(false);
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the inbound email address? Forwarded messages will stop being imported.')) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/email/inbound', { method: 'DELETE' });
+      if (res.ok) {
+        setConnection(null);
+        setSecret(null);
+        toast.success('Inbound email removed');
+      } else {
+        const data = await res.json();
+        toast.error(data.error || 'Failed to remove inbound email');
+      }
+    } catch {
+      toast.error('Failed to remove inbound email');
+    }
+    setSaving(false);
+  };
+
+  const copy = async (value: string, what: string) => {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${what} copied`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Inbox className="h-5 w-5 text-blue-600" />
+          <CardTitle>Inbound Email</CardTitle>
+        </div>
+        <CardDescription>
+          For mailboxes that can&apos;t be connected directly, such as other providers or shared
+          inboxes. Forward raw messages here from a mail rule or an inbound-parse service; PDFs are
+          imported like synced NOIs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : connection ? (
+          <>
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-gray-900">{connection.connected_email}</p>
+                <Badge className="bg-green-100 text-green-800">{connection.status}</Badge>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500">Webhook URL</p>
+                <div className="mt-1 flex items-center gap-2">
+                  <code className="flex-1 truncate rounded bg-gray-50 px-2 py-1 text-xs">{connection.url}</code>
+                  <Button size="sm" variant="outline" onClick={() => copy(connection.url, 'URL')}>
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Last message: {connection.last_synced_at ? new Date(connection.last_synced_at).toLocaleString() : 'Never'}
+              </p>
+            </div>
+
+            {secret && (
+              <div className="rounded-lg border border-amber-300 bg-amber-50 p-4">
+                <p className="text-sm font-medium text-amber-900">Signing secret — copy it now, it won&apos;t be shown again</p>
+                <div className="mt-2 flex items-center gap-2">
+                  <code className="flex-1 truncate rounded bg-white px-2 py-1 text-xs">{secret}</code>
+                  <Button size="sm" variant="outline" onClick={() => copy(secret, 'Secret')}>
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              POST each message as the request body with an <code>x-inbound-timestamp</code> header
+              (Unix seconds) and <code>x-inbound-signature: sha256=&lt;hex HMAC-SHA256 of
+              &quot;timestamp.body&quot;&gt;</code> keyed by the secret.
+            </p>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleSetup} disabled={saving}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Rotate Secret
+              </Button>
+              <Button variant="outline" className="text-red-600" onClick={handleRemove} disabled={saving}>
+                <Unplug className="mr-2 h-4 w-4" />
+                Remove
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Which mailbox forwards here, e.g. noi@owner.com"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <Button onClick={handleSetup} disabled={saving}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Address
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TestingTab() {
+  const [skipVerification, setSkipVerification] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [toggling, setToggling] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/settings');
+        if (res.ok) {
+          const data = await res.json();
+          setSkipVerification(data.settings?.skip_photo_verification === true);
+        }
+      } catch {
+        console.error('Failed to load settings');
+      }
+      setLoading(false);
+    })();
+  }, []);
+
+  const handleToggle = async (enabled: boolean) => {
+    setToggling(true);
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ skip_photo_verification: enabled }),
+      });
+      if (res.ok) {
+        setSkipVerification(enabled);
+        toast.success(enabled ? 'Photo verification disabled (QA mode)' : 'Photo verification re-enabled');
+      } else {
+        const data = await res.json();
+        toast.error(data.error || 'Failed to update setting');
+      }
+    } catch {
+      toast.error('Failed to update setting');
+    }
+    setToggling(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5 text-amber-600" />
+          <CardTitle>QA & Testing</CardTitle>
+        </div>
+        <CardDescription>
+          Settings that make it easier to test the full workflow without real data.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <p className="font-medium text-gray-900">Skip Photo Angle Verification</p>
+            <p className="text-sm text-gray-500">
+              When enabled, contractor photo uploads are auto-approved without AI verification.
+            </p>
+            {skipVerification && (
+              <p className="mt-1 text-xs font-medium text-amber-600">
+                Active — all contractor photos will be auto-approved
+              </p>
+            )}
+          </div>
+          <Switch
+            checked={skipVerification}
+            onCheckedChange={handleToggle}
+            disabled={loading || toggling}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DeadlinesTab() {
+  const [rules, setRules] = useState<DeadlineRules>(DEFAULT_DEADLINE_RULES);
+  const [extraHolidays, setExtraHolidays] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/settings');
+        if (res.ok) {
+          const data = await res.json();
+          const loaded = readDeadlineRules(data.settings);
+          setRules(loaded);
+          setExtraHolidays(loaded.extra_holidays.join(', '));
+        }
+      } catch {
+        console.error('Failed to load settings');
+      }
+      setLoading(false);
+    })();
+  }, []);
+
+  const parsedExtraHolidays = extraHolidays.split(/[\s,]+/).filter(Boolean);
+  const invalidHoliday = parsedExtraHolidays.find((d) => !/^\d{4}-\d{2}-\d{2}$/.test(d));
+  const previewRules = { ...rules, extra_holidays: invalidHoliday ? [] : parsedExtraHolidays };
+  const today = new Date().toLocaleDateString('en-CA');
+  const year = new Date().getFullYear();
+
+  const handleSave = async () => {
+    if (invalidHoliday) {
+      toast.error(`"${invalidHoliday}" is not a YYYY-MM-DD date`);
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deadline_rules: previewRules }),
+      });
+      if (res.ok) {
+        toast.success('Deadline rules saved');
+      } else {
+        const data = await res.json();
+        toast.error(data.error || 'Failed to save deadline rules');
+      }
+    } catch {
+      toast.error('Failed to save deadline rules');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-blue-600" />
+          <CardTitle>Abatement Deadlines</CardTitle>
+        </div>
+        <CardDescription>
+          How each item&apos;s deadline (&quot;60 Days&quot;, &quot;24 Hours&quot;) is turned into a due date from the
+          date of service. Applies to newly parsed and reviewed notices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <p className="font-medium text-gray-900">Count days as</p>
+            <p className="text-sm text-gray-500">Hour deadlines always count elapsed calendar time.</p>
+          </div>
+          <Select
+            value={rules.counting}
+            onValueChange={(v) => setRules((r) => ({ ...r, counting: v as DeadlineRules['counting'] }))}
+            disabled={loading}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="calendar">Calendar days</SelectItem>
+              <SelectItem value="business">Business days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <p className="font-medium text-gray-900">Observe DC holidays</p>
+            <p className="text-sm text-gray-500">
+              DC government holidays are not business days. {year}: {dcHolidays(year).map(formatDueDate).join(' · ')}
+            </p>
+          </div>
+          <Switch
+            checked={rules.observe_dc_holidays}
+            onCheckedChange={(v) => setRules((r) => ({ ...r, observe_dc_holidays: v }))}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <p className="font-medium text-gray-900">Roll weekend deadlines forward</p>
+            <p className="text-sm text-gray-500">
+              A calendar-day deadline that falls on a weekend or holiday moves to the next business day.
+            </p>
+          </div>
+          <Switch
+            checked={rules.roll_to_business_day}
+            onCheckedChange={(v) => setRules((r) => ({ ...r, roll_to_business_day: v }))}
+            disabled={loading || rules.counting === 'business'}
+          />
+        </div>
+
+        <div className="space-y-2 rounded-lg border p-4">
+          <p className="font-medium text-gray-900">Additional closure dates</p>
+          <Input
+            placeholder="2026-12-24, 2026-12-31"
+            value={extraHolidays}
+            onChange={(e) => setExtraHolidays(e.target.value)}
+            disabled={loading}
+          />
+          <p className="text-xs text-gray-500">YYYY-MM-DD, separated by commas. Treated like holidays.</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            Served today: 1 Day → {formatDueDate(computeItemDeadline(today, '1 Day', previewRules))},
+            60 Days → {formatDueDate(computeItemDeadline(today, '60 Days', previewRules))}
+          </p>
+          <Button onClick={handleSave} disabled={loading || saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const isRequiredTransition = (from: string, to: string) =>
+  REQUIRED_TRANSITIONS.some(([f, t]) => f === from && t === to);
+
+function WorkflowTab() {
+  const { setWorkflow } = useWorkflow();
+  const [states, setStates] = useState<WorkflowState[]>(DEFAULT_WORKFLOW.states);
+  const [newKey, setNewKey] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/settings');
+        if (res.ok) {
+          const data = await res.json();
+          setStates(readWorkflow(data.settings).states);
+        }
+      } catch {
+        console.error('Failed to load settings');
+      }
+      setLoading(false);
+    })();
+  }, []);
+
+  const error = validateWorkflow({ states });
+
+  const updateState = (key: string, changes: Partial<WorkflowState>) => {
+    setStates((prev) => prev.map((s) => (s.key === key ? { ...s, ...changes } : s)));
+  };
+
+  const toggleTransition = (state: WorkflowState, to: string) => {
+    updateState(state.key, {
+      transitions: state.transitions.includes(to)
+        ? state.transitions.filter((t) => t !== to)
+        : [...state.transitions, to],
+    });
+  };
+
+  const removeState = (key: string) => {
+    setStates((prev) => prev
+      .filter((s) => s.key !== key)
+      .map((s) => ({ ...s, transitions: s.transitions.filter((t) => t !== key) })));
+  };
+
+  const handleAdd = () => {
+    const key = newKey.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!key) return;
+    if (states.some((s) => s.key === key)) {
+      toast.error(`${key} is already in the workflow`);
+      return;
+    }
+    setStates((prev) => [...prev, { key, label: newLabel.trim() || key, color: 'slate', transitions: [] }]);
+    setNewKey('');
+    setNewLabel('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workflow: { states } }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setWorkflow(readWorkflow(data.settings));
+        toast.success('Workflow saved');
+      } else {
+        toast.error(data.error || 'Failed to save workflow');
+      }
+    } catch {
+      toast.error('Failed to save workflow');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5 text-blue-600" />
+          <CardTitle>Violation Workflow</CardTitle>
+        </div>
+        <CardDescription>
+          The statuses a violation moves through and which moves are allowed from each. Statuses the app
+          sets itself can be renamed but not removed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {states.map((state) => {
+          const required = (REQUIRED_STATUSES as string[]).includes(state.key);
+          return (
+            <div key={state.key} className="space-y-3 rounded-lg border p-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <code className="w-56 truncate text-xs text-gray-500">{state.key}</code>
+                <Input
+                  className="h-8 w-48"
+                  value={state.label}
+                  onChange={(e) => updateState(state.key, { label: e.target.value })}
+                  disabled={loading}
+                />
+                <Select
+                  value={state.color}
+                  onValueChange={(v) => updateState(state.key, { color: v as WorkflowColor })}
+                  disabled={loading}
+                >
+                  <SelectTrigger className="h-8 w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(WORKFLOW_COLORS) as WorkflowColor[]).map((color) => (
+                      <SelectItem key={color} value={color}>{color}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Badge className={WORKFLOW_COLORS[state.color]}>{state.label || state.key}</Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto text-red-600"
+                  onClick={() => removeState(state.key)}
+                  disabled={loading || required}
+                  title={required ? 'The app moves violations into this status' : 'Remove'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1">
+                <p className="mr-1 text-xs text-gray-500">Moves to</p>
+                {states.filter((s) => s.key !== state.key).map((to) => {
+                  const active = state.transitions.includes(to.key);
+                  const locked = active && isRequiredTransition(state.key, to.key);
+                  return (
+                    <button
+                      key={to.key}
+                      type="button"
+                      onClick={() => toggleTransition(state, to.key)}
+                      disabled={loading || locked}
+                      title={locked ? 'The app makes this move itself' : undefined}
+                      className={`rounded-md border px-2 py-0.5 text-xs ${
+                        active ? 'border-blue-200 bg-blue-50 text-blue-700' : 'text-gray-400 hover:text-gray-700'
+                      } ${locked ? 'cursor-not-allowed' : ''}`}
+                    >
+                      {to.label || to.key}
+                    </button>
+                  );
+                })}
+                {state.transitions.length === 0 && (
+                  <span className="text-xs font-medium text-gray-500">— final status</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-dashed p-4">
+          <Input
+            className="h-8 w-48"
+            placeholder="QA_REVIEW"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            disabled={loading}
+          />
+          <Input
+            className="h-8 w-48"
+            placeholder="QA Review"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            disabled={loading}
+          />
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={loading || !newKey.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Status
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className={`text-sm ${error ? 'text-red-600' : 'text-gray-500'}`}>
+            {error || 'Every status is reachable from New and can reach a final status.'}
+          </p>
+          <div className="flex shrink-0 gap-2">
+            <Button variant="outline" onClick={() => setStates(DEFAULT_WORKFLOW.states)} disabled={loading || saving}>
+              Reset to Default
+            </Button>
+            <Button onClick={handleSave} disabled={loading || saving || !!error}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const EMPTY_CODE_FORM = {
+  code: '',
+  title: '',
+  trade_category: '',
+  typical_fine: '',
+  remediation_task: '',
+  aliases: '',
+};
+
+function CodesTab() {
+  const [codes, setCodes] = useState<ViolationCode[]>([]);
+  const [uncatalogued, setUncatalogued] = useState<Array<{ code: string; count: number }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(EMPTY_CODE_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/settings/violation-codes');
+        if (res.ok) {
+          const data = await res.json();
+          setCodes(data.codes || []);
+          setUncatalogued(data.uncatalogued || []);
+        }
+      } catch {
+        console.error('Failed to load violation codes');
+      }
+      setLoading(false);
+    })();
+  }, [reloadKey]);
+
+  const fetchCodes = () => setReloadKey((k) => k + 1);
+
+  const tradeCategories = [...new Set(codes.map((c) => c.trade_category).filter(Boolean))] as string[];
+
+  const startEdit = (code: ViolationCode) => {
+    setEditingId(code.id);
+    setForm({
+      code: code.code,
+      title: code.title || '',
+      trade_category: code.trade_category || '',
+      typical_fine: code.typical_fine !== null ? String(code.typical_fine) : '',
+      remediation_task: code.remediation_task || '',
+      aliases: code.aliases.join(', '),
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_CODE_FORM);
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim()) {
+      toast.error('Code is required');
+      return;
+    }
+    const fine = form.typical_fine.trim() ? Number(form.typical_fine.replace(/[$,]/g, '')) : null;
+    if (fine !== null && isNaN(fine)) {
+      toast.error('Typical fine must be a number');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(
+        editingId ? `/api/settings/violation-codes/${editingId}` : '/api/settings/violation-codes',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            code: form.code,
+            title: form.title,
+            trade_category: form.trade_category,
+            typical_fine: fine,
+            remediation_task: form.remediation_task,
+            aliases: form.aliases.split(/[,;\n]+/).map((a) => a.trim()).filter(Boolean),
+          }),
+        },
+      );
+      const data = await res.json();
+      if (res.ok) {
+        const linked = data.linked_items ? ` — ${data.linked_items} item${data.linked_items !== 1 ? 's' : ''} linked` : '';
+        toast.success(`${editingId ? 'Updated' : 'Added'} ${data.code.code}${linked}`);
+        resetForm();
+        fetchCodes();
+      } else {
+        toast.error(data.error || 'Failed to save code');
+      }
+    } catch {
+      toast.error('Failed to save code');
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (code: ViolationCode) => {
+    if (!confirm(`Remove ${code.code} from the catalog? Items keep their code text.`)) return;
+    const res = await fetch(`/api/settings/violation-codes/${code.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      toast.success(`Removed ${code.code}`);
+      if (editingId === code.id) resetForm();
+      fetchCodes();
+    } else {
+      toast.error('Failed to remove code');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5 text-blue-600" />
+            <CardTitle>Violation Code Catalog</CardTitle>
+          </div>
+          <CardDescription>
+            Canonical spelling, title and standard remediation for the codes your NOIs cite. Parsed codes are matched
+            here regardless of spacing or § signs; the remediation task fills in items without one and is shown to
+            contractors.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <Input
+              placeholder="Code, e.g. 12-G DCMR § 309.1"
+              value={form.code}
+              onChange={(e) => setForm((f) => ({ ...f, code: e.target.value }))}
+            />
+            <Input
+              placeholder="Title, e.g. Interior ceilings"
+              value={form.title}
+              onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))}
+            />
+            <Input
+              placeholder="Trade category, e.g. Electrical"
+              list="trade-categories"
+              value={form.trade_category}
+              onChange={(e) => setForm((f) => ({ ...f, trade_category: e.target.value }))}
+            />
+            <datalist id="trade-categories">
+              {tradeCategories.map((t) => <option key={t} value={t} />)}
+            </datalist>
+            <Input
+              placeholder="Typical fine ($)"
+              inputMode="decimal"
+              value={form.typical_fine}
+              onChange={(e) => setForm((f) => ({ ...f, typical_fine: e.target.value }))}
+            />
+          </div>
+          <Textarea
+            placeholder="Standard remediation task"
+            rows={3}
+            value={form.remediation_task}
+            onChange={(e) => setForm((f) => ({ ...f, remediation_task: e.target.value }))}
+          />
+          <Input
+            placeholder="Other spellings (comma separated)"
+            value={form.aliases}
+            onChange={(e) => setForm((f) => ({ ...f, aliases: e.target.value }))}
+          />
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={resetForm} disabled={saving}>Cancel</Button>
+            )}
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : editingId ? 'Save Code' : 'Add Code'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Catalog ({codes.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="py-4 text-center text-sm text-gray-400">Loading...</p>
+          ) : codes.length === 0 ? (
+            <p className="py-4 text-center text-sm text-gray-400">No codes yet. Add one above or from the list below.</p>
+          ) : (
+            <div className="divide-y">
+              {codes.map((code) => (
+                <div key={code.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-gray-900">{code.code}</p>
+                      {code.trade_category && <Badge variant="outline">{code.trade_category}</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {code.title || 'Untitled'}
+                      {code.typical_fine !== null && ` · typically $${Number(code.typical_fine).toLocaleString()}`}
+                    </p>
+                    {code.remediation_task && (
+                      <p className="mt-1 text-xs text-gray-500 line-clamp-2">{code.remediation_task}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => startEdit(code)}>Edit</Button>
+                    <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(code)}>
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {uncatalogued.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Codes Not in the Catalog</CardTitle>
+            <CardDescription>Cited on parsed items but not yet catalogued, most frequent first.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {uncatalogued.map((u) => (
+                <div key={u.code} className="flex items-center justify-between py-2 text-sm">
+                  <span className="font-medium text-gray-900">{u.code}</span>
+                  <div className="flex items-center gap-3">
+                    <span className="text-gray-500">{u.count} item{u.count !== 1 ? 's' : ''}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => { setEditingId(null); setForm({ ...EMPTY_CODE_FORM, code: u.code }); }}
+                    >
+                      <Plus className="mr-1 h-3 w-3" />
+                      Add
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  noi_parse: 'NOI extraction',
+  page_analysis: 'Page analysis',
+  noi_reparse: 'Re-parse',
+  photo_verification: 'Photo verification',
+};
+
+interface AIUsageSummary {
+  month_to_date_usd: number;
+  budget_usd: number | null;
+  action: AIBudgetAction;
+  exceeded: boolean;
+  by_feature: AIUsageSummaryRow[];
+}
+
+function AIUsageTab() {
+  const [usage, setUsage] = useState<AIUsageSummary | null>(null);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [action, setAction] = useState<AIBudgetAction>('pause');
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/settings/ai-usage');
+        if (res.ok) {
+          const data: AIUsageSummary = await res.json();
+          setUsage(data);
+          setBudgetInput(data.budget_usd != null ? String(data.budget_usd) : '');
+          setAction(data.action);
+        }
+      } catch {
+        console.error('Failed to load AI usage');
+      }
+    })();
+  }, [reloadKey]);
+
+  const handleSave = async () => {
+    const budget = budgetInput.trim() === '' ? null : Number(budgetInput);
+    if (budget !== null && (!Number.isFinite(budget) || budget < 0)) {
+      toast.error('Budget must be a positive dollar amount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ai_monthly_budget_usd: budget, ai_budget_action: action }),
+      });
+      if (res.ok) {
+        toast.success('AI budget saved');
+        setReloadKey((k) => k + 1);
+      } else {
+        const data = await res.json();
+        toast.error(data.error || 'Failed to save budget');
+      }
+    } catch {
+      toast.error('Failed to save budget');
+    }
+    setSaving(false);
+  };
+
+  const percentUsed = usage?.budget_usd
+    ? Math.min(100, (usage.month_to_date_usd / usage.budget_usd) * 100)
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5 text-emerald-600" />
+          <CardTitle>AI Usage & Budget</CardTitle>
+        </div>
+        <CardDescription>
+          Spend on AI extraction, page analysis and photo verification this month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!usage ? (
+          <p className="text-sm text-gray-500">Loading usage...</p>
+        ) : (
+          <>
+            <div className="rounded-lg border p-4">
+              <div className="flex items-baseline justify-between">
+                <p className="text-sm text-gray-500">Month to date</p>
+                {usage.exceeded && (
+                  <Badge className="bg-orange-100 text-orange-800">
+                    <AlertTriangle className="mr-1 h-3 w-3" />
+                    Budget reached
+                  </Badge>
+                )}
+              </div>
+              <p className="mt-1 text-3xl font-bold text-gray-900">
+                ${usage.month_to_date_usd.toFixed(2)}
+                {usage.budget_usd != null && (
+                  <span className="ml-2 text-base font-medium text-gray-400">of ${usage.budget_usd.toFixed(2)}</span>
+                )}
+              </p>
+              {percentUsed !== null && (
+                <div className="mt-3 h-2 overflow-hidden rounded-full bg-gray-100">
+                  <div
+                    className={`h-full rounded-full ${usage.exceeded ? 'bg-orange-500' : 'bg-emerald-500'}`}
+                    style={{ width: `${percentUsed}%` }}
+                  />
+                </div>
+              )}
+            </div>
+
+            {usage.by_feature.length > 0 && (
+              <div className="divide-y rounded-lg border">
+                {usage.by_feature.map((row) => (
+                  <div key={row.feature} className="flex items-center justify-between px-4 py-2 text-sm">
+                    <span className="font-medium text-gray-900">{AI_FEATURE_LABELS[row.feature] || row.feature}</span>
+                    <span className="text-gray-500">
+                      {row.calls} call{row.calls !== 1 ? 's' : ''} · {row.total_tokens.toLocaleString()} tokens ·{' '}
+                      <span className="font-medium text-gray-900">${row.cost_usd.toFixed(2)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3 rounded-lg border p-4">
+              <p className="font-medium text-gray-900">Monthly Budget</p>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center gap-1">
+                  <span className="text-gray-500">$</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="1"
+                    placeholder="No cap"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    className="w-32"
+                  />
+                </div>
+                <Select value={action} onValueChange={(v) => setAction(v as AIBudgetAction)}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pause">Pause parsing when reached</SelectItem>
+                    <SelectItem value="manual">Fall back to manual entry</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Owners and admins are notified the first time the budget is reached each month. Leave empty for no cap.
+              </p>
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
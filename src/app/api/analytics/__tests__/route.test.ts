@@ -67,6 +67,25 @@ describe('GET /api/analytics', () => {
     }));
   });
 
+  it('merges code catalog groupings from get_code_analytics', async () => {
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'u1' } }, error: null });
+    mockRpc
+      .mockResolvedValueOnce({ data: { total_fines: 5000 }, error: null })
+      .mockResolvedValueOnce({
+        data: { violations_by_trade: [{ trade_category: 'Electrical', items: 3, open_items: 1, fines: 1875 }], top_codes: [] },
+        error: null,
+      });
+
+    const res = await GET(makeRequest({ property_id: 'prop-123' }));
+    expect(mockRpc).toHaveBeenCalledWith('get_code_analytics', expect.objectContaining({
+      p_property_id: 'prop-123',
+    }));
+
+    const body = await res.json();
+    expect(body.total_fines).toBe(5000);
+    expect(body.violations_by_trade[0].trade_category).toBe('Electrical');
+  });
+
   it('returns 500 on RPC error', async () => {
     mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'u1' } }, error: null });
     mockRpc.mockResolvedValue({ data: null, error: { message: 'RPC failed' } });
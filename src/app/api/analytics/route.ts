@@ -14,15 +14,21 @@ export async function GET(request: NextRequest) {
   const dateFrom = searchParams.get('date_from') || new Date(Date.now() - 90 * 86400000).toISOString().split('T')[0];
   const dateTo = searchParams.get('date_to') || new Date().toISOString().split('T')[0];
 
-  const { data, error } = await supabase.rpc('get_analytics', {
+  const rpcParams = {
     p_property_id: propertyId,
     p_date_from: dateFrom,
     p_date_to: dateTo,
-  });
+  };
 
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 });
+  // Groupings by the org's violation code catalog come from their own RPC
+  const [{ data, error }, { data: codeData, error: codeError }] = await Promise.all([
+    supabase.rpc('get_analytics', rpcParams),
+    supabase.rpc('get_code_analytics', rpcParams),
+  ]);
+
+  if (error || codeError) {
+    return NextResponse.json({ error: (error || codeError)!.message }, { status: 500 });
   }
 
-  return NextResponse.json(data);
+  return NextResponse.json({ ...data, ...codeData });
 }
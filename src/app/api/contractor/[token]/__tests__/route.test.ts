@@ -13,15 +13,13 @@ vi.mock('@/lib/contractor-auth', () => ({
 
 // Mock admin client
 const mockFrom = vi.fn();
+const mockCreateSignedUrl = vi.fn();
 vi.mock('@/lib/supabase/server', () => ({
   createAdminClient: () => ({
     from: mockFrom,
     storage: {
       from: vi.fn(() => ({
-        createSignedUrl: vi.fn().mockResolvedValue({
-          data: { signedUrl: 'https://signed-url.com/test.pdf' },
-          error: null,
-        }),
+        createSignedUrl: mockCreateSignedUrl,
       })),
     },
   }),
@@ -30,8 +28,37 @@ vi.mock('@/lib/supabase/server', () => ({
 describe('GET /api/contractor/[token]', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockCreateSignedUrl.mockResolvedValue({
+      data: { signedUrl: 'https://signed-url.com/test.pdf' },
+      error: null,
+    });
   });
 
+  function mockContractorView(photos: unknown[]) {
+    mockValidateToken.mockResolvedValue({
+      valid: true,
+      data: { work_order_id: 'wo-123', org_id: 'org-123' },
+    });
+    mockFrom.mockReturnValueOnce({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: { ...mockWorkOrder(), violations: mockViolation() }, error: null }),
+    });
+    mockFrom.mockReturnValueOnce({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      order: vi.fn().mockResolvedValue({ data: [mockViolationItem()], error: null }),
+    });
+    const photosChain: Record<string, ReturnType<typeof vi.fn>> = {
+      select: vi.fn(() => photosChain),
+      eq: vi.fn(() => photosChain),
+    };
+    photosChain.order = vi.fn()
+      .mockReturnValueOnce(photosChain)
+      .mockResolvedValueOnce({ data: photos, error: null });
+    mockFrom.mockReturnValueOnce(photosChain);
+  }
+
   it('returns contractor view data for valid token', async () => {
     // Mock valid token
     mockValidateToken.mockResolvedValue({
@@ -149,4 +176,39 @@ describe('GET /api/contractor/[token]', () => {
 
     expect(response.status).toBe(404);
   });
+
+  it('signs extracted evidence images instead of leaving inspector photos to the PDF', async () => {
+    mockCreateSignedUrl.mockImplementation(async (path: string) => ({
+      data: { signedUrl: `https://signed-url.com/${path}` },
+      error: null,
+    }));
+    mockContractorView([
+      mockPhoto({
+        storage_path: 'org-123/evidence/v-123/page-3.jpg',
+        metadata: {
+          description: 'Ceiling damage visible',
+          image: {
+            path: 'org-123/evidence/v-123/page-3.jpg',
+            thumbnail_path: 'org-123/evidence/v-123/page-3-thumb.jpg',
+            width: 900,
+            height: 640,
+            crop: { x: 96, y: 240, width: 900, height: 640 },
+          },
+        },
+      }),
+      mockPhoto({ id: 'photo-legacy', page_number: 4 }),
+    ]);
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/contractor/abc-123'),
+      { params: Promise.resolve({ token: 'abc-123' }) },
+    );
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.photos[0].signed_url).toBe('https://signed-url.com/org-123/evidence/v-123/page-3.jpg');
+    expect(json.photos[0].thumbnail_url).toBe('https://signed-url.com/org-123/evidence/v-123/page-3-thumb.jpg');
+    // Not yet extracted: still rendered from the NOI PDF
+    expect(json.photos[1].signed_url).toBeUndefined();
+  });
 });
@@ -38,6 +38,13 @@ vi.mock('@/lib/supabase/server', () => ({
   }),
 }));
 
+const mockAdvanceItems = vi.fn();
+const mockRollup = vi.fn();
+vi.mock('@/lib/violation-transitions', () => ({
+  advanceItems: (...args: unknown[]) => mockAdvanceItems(...args),
+  rollupViolationStatus: (...args: unknown[]) => mockRollup(...args),
+}));
+
 describe('POST /api/contractor/[token]/photos', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -102,6 +109,43 @@ describe('POST /api/contractor/[token]/photos', () => {
     expect(response.status).toBe(201);
     expect(json.photo).toBeDefined();
     expect(json.signed_url).toBe('https://signed.com/photo.jpg');
+    // A before photo means repair on the item has started
+    expect(mockAdvanceItems).toHaveBeenCalledWith('v-123', 'in_repair', { itemIds: ['item-123'] });
+    expect(mockRollup).toHaveBeenCalledWith('v-123', 'org-123');
+  });
+
+  it('marks the item photo uploaded on an AFTER photo', async () => {
+    mockValidateToken.mockResolvedValue({
+      valid: true,
+      data: { work_order_id: 'wo-123', org_id: 'org-123' },
+    });
+
+    mockFrom.mockReturnValueOnce(chainMock({ data: { id: 'wo-123', violation_id: 'v-123' }, error: null }));
+    mockFrom.mockReturnValueOnce(chainMock({ data: mockViolationItem(), error: null }));
+    mockFrom.mockReturnValueOnce(chainMock({ data: null, error: null }));
+    mockStorageUpload.mockResolvedValue({ data: { path: 'org-123/wo-123/item-123/AFTER_123.jpg' }, error: null });
+    mockFrom.mockReturnValueOnce(chainMock({ data: mockPhoto({ photo_type: 'AFTER' }), error: null }));
+    mockCreateSignedUrl.mockResolvedValue({ data: { signedUrl: 'https://signed.com/after.jpg' }, error: null });
+
+    const formData = new FormData();
+    formData.append('file', new File(['after image'], 'after.jpg', { type: 'image/jpeg' }));
+    formData.append('violation_item_id', 'item-123');
+    formData.append('photo_type', 'AFTER');
+
+    const request = new NextRequest('http://localhost:3000/api/contractor/abc-123/photos', {
+      method: 'POST',
+      body: formData,
+    });
+
+    const response = await POST(request, { params: Promise.resolve({ token: 'abc-123' }) });
+
+    expect(response.status).toBe(201);
+    // Also from photo_approved: the new photo replaces an approved one and needs approving again
+    expect(mockAdvanceItems).toHaveBeenCalledWith('v-123', 'photo_uploaded', {
+      itemIds: ['item-123'],
+      from: ['open', 'in_repair', 'photo_approved'],
+    });
+    expect(mockRollup).toHaveBeenCalledWith('v-123', 'org-123');
   });
 
   it('returns 401 for invalid token', async () => {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { validateContractorToken } from '@/lib/contractor-auth';
+import { advanceItems, rollupViolationStatus } from '@/lib/violation-transitions';
 import { appendFileSync } from 'fs';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
@@ -221,7 +222,20 @@ export async function POST(
       photoData = data;
     }
 
-    // 12. Generate signed URL for immediate display
+    // 12. Advance the item: a before photo means repair has started, an
+    // after photo (new or replacing an approved one) needs approving. The
+    // violation follows its items.
+    if (photo_type === 'AFTER') {
+      await advanceItems(workOrder.violation_id, 'photo_uploaded', {
+        itemIds: [violation_item_id],
+        from: ['open', 'in_repair', 'photo_approved'],
+      });
+    } else {
+      await advanceItems(workOrder.violation_id, 'in_repair', { itemIds: [violation_item_id] });
+    }
+    await rollupViolationStatus(workOrder.violation_id, org_id);
+
+    // 13. Generate signed URL for immediate display
     const { data: urlData, error: urlError } = await supabase.storage
       .from('contractor-photos')
       .createSignedUrl(uploadData.path, 3600); // 1 hour
@@ -231,7 +245,7 @@ export async function POST(
       console.error('Failed to generate signed URL:', urlError);
     }
 
-    // 13. Return success
+    // 14. Return success
     return NextResponse.json(
       {
         photo: photoData,
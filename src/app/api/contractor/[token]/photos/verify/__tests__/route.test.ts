@@ -36,8 +36,24 @@ vi.mock('@/lib/supabase/server', () => ({
 }));
 
 const mockVerifyPhotoAngle = vi.fn();
-vi.mock('@/lib/ai/gemini', () => ({
-  verifyPhotoAngle: (...args: any[]) => mockVerifyPhotoAngle(...args),
+vi.mock('@/lib/ai/provider', () => ({
+  getAIProvider: () => ({
+    name: 'gemini',
+    verifyPhotoAngle: (...args: any[]) => mockVerifyPhotoAngle(...args),
+  }),
+}));
+
+const mockBudgetStatus = vi.fn();
+vi.mock('@/lib/ai/usage', () => ({
+  getAIBudgetStatus: (...args: unknown[]) => mockBudgetStatus(...args),
+  recordAIUsage: vi.fn(),
+}));
+
+const mockAdvanceItems = vi.fn();
+const mockRollup = vi.fn();
+vi.mock('@/lib/violation-transitions', () => ({
+  advanceItems: (...args: unknown[]) => mockAdvanceItems(...args),
+  rollupViolationStatus: (...args: unknown[]) => mockRollup(...args),
 }));
 
 function makeRequest(body: Record<string, unknown>, token = 'valid-token') {
@@ -55,6 +71,7 @@ describe('POST /api/contractor/[token]/photos/verify', () => {
       valid: true,
       data: { work_order_id: 'wo-1', org_id: 'org-1' },
     });
+    mockBudgetStatus.mockResolvedValue({ month_to_date_usd: 0, budget_usd: null, action: 'pause', exceeded: false });
   });
 
   it('returns 401 for invalid token', async () => {
@@ -108,8 +125,6 @@ describe('POST /api/contractor/[token]/photos/verify', () => {
       );
       mockFrom.mockReturnValueOnce(makeMock({ settings: { skip_photo_verification: true } }));
       mockFrom.mockReturnValueOnce(makeMock(null)); // photo update
-      mockFrom.mockReturnValueOnce(makeMock([{ id: 'p-1', status: 'APPROVED' }])); // all AFTER photos
-      mockFrom.mockReturnValueOnce(makeMock(null)); // violations update
 
       const res = await POST(
         makeRequest({ photo_id: 'p-1', inspector_image_data: 'base64' }),
@@ -125,30 +140,26 @@ describe('POST /api/contractor/[token]/photos/verify', () => {
     });
   });
 
-  describe('status guard: auto-progression to READY_FOR_SUBMISSION', () => {
-    it('uses .eq("status", "PHOTOS_UPLOADED") — not .in() — for the violations update', async () => {
+  describe('item progression', () => {
+    it('approves the photo\'s item and rolls the violation up once the photo is approved', async () => {
       mockFrom.mockReturnValueOnce(makeMock({ id: 'wo-1', violation_id: 'v-1' }));
       mockFrom.mockReturnValueOnce(
-        makeMock({ id: 'p-1', violation_id: 'v-1', storage_path: 'path', metadata: {}, mime_type: 'image/jpeg' }),
+        makeMock({ id: 'p-1', violation_id: 'v-1', violation_item_id: 'item-1', storage_path: 'path', metadata: {}, mime_type: 'image/jpeg' }),
       );
       mockFrom.mockReturnValueOnce(makeMock({ settings: { skip_photo_verification: true } }));
       mockFrom.mockReturnValueOnce(makeMock(null)); // photo update
-      mockFrom.mockReturnValueOnce(makeMock([{ id: 'p-1', status: 'APPROVED' }])); // all AFTER approved
-      const violationsMock = makeMock(null);
-      mockFrom.mockReturnValueOnce(violationsMock); // violations update
 
       await POST(
         makeRequest({ photo_id: 'p-1', inspector_image_data: 'base64' }),
         { params: Promise.resolve({ token: 'valid-token' }) },
       );
 
-      // Must use .eq('status', 'PHOTOS_UPLOADED') — not .in('status', [...])
-      expect(violationsMock.update).toHaveBeenCalledWith({ status: 'READY_FOR_SUBMISSION' });
-      expect(violationsMock.eq).toHaveBeenCalledWith('status', 'PHOTOS_UPLOADED');
-      expect(violationsMock.in).not.toHaveBeenCalled();
+      expect(mockAdvanceItems).toHaveBeenCalledWith('v-1', 'photo_approved', { itemIds: ['item-1'] });
+      // The roll-up moves the violation to READY_FOR_SUBMISSION once every item is approved
+      expect(mockRollup).toHaveBeenCalledWith('v-1', 'org-1');
     });
 
-    it('does not attempt violations update when photo confidence is below 80%', async () => {
+    it('leaves the item alone when photo confidence is below 80%', async () => {
       mockVerifyPhotoAngle.mockResolvedValueOnce({
         result: { isMatch: false, confidence: 55, reasoning: 'Different angle', details: 'Mismatch' },
         meta: { model: 'gemini', usage: { cost_usd: 0.001 } },
@@ -156,7 +167,7 @@ describe('POST /api/contractor/[token]/photos/verify', () => {
 
       mockFrom.mockReturnValueOnce(makeMock({ id: 'wo-1', violation_id: 'v-1' }));
       mockFrom.mockReturnValueOnce(
-        makeMock({ id: 'p-1', violation_id: 'v-1', storage_path: 'path', metadata: {}, mime_type: 'image/jpeg' }),
+        makeMock({ id: 'p-1', violation_id: 'v-1', violation_item_id: 'item-1', storage_path: 'path', metadata: {}, mime_type: 'image/jpeg' }),
       );
       mockFrom.mockReturnValueOnce(makeMock({ settings: {} })); // no skip
       mockStorageDownload.mockResolvedValue({ data: new Blob(['img']), error: null });
@@ -172,34 +183,49 @@ describe('POST /api/contractor/[token]/photos/verify', () => {
       expect(json.verification.isMatch).toBe(false);
 
       // Only 4 from() calls: work_order, photo, org, photo_update
-      // (no all-AFTER-photos query or violations update since isApproved=false)
       expect(mockFrom).toHaveBeenCalledTimes(4);
+      expect(mockAdvanceItems).not.toHaveBeenCalled();
+      expect(mockRollup).not.toHaveBeenCalled();
     });
 
-    it('does not update violations when not all AFTER photos are approved', async () => {
+    it('skips item progression for a photo not matched to an item', async () => {
       mockFrom.mockReturnValueOnce(makeMock({ id: 'wo-1', violation_id: 'v-1' }));
       mockFrom.mockReturnValueOnce(
-        makeMock({ id: 'p-1', violation_id: 'v-1', storage_path: 'path', metadata: {}, mime_type: 'image/jpeg' }),
+        makeMock({ id: 'p-1', violation_id: 'v-1', violation_item_id: null, storage_path: 'path', metadata: {}, mime_type: 'image/jpeg' }),
       );
       mockFrom.mockReturnValueOnce(makeMock({ settings: { skip_photo_verification: true } }));
       mockFrom.mockReturnValueOnce(makeMock(null)); // photo update
-      // Two AFTER photos — one still PENDING_REVIEW
+
+      const res = await POST(
+        makeRequest({ photo_id: 'p-1', inspector_image_data: 'base64' }),
+        { params: Promise.resolve({ token: 'valid-token' }) },
+      );
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).verification.isMatch).toBe(true);
+      expect(mockAdvanceItems).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('monthly AI budget reached', () => {
+    it('skips AI verification and leaves the photo for manual review', async () => {
+      mockBudgetStatus.mockResolvedValueOnce({ month_to_date_usd: 52, budget_usd: 50, action: 'pause', exceeded: true });
+      mockFrom.mockReturnValueOnce(makeMock({ id: 'wo-1', violation_id: 'v-1' }));
       mockFrom.mockReturnValueOnce(
-        makeMock([
-          { id: 'p-1', status: 'APPROVED' },
-          { id: 'p-2', status: 'PENDING_REVIEW' },
-        ]),
+        makeMock({ id: 'p-1', violation_id: 'v-1', storage_path: 'path', metadata: {}, mime_type: 'image/jpeg' }),
       );
-      // violations update should NOT be called
+      mockFrom.mockReturnValueOnce(makeMock({ settings: {} }));
+      const photoUpdate = makeMock(null);
+      mockFrom.mockReturnValueOnce(photoUpdate);
 
-      await POST(
+      const res = await POST(
         makeRequest({ photo_id: 'p-1', inspector_image_data: 'base64' }),
         { params: Promise.resolve({ token: 'valid-token' }) },
       );
 
-      // 5 from() calls: work_order, photo, org, photo_update, all_after_photos
-      // No 6th call for violations update
-      expect(mockFrom).toHaveBeenCalledTimes(5);
+      expect(res.status).toBe(200);
+      expect(mockVerifyPhotoAngle).not.toHaveBeenCalled();
+      expect(photoUpdate.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'PENDING_REVIEW' }));
     });
   });
 });
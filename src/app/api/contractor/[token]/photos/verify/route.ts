@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { validateContractorToken } from '@/lib/contractor-auth';
-import { verifyPhotoAngle } from '@/lib/ai/gemini';
+import { getAIProvider } from '@/lib/ai/provider';
+import { getAIBudgetStatus, recordAIUsage } from '@/lib/ai/usage';
+import { advanceItems, rollupViolationStatus } from '@/lib/violation-transitions';
 
 export async function POST(
   request: NextRequest,
@@ -47,7 +49,7 @@ export async function POST(
 
     const { data: photo } = await supabase
       .from('photos')
-      .select('id, storage_path, violation_id, metadata, mime_type')
+      .select('id, storage_path, violation_id, violation_item_id, metadata, mime_type')
       .eq('id', photo_id)
       .single();
 
@@ -67,6 +69,7 @@ export async function POST(
 
     const orgSettings = (org?.settings as Record<string, unknown>) || {};
     const skipVerification = orgSettings.skip_photo_verification === true;
+    const budget = skipVerification ? null : await getAIBudgetStatus(validation.data!.org_id);
 
     let result: { isMatch: boolean; confidence: number; reasoning: string; details: string };
     let meta: { model: string; usage: { cost_usd: number } } | null = null;
@@ -79,6 +82,14 @@ export async function POST(
         reasoning: 'QA mode: verification skipped',
         details: 'Photo auto-approved via admin toggle. AI angle verification was disabled in organization settings.',
       };
+    } else if (budget?.exceeded) {
+      // Monthly AI budget spent: leave the photo for a PM to check by eye
+      result = {
+        isMatch: false,
+        confidence: 0,
+        reasoning: 'Monthly AI budget reached — needs manual review',
+        details: 'AI angle verification was skipped because the organization reached its monthly AI budget.',
+      };
     } else {
       // 4b. Download the AFTER image from storage
       const { data: fileData, error: downloadError } = await supabase.storage
@@ -103,14 +114,24 @@ export async function POST(
         inspectorBase64 = dataUrlMatch[1];
       }
 
-      // 6. Call Gemini Vision for angle verification
-      const geminiResult = await verifyPhotoAngle(
+      // 6. Call the AI provider (Gemini Vision in production) for angle verification
+      const ai = getAIProvider();
+      const geminiResult = await ai.verifyPhotoAngle(
         afterBase64,
         inspectorBase64,
         photo.mime_type || 'image/jpeg',
       );
       result = geminiResult.result;
       meta = geminiResult.meta;
+
+      await recordAIUsage({
+        orgId: validation.data!.org_id,
+        feature: 'photo_verification',
+        provider: ai.name,
+        model: geminiResult.meta.model,
+        usage: geminiResult.meta.usage,
+        violationId: workOrder.violation_id,
+      });
     }
 
     // 7. Update photo metadata and status
@@ -140,24 +161,12 @@ export async function POST(
       })
       .eq('id', photo_id);
 
-    // 8. Auto-progression: if all AFTER photos are approved, advance violation
-    if (isApproved) {
-      const { data: allAfterPhotos } = await supabase
-        .from('photos')
-        .select('id, status')
-        .eq('violation_id', workOrder.violation_id)
-        .eq('photo_type', 'AFTER');
-
-      if (allAfterPhotos && allAfterPhotos.length > 0) {
-        const allApproved = allAfterPhotos.every((p) => p.status === 'APPROVED');
-        if (allApproved) {
-          await supabase
-            .from('violations')
-            .update({ status: 'READY_FOR_SUBMISSION' })
-            .eq('id', workOrder.violation_id)
-            .eq('status', 'PHOTOS_UPLOADED');
-        }
-      }
+    // 8. Auto-progression: an approved photo approves its item, and once
+    // every item is approved the violation is ready for submission (if its
+    // workflow goes there next)
+    if (isApproved && photo.violation_item_id) {
+      await advanceItems(workOrder.violation_id, 'photo_approved', { itemIds: [photo.violation_item_id] });
+      await rollupViolationStatus(workOrder.violation_id, validation.data!.org_id);
     }
 
     // 9. Return verification result
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { validateContractorToken } from '@/lib/contractor-auth';
+import { evidenceImageOf } from '@/lib/evidence-images';
 
 export async function GET(
   request: NextRequest,
@@ -40,10 +41,10 @@ export async function GET(
 
     const violation = (workOrder as any).violations;
 
-    // 4. Fetch violation items
+    // 4. Fetch violation items with their catalog title and standard remediation
     const { data: items, error: itemsError } = await supabase
       .from('violation_items')
-      .select('*')
+      .select('*, violation_codes(title, remediation_task)')
       .eq('violation_id', violation.id)
       .order('item_number');
 
@@ -69,7 +70,7 @@ export async function GET(
       );
     }
 
-    // 6. Generate signed URL for the NOI PDF (for rendering INSPECTOR photos)
+    // 6. Generate signed URL for the NOI PDF (for rendering INSPECTOR photos not yet extracted)
     let pdfUrl: string | null = null;
     if (violation.pdf_storage_path) {
       const { data: urlData } = await supabase.storage
@@ -82,7 +83,20 @@ export async function GET(
     // 7. Generate signed URLs for all photos (INSPECTOR from noi-pdfs, BEFORE/AFTER from contractor-photos)
     const photosWithUrls = await Promise.all(
       (photos || []).map(async (photo) => {
-        if (photo.photo_type === 'INSPECTOR' && photo.mime_type === 'image/png') {
+        const evidenceImage = evidenceImageOf(photo);
+        if (evidenceImage) {
+          // Cropped evidence photo and thumbnail extracted by the parse pipeline
+          const [{ data: imageUrl }, { data: thumbnailUrl }] = await Promise.all([
+            supabase.storage.from('noi-pdfs').createSignedUrl(evidenceImage.path, 3600),
+            supabase.storage.from('noi-pdfs').createSignedUrl(evidenceImage.thumbnail_path, 3600),
+          ]);
+
+          return {
+            ...photo,
+            signed_url: imageUrl?.signedUrl || null,
+            thumbnail_url: thumbnailUrl?.signedUrl || null,
+          };
+        } else if (photo.photo_type === 'INSPECTOR' && photo.mime_type === 'image/png') {
           // Rendered evidence image stored in noi-pdfs bucket
           const { data: urlData } = await supabase.storage
             .from('noi-pdfs')
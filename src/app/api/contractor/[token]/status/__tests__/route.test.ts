@@ -15,6 +15,15 @@ vi.mock('@/lib/supabase/server', () => ({
   }),
 }));
 
+const mockTransition = vi.fn();
+const mockAdvanceItems = vi.fn();
+const mockRollup = vi.fn();
+vi.mock('@/lib/violation-transitions', () => ({
+  transitionViolation: (...args: unknown[]) => mockTransition(...args),
+  advanceItems: (...args: unknown[]) => mockAdvanceItems(...args),
+  rollupViolationStatus: (...args: unknown[]) => mockRollup(...args),
+}));
+
 describe('PATCH /api/contractor/[token]/status', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -23,7 +32,7 @@ describe('PATCH /api/contractor/[token]/status', () => {
   it('transitions from ASSIGNED to IN_PROGRESS', async () => {
     mockValidateToken.mockResolvedValue({
       valid: true,
-      data: { work_order_id: 'wo-123' },
+      data: { work_order_id: 'wo-123', org_id: 'org-123' },
     });
 
     // Mock work order fetch
@@ -47,12 +56,6 @@ describe('PATCH /api/contractor/[token]/status', () => {
       }),
     });
 
-    // Mock violation update
-    mockFrom.mockReturnValueOnce({
-      update: vi.fn().mockReturnThis(),
-      eq: vi.fn().mockReturnThis(),
-    });
-
     const request = new NextRequest('http://localhost:3000/api/contractor/abc-123/status', {
       method: 'PATCH',
       body: JSON.stringify({ status: 'IN_PROGRESS' }),
@@ -63,12 +66,15 @@ describe('PATCH /api/contractor/[token]/status', () => {
 
     expect(response.status).toBe(200);
     expect(json.work_order.status).toBe('IN_PROGRESS');
+    // Open items go into repair and the violation follows them to IN_PROGRESS
+    expect(mockAdvanceItems).toHaveBeenCalledWith('v-123', 'in_repair');
+    expect(mockRollup).toHaveBeenCalledWith('v-123', 'org-123');
   });
 
   it('transitions from IN_PROGRESS to COMPLETED', async () => {
     mockValidateToken.mockResolvedValue({
       valid: true,
-      data: { work_order_id: 'wo-123' },
+      data: { work_order_id: 'wo-123', org_id: 'org-123' },
     });
 
     mockFrom.mockReturnValueOnce({
@@ -90,21 +96,57 @@ describe('PATCH /api/contractor/[token]/status', () => {
       }),
     });
 
+    const request = new NextRequest('http://localhost:3000/api/contractor/abc-123/status', {
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'COMPLETED' }),
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ token: 'abc-123' }) });
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.work_order.status).toBe('COMPLETED');
+    // The items' photos decide where the violation goes
+    expect(mockAdvanceItems).not.toHaveBeenCalled();
+    expect(mockRollup).toHaveBeenCalledWith('v-123', 'org-123');
+  });
+
+  it('hands the violation back and reopens items in repair when cancelled', async () => {
+    mockValidateToken.mockResolvedValue({
+      valid: true,
+      data: { work_order_id: 'wo-123', org_id: 'org-123' },
+    });
+
+    mockFrom.mockReturnValueOnce({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({
+        data: { id: 'wo-123', status: 'IN_PROGRESS', violation_id: 'v-123' },
+        error: null,
+      }),
+    });
+
     mockFrom.mockReturnValueOnce({
       update: vi.fn().mockReturnThis(),
       eq: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({
+        data: { id: 'wo-123', status: 'CANCELLED' },
+        error: null,
+      }),
     });
 
     const request = new NextRequest('http://localhost:3000/api/contractor/abc-123/status', {
       method: 'PATCH',
-      body: JSON.stringify({ status: 'COMPLETED' }),
+      body: JSON.stringify({ status: 'CANCELLED' }),
     });
 
     const response = await PATCH(request, { params: Promise.resolve({ token: 'abc-123' }) });
-    const json = await response.json();
 
     expect(response.status).toBe(200);
-    expect(json.work_order.status).toBe('COMPLETED');
+    expect(mockAdvanceItems).toHaveBeenCalledWith('v-123', 'open', { from: ['in_repair'] });
+    expect(mockTransition).toHaveBeenCalledWith('v-123', 'PARSED', { orgId: 'org-123', force: true });
+    expect(mockRollup).not.toHaveBeenCalled();
   });
 
   it('returns 401 for invalid token', async () => {
@@ -126,7 +168,7 @@ describe('PATCH /api/contractor/[token]/status', () => {
   it('returns 400 for invalid status transition', async () => {
     mockValidateToken.mockResolvedValue({
       valid: true,
-      data: { work_order_id: 'wo-123' },
+      data: { work_order_id: 'wo-123', org_id: 'org-123' },
     });
 
     // Mock work order with COMPLETED status (cannot transition back)
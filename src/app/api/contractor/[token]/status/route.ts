@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { validateContractorToken } from '@/lib/contractor-auth';
+import { advanceItems, rollupViolationStatus, transitionViolation } from '@/lib/violation-transitions';
 
 type WorkOrderStatus = 'ASSIGNED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
 
@@ -28,7 +29,7 @@ export async function PATCH(
       );
     }
 
-    const { work_order_id } = validation.data!;
+    const { work_order_id, org_id } = validation.data!;
 
     // 2. Parse request body
     const body = await request.json();
@@ -93,22 +94,18 @@ export async function PATCH(
       );
     }
 
-    // 7. Update violation status to match (sync work order → violation)
-    let violationStatus = 'ASSIGNED';
-
-    if (status === 'IN_PROGRESS') {
-      violationStatus = 'IN_PROGRESS';
-    } else if (status === 'COMPLETED') {
-      violationStatus = 'PHOTOS_UPLOADED';
-    } else if (status === 'CANCELLED') {
-      violationStatus = 'PARSED'; // revert to parsed state
+    // 7. Move the items to match, and the violation with them. A cancelled
+    // work order hands the violation back for reassignment.
+    if (status === 'CANCELLED') {
+      await advanceItems(workOrder.violation_id, 'open', { from: ['in_repair'] });
+      await transitionViolation(workOrder.violation_id, 'PARSED', { orgId: org_id, force: true });
+    } else {
+      if (status === 'IN_PROGRESS') {
+        await advanceItems(workOrder.violation_id, 'in_repair');
+      }
+      await rollupViolationStatus(workOrder.violation_id, org_id);
     }
 
-    await supabase
-      .from('violations')
-      .update({ status: violationStatus })
-      .eq('id', workOrder.violation_id);
-
     // 8. Return updated work order
     return NextResponse.json(
       { work_order: updatedWorkOrder },
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { inngest } from '@/inngest/client';
+
+/**
+ * POST /api/email/backfill/[id]
+ * Resume a failed or cancelled backfill from the last page it finished.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const admin = createAdminClient();
+    const { data: backfill } = await admin
+      .from('email_backfills')
+      .update({ status: 'pending', error_message: null, completed_at: null })
+      .eq('id', id)
+      .eq('org_id', profile.org_id)
+      .in('status', ['failed', 'cancelled'])
+      .select()
+      .maybeSingle();
+
+    if (!backfill) {
+      return NextResponse.json({ error: 'Only failed or cancelled backfills can be resumed' }, { status: 409 });
+    }
+
+    await inngest.send({
+      name: 'email/backfill.requested',
+      data: { backfillId: backfill.id, connectionId: backfill.email_connection_id },
+    });
+
+    return NextResponse.json({ backfill });
+  } catch (error) {
+    console.error('Email backfill resume error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/email/backfill/[id]
+ * Cancel a backfill. The page being imported finishes first; it can be
+ * resumed later.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const admin = createAdminClient();
+    const { data: backfill } = await admin
+      .from('email_backfills')
+      .update({ status: 'cancelled' })
+      .eq('id', id)
+      .eq('org_id', profile.org_id)
+      .in('status', ['pending', 'running'])
+      .select()
+      .maybeSingle();
+
+    if (!backfill) {
+      return NextResponse.json({ error: 'Backfill is not running' }, { status: 409 });
+    }
+
+    return NextResponse.json({ backfill });
+  } catch (error) {
+    console.error('Email backfill cancel error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { inngest } from '@/inngest/client';
+import { MAILBOX_PROVIDERS } from '@/lib/mailbox/provider';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/email/backfill
+ * The org's recent backfills across its mailbox connections, with their
+ * progress.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const admin = createAdminClient();
+    const { data: backfills } = await admin
+      .from('email_backfills')
+      .select('*, email_connections(connected_email)')
+      .eq('org_id', profile.org_id)
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    return NextResponse.json({ backfills: backfills || [] });
+  } catch (error) {
+    console.error('Email backfill list error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/email/backfill
+ * Start importing a mailbox connection's NOIs received between two dates,
+ * using its search rules.
+ * Body: { connectionId: string, startDate: 'YYYY-MM-DD', endDate: 'YYYY-MM-DD' }  — dates inclusive
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { connectionId, startDate, endDate } = await request.json();
+    if (!ISO_DATE.test(startDate ?? '') || !ISO_DATE.test(endDate ?? '')) {
+      return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD dates' }, { status: 400 });
+    }
+    if (startDate > endDate) {
+      return NextResponse.json({ error: 'startDate must be on or before endDate' }, { status: 400 });
+    }
+
+    const admin = createAdminClient();
+    const { data: connection } = await admin
+      .from('email_connections')
+      .select('id')
+      .eq('id', connectionId)
+      .eq('org_id', profile.org_id)
+      .in('provider', [...MAILBOX_PROVIDERS])
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (!connection) {
+      return NextResponse.json({ error: 'No active mailbox connection found' }, { status: 404 });
+    }
+
+    const { data: active } = await admin
+      .from('email_backfills')
+      .select('id')
+      .eq('email_connection_id', connection.id)
+      .in('status', ['pending', 'running'])
+      .limit(1);
+
+    if (active && active.length > 0) {
+      return NextResponse.json({ error: 'A backfill is already running for this mailbox' }, { status: 409 });
+    }
+
+    const { data: backfill, error: insertError } = await admin
+      .from('email_backfills')
+      .insert({
+        org_id: profile.org_id,
+        email_connection_id: connection.id,
+        start_date: startDate,
+        end_date: endDate,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (insertError || !backfill) {
+      return NextResponse.json({ error: 'Failed to start backfill' }, { status: 500 });
+    }
+
+    await inngest.send({
+      name: 'email/backfill.requested',
+      data: { backfillId: backfill.id, connectionId: connection.id },
+    });
+
+    return NextResponse.json({ backfill }, { status: 201 });
+  } catch (error) {
+    console.error('Email backfill start error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { google } from 'googleapis';
 import { createAdminClient } from '@/lib/supabase/server';
-import { exchangeCode, decryptToken, encryptToken } from '@/lib/google-auth';
+import { exchangeCode, encryptToken, readAuthState, type AuthState } from '@/lib/google-auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,10 +22,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Decrypt org_id from state param
-    let orgId: string;
+    // Decrypt org and user from state param
+    let authState: AuthState;
     try {
-      orgId = decryptToken(state);
+      authState = readAuthState(state);
     } catch {
       return NextResponse.redirect(
         new URL('/settings?email_error=invalid_state', request.url),
@@ -51,26 +51,42 @@ export async function GET(request: NextRequest) {
     // Store encrypted tokens
     const supabase = createAdminClient();
 
-    // Upsert — replace existing connection for this org+provider
-    const { error: upsertError } = await supabase
+    const tokenFields = {
+      access_token_encrypted: encryptToken(tokens.access_token),
+      refresh_token_encrypted: encryptToken(tokens.refresh_token),
+      token_expires_at: tokens.expiry_date
+        ? new Date(tokens.expiry_date).toISOString()
+        : null,
+      status: 'active',
+    };
+
+    // Reconnecting a mailbox refreshes its tokens and keeps its owner,
+    // rules and history; a new address gets its own connection
+    const { data: existing } = await supabase
       .from('email_connections')
-      .upsert(
-        {
-          org_id: orgId,
+      .select('id')
+      .eq('org_id', authState.orgId)
+      .eq('provider', 'gmail')
+      .eq('connected_email', connectedEmail)
+      .maybeSingle();
+
+    const { error: saveError } = existing
+      ? await supabase
+        .from('email_connections')
+        .update(tokenFields)
+        .eq('id', existing.id)
+      : await supabase
+        .from('email_connections')
+        .insert({
+          org_id: authState.orgId,
           provider: 'gmail',
           connected_email: connectedEmail,
-          access_token_encrypted: encryptToken(tokens.access_token),
-          refresh_token_encrypted: encryptToken(tokens.refresh_token),
-          token_expires_at: tokens.expiry_date
-            ? new Date(tokens.expiry_date).toISOString()
-            : null,
-          status: 'active',
-        },
-        { onConflict: 'org_id,provider' },
-      );
+          owner_id: authState.userId,
+          ...tokenFields,
+        });
 
-    if (upsertError) {
-      console.error('Failed to store email connection:', upsertError);
+    if (saveError) {
+      console.error('Failed to store email connection:', saveError);
       return NextResponse.redirect(
         new URL('/settings?email_error=storage_failed', request.url),
       );
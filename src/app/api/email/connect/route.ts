@@ -1,8 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getAuthUrl } from '@/lib/google-auth';
+import { getMicrosoftAuthUrl } from '@/lib/microsoft-auth';
+import { isMailboxProvider, MAILBOX_PROVIDERS } from '@/lib/mailbox/provider';
 
-export async function GET() {
+/**
+ * GET /api/email/connect?provider=gmail|outlook
+ * Consent URL for connecting a Gmail or Microsoft 365 mailbox (Gmail when
+ * provider is omitted). The member connecting it becomes the connection's
+ * owner.
+ */
+export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient();
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -22,22 +30,15 @@ export async function GET() {
       return NextResponse.json({ error: 'Only owners and admins can connect email' }, { status: 403 });
     }
 
-    // Check if already connected
-    const { data: existing } = await supabase
-      .from('email_connections')
-      .select('id, connected_email, status')
-      .eq('org_id', profile.org_id)
-      .eq('provider', 'gmail')
-      .maybeSingle();
-
-    if (existing && existing.status === 'active') {
-      return NextResponse.json({
-        error: 'Gmail already connected',
-        connected_email: existing.connected_email,
-      }, { status: 409 });
+    const provider = request.nextUrl.searchParams.get('provider') || 'gmail';
+    if (!isMailboxProvider(provider)) {
+      return NextResponse.json({ error: `provider must be one of: ${MAILBOX_PROVIDERS.join(', ')}` }, { status: 400 });
     }
 
-    const url = getAuthUrl(profile.org_id);
+    // Any number of mailboxes can be connected; the callback refreshes one
+    // that already is
+    const state = { orgId: profile.org_id, userId: user.id };
+    const url = provider === 'outlook' ? getMicrosoftAuthUrl(state) : getAuthUrl(state);
     return NextResponse.json({ url });
   } catch (error) {
     console.error('Email connect error:', error);
@@ -1,10 +1,19 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { google } from 'googleapis';
 import { createClient } from '@/lib/supabase/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { decryptToken } from '@/lib/google-auth';
+import { MAILBOX_PROVIDERS } from '@/lib/mailbox/provider';
 
-export async function DELETE() {
+/**
+ * DELETE /api/email/disconnect
+ * Remove one mailbox connection, revoking its Google token for Gmail (Microsoft
+ * has no per-token revocation; the grant stays until the user removes the
+ * app from their account). Its sync log and backfills are deleted with it;
+ * the violations it created stay.
+ * Body: { connectionId: string }
+ */
+export async function DELETE(request: NextRequest) {
   try {
     const supabase = await createClient();
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -23,12 +32,18 @@ export async function DELETE() {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
+    const { connectionId } = await request.json().catch(() => ({}));
+    if (typeof connectionId !== 'string') {
+      return NextResponse.json({ error: 'connectionId is required' }, { status: 400 });
+    }
+
     const admin = createAdminClient();
     const { data: connection } = await admin
       .from('email_connections')
-      .select('id, access_token_encrypted')
+      .select('id, provider, access_token_encrypted')
+      .eq('id', connectionId)
       .eq('org_id', profile.org_id)
-      .eq('provider', 'gmail')
+      .in('provider', [...MAILBOX_PROVIDERS])
       .maybeSingle();
 
     if (!connection) {
@@ -36,12 +51,14 @@ export async function DELETE() {
     }
 
     // Revoke the Google OAuth token
-    try {
-      const accessToken = decryptToken(connection.access_token_encrypted);
-      const auth = new google.auth.OAuth2();
-      await auth.revokeToken(accessToken);
-    } catch {
-      // Token may already be invalid — proceed with deletion
+    if (connection.provider === 'gmail') {
+      try {
+        const accessToken = decryptToken(connection.access_token_encrypted);
+        const auth = new google.auth.OAuth2();
+        await auth.revokeToken(accessToken);
+      } catch {
+        // Token may already be invalid — proceed with deletion
+      }
     }
 
     // Remove the connection
@@ -50,7 +67,7 @@ export async function DELETE() {
       .delete()
       .eq('id', connection.id);
 
-    return NextResponse.json({ message: 'Gmail disconnected successfully' });
+    return NextResponse.json({ message: 'Mailbox disconnected successfully' });
   } catch (error) {
     console.error('Email disconnect error:', error);
     return NextResponse.json(
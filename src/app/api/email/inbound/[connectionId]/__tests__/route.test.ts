@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { signInboundEmail } from '@/lib/inbound-email';
+
+// Thenable chain mock — supports .single()/.maybeSingle() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'insert', 'eq'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  chain.maybeSingle = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockAdminFrom = vi.fn();
+const mockUpload = vi.fn();
+const mockSend = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => ({
+    from: mockAdminFrom,
+    storage: { from: () => ({ upload: mockUpload }) },
+  }),
+}));
+
+vi.mock('@/inngest/client', () => ({
+  inngest: { send: (...args: unknown[]) => mockSend(...args) },
+}));
+
+vi.mock('@/lib/google-auth', () => ({
+  decryptToken: (value: string) => value.replace(/^enc:/, ''),
+}));
+
+vi.mock('@/lib/pdf-fingerprint', () => ({
+  fingerprintPdf: vi.fn().mockResolvedValue({ pdf_sha256: 'abc', pdf_text_sha256: null }),
+  findPdfDuplicate: vi.fn().mockResolvedValue(null),
+}));
+
+const SECRET = 'whsec_test';
+const PDF = Buffer.from('%PDF-1.4 notice of infraction');
+
+// What a forwarding rule delivers: the DOB email with its NOI attached
+const fixture = [
+  'From: "DOB Inspections" <inspections@dc.gov>',
+  'To: noi@owner.example',
+  'Subject: =?UTF-8?B?Tm90aWNlIG9mIEluZnJhY3Rpb24gMjVOT0lFLUlOUy0wNTQ3OA==?=',
+  'Date: Tue, 19 Aug 2025 14:02:00 -0400',
+  'Message-ID: <CAF123@mail.dc.gov>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Please see the attached notice.',
+  '--b1',
+  'Content-Type: application/pdf; name="25NOIE-INS-05478.pdf"',
+  'Content-Disposition: attachment; filename="25NOIE-INS-05478.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  PDF.toString('base64'),
+  '--b1--',
+  '',
+].join('\r\n');
+
+let tables: Record<string, ReturnType<typeof makeMock>>;
+
+function setupTables(loggedRows: unknown[] = [], searchRules: Record<string, unknown> = {}) {
+  tables = {
+    email_connections: makeMock({
+      id: 'conn-1',
+      org_id: 'org-1',
+      status: 'active',
+      webhook_secret_encrypted: `enc:${SECRET}`,
+      search_rules: searchRules,
+    }),
+    email_sync_log: makeMock(loggedRows),
+    violations: makeMock({ id: 'v-new' }),
+  };
+  mockAdminFrom.mockImplementation((table: string) => tables[table]);
+}
+
+function makeRequest(message: string, { secret = SECRET, timestamp = Math.floor(Date.now() / 1000) } = {}) {
+  const body = Buffer.from(message);
+  return new NextRequest('http://localhost/api/email/inbound/conn-1', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'message/rfc822',
+      'x-inbound-timestamp': String(timestamp),
+      'x-inbound-signature': signInboundEmail(secret, timestamp, body),
+    },
+    body,
+  });
+}
+
+const params = { params: Promise.resolve({ connectionId: 'conn-1' }) };
+
+describe('POST /api/email/inbound/[connectionId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpload.mockResolvedValue({ error: null });
+    setupTables();
+  });
+
+  it('rejects requests not signed with the org secret', async () => {
+    const res = await POST(makeRequest(fixture, { secret: 'whsec_other' }), params);
+    expect(res.status).toBe(401);
+    expect(tables.email_sync_log.insert).not.toHaveBeenCalled();
+  });
+
+  it('refuses a message declared over the size limit without reading it', async () => {
+    const request = new NextRequest('http://localhost/api/email/inbound/conn-1', {
+      method: 'POST',
+      headers: { 'Content-Length': String(26 * 1024 * 1024) },
+      body: fixture,
+    });
+
+    const res = await POST(request, params);
+
+    expect(res.status).toBe(413);
+    expect(request.bodyUsed).toBe(false);
+  });
+
+  it('stops reading a streamed message once it passes the size limit', async () => {
+    let pulled = 0;
+    const chunk = new Uint8Array(1024 * 1024);
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        if (pulled > 100) controller.close();
+        else controller.enqueue(chunk);
+      },
+    });
+    const request = new NextRequest('http://localhost/api/email/inbound/conn-1', {
+      method: 'POST',
+      body,
+      duplex: 'half',
+    } as ConstructorParameters<typeof NextRequest>[1] & { duplex: 'half' });
+
+    const res = await POST(request, params);
+
+    expect(res.status).toBe(413);
+    expect(pulled).toBeLessThan(30);
+  });
+
+  it('rejects replayed requests with an old timestamp', async () => {
+    const res = await POST(makeRequest(fixture, { timestamp: Math.floor(Date.now() / 1000) - 3600 }), params);
+    expect(res.status).toBe(401);
+  });
+
+  it('imports the PDF attachment and queues a parse', async () => {
+    const res = await POST(makeRequest(fixture), params);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ status: 'processed', outcomes: [{ violationId: 'v-new', status: 'processed' }] });
+
+    expect(mockUpload).toHaveBeenCalledWith(
+      'org-1/email-imports/CAF123_mail.dc.gov/25NOIE-INS-05478.pdf',
+      PDF,
+      expect.objectContaining({ contentType: 'application/pdf' }),
+    );
+    expect(tables.violations.insert).toHaveBeenCalledWith(expect.objectContaining({
+      org_id: 'org-1',
+      source: 'email',
+      parse_metadata: expect.objectContaining({ email_subject: 'Notice of Infraction 25NOIE-INS-05478' }),
+    }));
+    expect(mockSend).toHaveBeenCalledWith({
+      name: 'noi/parse.requested',
+      data: { violationId: 'v-new', pdfStoragePath: 'org-1/email-imports/CAF123_mail.dc.gov/25NOIE-INS-05478.pdf', orgId: 'org-1' },
+    });
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(expect.objectContaining({
+      email_connection_id: 'conn-1',
+      gmail_message_id: 'CAF123@mail.dc.gov',
+      from_address: '"DOB Inspections" <inspections@dc.gov>',
+      received_at: '2025-08-19T18:02:00.000Z',
+      attachment_name: '25NOIE-INS-05478.pdf',
+      violation_id: 'v-new',
+      status: 'processed',
+    }));
+  });
+
+  it('imports every PDF attachment on its own log row', async () => {
+    const second = Buffer.from('%PDF-1.4 second notice');
+    const twoPdfs = fixture.replace('--b1--', [
+      '--b1',
+      'Content-Type: application/pdf; name="25NOIE-INS-05479.pdf"',
+      'Content-Disposition: attachment; filename="25NOIE-INS-05479.pdf"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      second.toString('base64'),
+      '--b1--',
+    ].join('\r\n'));
+
+    const body = await (await POST(makeRequest(twoPdfs), params)).json();
+
+    expect(body.outcomes).toHaveLength(2);
+    expect(mockUpload).toHaveBeenCalledTimes(2);
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(expect.objectContaining({ attachment_name: '25NOIE-INS-05478.pdf' }));
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(expect.objectContaining({ attachment_name: '25NOIE-INS-05479.pdf' }));
+  });
+
+  it('skips a message it has already logged', async () => {
+    setupTables([{ attachment_name: '25NOIE-INS-05478.pdf' }]);
+
+    const res = await POST(makeRequest(fixture), params);
+    expect((await res.json()).status).toBe('skipped');
+    expect(tables.email_sync_log.insert).not.toHaveBeenCalled();
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('logs messages without a PDF as skipped', async () => {
+    const noPdf = fixture.replace(/--b1\r\nContent-Type: application\/pdf[\s\S]*?(?=--b1--)/, '');
+
+    const res = await POST(makeRequest(noPdf), params);
+    expect((await res.json()).status).toBe('skipped');
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'skipped',
+      error_message: 'No PDF attachment found',
+    }));
+  });
+
+  it('logs messages the search rules exclude as skipped', async () => {
+    setupTables([], { exclude_senders: ['@dc.gov'] });
+
+    const res = await POST(makeRequest(fixture), params);
+    expect((await res.json()).status).toBe('skipped');
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'skipped',
+      error_message: 'Sender matches exclude rule "@dc.gov"',
+    }));
+    expect(mockUpload).not.toHaveBeenCalled();
+  });
+});
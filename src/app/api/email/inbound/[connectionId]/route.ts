@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { decryptToken } from '@/lib/google-auth';
+import { importDobResponse, importEmailPdfs } from '@/lib/email-intake';
+import {
+  FORWARDED_MAILBOX_RULES,
+  matchMessage,
+  readMailboxRules,
+  senderAllowed,
+  unmatchedReason,
+} from '@/lib/mailbox-rules';
+import { parseEmail, pdfAttachments } from '@/lib/mime';
+import {
+  INBOUND_SIGNATURE_HEADER,
+  INBOUND_TIMESTAMP_HEADER,
+  verifyInboundSignature,
+} from '@/lib/inbound-email';
+
+// Larger than any NOI email we've seen; inbound-parse services cap around here too
+const MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * The request body, or null once it passes `limit` bytes. A declared
+ * Content-Length over the limit is refused before anything is read, and a
+ * chunked body stops being read as soon as it goes over.
+ */
+async function readBody(request: NextRequest, limit: number): Promise<Buffer | null> {
+  if (Number(request.headers.get('content-length')) > limit) return null;
+  if (!request.body) return Buffer.alloc(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * POST /api/email/inbound/[connectionId]
+ * Inbound-email webhook. Accepts one raw MIME message per request, signed
+ * with the org's webhook secret (see src/lib/inbound-email.ts), and imports
+ * each PDF attachment the same way mailbox sync does. DOB replies to a
+ * submission are recorded on it instead (see src/lib/dob-responses.ts).
+ * Messages the connection's search rules exclude are logged as skipped.
+ * Body: raw RFC 822 message
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string }> },
+) {
+  try {
+    const { connectionId } = await params;
+
+    const admin = createAdminClient();
+    const { data: connection } = await admin
+      .from('email_connections')
+      .select('id, org_id, status, webhook_secret_encrypted, search_rules')
+      .eq('id', connectionId)
+      .eq('provider', 'webhook')
+      .maybeSingle();
+
+    if (!connection || connection.status !== 'active' || !connection.webhook_secret_encrypted) {
+      return NextResponse.json({ error: 'Unknown inbound address' }, { status: 404 });
+    }
+
+    const body = await readBody(request, MAX_MESSAGE_BYTES);
+    if (!body) {
+      return NextResponse.json({ error: 'Message too large' }, { status: 413 });
+    }
+
+    const verified = verifyInboundSignature({
+      secret: decryptToken(connection.webhook_secret_encrypted),
+      timestamp: request.headers.get(INBOUND_TIMESTAMP_HEADER),
+      signature: request.headers.get(INBOUND_SIGNATURE_HEADER),
+      body,
+    });
+    if (!verified) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const email = parseEmail(body);
+    // Forwarders normally keep the Message-ID; fall back to the content so
+    // a redelivered message still lands on the same log row
+    const messageId = email.messageId || `sha256-${crypto.createHash('sha256').update(body).digest('hex')}`;
+
+    const rules = readMailboxRules(connection.search_rules, FORWARDED_MAILBOX_RULES);
+    const message = {
+      messageId,
+      from: email.from,
+      subject: email.subject,
+      receivedAt: email.date || new Date().toISOString(),
+    };
+
+    const response = senderAllowed(email.from, rules)
+      ? await importDobResponse(connection, message, email.text)
+      : null;
+    if (response) {
+      return NextResponse.json({ status: response.status, outcomes: [response] });
+    }
+
+    const pdfs = pdfAttachments(email);
+    const match = matchMessage(
+      { from: email.from, subject: email.subject, labels: null, attachments: pdfs.map(a => a.filename) },
+      rules,
+    );
+    const matchedNames = new Set(match.attachments);
+
+    const outcomes = await importEmailPdfs(
+      connection,
+      message,
+      pdfs
+        .filter(a => matchedNames.has(a.filename))
+        .map(a => ({ filename: a.filename, load: async () => a.data })),
+      { skipReason: match.matched ? undefined : unmatchedReason(match) },
+    );
+
+    if (!outcomes.length) {
+      return NextResponse.json({ status: 'skipped', error: 'Message already received', outcomes });
+    }
+
+    await admin
+      .from('email_connections')
+      .update({
+        last_synced_at: new Date().toISOString(),
+        last_sync_message_count: outcomes.filter(o => o.status === 'processed').length,
+      })
+      .eq('id', connection.id);
+
+    // One status for the message: processed if any attachment was
+    const status = outcomes.find(o => o.status === 'processed')?.status ?? outcomes[0].status;
+    return NextResponse.json({ status, outcomes });
+  } catch (error) {
+    console.error('Inbound email error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
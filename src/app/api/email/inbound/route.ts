@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { encryptToken } from '@/lib/google-auth';
+import { generateWebhookSecret } from '@/lib/inbound-email';
+
+const CONNECTION_FIELDS = 'id, connected_email, status, last_synced_at, created_at';
+
+function inboundUrl(request: NextRequest, connectionId: string): string {
+  return new URL(`/api/email/inbound/${connectionId}`, request.url).toString();
+}
+
+/**
+ * GET /api/email/inbound
+ * The org's inbound-email webhook, if set up. The secret is never returned.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const admin = createAdminClient();
+    const { data: connection } = await admin
+      .from('email_connections')
+      .select(CONNECTION_FIELDS)
+      .eq('org_id', profile.org_id)
+      .eq('provider', 'webhook')
+      .maybeSingle();
+
+    return NextResponse.json({
+      connection: connection ? { ...connection, url: inboundUrl(request, connection.id) } : null,
+    });
+  } catch (error) {
+    console.error('Inbound email status error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/email/inbound
+ * Set up the org's inbound-email webhook, or rotate its signing secret if it
+ * exists. The new secret is returned once and only stored encrypted.
+ * Body: { label?: string }  — which mailbox forwards here, for display
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const label = typeof body.label === 'string' && body.label.trim() ? body.label.trim() : null;
+
+    const secret = generateWebhookSecret();
+    const admin = createAdminClient();
+
+    const { data: existing } = await admin
+      .from('email_connections')
+      .select('id, connected_email')
+      .eq('org_id', profile.org_id)
+      .eq('provider', 'webhook')
+      .maybeSingle();
+
+    const { data: connection, error: saveError } = existing
+      ? await admin
+        .from('email_connections')
+        .update({
+          webhook_secret_encrypted: encryptToken(secret),
+          connected_email: label ?? existing.connected_email,
+          status: 'active',
+        })
+        .eq('id', existing.id)
+        .select(CONNECTION_FIELDS)
+        .single()
+      : await admin
+        .from('email_connections')
+        .insert({
+          org_id: profile.org_id,
+          provider: 'webhook',
+          connected_email: label ?? 'Inbound email',
+          webhook_secret_encrypted: encryptToken(secret),
+          status: 'active',
+        })
+        .select(CONNECTION_FIELDS)
+        .single();
+
+    if (saveError || !connection) {
+      return NextResponse.json({ error: saveError?.message || 'Failed to save inbound email' }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { connection: { ...connection, url: inboundUrl(request, connection.id) }, secret },
+      { status: existing ? 200 : 201 },
+    );
+  } catch (error) {
+    console.error('Inbound email setup error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/email/inbound
+ * Remove the org's inbound-email webhook; its address stops accepting mail.
+ */
+export async function DELETE() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const admin = createAdminClient();
+    const { data: deleted } = await admin
+      .from('email_connections')
+      .delete()
+      .eq('org_id', profile.org_id)
+      .eq('provider', 'webhook')
+      .select('id');
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'No inbound email set up' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Inbound email removed' });
+  } catch (error) {
+    console.error('Inbound email delete error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
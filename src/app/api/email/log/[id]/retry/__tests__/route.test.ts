@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+
+// Thenable chain mock — supports .single()/.maybeSingle() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'insert', 'delete', 'eq'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  chain.maybeSingle = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockFrom = vi.fn();
+const mockAdminFrom = vi.fn();
+const mockAuthGetUser = vi.fn();
+const mockRetry = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: () => ({
+    from: mockFrom,
+    auth: { getUser: mockAuthGetUser },
+  }),
+  createAdminClient: () => ({
+    from: mockAdminFrom,
+  }),
+}));
+
+vi.mock('@/lib/mailbox/sync', () => ({
+  retryMailboxMessage: (...args: unknown[]) => mockRetry(...args),
+}));
+
+const skippedEntry = {
+  id: 'log-1',
+  org_id: 'org-1',
+  email_connection_id: 'conn-1',
+  gmail_message_id: 'm-1',
+  attachment_name: '',
+  status: 'skipped',
+  error_message: 'Subject matches no include rule',
+};
+
+let tables: Record<string, ReturnType<typeof makeMock>>;
+
+function setupTables(entry: unknown, provider = 'gmail') {
+  tables = {
+    email_sync_log: makeMock(entry),
+    email_connections: makeMock({ id: 'conn-1', org_id: 'org-1', status: 'active', provider }),
+  };
+  mockAdminFrom.mockImplementation((table: string) => tables[table]);
+}
+
+function makeRequest(body: Record<string, unknown> = {}) {
+  return new NextRequest('http://localhost/api/email/log/log-1/retry', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const params = { params: Promise.resolve({ id: 'log-1' }) };
+
+describe('POST /api/email/log/[id]/retry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockFrom.mockReturnValue(makeMock({ org_id: 'org-1', role: 'ADMIN' }));
+    setupTables(skippedEntry);
+  });
+
+  it('returns 403 for project managers', async () => {
+    mockFrom.mockReturnValue(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+
+    const res = await POST(makeRequest(), params);
+    expect(res.status).toBe(403);
+  });
+
+  it('force-imports a skipped Gmail message after clearing its log row', async () => {
+    mockRetry.mockResolvedValue([{ violationId: 'v-1', status: 'processed' }]);
+
+    const res = await POST(makeRequest({ force: true }), params);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.outcomes).toEqual([{ violationId: 'v-1', status: 'processed' }]);
+    expect(tables.email_sync_log.delete).toHaveBeenCalled();
+    expect(mockRetry).toHaveBeenCalledWith(expect.objectContaining({ id: 'conn-1' }), 'm-1', { force: true });
+  });
+
+  it('only retries failed or skipped messages, and only force-imports skipped ones', async () => {
+    setupTables({ ...skippedEntry, status: 'processed' });
+    expect((await POST(makeRequest(), params)).status).toBe(409);
+
+    setupTables({ ...skippedEntry, status: 'failed' });
+    expect((await POST(makeRequest({ force: true }), params)).status).toBe(409);
+    expect(mockRetry).not.toHaveBeenCalled();
+  });
+
+  it('refuses webhook messages, which are not stored', async () => {
+    setupTables(skippedEntry, 'webhook');
+
+    const res = await POST(makeRequest(), params);
+    expect(res.status).toBe(409);
+    expect(tables.email_sync_log.delete).not.toHaveBeenCalled();
+  });
+
+  it('puts the log row back when the message cannot be fetched', async () => {
+    mockRetry.mockRejectedValue(new Error('Gmail unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const res = await POST(makeRequest(), params);
+    expect(res.status).toBe(500);
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(skippedEntry);
+  });
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { retryMailboxMessage } from '@/lib/mailbox/sync';
+import { isMailboxProvider } from '@/lib/mailbox/provider';
+
+/**
+ * POST /api/email/log/[id]/retry
+ * Run a failed or skipped message through intake again: a failed attachment
+ * is imported again, a skipped message is checked against the current search
+ * rules. With force, a message the rules skipped is imported anyway (every
+ * PDF attachment). Only Gmail and Outlook messages can be fetched again;
+ * webhook mail has to be forwarded again.
+ * Body: { force?: boolean }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const force = body?.force === true;
+
+    const admin = createAdminClient();
+    const { data: entry } = await admin
+      .from('email_sync_log')
+      .select('*')
+      .eq('id', id)
+      .eq('org_id', profile.org_id)
+      .maybeSingle();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Log entry not found' }, { status: 404 });
+    }
+
+    if (force ? entry.status !== 'skipped' : !['failed', 'skipped'].includes(entry.status)) {
+      return NextResponse.json(
+        { error: force ? 'Only skipped messages can be force-imported' : 'Only failed or skipped messages can be retried' },
+        { status: 409 },
+      );
+    }
+
+    const { data: connection } = await admin
+      .from('email_connections')
+      .select('*')
+      .eq('id', entry.email_connection_id)
+      .single();
+
+    if (!connection || connection.status !== 'active') {
+      return NextResponse.json({ error: 'The mailbox for this message is no longer connected' }, { status: 409 });
+    }
+    if (!isMailboxProvider(connection.provider)) {
+      return NextResponse.json(
+        { error: 'Webhook messages are not stored; forward the email to the inbound address again' },
+        { status: 409 },
+      );
+    }
+
+    // Intake skips anything already logged, so the row being retried goes
+    // first; it is put back if the message can't be fetched
+    await admin.from('email_sync_log').delete().eq('id', entry.id);
+
+    try {
+      const outcomes = await retryMailboxMessage(connection, entry.gmail_message_id, { force });
+      return NextResponse.json({ outcomes });
+    } catch (err) {
+      await admin.from('email_sync_log').insert(entry);
+      throw err;
+    }
+  } catch (error) {
+    console.error('Email log retry error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
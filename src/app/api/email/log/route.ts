@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+
+const LOG_STATUSES = ['processed', 'skipped', 'failed', 'duplicate', 'response'];
+const PAGE_SIZE = 25;
+
+/**
+ * GET /api/email/log
+ * Sync history: one row per imported attachment or skipped message, across
+ * the org's mailboxes, newest first, with the violation each one created.
+ * Query: ?status=failed&page=1
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+
+    if (status && !LOG_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `status must be one of: ${LOG_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const admin = createAdminClient();
+    let query = admin
+      .from('email_sync_log')
+      .select(
+        'id, gmail_message_id, attachment_name, from_address, subject, received_at, violation_id, status, error_message, created_at, ' +
+          'violations(notice_id), email_connections(provider, connected_email)',
+        { count: 'exact' },
+      )
+      .eq('org_id', profile.org_id);
+
+    if (status) query = query.eq('status', status);
+
+    const from = (page - 1) * PAGE_SIZE;
+    const { data: entries, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      entries: entries || [],
+      total: count || 0,
+      page,
+      totalPages: Math.ceil((count || 0) / PAGE_SIZE),
+    });
+  } catch (error) {
+    console.error('Email log error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { encryptToken, readAuthState, type AuthState } from '@/lib/google-auth';
+import { exchangeMicrosoftCode, getMicrosoftMailbox } from '@/lib/microsoft-auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const code = request.nextUrl.searchParams.get('code');
+    const state = request.nextUrl.searchParams.get('state');
+    const error = request.nextUrl.searchParams.get('error');
+
+    if (error) {
+      // User denied access
+      return NextResponse.redirect(
+        new URL('/settings?email_error=access_denied', request.url),
+      );
+    }
+
+    if (!code || !state) {
+      return NextResponse.redirect(
+        new URL('/settings?email_error=missing_params', request.url),
+      );
+    }
+
+    // Decrypt org and user from state param
+    let authState: AuthState;
+    try {
+      authState = readAuthState(state);
+    } catch {
+      return NextResponse.redirect(
+        new URL('/settings?email_error=invalid_state', request.url),
+      );
+    }
+
+    // Exchange authorization code for tokens
+    const tokens = await exchangeMicrosoftCode(code);
+
+    if (!tokens.refresh_token) {
+      return NextResponse.redirect(
+        new URL('/settings?email_error=no_tokens', request.url),
+      );
+    }
+
+    const connectedEmail = await getMicrosoftMailbox(tokens.access_token);
+
+    // Store encrypted tokens
+    const supabase = createAdminClient();
+
+    const tokenFields = {
+      access_token_encrypted: encryptToken(tokens.access_token),
+      refresh_token_encrypted: encryptToken(tokens.refresh_token),
+      token_expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+      status: 'active',
+    };
+
+    // Reconnecting a mailbox refreshes its tokens and keeps its owner,
+    // rules and history; a new address gets its own connection
+    const { data: existing } = await supabase
+      .from('email_connections')
+      .select('id')
+      .eq('org_id', authState.orgId)
+      .eq('provider', 'outlook')
+      .eq('connected_email', connectedEmail)
+      .maybeSingle();
+
+    const { error: saveError } = existing
+      ? await supabase
+        .from('email_connections')
+        .update(tokenFields)
+        .eq('id', existing.id)
+      : await supabase
+        .from('email_connections')
+        .insert({
+          org_id: authState.orgId,
+          provider: 'outlook',
+          connected_email: connectedEmail,
+          owner_id: authState.userId,
+          ...tokenFields,
+        });
+
+    if (saveError) {
+      console.error('Failed to store Outlook connection:', saveError);
+      return NextResponse.redirect(
+        new URL('/settings?email_error=storage_failed', request.url),
+      );
+    }
+
+    return NextResponse.redirect(
+      new URL(`/settings?email_connected=${encodeURIComponent(connectedEmail)}`, request.url),
+    );
+  } catch (error) {
+    console.error('Outlook callback error:', error);
+    return NextResponse.redirect(
+      new URL('/settings?email_error=callback_failed', request.url),
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  FORWARDED_MAILBOX_RULES,
+  hasIncludeRule,
+  readMailboxRules,
+  validateMailboxRules,
+} from '@/lib/mailbox-rules';
+
+/**
+ * PATCH /api/email/rules
+ * Replace a connection's search rules. Lists left out fall back to the
+ * defaults; an empty list turns that rule off.
+ * Body: { connectionId: string, rules: Partial<MailboxRules> }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (typeof body.connectionId !== 'string') {
+      return NextResponse.json({ error: 'connectionId is required' }, { status: 400 });
+    }
+    const rulesError = validateMailboxRules(body.rules);
+    if (rulesError) {
+      return NextResponse.json({ error: rulesError }, { status: 400 });
+    }
+
+    const admin = createAdminClient();
+    const { data: connection } = await admin
+      .from('email_connections')
+      .select('id, provider')
+      .eq('id', body.connectionId)
+      .eq('org_id', profile.org_id)
+      .maybeSingle();
+
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    const rules = readMailboxRules(
+      body.rules,
+      connection.provider === 'webhook' ? FORWARDED_MAILBOX_RULES : undefined,
+    );
+    // A mailbox search with no include rule would import every attachment
+    if (connection.provider !== 'webhook' && !hasIncludeRule(rules)) {
+      return NextResponse.json(
+        { error: 'Add at least one sender, subject or label to include' },
+        { status: 400 },
+      );
+    }
+
+    const { error: updateError } = await admin
+      .from('email_connections')
+      .update({ search_rules: rules })
+      .eq('id', connection.id);
+
+    if (updateError) {
+      return NextResponse.json({ error: 'Failed to save rules' }, { status: 500 });
+    }
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Email rules update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { previewMailboxRules } from '@/lib/mailbox/sync';
+import { MAILBOX_PROVIDERS } from '@/lib/mailbox/provider';
+import { readMailboxRules, validateMailboxRules } from '@/lib/mailbox-rules';
+
+/**
+ * POST /api/email/rules/test
+ * Preview search rules against a mailbox connection's recent messages
+ * without saving them or importing anything.
+ * Body: { connectionId: string, rules: Partial<MailboxRules> }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const rulesError = validateMailboxRules(body.rules);
+    if (rulesError) {
+      return NextResponse.json({ error: rulesError }, { status: 400 });
+    }
+
+    const admin = createAdminClient();
+    const { data: connection } = await admin
+      .from('email_connections')
+      .select('*')
+      .eq('id', body.connectionId)
+      .eq('org_id', profile.org_id)
+      .in('provider', [...MAILBOX_PROVIDERS])
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (!connection) {
+      return NextResponse.json({ error: 'No active mailbox connection found' }, { status: 404 });
+    }
+
+    const preview = await previewMailboxRules(connection, readMailboxRules(body.rules));
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('Email rules test error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
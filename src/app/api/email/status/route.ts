@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { createAdminClient } from '@/lib/supabase/server';
+import { MAILBOX_PROVIDERS } from '@/lib/mailbox/provider';
 
+/**
+ * GET /api/email/status
+ * The org's Gmail and Outlook connections, oldest first, each with its owner and sync
+ * status.
+ */
 export async function GET() {
   try {
     const supabase = await createClient();
@@ -22,30 +28,17 @@ export async function GET() {
     }
 
     const admin = createAdminClient();
-    const { data: connection } = await admin
+    const { data: connections } = await admin
       .from('email_connections')
-      .select('id, connected_email, status, auto_poll_enabled, last_synced_at, last_sync_message_count, created_at')
+      .select(
+        'id, provider, connected_email, status, auto_poll_enabled, last_synced_at, last_sync_message_count, search_rules, ' +
+          'owner_id, created_at, owner:profiles(full_name, email)',
+      )
       .eq('org_id', profile.org_id)
-      .eq('provider', 'gmail')
-      .maybeSingle();
-
-    // Get recent sync log entries
-    let recentSyncs: unknown[] = [];
-    if (connection) {
-      const { data: logs } = await admin
-        .from('email_sync_log')
-        .select('id, gmail_message_id, from_address, subject, received_at, violation_id, status, error_message, created_at')
-        .eq('email_connection_id', connection.id)
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      recentSyncs = logs || [];
-    }
+      .in('provider', [...MAILBOX_PROVIDERS])
+      .order('created_at', { ascending: true });
 
-    return NextResponse.json({
-      connection: connection || null,
-      recentSyncs,
-    });
+    return NextResponse.json({ connections: connections || [] });
   } catch (error) {
     console.error('Email status error:', error);
     return NextResponse.json(
@@ -55,6 +48,11 @@ export async function GET() {
   }
 }
 
+/**
+ * PATCH /api/email/status
+ * Change one mailbox connection's auto-poll toggle or owner.
+ * Body: { connectionId: string, auto_poll_enabled?: boolean, owner_id?: string }
+ */
 export async function PATCH(request: NextRequest) {
   try {
     const supabase = await createClient();
@@ -75,24 +73,51 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { auto_poll_enabled } = body;
+    const { connectionId, auto_poll_enabled, owner_id } = body;
+
+    if (typeof connectionId !== 'string') {
+      return NextResponse.json({ error: 'connectionId is required' }, { status: 400 });
+    }
 
-    if (typeof auto_poll_enabled !== 'boolean') {
-      return NextResponse.json({ error: 'auto_poll_enabled must be a boolean' }, { status: 400 });
+    const updates: Record<string, unknown> = {};
+    if (auto_poll_enabled !== undefined) {
+      if (typeof auto_poll_enabled !== 'boolean') {
+        return NextResponse.json({ error: 'auto_poll_enabled must be a boolean' }, { status: 400 });
+      }
+      updates.auto_poll_enabled = auto_poll_enabled;
     }
 
     const admin = createAdminClient();
+
+    if (owner_id !== undefined) {
+      const { data: owner } = await admin
+        .from('profiles')
+        .select('id')
+        .eq('id', owner_id)
+        .eq('org_id', profile.org_id)
+        .maybeSingle();
+
+      if (!owner) {
+        return NextResponse.json({ error: 'owner_id must be a member of your organization' }, { status: 400 });
+      }
+      updates.owner_id = owner.id;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
+    }
+
     const { data: updated, error: updateError } = await admin
       .from('email_connections')
-      .update({ auto_poll_enabled })
+      .update(updates)
+      .eq('id', connectionId)
       .eq('org_id', profile.org_id)
-      .eq('provider', 'gmail')
-      .eq('status', 'active')
+      .in('provider', [...MAILBOX_PROVIDERS])
       .select()
       .single();
 
     if (updateError || !updated) {
-      return NextResponse.json({ error: 'No active connection found' }, { status: 404 });
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
     }
 
     return NextResponse.json({ connection: updated });
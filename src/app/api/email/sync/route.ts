@@ -1,9 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { createAdminClient } from '@/lib/supabase/server';
-import { syncEmailConnection } from '@/lib/gmail-sync';
+import { syncEmailConnection } from '@/lib/mailbox/sync';
+import { MAILBOX_PROVIDERS } from '@/lib/mailbox/provider';
 
-export async function POST() {
+/**
+ * POST /api/email/sync
+ * Sync one mailbox connection now.
+ * Body: { connectionId: string }
+ */
+export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -23,19 +29,25 @@ export async function POST() {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
-    // Get the active email connection for this org
+    const { connectionId } = await request.json().catch(() => ({}));
+    if (typeof connectionId !== 'string') {
+      return NextResponse.json({ error: 'connectionId is required' }, { status: 400 });
+    }
+
+    // The connection, if it is this org's and active
     const admin = createAdminClient();
     const { data: connection, error: connError } = await admin
       .from('email_connections')
       .select('*')
+      .eq('id', connectionId)
       .eq('org_id', profile.org_id)
-      .eq('provider', 'gmail')
+      .in('provider', [...MAILBOX_PROVIDERS])
       .eq('status', 'active')
       .single();
 
     if (connError || !connection) {
       return NextResponse.json(
-        { error: 'No active Gmail connection found. Please connect your Gmail first.' },
+        { error: 'No active mailbox connection found. Please reconnect this mailbox.' },
         { status: 404 },
       );
     }
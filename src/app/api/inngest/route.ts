@@ -1,11 +1,13 @@
 import { serve } from 'inngest/next';
 import { inngest } from '@/inngest/client';
 import { parseNOI } from '@/inngest/functions/parse-noi';
+import { reparseNOI } from '@/inngest/functions/reparse-noi';
 import { emailSyncCron } from '@/inngest/functions/email-sync';
+import { emailBackfill } from '@/inngest/functions/email-backfill';
 // import { deadlineCheck } from '@/inngest/functions/deadline-check'; // Disabled during backfill period — re-enable when caught up on old abatements
 import { sendNotificationEmail } from '@/inngest/functions/send-notification-email';
 
 export const { GET, POST, PUT } = serve({
   client: inngest,
-  functions: [parseNOI, emailSyncCron, sendNotificationEmail], // deadlineCheck removed temporarily
+  functions: [parseNOI, reparseNOI, emailSyncCron, emailBackfill, sendNotificationEmail], // deadlineCheck removed temporarily
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+
+// Thenable chain mock — supports .single() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'insert', 'delete', 'eq', 'neq', 'in', 'order', 'limit'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockFrom = vi.fn();
+const mockAdminFrom = vi.fn();
+const mockAuthGetUser = vi.fn();
+const mockDownload = vi.fn();
+const mockRemove = vi.fn();
+const mockSend = vi.fn();
+const mockFindDuplicate = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: () => ({
+    from: mockFrom,
+    auth: { getUser: mockAuthGetUser },
+  }),
+  createAdminClient: () => ({
+    from: mockAdminFrom,
+    storage: { from: () => ({ download: mockDownload, remove: mockRemove }) },
+  }),
+}));
+
+vi.mock('@/inngest/client', () => ({
+  inngest: { send: (...args: unknown[]) => mockSend(...args) },
+}));
+
+vi.mock('@/lib/pdf-fingerprint', () => ({
+  fingerprintPdf: vi.fn().mockResolvedValue({ pdf_sha256: 'abc', pdf_text_sha256: 'def' }),
+  findPdfDuplicate: (...args: unknown[]) => mockFindDuplicate(...args),
+}));
+
+function makeRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/parse', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const duplicate = { violation_id: 'v-existing', notice_id: '25NOIE-INS-05478', status: 'PARSED', match: 'exact' };
+
+describe('POST /api/parse', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+    mockDownload.mockResolvedValue({ data: new Blob(['%PDF-1.4']), error: null });
+  });
+
+  it('stores the fingerprint and starts parsing a new PDF', async () => {
+    mockFindDuplicate.mockResolvedValueOnce(null);
+    const insert = makeMock({ id: 'v-new' });
+    mockFrom.mockReturnValueOnce(insert);
+
+    const res = await POST(makeRequest({ pdfStoragePath: 'uploads/a.pdf' }));
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).violationId).toBe('v-new');
+    expect(insert.insert).toHaveBeenCalledWith(expect.objectContaining({ pdf_sha256: 'abc', pdf_text_sha256: 'def' }));
+    expect(mockSend).toHaveBeenCalledOnce();
+  });
+
+  it('answers 409 with the match instead of parsing a duplicate', async () => {
+    mockFindDuplicate.mockResolvedValueOnce(duplicate);
+
+    const res = await POST(makeRequest({ pdfStoragePath: 'uploads/a.pdf' }));
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).duplicate).toEqual(duplicate);
+    expect(mockFrom).toHaveBeenCalledTimes(1);
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('links a duplicate to the existing violation without parsing', async () => {
+    mockFindDuplicate.mockResolvedValueOnce(duplicate);
+    const audit = makeMock(null);
+    mockAdminFrom.mockReturnValueOnce(audit);
+
+    const res = await POST(makeRequest({ pdfStoragePath: 'uploads/a.pdf', onDuplicate: 'link' }));
+    const body = await res.json();
+
+    expect(body).toMatchObject({ violationId: 'v-existing', linked: true });
+    expect(mockRemove).toHaveBeenCalledWith(['uploads/a.pdf']);
+    expect(audit.insert).toHaveBeenCalledWith(expect.objectContaining({
+      record_id: 'v-existing',
+      action: 'DUPLICATE_UPLOAD_LINKED',
+    }));
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('parses anyway when asked, skipping the lookup', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ id: 'v-new' }));
+
+    const res = await POST(makeRequest({ pdfStoragePath: 'uploads/a.pdf', onDuplicate: 'parse' }));
+
+    expect(res.status).toBe(200);
+    expect(mockFindDuplicate).not.toHaveBeenCalled();
+    expect(mockSend).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+
+// Thenable chain mock — supports .single() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'insert', 'delete', 'eq', 'neq', 'in', 'order', 'limit'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockFrom = vi.fn();
+const mockAuthGetUser = vi.fn();
+const mockDownload = vi.fn();
+const mockRemove = vi.fn();
+const mockAdminUpload = vi.fn();
+const mockAdminRemove = vi.fn();
+const mockSend = vi.fn();
+const mockReadZipPdfs = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: () => ({
+    from: mockFrom,
+    auth: { getUser: mockAuthGetUser },
+    storage: { from: () => ({ download: mockDownload, remove: mockRemove }) },
+  }),
+  createAdminClient: () => ({
+    storage: { from: () => ({ upload: mockAdminUpload, remove: mockAdminRemove }) },
+  }),
+}));
+
+vi.mock('@/inngest/client', () => ({
+  inngest: { send: (...args: unknown[]) => mockSend(...args) },
+}));
+
+vi.mock('@/lib/zip', () => ({
+  readZipPdfs: (...args: unknown[]) => mockReadZipPdfs(...args),
+}));
+
+function makeRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/parse/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function pdfs(count: number) {
+  return Array.from({ length: count }, (_, i) => ({ name: `notices/NOI-${i}.pdf`, data: Buffer.from('%PDF') }));
+}
+
+const zipStoragePath = 'uploads/batches/123_notices.zip';
+
+describe('POST /api/parse/batch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+    mockDownload.mockResolvedValue({ data: new Blob(['PK']), error: null });
+    mockAdminUpload.mockResolvedValue({ error: null });
+  });
+
+  it('unpacks the zip and removes it as the caller once the violations exist', async () => {
+    mockReadZipPdfs.mockReturnValueOnce(pdfs(2));
+    const insert = makeMock([
+      { id: 'v-1', pdf_storage_path: 'a' },
+      { id: 'v-2', pdf_storage_path: 'b' },
+    ]);
+    mockFrom.mockReturnValueOnce(insert);
+
+    const res = await POST(makeRequest({ zipStoragePath }));
+
+    expect(res.status).toBe(200);
+    expect(mockDownload).toHaveBeenCalledWith(zipStoragePath);
+    expect(mockAdminUpload).toHaveBeenCalledTimes(2);
+    expect(mockRemove).toHaveBeenCalledWith([zipStoragePath]);
+    expect(mockAdminRemove).not.toHaveBeenCalled();
+    expect(mockSend).toHaveBeenCalledOnce();
+  });
+
+  it('refuses a zip outside the batch upload folder', async () => {
+    const res = await POST(makeRequest({ zipStoragePath: 'uploads/someone-elses.pdf' }));
+
+    expect(res.status).toBe(400);
+    expect(mockDownload).not.toHaveBeenCalled();
+    expect(mockRemove).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [['uploads/a.pdf', 42]],
+    [['uploads/../secret.pdf']],
+    [['other/a.pdf']],
+  ])('refuses PDF paths %j that are not strings under the upload folder', async (pdfStoragePaths) => {
+    const res = await POST(makeRequest({ pdfStoragePaths }));
+
+    expect(res.status).toBe(400);
+    expect(mockFrom).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an oversized zip before uploading anything', async () => {
+    mockReadZipPdfs.mockReturnValueOnce(pdfs(201));
+
+    const res = await POST(makeRequest({ zipStoragePath }));
+
+    expect(res.status).toBe(400);
+    expect(mockAdminUpload).not.toHaveBeenCalled();
+    expect(mockRemove).not.toHaveBeenCalled();
+  });
+
+  it('keeps the zip and drops the unpacked PDFs when the insert fails', async () => {
+    mockReadZipPdfs.mockReturnValueOnce(pdfs(2));
+    mockFrom.mockReturnValueOnce(makeMock(null, { message: 'insert failed' }));
+
+    const res = await POST(makeRequest({ zipStoragePath }));
+
+    expect(res.status).toBe(500);
+    expect(mockRemove).not.toHaveBeenCalled();
+    expect(mockAdminRemove).toHaveBeenCalledWith([
+      expect.stringMatching(/^uploads\/\d+_0_NOI-0\.pdf$/),
+      expect.stringMatching(/^uploads\/\d+_1_NOI-1\.pdf$/),
+    ]);
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { inngest } from '@/inngest/client';
+import { pendingParseMetadata } from '@/lib/parse-logger';
+import { readZipPdfs, type ZipEntry } from '@/lib/zip';
+
+const MAX_BATCH_SIZE = 200;
+
+// Where the upload zone puts PDFs and zips (see upload-zone.tsx)
+const PDF_UPLOAD_PREFIX = 'uploads/';
+const ZIP_UPLOAD_PREFIX = 'uploads/batches/';
+
+function isUploadPath(path: unknown, prefix: string): path is string {
+  return typeof path === 'string' && path.startsWith(prefix) && !path.includes('..');
+}
+
+/**
+ * POST /api/parse/batch
+ * Queue many NOI PDFs at once.
+ * Body: { pdfStoragePaths?: string[], zipStoragePath?: string }
+ *
+ * PDFs already in the noi-pdfs bucket are queued as-is. A zip is unpacked
+ * server-side: each PDF inside is stored on its own, and the zip is removed
+ * once its violations are created. The zip is read and removed as the caller,
+ * so storage policies decide whose uploads they can touch.
+ * Parsing runs in the background, throttled per org by the Inngest function.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const pdfStoragePaths: unknown[] = Array.isArray(body.pdfStoragePaths) ? body.pdfStoragePaths : [];
+    if (!pdfStoragePaths.every((path) => isUploadPath(path, PDF_UPLOAD_PREFIX))) {
+      return NextResponse.json({ error: 'Invalid pdfStoragePaths' }, { status: 400 });
+    }
+    const files: Array<{ fileName: string; pdfStoragePath: string }> = (pdfStoragePaths as string[])
+      .map((path) => ({ fileName: path.split('/').pop() || path, pdfStoragePath: path }));
+
+    let pdfs: ZipEntry[] = [];
+    const zipStoragePath: string | undefined = body.zipStoragePath;
+
+    if (zipStoragePath) {
+      if (!isUploadPath(zipStoragePath, ZIP_UPLOAD_PREFIX)) {
+        return NextResponse.json({ error: 'Invalid zipStoragePath' }, { status: 400 });
+      }
+
+      const { data: zipData, error: downloadError } = await supabase.storage
+        .from('noi-pdfs')
+        .download(zipStoragePath);
+
+      if (downloadError || !zipData) {
+        return NextResponse.json({ error: `Failed to read zip: ${downloadError?.message}` }, { status: 400 });
+      }
+
+      try {
+        pdfs = readZipPdfs(Buffer.from(await zipData.arrayBuffer()));
+      } catch (err) {
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid zip' }, { status: 400 });
+      }
+    }
+
+    if (files.length + pdfs.length === 0) {
+      return NextResponse.json({ error: 'No PDFs to parse' }, { status: 400 });
+    }
+    if (files.length + pdfs.length > MAX_BATCH_SIZE) {
+      return NextResponse.json({ error: `A batch can hold at most ${MAX_BATCH_SIZE} PDFs` }, { status: 400 });
+    }
+
+    const adminSupabase = createAdminClient();
+    const unpacked: string[] = [];
+    // If the batch fails, drop the unpacked PDFs rather than leave them with no violation
+    const removeUnpacked = async () => {
+      if (unpacked.length > 0) await adminSupabase.storage.from('noi-pdfs').remove(unpacked);
+    };
+
+    const timestamp = Date.now();
+    for (const [i, pdf] of pdfs.entries()) {
+      const fileName = pdf.name.split('/').pop()!;
+      const storagePath = `uploads/${timestamp}_${i}_${fileName.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+      const { error: uploadError } = await adminSupabase.storage
+        .from('noi-pdfs')
+        .upload(storagePath, pdf.data, { contentType: 'application/pdf' });
+
+      if (uploadError) {
+        await removeUnpacked();
+        return NextResponse.json({ error: `Upload failed for ${fileName}: ${uploadError.message}` }, { status: 500 });
+      }
+      unpacked.push(storagePath);
+      files.push({ fileName, pdfStoragePath: storagePath });
+    }
+
+    const { data: violations, error: insertError } = await supabase
+      .from('violations')
+      .insert(files.map((file) => ({
+        org_id: profile.org_id,
+        pdf_storage_path: file.pdfStoragePath,
+        source: 'parser',
+        status: 'NEW',
+        parse_status: 'pending',
+        parse_metadata: pendingParseMetadata(),
+      })))
+      .select('id, pdf_storage_path');
+
+    if (insertError || !violations) {
+      await removeUnpacked();
+      return NextResponse.json({ error: insertError?.message || 'Failed to create violations' }, { status: 500 });
+    }
+
+    if (zipStoragePath) {
+      await supabase.storage.from('noi-pdfs').remove([zipStoragePath]);
+    }
+
+    await inngest.send(violations.map((violation) => ({
+      name: 'noi/parse.requested',
+      data: {
+        violationId: violation.id,
+        pdfStoragePath: violation.pdf_storage_path,
+        orgId: profile.org_id,
+      },
+    })));
+
+    return NextResponse.json({
+      queued: violations.map((violation) => ({
+        violationId: violation.id,
+        fileName: files.find((f) => f.pdfStoragePath === violation.pdf_storage_path)?.fileName,
+      })),
+      message: `${violations.length} parse job${violations.length !== 1 ? 's' : ''} queued`,
+    });
+  } catch (error) {
+    console.error('Batch parse route error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+
+// Thenable chain mock — supports .single() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'insert', 'delete', 'eq', 'neq', 'in', 'order', 'limit'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockFrom = vi.fn();
+const mockAuthGetUser = vi.fn();
+const mockSend = vi.fn();
+const mockTransition = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: () => ({
+    from: mockFrom,
+    auth: { getUser: mockAuthGetUser },
+  }),
+}));
+
+vi.mock('@/lib/violation-transitions', () => ({
+  transitionViolation: (...args: unknown[]) => mockTransition(...args),
+}));
+
+vi.mock('@/inngest/client', () => ({
+  inngest: { send: (...args: unknown[]) => mockSend(...args) },
+}));
+
+function makeRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/parse/retry', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/parse/retry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+  });
+
+  it('returns 403 for contractors', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'CONTRACTOR' }));
+
+    const res = await POST(makeRequest({ violationIds: ['v-1'] }));
+    expect(res.status).toBe(403);
+  });
+
+  it('requeues failed parses and skips the rest', async () => {
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }))
+      .mockReturnValueOnce(makeMock([
+        { id: 'v-1', pdf_storage_path: 'uploads/a.pdf', parse_status: 'failed', page_start: null, page_end: null },
+        { id: 'v-2', pdf_storage_path: 'uploads/b.pdf', parse_status: 'failed', page_start: 3, page_end: 4 },
+        { id: 'v-3', pdf_storage_path: 'uploads/c.pdf', parse_status: 'completed', page_start: null, page_end: null },
+      ]));
+    const res = await POST(makeRequest({ violationIds: ['v-1', 'v-2', 'v-3', 'v-other-org'] }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.retried).toEqual(['v-1', 'v-2']);
+    expect(body.skipped).toEqual(['v-3', 'v-other-org']);
+    expect(mockTransition.mock.calls.map((c) => [c[0], c[1]])).toEqual([['v-1', 'NEW'], ['v-2', 'NEW']]);
+    expect(mockTransition.mock.calls[0][2]).toMatchObject({ orgId: 'org-1', fields: { parse_status: 'pending' } });
+
+    const events = mockSend.mock.calls[0][0];
+    expect(events).toHaveLength(2);
+    expect(events[0].data).toEqual({ violationId: 'v-1', pdfStoragePath: 'uploads/a.pdf', orgId: 'org-1' });
+    expect(events[1].data.pageRange).toEqual({ start: 3, end: 4 });
+  });
+
+  it('does nothing when no requested parse has failed', async () => {
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'OWNER' }))
+      .mockReturnValueOnce(makeMock([
+        { id: 'v-1', pdf_storage_path: 'uploads/a.pdf', parse_status: 'processing', page_start: null, page_end: null },
+      ]));
+
+    const res = await POST(makeRequest({ violationIds: ['v-1'] }));
+    const body = await res.json();
+
+    expect(body).toEqual({ retried: [], skipped: ['v-1'] });
+    expect(mockTransition).not.toHaveBeenCalled();
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('resumes a parse from its failed step and records the attempt', async () => {
+    const steps = [
+      { step: 'classify_document', status: 'completed' },
+      { step: 'ai_parse', status: 'completed' },
+      { step: 'insert_records', status: 'completed' },
+      { step: 'analyze_pages', status: 'failed', message: 'Gemini timed out' },
+      { step: 'match_photos', status: 'pending' },
+      { step: 'extract_photos', status: 'pending' },
+      { step: 'complete', status: 'pending' },
+    ];
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }))
+      .mockReturnValueOnce(makeMock([
+        { id: 'v-1', pdf_storage_path: 'uploads/a.pdf', parse_status: 'failed', parse_metadata: { steps, items_found: 4 }, page_start: null, page_end: null },
+        { id: 'v-2', pdf_storage_path: 'uploads/b.pdf', parse_status: 'budget_paused', parse_metadata: { steps: [] }, page_start: null, page_end: null },
+      ]));
+    const res = await POST(makeRequest({ violationIds: ['v-1', 'v-2'], resume: true }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.resumed).toEqual({ 'v-1': 'analyze_pages' });
+    const [[resumedId, , resumed], [restartedId, , restarted]] = mockTransition.mock.calls;
+    expect(resumedId).toBe('v-1');
+    expect(restartedId).toBe('v-2');
+    expect(restarted.fields.parse_metadata.attempts).toBeUndefined();
+
+    const metadata = resumed.fields.parse_metadata;
+    expect(metadata.items_found).toBe(4);
+    expect(metadata.steps.map((s: { status: string }) => s.status))
+      .toEqual(['completed', 'completed', 'completed', 'pending', 'pending', 'pending', 'pending']);
+    expect(metadata.attempts).toEqual([expect.objectContaining({
+      attempt: 1,
+      failed_step: 'analyze_pages',
+      error: 'Gemini timed out',
+      resumed_from: 'analyze_pages',
+      resumed_by: 'user-1',
+    })]);
+
+    const events = mockSend.mock.calls[0][0];
+    expect(events[0].data).toEqual({ violationId: 'v-1', pdfStoragePath: 'uploads/a.pdf', orgId: 'org-1', resumeFrom: 'analyze_pages' });
+    expect(events[1].data.resumeFrom).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { inngest } from '@/inngest/client';
+import { transitionViolation } from '@/lib/violation-transitions';
+import { failedParseStep, pendingParseMetadata, resumeParseMetadata } from '@/lib/parse-logger';
+import type { ParseMetadata, ParseStepName } from '@/lib/ai/schemas';
+
+const RETRYABLE_PARSE_STATUSES = ['failed', 'budget_paused'];
+
+/**
+ * POST /api/parse/retry
+ * Re-run the parse pipeline for failed parses.
+ * Body: { violationIds: string[], resume?: boolean }
+ *
+ * Only violations whose parse failed or was paused by the monthly AI budget
+ * are retried; anything else is reported back as skipped. The pipeline's insert and photo steps replace their own
+ * output, so a retry starts from a clean slate.
+ *
+ * With resume, a parse that failed at a step resumes from that step instead:
+ * earlier steps reuse their saved output (no second AI extraction) and the
+ * failed run is added to parse_metadata.attempts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { violationIds, resume } = await request.json();
+    if (!Array.isArray(violationIds) || violationIds.length === 0) {
+      return NextResponse.json({ error: 'violationIds is required' }, { status: 400 });
+    }
+
+    const { data: violations } = await supabase
+      .from('violations')
+      .select('id, org_id, pdf_storage_path, parse_status, parse_metadata, page_start, page_end')
+      .in('id', violationIds)
+      .eq('org_id', profile.org_id);
+
+    const retryable = (violations || []).filter(
+      (v) => RETRYABLE_PARSE_STATUSES.includes(v.parse_status) && v.pdf_storage_path,
+    );
+    const retryableIds = new Set(retryable.map((v) => v.id));
+    const skipped = (violationIds as string[]).filter((id) => !retryableIds.has(id));
+
+    if (retryable.length === 0) {
+      return NextResponse.json({ retried: [], skipped });
+    }
+
+    // Failed parses that reached a step resume from it; the rest start over
+    const resumeFrom = new Map<string, ParseStepName>();
+    if (resume) {
+      for (const v of retryable) {
+        const failedStep = v.parse_status === 'failed' ? failedParseStep(v.parse_metadata as ParseMetadata) : null;
+        if (failedStep) resumeFrom.set(v.id, failedStep);
+      }
+    }
+
+    // Back to NEW for the pipeline; a parse that failed part-way may have
+    // left the violation in any status
+    for (const v of retryable) {
+      const step = resumeFrom.get(v.id);
+      await transitionViolation(v.id, 'NEW', {
+        orgId: profile.org_id,
+        fields: {
+          parse_status: 'pending',
+          parse_metadata: step
+            ? resumeParseMetadata(v.parse_metadata as ParseMetadata, step, user.id)
+            : pendingParseMetadata(),
+        },
+        force: true,
+      });
+    }
+
+    await inngest.send(retryable.map((v) => ({
+      name: 'noi/parse.requested',
+      data: {
+        violationId: v.id,
+        pdfStoragePath: v.pdf_storage_path,
+        orgId: profile.org_id,
+        // Notices split off a multi-notice PDF keep their own pages
+        ...(v.page_start && v.page_end && { pageRange: { start: v.page_start, end: v.page_end } }),
+        ...(resumeFrom.has(v.id) && { resumeFrom: resumeFrom.get(v.id) }),
+      },
+    })));
+
+    return NextResponse.json({
+      retried: [...retryableIds],
+      resumed: Object.fromEntries(resumeFrom),
+      skipped,
+    });
+  } catch (error) {
+    console.error('Parse retry error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { inngest } from '@/inngest/client';
+import { pendingParseMetadata } from '@/lib/parse-logger';
+import { fingerprintPdf, findPdfDuplicate } from '@/lib/pdf-fingerprint';
 
+/**
+ * POST /api/parse
+ * Start parsing an uploaded NOI PDF.
+ * Body: { pdfStoragePath: string, onDuplicate?: 'link' | 'parse' }
+ *
+ * The PDF is fingerprinted first. If the org already has a violation for the
+ * same file, nothing is parsed: the route answers 409 with the match, and the
+ * client re-posts with onDuplicate 'link' (drop the upload, use the existing
+ * violation) or 'parse' (parse it anyway).
+ */
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
@@ -12,7 +24,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { pdfStoragePath } = body;
+    const { pdfStoragePath, onDuplicate } = body;
 
     if (!pdfStoragePath) {
       return NextResponse.json({ error: 'pdfStoragePath is required' }, { status: 400 });
@@ -29,24 +41,51 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
+    const adminSupabase = createAdminClient();
+    const { data: pdfData, error: downloadError } = await adminSupabase.storage
+      .from('noi-pdfs')
+      .download(pdfStoragePath);
+
+    if (downloadError || !pdfData) {
+      return NextResponse.json({ error: `Failed to read PDF: ${downloadError?.message}` }, { status: 400 });
+    }
+
+    const fingerprint = await fingerprintPdf(Buffer.from(await pdfData.arrayBuffer()));
+    const duplicate = onDuplicate === 'parse' ? null : await findPdfDuplicate(profile.org_id, fingerprint);
+
+    if (duplicate && onDuplicate === 'link') {
+      await adminSupabase.storage.from('noi-pdfs').remove([pdfStoragePath]);
+      await adminSupabase.from('audit_log').insert({
+        org_id: profile.org_id,
+        table_name: 'violations',
+        record_id: duplicate.violation_id,
+        action: 'DUPLICATE_UPLOAD_LINKED',
+        new_values: { match: duplicate.match, pdf_sha256: fingerprint.pdf_sha256 },
+        changed_by: user.id,
+      });
+
+      return NextResponse.json({
+        violationId: duplicate.violation_id,
+        linked: true,
+        message: 'Linked to existing violation',
+      });
+    }
+
+    if (duplicate) {
+      return NextResponse.json({ error: 'This PDF has already been uploaded', duplicate }, { status: 409 });
+    }
+
     // Create a violation record in NEW status
     const { data: violation, error: insertError } = await supabase
       .from('violations')
       .insert({
         org_id: profile.org_id,
         pdf_storage_path: pdfStoragePath,
+        ...fingerprint,
         source: 'parser',
         status: 'NEW',
         parse_status: 'pending',
-        parse_metadata: {
-          steps: [
-            { step: 'ai_parse', status: 'pending' },
-            { step: 'insert_records', status: 'pending' },
-            { step: 'analyze_pages', status: 'pending' },
-            { step: 'match_photos', status: 'pending' },
-            { step: 'complete', status: 'pending' },
-          ],
-        },
+        parse_metadata: pendingParseMetadata(),
       })
       .select()
       .single();
@@ -33,7 +33,7 @@ export async function GET(
     const enrichedUnits = (units || []).map(unit => {
       const unitViolations = (violations || []).filter(v => v.unit_id === unit.id);
       const statusPriority: Record<string, number> = {
-        'NEW': 1, 'PARSING': 2, 'PARSED': 3, 'ASSIGNED': 4, 'IN_PROGRESS': 5,
+        'NEW': 1, 'PARSING': 2, 'PARSED': 3, 'NEEDS_REVIEW': 3, 'ASSIGNED': 4, 'IN_PROGRESS': 5,
         'AWAITING_PHOTOS': 6, 'PHOTOS_UPLOADED': 7, 'READY_FOR_SUBMISSION': 8,
         'SUBMITTED': 9, 'REJECTED': 10, 'ADDITIONAL_INFO_REQUESTED': 11,
         'APPROVED': 12, 'CLOSED': 13,
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getAIBudgetStatus, monthStart, summarizeUsage } from '@/lib/ai/usage';
+
+/**
+ * GET /api/settings/ai-usage
+ * Month-to-date AI spend for the caller's org: budget status, a per-feature
+ * breakdown and the most recent ledger entries.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { data: rows, error } = await supabase
+      .from('ai_usage')
+      .select('id, feature, provider, model, total_tokens, cost_usd, violation_id, created_at')
+      .eq('org_id', profile.org_id)
+      .gte('created_at', monthStart())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const budget = await getAIBudgetStatus(profile.org_id);
+
+    return NextResponse.json({
+      ...budget,
+      month_start: monthStart(),
+      by_feature: summarizeUsage(rows || []),
+      recent: (rows || []).slice(0, 25),
+    });
+  } catch (error) {
+    console.error('AI usage fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { readDeadlineRules, validateDeadlineRules } from '@/lib/deadlines';
+import { readWorkflow, validateWorkflow, type Workflow } from '@/lib/workflow';
 
 export async function GET() {
   try {
@@ -71,7 +73,48 @@ export async function PATCH(request: NextRequest) {
     const currentSettings = (org.settings as Record<string, unknown>) || {};
 
     // Merge new settings into existing
-    const allowedKeys = ['skip_photo_verification'];
+    const allowedKeys = ['skip_photo_verification', 'ai_monthly_budget_usd', 'ai_budget_action', 'deadline_rules', 'workflow'];
+
+    if ('ai_monthly_budget_usd' in body && body.ai_monthly_budget_usd !== null
+      && !(typeof body.ai_monthly_budget_usd === 'number' && body.ai_monthly_budget_usd >= 0)) {
+      return NextResponse.json({ error: 'ai_monthly_budget_usd must be a non-negative number or null' }, { status: 400 });
+    }
+    if ('ai_budget_action' in body && !['pause', 'manual'].includes(body.ai_budget_action)) {
+      return NextResponse.json({ error: "ai_budget_action must be 'pause' or 'manual'" }, { status: 400 });
+    }
+    if ('deadline_rules' in body) {
+      const deadlineError = validateDeadlineRules(body.deadline_rules);
+      if (deadlineError) {
+        return NextResponse.json({ error: deadlineError }, { status: 400 });
+      }
+      body.deadline_rules = readDeadlineRules({
+        deadline_rules: { ...(currentSettings.deadline_rules as object), ...body.deadline_rules },
+      });
+    }
+    if ('workflow' in body) {
+      const workflowError = validateWorkflow(body.workflow);
+      if (workflowError) {
+        return NextResponse.json({ error: workflowError }, { status: 400 });
+      }
+
+      // A state can't be dropped while violations are still in it
+      const kept = new Set((body.workflow as Workflow).states.map((s) => s.key));
+      const removed = readWorkflow(currentSettings).states.map((s) => s.key).filter((key) => !kept.has(key));
+      if (removed.length > 0) {
+        const { data: stranded } = await supabase
+          .from('violations')
+          .select('status')
+          .eq('org_id', profile.org_id)
+          .in('status', removed)
+          .limit(1);
+        if (stranded?.length) {
+          return NextResponse.json(
+            { error: `Violations are still in ${stranded[0].status}; move them to another status before removing it` },
+            { status: 409 },
+          );
+        }
+      }
+    }
     const updates: Record<string, unknown> = { ...currentSettings };
 
     for (const key of allowedKeys) {
@@ -80,6 +123,11 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    // A new budget gets its own "budget reached" alert this month
+    if ('ai_monthly_budget_usd' in body && body.ai_monthly_budget_usd !== currentSettings.ai_monthly_budget_usd) {
+      delete updates.ai_budget_alerted_month;
+    }
+
     // Use admin client to bypass RLS for org settings update
     const adminClient = createAdminClient();
     const { data: updated, error } = await adminClient
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { findCatalogCode, validateViolationCodeInput } from '@/lib/violation-codes';
+import type { ViolationCode } from '@/lib/types';
+
+/**
+ * PATCH /api/settings/violation-codes/[id]
+ * Edit a catalog entry. Items linked to it follow a changed canonical code,
+ * and unlinked items matching a new spelling or alias are linked.
+ * Body: { code?, aliases?, title?, trade_category?, typical_fine?, remediation_task? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const result = validateViolationCodeInput(await request.json(), { partial: true });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const adminSupabase = createAdminClient();
+
+    const { data: code, error } = await adminSupabase
+      .from('violation_codes')
+      .update(result.values)
+      .eq('id', id)
+      .eq('org_id', profile.org_id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'This code is already in the catalog' }, { status: 409 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    let linkedItems = 0;
+    if ('code' in result.values || 'aliases' in result.values) {
+      await adminSupabase
+        .from('violation_items')
+        .update({ violation_code: code.code })
+        .eq('code_id', id);
+
+      const { data: unlinked } = await adminSupabase
+        .from('violation_items')
+        .select('id, violation_code')
+        .eq('org_id', profile.org_id)
+        .is('code_id', null);
+
+      const linkIds = (unlinked || [])
+        .filter(item => findCatalogCode(item.violation_code, [code as ViolationCode]))
+        .map(item => item.id);
+
+      if (linkIds.length > 0) {
+        await adminSupabase
+          .from('violation_items')
+          .update({ code_id: id, violation_code: code.code })
+          .in('id', linkIds);
+      }
+      linkedItems = linkIds.length;
+    }
+
+    return NextResponse.json({ code, linked_items: linkedItems });
+  } catch (error) {
+    console.error('Violation code update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/settings/violation-codes/[id]
+ * Remove a catalog entry. Linked items keep their code text and are unlinked.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { error } = await createAdminClient()
+      .from('violation_codes')
+      .delete()
+      .eq('id', id)
+      .eq('org_id', profile.org_id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Violation code delete error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
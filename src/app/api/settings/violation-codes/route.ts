@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { findCatalogCode, uncataloguedCodes, validateViolationCodeInput } from '@/lib/violation-codes';
+import type { ViolationCode } from '@/lib/types';
+
+/**
+ * GET /api/settings/violation-codes
+ * The org's violation code catalog, plus codes on parsed items that no
+ * catalog entry covers yet (most frequent first) so they can be added.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+    }
+
+    const [codesRes, itemsRes] = await Promise.all([
+      supabase.from('violation_codes').select('*').eq('org_id', profile.org_id).order('code'),
+      supabase.from('violation_items').select('violation_code').eq('org_id', profile.org_id).is('code_id', null),
+    ]);
+
+    if (codesRes.error) {
+      return NextResponse.json({ error: codesRes.error.message }, { status: 500 });
+    }
+
+    const codes = (codesRes.data || []) as ViolationCode[];
+    return NextResponse.json({
+      codes,
+      uncatalogued: uncataloguedCodes(itemsRes.data || [], codes).slice(0, 50),
+    });
+  } catch (error) {
+    console.error('Violation codes fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/settings/violation-codes
+ * Add a catalog entry and link the org's existing items with that code.
+ * Body: { code, aliases?, title?, trade_category?, typical_fine?, remediation_task? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const result = validateViolationCodeInput(await request.json(), { partial: false });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const adminSupabase = createAdminClient();
+
+    const { data: code, error } = await adminSupabase
+      .from('violation_codes')
+      .insert({ ...result.values, org_id: profile.org_id, created_by: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'This code is already in the catalog' }, { status: 409 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // Existing items with this code (in any spelling) pick up the canonical form
+    const { data: unlinked } = await adminSupabase
+      .from('violation_items')
+      .select('id, violation_code')
+      .eq('org_id', profile.org_id)
+      .is('code_id', null);
+
+    const linkIds = (unlinked || [])
+      .filter(item => findCatalogCode(item.violation_code, [code as ViolationCode]))
+      .map(item => item.id);
+
+    if (linkIds.length > 0) {
+      await adminSupabase
+        .from('violation_items')
+        .update({ code_id: code.id, violation_code: code.code })
+        .in('id', linkIds);
+    }
+
+    return NextResponse.json({ code, linked_items: linkIds.length }, { status: 201 });
+  } catch (error) {
+    console.error('Violation code create error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
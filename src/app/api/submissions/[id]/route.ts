@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { applyResponseToItems, transitionViolation } from '@/lib/violation-transitions';
 
 export async function PATCH(
   request: NextRequest,
@@ -20,17 +21,21 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { response_status, response_notes, confirmation_number } = body;
+    const { response_status, response_notes, confirmation_number, proposed_response } = body;
 
     const updates: Record<string, unknown> = {};
     if (response_status !== undefined) {
       updates.response_status = response_status;
+      // Setting a response settles any response email sync proposed
+      updates.proposed_response = null;
       if (['APPROVED', 'REJECTED', 'ADDITIONAL_INFO_REQUESTED'].includes(response_status)) {
         updates.responded_at = new Date().toISOString();
       }
     }
     if (response_notes !== undefined) updates.response_notes = response_notes;
     if (confirmation_number !== undefined) updates.confirmation_number = confirmation_number;
+    // Only dismissing a proposal is allowed; email sync is what writes them
+    if (proposed_response === null) updates.proposed_response = null;
 
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
@@ -56,11 +61,13 @@ export async function PATCH(
       };
       const newViolationStatus = statusMap[response_status];
       if (newViolationStatus) {
-        await supabase
-          .from('violations')
-          .update({ status: newViolationStatus })
-          .eq('id', submission.violation_id);
+        // DOB's answer stands whatever status the violation had reached
+        await transitionViolation(submission.violation_id, newViolationStatus, {
+          orgId: submission.org_id,
+          force: true,
+        });
       }
+      await applyResponseToItems(submission.violation_id, response_status);
     }
 
     return NextResponse.json({ submission });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { transitionViolation } from '@/lib/violation-transitions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -76,12 +77,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    // Auto-advance violation status to SUBMITTED
-    await supabase
-      .from('violations')
-      .update({ status: 'SUBMITTED' })
-      .eq('id', violation_id)
-      .in('status', ['READY_FOR_SUBMISSION']);
+    // Auto-advance violation status to SUBMITTED, where the workflow allows it
+    await transitionViolation(violation_id, 'SUBMITTED', { orgId });
 
     return NextResponse.json({ submission }, { status: 201 });
   } catch (error) {
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PATCH } from '../route';
+import { NextRequest } from 'next/server';
+
+// Thenable chain mock — supports .single() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'insert', 'eq'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockFrom = vi.fn();
+const mockAdminFrom = vi.fn();
+const mockAuthGetUser = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: () => ({
+    from: mockFrom,
+    auth: { getUser: mockAuthGetUser },
+  }),
+  createAdminClient: () => ({
+    from: mockAdminFrom,
+  }),
+}));
+
+const mockRollup = vi.fn();
+vi.mock('@/lib/violation-transitions', () => ({
+  rollupViolationStatus: (...args: unknown[]) => mockRollup(...args),
+}));
+
+function makeRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/violations/v-1/items/item-1', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const params = Promise.resolve({ id: 'v-1', itemId: 'item-1' });
+
+describe('PATCH /api/violations/[id]/items/[itemId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'u-1' } }, error: null });
+  });
+
+  it('returns 403 for contractors', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'CONTRACTOR' }));
+    const res = await PATCH(makeRequest({ status: 'disputed' }), { params });
+    expect(res.status).toBe(403);
+  });
+
+  it('rejects an unknown status', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+    const res = await PATCH(makeRequest({ status: 'resolved' }), { params });
+    expect(res.status).toBe(400);
+  });
+
+  it('leaves the photo states to the photos', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+    const res = await PATCH(makeRequest({ status: 'photo_approved' }), { params });
+    expect(res.status).toBe(400);
+    expect(mockAdminFrom).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an item in another org', async () => {
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }))
+      .mockReturnValueOnce(makeMock({ id: 'item-1', org_id: 'org-2', item_number: 1, status: 'open' }));
+    const res = await PATCH(makeRequest({ status: 'disputed' }), { params });
+    expect(res.status).toBe(404);
+  });
+
+  it('sets the status, audits it and rolls the violation up', async () => {
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }))
+      .mockReturnValueOnce(makeMock({ id: 'item-1', org_id: 'org-1', item_number: 3, status: 'in_repair' }));
+    const itemUpdate = makeMock({ id: 'item-1', status: 'disputed' });
+    const audit = makeMock(null);
+    mockAdminFrom.mockReturnValueOnce(itemUpdate).mockReturnValueOnce(audit);
+    mockRollup.mockResolvedValue('READY_FOR_SUBMISSION');
+
+    const res = await PATCH(makeRequest({ status: 'disputed' }), { params });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      item: { id: 'item-1', status: 'disputed' },
+      violation_status: 'READY_FOR_SUBMISSION',
+    });
+    expect(itemUpdate.update).toHaveBeenCalledWith({ status: 'disputed' });
+    expect(audit.insert).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'ITEM_STATUS_CHANGED',
+      old_values: { item_id: 'item-1', item_number: 3, status: 'in_repair' },
+      new_values: { item_id: 'item-1', item_number: 3, status: 'disputed' },
+      changed_by: 'u-1',
+    }));
+    expect(mockRollup).toHaveBeenCalledWith('v-1', 'org-1');
+  });
+
+  it('does nothing when the item already has the status', async () => {
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }))
+      .mockReturnValueOnce(makeMock({ id: 'item-1', org_id: 'org-1', item_number: 1, status: 'abated' }));
+
+    const res = await PATCH(makeRequest({ status: 'abated' }), { params });
+
+    expect(res.status).toBe(200);
+    expect(mockAdminFrom).not.toHaveBeenCalled();
+    expect(mockRollup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { MANUAL_ITEM_STATUSES } from '@/lib/item-status';
+import { rollupViolationStatus } from '@/lib/violation-transitions';
+
+/**
+ * PATCH /api/violations/[id]/items/[itemId]
+ * Set an item's status by hand (dispute it, mark it abated, reopen it as
+ * open or in repair) and roll the violation's status up from its items.
+ * The photo states are left to photo uploads and verification. Recorded in
+ * the audit log.
+ * Body: { status: 'open' | 'in_repair' | 'abated' | 'disputed' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id, itemId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!MANUAL_ITEM_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${MANUAL_ITEM_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: item } = await supabase
+      .from('violation_items')
+      .select('id, org_id, item_number, status')
+      .eq('id', itemId)
+      .eq('violation_id', id)
+      .single();
+
+    if (!item || item.org_id !== profile.org_id) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+    if (item.status === body.status) {
+      return NextResponse.json({ item });
+    }
+
+    const adminSupabase = createAdminClient();
+
+    const { data: updated, error } = await adminSupabase
+      .from('violation_items')
+      .update({ status: body.status })
+      .eq('id', itemId)
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: `Failed to update item: ${error.message}` }, { status: 500 });
+    }
+
+    await adminSupabase.from('audit_log').insert({
+      org_id: item.org_id,
+      table_name: 'violations',
+      record_id: id,
+      action: 'ITEM_STATUS_CHANGED',
+      old_values: { item_id: itemId, item_number: item.item_number, status: item.status },
+      new_values: { item_id: itemId, item_number: item.item_number, status: body.status },
+      changed_by: user.id,
+    });
+
+    const violationStatus = await rollupViolationStatus(id, profile.org_id);
+
+    return NextResponse.json({ item: updated, violation_status: violationStatus });
+  } catch (error) {
+    console.error('Item status update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
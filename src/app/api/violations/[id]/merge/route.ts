@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { codeKey } from '@/lib/violation-codes';
 
 export async function POST(
   request: NextRequest,
@@ -52,11 +53,11 @@ export async function POST(
       .select('violation_code')
       .eq('violation_id', targetViolationId);
 
-    const existingCodes = new Set((targetItems || []).map(i => i.violation_code?.toLowerCase()));
+    const existingCodes = new Set((targetItems || []).map(i => codeKey(i.violation_code || '')));
 
-    // Insert only new items (different codes)
+    // Insert only new items (different codes, however they are spelled)
     const newItems = (sourceItems || []).filter(
-      item => !existingCodes.has(item.violation_code?.toLowerCase())
+      item => !existingCodes.has(codeKey(item.violation_code || ''))
     );
 
     let itemsMerged = 0;
@@ -66,8 +67,10 @@ export async function POST(
         violation_id: targetViolationId,
         item_number: item.item_number,
         violation_code: item.violation_code,
+        code_id: item.code_id,
         priority: item.priority,
         abatement_deadline: item.abatement_deadline,
+        abatement_deadline_text: item.abatement_deadline_text,
         fine: item.fine,
         violation_description: item.violation_description,
         specific_location: item.specific_location,
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PATCH } from '../route';
+import { NextRequest } from 'next/server';
+
+// Thenable chain mock — supports .single() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'insert', 'delete', 'eq', 'neq', 'in', 'order', 'limit'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  chain.maybeSingle = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockFrom = vi.fn();
+const mockAdminFrom = vi.fn();
+const mockAuthGetUser = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: () => ({
+    from: mockFrom,
+    auth: { getUser: mockAuthGetUser },
+  }),
+  createAdminClient: () => ({
+    from: mockAdminFrom,
+  }),
+}));
+
+function makeRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/violations/v-1/photos/photo-1', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const params = Promise.resolve({ id: 'v-1', photoId: 'photo-1' });
+
+const candidates = [
+  { item_id: 'item-1', item_number: 1, violation_code: 'IPMC § 605.1', score: 0.62, signals: { code: 1, location: 0, floor: 0, order: 0.5 }, reasons: ['Code matches IPMC § 605.1'] },
+  { item_id: 'item-2', item_number: 2, violation_code: 'IPMC § 605.1', score: 0.6, signals: { code: 1, location: 0, floor: 0, order: 0.4 }, reasons: ['Code matches IPMC § 605.1'] },
+];
+
+function photoRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'photo-1',
+    org_id: 'org-1',
+    violation_id: 'v-1',
+    violation_item_id: 'item-1',
+    photo_type: 'INSPECTOR',
+    page_number: 6,
+    metadata: { description: 'Ceiling fan', match: { method: 'auto', score: 0.62, threshold: 0.5, candidates } },
+    ...overrides,
+  };
+}
+
+describe('PATCH /api/violations/[id]/photos/[photoId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'u-1' } }, error: null });
+  });
+
+  it('returns 403 for contractors', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'CONTRACTOR' }));
+    const res = await PATCH(makeRequest({ violation_item_id: 'item-2' }), { params });
+    expect(res.status).toBe(403);
+  });
+
+  it('requires violation_item_id', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+    const res = await PATCH(makeRequest({}), { params });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects an item from another violation', async () => {
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }))
+      .mockReturnValueOnce(makeMock(photoRow()))
+      .mockReturnValueOnce(makeMock(null));
+
+    const res = await PATCH(makeRequest({ violation_item_id: 'item-9' }), { params });
+    expect(res.status).toBe(404);
+    expect(mockAdminFrom).not.toHaveBeenCalled();
+  });
+
+  it('moves the photo, keeps the candidates and records the correction', async () => {
+    const photoUpdate = makeMock({ id: 'photo-1', violation_item_id: 'item-2' });
+    const pairedUpdate = makeMock(null);
+    const auditInsert = makeMock(null);
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }))
+      .mockReturnValueOnce(makeMock(photoRow()))
+      .mockReturnValueOnce(makeMock({ id: 'item-2' }));
+    mockAdminFrom
+      .mockReturnValueOnce(photoUpdate)
+      .mockReturnValueOnce(pairedUpdate)
+      .mockReturnValueOnce(auditInsert);
+
+    const res = await PATCH(makeRequest({ violation_item_id: 'item-2' }), { params });
+    expect(res.status).toBe(200);
+
+    const update = photoUpdate.update.mock.calls[0][0];
+    expect(update.violation_item_id).toBe('item-2');
+    expect(update.metadata.description).toBe('Ceiling fan');
+    expect(update.metadata.match).toMatchObject({
+      method: 'manual',
+      score: 0.62,
+      candidates,
+      previous_item_id: 'item-1',
+      reassigned_by: 'u-1',
+    });
+
+    expect(pairedUpdate.update).toHaveBeenCalledWith({ violation_item_id: 'item-2' });
+    expect(pairedUpdate.eq).toHaveBeenCalledWith('metadata->>inspector_photo_id', 'photo-1');
+
+    expect(auditInsert.insert).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'PHOTO_REASSIGNED',
+      record_id: 'v-1',
+      old_values: { photo_id: 'photo-1', page_number: 6, violation_item_id: 'item-1' },
+      new_values: { photo_id: 'photo-1', page_number: 6, violation_item_id: 'item-2' },
+    }));
+  });
+
+  it('can unmatch a photo', async () => {
+    const photoUpdate = makeMock({ id: 'photo-1', violation_item_id: null });
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'OWNER' }))
+      .mockReturnValueOnce(makeMock(photoRow()));
+    mockAdminFrom
+      .mockReturnValueOnce(photoUpdate)
+      .mockReturnValueOnce(makeMock(null))
+      .mockReturnValueOnce(makeMock(null));
+
+    const res = await PATCH(makeRequest({ violation_item_id: null }), { params });
+    expect(res.status).toBe(200);
+    expect(photoUpdate.update.mock.calls[0][0].violation_item_id).toBeNull();
+  });
+});
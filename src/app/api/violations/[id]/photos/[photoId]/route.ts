@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import type { PhotoMatchMetadata } from '@/lib/photo-matching';
+
+/**
+ * PATCH /api/violations/[id]/photos/[photoId]
+ * Move an inspector photo to a different item (or to unmatched) and record
+ * the correction in the photo's match metadata and the audit log. Contractor
+ * photos taken against that inspector photo move with it.
+ * Body: { violation_item_id: string | null }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; photoId: string }> }
+) {
+  try {
+    const { id, photoId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!('violation_item_id' in body) || (body.violation_item_id !== null && typeof body.violation_item_id !== 'string')) {
+      return NextResponse.json({ error: 'violation_item_id is required (null to unmatch)' }, { status: 400 });
+    }
+    const itemId = body.violation_item_id as string | null;
+
+    const { data: photo } = await supabase
+      .from('photos')
+      .select('id, org_id, violation_id, violation_item_id, photo_type, page_number, metadata')
+      .eq('id', photoId)
+      .eq('violation_id', id)
+      .single();
+
+    if (!photo || photo.org_id !== profile.org_id) {
+      return NextResponse.json({ error: 'Photo not found' }, { status: 404 });
+    }
+    if (photo.photo_type !== 'INSPECTOR') {
+      return NextResponse.json({ error: 'Only inspector photos can be reassigned' }, { status: 400 });
+    }
+    if (photo.violation_item_id === itemId) {
+      return NextResponse.json({ photo });
+    }
+
+    if (itemId) {
+      const { data: item } = await supabase
+        .from('violation_items')
+        .select('id')
+        .eq('id', itemId)
+        .eq('violation_id', id)
+        .single();
+
+      if (!item) {
+        return NextResponse.json({ error: 'Item not found on this violation' }, { status: 404 });
+      }
+    }
+
+    const metadata = (photo.metadata || {}) as Record<string, unknown>;
+    const previousMatch = metadata.match as PhotoMatchMetadata | undefined;
+    const match: PhotoMatchMetadata = {
+      method: 'manual',
+      score: previousMatch?.score ?? null,
+      threshold: previousMatch?.threshold ?? 0,
+      candidates: previousMatch?.candidates ?? [],
+      previous_item_id: photo.violation_item_id,
+      reassigned_by: user.id,
+      reassigned_at: new Date().toISOString(),
+    };
+
+    const adminSupabase = createAdminClient();
+
+    const { data: updated, error } = await adminSupabase
+      .from('photos')
+      .update({ violation_item_id: itemId, metadata: { ...metadata, match } })
+      .eq('id', photoId)
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: `Failed to reassign photo: ${error.message}` }, { status: 500 });
+    }
+
+    // Before/after photos paired with this inspector photo follow it
+    await adminSupabase
+      .from('photos')
+      .update({ violation_item_id: itemId })
+      .eq('violation_id', id)
+      .eq('metadata->>inspector_photo_id', photoId);
+
+    await adminSupabase.from('audit_log').insert({
+      org_id: photo.org_id,
+      table_name: 'violations',
+      record_id: id,
+      action: 'PHOTO_REASSIGNED',
+      old_values: { photo_id: photoId, page_number: photo.page_number, violation_item_id: photo.violation_item_id },
+      new_values: { photo_id: photoId, page_number: photo.page_number, violation_item_id: itemId },
+      changed_by: user.id,
+    });
+
+    return NextResponse.json({ photo: updated });
+  } catch (error) {
+    console.error('Photo reassign error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../route';
+import { NextRequest } from 'next/server';
+import type { NOIParseResult } from '@/lib/ai/schemas';
+
+// Thenable chain mock — supports .single() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'insert', 'delete', 'eq', 'neq', 'in', 'order', 'limit'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  chain.maybeSingle = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockFrom = vi.fn();
+const mockAdminFrom = vi.fn();
+const mockAuthGetUser = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: () => ({
+    from: mockFrom,
+    auth: { getUser: mockAuthGetUser },
+  }),
+  createAdminClient: () => ({
+    from: mockAdminFrom,
+  }),
+}));
+
+function makeRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/violations/v-1/reparse/apply', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const params = Promise.resolve({ id: 'v-1' });
+
+function parsed(fine: string, code = 'IPMC § 605.1'): NOIParseResult {
+  return {
+    notice_level_data: {
+      notice_id: '25NOIE-INS-05478',
+      respondent: 'YOKE LEBAUM LLC',
+      infraction_address: '551 LEBAUM ST SE, Unit:300',
+      date_of_service: '08/19/2025',
+      total_fines: fine,
+    },
+    work_orders: [{
+      item_number: 1,
+      violation_code: code,
+      priority: 1,
+      abatement_deadline: '1 Day',
+      fine,
+      violation_description: 'Failure to install electrical equipment',
+      specific_location: 'Sleeping Room',
+      floor_number: '1',
+      date_of_infraction: '08/08/2025',
+      time_of_infraction: '09:58 PM',
+      task_description: 'Repair ceiling fan',
+    }],
+  };
+}
+
+const violationRow = {
+  id: 'v-1',
+  org_id: 'org-1',
+  notice_id: '25NOIE-INS-05478',
+  respondent: 'YOKE LEBAUM LLC',
+  infraction_address: '551 LEBAUM ST SE, Unit:300',
+  date_of_service: '2025-08-19',
+  total_fines: 625,
+  abatement_deadline: '2025-08-20',
+  priority: 1,
+  raw_ai_output: parsed('$625.00'),
+  violation_items: [{
+    id: 'item-1',
+    item_number: 1,
+    violation_code: 'IPMC § 605.1',
+    priority: 1,
+    abatement_deadline: '2025-08-20',
+    abatement_deadline_text: '1 Day',
+    fine: 625,
+    violation_description: 'Failure to install electrical equipment',
+    specific_location: 'Sleeping Room',
+    floor_number: '1',
+    date_of_infraction: '2025-08-08',
+    time_of_infraction: '09:58 PM',
+    task_description: 'Repair ceiling fan',
+  }],
+};
+
+describe('POST /api/violations/[id]/reparse/apply', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'u-1' } }, error: null });
+  });
+
+  it('returns 403 for contractors', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'CONTRACTOR' }));
+    const res = await POST(makeRequest({ staging_id: 's-1' }), { params });
+    expect(res.status).toBe(403);
+  });
+
+  it('returns 409 when the re-parse was already applied', async () => {
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }))
+      .mockReturnValueOnce(makeMock(violationRow))
+      .mockReturnValueOnce(makeMock({ id: 's-1', status: 'applied', parsed: parsed('$1,250.00') }))
+      .mockReturnValueOnce(makeMock([]));
+
+    const res = await POST(makeRequest({ staging_id: 's-1', notice_fields: ['total_fines'] }), { params });
+    expect(res.status).toBe(409);
+    expect(mockAdminFrom).not.toHaveBeenCalled();
+  });
+
+  it('writes only the selected changes and records the new baseline', async () => {
+    const staged = parsed('$1,250.00');
+    mockFrom
+      .mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'OWNER' }))
+      .mockReturnValueOnce(makeMock(violationRow))
+      .mockReturnValueOnce(makeMock({ id: 's-1', status: 'ready', parsed: staged }))
+      .mockReturnValueOnce(makeMock([]));
+
+    const itemMock = makeMock(null);
+    const violationMock = makeMock({ id: 'v-1' });
+    const stagingMock = makeMock(null);
+    mockAdminFrom
+      .mockReturnValueOnce(itemMock)
+      .mockReturnValueOnce(violationMock)
+      .mockReturnValueOnce(stagingMock)
+      .mockReturnValueOnce(makeMock(null)); // audit_log
+
+    const res = await POST(makeRequest({
+      staging_id: 's-1',
+      notice_fields: [],
+      items: [{ key: 'item-1', fields: ['fine'] }],
+    }), { params });
+
+    expect(res.status).toBe(200);
+    expect(itemMock.update).toHaveBeenCalledWith({ fine: 1250 });
+    expect(itemMock.insert).not.toHaveBeenCalled();
+    expect(itemMock.delete).not.toHaveBeenCalled();
+
+    const update = violationMock.update.mock.calls[0][0];
+    expect(update.total_fines).toBeUndefined();
+    expect(update.raw_ai_output).toEqual(staged);
+
+    const stagingUpdate = stagingMock.update.mock.calls[0][0];
+    expect(stagingUpdate.status).toBe('applied');
+    expect(stagingUpdate.applied_changes.updated_items).toEqual([{ id: 'item-1', fields: ['fine'] }]);
+  });
+});
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { diffReparse, countPhotosByItem, planReparseApply } from '@/lib/reparse-diff';
+import type { ReparseSelection } from '@/lib/reparse-diff';
+import { readDeadlineRules } from '@/lib/deadlines';
+import type { NOIParseResult } from '@/lib/ai/schemas';
+
+/**
+ * POST /api/violations/[id]/reparse/apply
+ * Apply the selected parts of a staged re-parse.
+ * Body: { staging_id, notice_fields: string[], items: [{ key, fields? }] }
+ *
+ * The diff is recomputed server-side so stale selections can't overwrite
+ * newer edits. Items with contractor photos are never deleted; work orders
+ * and photos are never touched.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const selection: ReparseSelection = {
+      notice_fields: Array.isArray(body.notice_fields) ? body.notice_fields : [],
+      items: Array.isArray(body.items) ? body.items : [],
+    };
+
+    if (!body.staging_id) {
+      return NextResponse.json({ error: 'staging_id is required' }, { status: 400 });
+    }
+
+    const [violationRes, stagingRes, photosRes] = await Promise.all([
+      supabase.from('violations').select('*, violation_items(*), organizations(settings, violation_codes(id, code, aliases, remediation_task))').eq('id', id).single(),
+      supabase.from('parse_staging').select('*').eq('id', body.staging_id).eq('violation_id', id).single(),
+      supabase.from('photos').select('violation_item_id').eq('violation_id', id).in('photo_type', ['BEFORE', 'AFTER']),
+    ]);
+
+    const violation = violationRes.data;
+    const staging = stagingRes.data;
+
+    if (!violation || violation.org_id !== profile.org_id) {
+      return NextResponse.json({ error: 'Violation not found' }, { status: 404 });
+    }
+    if (!staging) {
+      return NextResponse.json({ error: 'Re-parse not found' }, { status: 404 });
+    }
+    if (staging.status !== 'ready') {
+      return NextResponse.json(
+        { error: `Re-parse is ${staging.status} and can no longer be applied` },
+        { status: 409 },
+      );
+    }
+
+    const staged = staging.parsed as NOIParseResult;
+    const diff = diffReparse({
+      violation,
+      items: violation.violation_items || [],
+      staged,
+      baseline: violation.raw_ai_output as NOIParseResult | null,
+      photoCountsByItem: countPhotosByItem(photosRes.data || []),
+      deadlineRules: readDeadlineRules(violation.organizations?.settings),
+      codeCatalog: violation.organizations?.violation_codes || [],
+    });
+    const plan = planReparseApply(diff, selection);
+
+    const adminSupabase = createAdminClient();
+
+    for (const { id: itemId, updates } of plan.itemUpdates) {
+      const { error } = await adminSupabase
+        .from('violation_items')
+        .update(updates)
+        .eq('id', itemId)
+        .eq('violation_id', id);
+      if (error) {
+        return NextResponse.json({ error: `Failed to update item: ${error.message}` }, { status: 500 });
+      }
+    }
+
+    if (plan.inserts.length > 0) {
+      const { error } = await adminSupabase
+        .from('violation_items')
+        .insert(plan.inserts.map((item) => ({ org_id: violation.org_id, violation_id: id, ...item })));
+      if (error) {
+        return NextResponse.json({ error: `Failed to add items: ${error.message}` }, { status: 500 });
+      }
+    }
+
+    if (plan.deletes.length > 0) {
+      const { error } = await adminSupabase
+        .from('violation_items')
+        .delete()
+        .in('id', plan.deletes)
+        .eq('violation_id', id);
+      if (error) {
+        return NextResponse.json({ error: `Failed to remove items: ${error.message}` }, { status: 500 });
+      }
+    }
+
+    // The staged parse becomes the new baseline for "edited since parse"
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('violations')
+      .update({ ...plan.violationUpdates, raw_ai_output: staged })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (updateError) {
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    const appliedChanges = {
+      notice_fields: Object.keys(plan.violationUpdates),
+      updated_items: plan.itemUpdates.map((u) => ({ id: u.id, fields: Object.keys(u.updates) })),
+      added_items: plan.inserts.map((i) => i.item_number),
+      removed_items: plan.deletes,
+      skipped: plan.skipped,
+    };
+
+    await adminSupabase
+      .from('parse_staging')
+      .update({
+        status: 'applied',
+        applied_by: user.id,
+        applied_at: new Date().toISOString(),
+        applied_changes: appliedChanges,
+      })
+      .eq('id', staging.id);
+
+    await adminSupabase.from('audit_log').insert({
+      org_id: violation.org_id,
+      table_name: 'violations',
+      record_id: id,
+      action: 'REPARSE_APPLY',
+      old_values: Object.fromEntries(Object.keys(plan.violationUpdates).map((f) => [f, violation[f]])),
+      new_values: { ...plan.violationUpdates, ...appliedChanges },
+      changed_by: user.id,
+    });
+
+    return NextResponse.json({ violation: updated, applied: appliedChanges });
+  } catch (error) {
+    console.error('Reparse apply error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { inngest } from '@/inngest/client';
+import { diffReparse, countPhotosByItem } from '@/lib/reparse-diff';
+import { getAIBudgetStatus } from '@/lib/ai/usage';
+import { readDeadlineRules } from '@/lib/deadlines';
+import type { NOIParseResult } from '@/lib/ai/schemas';
+
+/**
+ * GET /api/violations/[id]/reparse
+ * Latest re-parse for this violation, with a per-item diff against the live
+ * records once extraction has finished.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: staging } = await supabase
+      .from('parse_staging')
+      .select('*')
+      .eq('violation_id', id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!staging || staging.status !== 'ready' || !staging.parsed) {
+      return NextResponse.json({ staging, diff: null });
+    }
+
+    const [violationRes, photosRes] = await Promise.all([
+      supabase.from('violations').select('*, violation_items(*), organizations(settings, violation_codes(id, code, aliases, remediation_task))').eq('id', id).single(),
+      // Items with contractor photos can't be removed by a re-parse
+      supabase.from('photos').select('violation_item_id').eq('violation_id', id).in('photo_type', ['BEFORE', 'AFTER']),
+    ]);
+
+    if (!violationRes.data) {
+      return NextResponse.json({ error: 'Violation not found' }, { status: 404 });
+    }
+
+    const diff = diffReparse({
+      violation: violationRes.data,
+      items: violationRes.data.violation_items || [],
+      staged: staging.parsed as NOIParseResult,
+      baseline: violationRes.data.raw_ai_output as NOIParseResult | null,
+      photoCountsByItem: countPhotosByItem(photosRes.data || []),
+      deadlineRules: readDeadlineRules(violationRes.data.organizations?.settings),
+      codeCatalog: violationRes.data.organizations?.violation_codes || [],
+    });
+
+    return NextResponse.json({ staging, diff });
+  } catch (error) {
+    console.error('Reparse fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/violations/[id]/reparse
+ * Run extraction again into parse_staging. Live records are not modified
+ * until the user applies a selection via /reparse/apply.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { data: violation } = await supabase
+      .from('violations')
+      .select('id, org_id, status, pdf_storage_path')
+      .eq('id', id)
+      .single();
+
+    if (!violation || violation.org_id !== profile.org_id) {
+      return NextResponse.json({ error: 'Violation not found' }, { status: 404 });
+    }
+    if (!violation.pdf_storage_path) {
+      return NextResponse.json({ error: 'Violation has no PDF to re-parse' }, { status: 400 });
+    }
+    if (violation.status === 'PARSING') {
+      return NextResponse.json({ error: 'Violation is still being parsed' }, { status: 409 });
+    }
+
+    const budget = await getAIBudgetStatus(profile.org_id);
+    if (budget.exceeded) {
+      return NextResponse.json(
+        { error: `Monthly AI budget of $${budget.budget_usd!.toFixed(2)} reached — re-parse is unavailable until it is raised` },
+        { status: 402 },
+      );
+    }
+
+    const adminSupabase = createAdminClient();
+
+    // One open re-parse per violation — an unapplied earlier result is superseded
+    await adminSupabase
+      .from('parse_staging')
+      .update({ status: 'discarded' })
+      .eq('violation_id', id)
+      .in('status', ['pending', 'ready']);
+
+    const { data: staging, error: insertError } = await adminSupabase
+      .from('parse_staging')
+      .insert({
+        org_id: profile.org_id,
+        violation_id: id,
+        status: 'pending',
+        requested_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (insertError || !staging) {
+      return NextResponse.json({ error: insertError?.message || 'Failed to start re-parse' }, { status: 500 });
+    }
+
+    await inngest.send({
+      name: 'noi/reparse.requested',
+      data: {
+        violationId: id,
+        orgId: profile.org_id,
+        stagingId: staging.id,
+      },
+    });
+
+    return NextResponse.json({ staging });
+  } catch (error) {
+    console.error('Reparse start error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/violations/[id]/reparse
+ * Discard the open re-parse without applying anything.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const adminSupabase = createAdminClient();
+    await adminSupabase
+      .from('parse_staging')
+      .update({ status: 'discarded' })
+      .eq('violation_id', id)
+      .eq('org_id', profile.org_id)
+      .in('status', ['pending', 'ready', 'failed']);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Reparse discard error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
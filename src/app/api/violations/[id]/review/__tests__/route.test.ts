@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../route';
+import { NextRequest } from 'next/server';
+
+// Thenable chain mock — supports .single() and top-level `await chain`
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'insert', 'delete', 'eq', 'neq', 'in', 'order', 'limit'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject));
+  chain.single = vi.fn().mockResolvedValue(result);
+  chain.maybeSingle = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockFrom = vi.fn();
+const mockAdminFrom = vi.fn();
+const mockAuthGetUser = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: () => ({
+    from: mockFrom,
+    auth: { getUser: mockAuthGetUser },
+  }),
+  createAdminClient: () => ({
+    from: mockAdminFrom,
+  }),
+}));
+
+const mockTransition = vi.fn();
+vi.mock('@/lib/violation-transitions', () => ({
+  transitionViolation: (...args: unknown[]) => mockTransition(...args),
+}));
+
+function makeRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/violations/v-1/review', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const params = Promise.resolve({ id: 'v-1' });
+
+function violationRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'v-1',
+    org_id: 'org-1',
+    status: 'NEEDS_REVIEW',
+    notice_id: '25NOIE-INS-05478',
+    respondent: 'YOKE LEBAUM LLC',
+    total_fines: 625,
+    parse_metadata: {
+      field_confidence: {
+        threshold: 70,
+        notice: {
+          notice_id: { score: 99, reason: 'Matches PDF text layer' },
+          total_fines: { score: 30, reason: 'PDF text reads "$1,250.00"' },
+        },
+        items: {
+          '1': { fine: { score: 0, reason: 'Not extracted' } },
+        },
+        low_confidence_count: 2,
+        needs_review: true,
+      },
+    },
+    violation_items: [{ id: 'item-1', item_number: 1, fine: null, violation_code: 'IPMC § 605.1' }],
+    ...overrides,
+  };
+}
+
+describe('POST /api/violations/[id]/review', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'u-1' } }, error: null });
+  });
+
+  it('returns 401 for unauthenticated requests', async () => {
+    mockAuthGetUser.mockResolvedValue({ data: { user: null }, error: { message: 'No session' } });
+    const res = await POST(makeRequest({}), { params });
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 403 for contractors', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'CONTRACTOR' }));
+    const res = await POST(makeRequest({}), { params });
+    expect(res.status).toBe(403);
+  });
+
+  it('returns 409 when approving a violation that is past review', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+    mockFrom.mockReturnValueOnce(makeMock(violationRow({ status: 'ASSIGNED' })));
+
+    const res = await POST(makeRequest({ approve: true }), { params });
+    expect(res.status).toBe(409);
+  });
+
+  it('saves corrections, marks them certain, and keeps the violation in review', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+    mockFrom.mockReturnValueOnce(makeMock(violationRow()));
+    const itemMock = makeMock(null);
+    const violationMock = makeMock({ id: 'v-1' });
+    mockAdminFrom
+      .mockReturnValueOnce(itemMock)
+      .mockReturnValueOnce(violationMock)
+      .mockReturnValueOnce(makeMock(null)); // audit_log
+
+    const res = await POST(makeRequest({
+      notice: { notice_id: '25NOIE-INS-05478', total_fines: 1250 },
+      items: [{ id: 'item-1', fine: 625 }],
+    }), { params });
+
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.corrected_fields).toEqual(['total_fines', 'fine#1']);
+    expect(itemMock.update).toHaveBeenCalledWith({ fine: 625 });
+
+    const update = violationMock.update.mock.calls[0][0];
+    expect(update.total_fines).toBe(1250);
+    expect(update.notice_id).toBeUndefined();
+    expect(update.status).toBeUndefined();
+    expect(mockTransition).not.toHaveBeenCalled();
+    expect(update.parse_metadata.field_confidence.notice.total_fines.score).toBe(100);
+    expect(update.parse_metadata.field_confidence.needs_review).toBe(false);
+    expect(update.parse_metadata.review.corrected_fields).toEqual(['total_fines', 'fine#1']);
+  });
+
+  it('approval confirms remaining fields and moves the violation to PARSED', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'OWNER' }));
+    mockFrom.mockReturnValueOnce(makeMock(violationRow()));
+    mockTransition.mockResolvedValue({ ok: true, from: 'NEEDS_REVIEW', violation: { id: 'v-1', status: 'PARSED' }, changed: true });
+    mockAdminFrom.mockReturnValueOnce(makeMock(null)); // audit_log
+
+    const res = await POST(makeRequest({ approve: true }), { params });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).violation.status).toBe('PARSED');
+    expect(mockTransition).toHaveBeenCalledWith('v-1', 'PARSED', expect.objectContaining({ orgId: 'org-1' }));
+    const update = mockTransition.mock.calls[0][2].fields;
+    expect(update.parse_metadata.field_confidence.items['1'].fine).toEqual({ score: 100, reason: 'Confirmed by reviewer' });
+    expect(update.parse_metadata.field_confidence.low_confidence_count).toBe(0);
+  });
+
+  it('recomputes an item due date from a corrected deadline period under the org rules', async () => {
+    mockFrom.mockReturnValueOnce(makeMock({ org_id: 'org-1', role: 'PROJECT_MANAGER' }));
+    mockFrom.mockReturnValueOnce(makeMock(violationRow({
+      date_of_service: '2026-07-02',
+      organizations: { settings: { deadline_rules: { counting: 'business' } } },
+      violation_items: [{
+        id: 'item-1',
+        item_number: 1,
+        abatement_deadline: '2026-07-03',
+        abatement_deadline_text: '1 Dy',
+      }],
+    })));
+    const itemMock = makeMock(null);
+    const violationMock = makeMock({ id: 'v-1' });
+    mockAdminFrom
+      .mockReturnValueOnce(itemMock)
+      .mockReturnValueOnce(violationMock)
+      .mockReturnValueOnce(makeMock(null)); // audit_log
+
+    const res = await POST(makeRequest({
+      items: [{ id: 'item-1', abatement_deadline_text: '2 Days', abatement_deadline: '2026-07-03' }],
+    }), { params });
+
+    expect(res.status).toBe(200);
+    // Business days from Thu Jul 2: Jul 3 (observed July 4) and the weekend are skipped
+    expect(itemMock.update).toHaveBeenCalledWith({ abatement_deadline_text: '2 Days', abatement_deadline: '2026-07-07' });
+    const update = violationMock.update.mock.calls[0][0];
+    expect(update.parse_metadata.field_confidence.items['1'].abatement_deadline.score).toBe(100);
+  });
+});
@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NOTICE_FIELDS } from '@/lib/ai/confidence';
+import { computeItemDeadline, readDeadlineRules } from '@/lib/deadlines';
+import { resolveViolationCode, type CatalogCode } from '@/lib/violation-codes';
+import { transitionViolation } from '@/lib/violation-transitions';
+import type { ParseConfidence, ParseReview } from '@/lib/ai/schemas';
+
+// Item fields a reviewer may correct — mirrors what the parse pipeline writes
+const ITEM_FIELDS = [
+  'violation_code', 'priority', 'abatement_deadline', 'abatement_deadline_text', 'fine', 'violation_description',
+  'specific_location', 'floor_number', 'date_of_infraction', 'time_of_infraction', 'task_description',
+] as const;
+
+// Parse confidence scores the deadline text under the extracted field's name
+const CONFIDENCE_KEYS: Record<string, string> = { abatement_deadline_text: 'abatement_deadline' };
+
+/**
+ * POST /api/violations/[id]/review
+ * Save reviewer corrections to a parsed violation and (optionally) approve it.
+ * Body: { notice?: {...fields}, items?: [{ id, ...fields }], approve?: boolean }
+ *
+ * Corrected fields get confidence 100; approving confirms every remaining
+ * field and moves NEEDS_REVIEW → PARSED so the violation becomes assignable.
+ * A corrected deadline period or date of service recomputes the item's due
+ * date unless the reviewer set the date directly, and a corrected code is
+ * resolved against the org's code catalog.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const notice = (body.notice || {}) as Record<string, unknown>;
+    const items = (Array.isArray(body.items) ? body.items : []) as Array<Record<string, unknown>>;
+    const approve = body.approve === true;
+
+    const { data: violation } = await supabase
+      .from('violations')
+      .select('*, violation_items(*), organizations(settings, violation_codes(id, code, aliases, remediation_task))')
+      .eq('id', id)
+      .single();
+
+    if (!violation || violation.org_id !== profile.org_id) {
+      return NextResponse.json({ error: 'Violation not found' }, { status: 404 });
+    }
+
+    if (approve && !['NEEDS_REVIEW', 'PARSED'].includes(violation.status)) {
+      return NextResponse.json(
+        { error: `Cannot approve a violation in status ${violation.status}` },
+        { status: 409 },
+      );
+    }
+
+    const adminSupabase = createAdminClient();
+    const correctedFields: string[] = [];
+
+    // Notice-level corrections
+    const violationUpdates: Record<string, unknown> = {};
+    for (const field of NOTICE_FIELDS) {
+      if (field in notice && notice[field] !== violation[field]) {
+        violationUpdates[field] = notice[field];
+        correctedFields.push(field);
+      }
+    }
+
+    const deadlineRules = readDeadlineRules(violation.organizations?.settings);
+    const codeCatalog = (violation.organizations?.violation_codes || []) as CatalogCode[];
+    const serviceDate = (violationUpdates.date_of_service ?? violation.date_of_service) as string | null;
+
+    // Item-level corrections (only items that belong to this violation)
+    const existingItems = (violation.violation_items || []) as Array<Record<string, unknown>>;
+    for (const item of items) {
+      const existing = existingItems.find((e) => e.id === item.id);
+      if (!existing) continue;
+
+      const itemUpdates: Record<string, unknown> = {};
+      for (const field of ITEM_FIELDS) {
+        if (field in item && item[field] !== existing[field]) {
+          itemUpdates[field] = item[field];
+          correctedFields.push(`${field}#${existing.item_number}`);
+        }
+      }
+      if (('abatement_deadline_text' in itemUpdates || 'date_of_service' in violationUpdates)
+        && !('abatement_deadline' in itemUpdates)) {
+        const text = (itemUpdates.abatement_deadline_text ?? existing.abatement_deadline_text) as string | null;
+        const due = computeItemDeadline(serviceDate, text, deadlineRules);
+        if (due !== existing.abatement_deadline) itemUpdates.abatement_deadline = due;
+      }
+      if ('violation_code' in itemUpdates) {
+        const resolved = resolveViolationCode(itemUpdates.violation_code as string | null, null, codeCatalog);
+        itemUpdates.violation_code = resolved.violation_code;
+        itemUpdates.code_id = resolved.code_id;
+      }
+      if (Object.keys(itemUpdates).length === 0) continue;
+
+      const { error: itemError } = await adminSupabase
+        .from('violation_items')
+        .update(itemUpdates)
+        .eq('id', existing.id as string)
+        .eq('violation_id', id);
+
+      if (itemError) {
+        return NextResponse.json({ error: `Failed to update item: ${itemError.message}` }, { status: 500 });
+      }
+    }
+
+    // Confidence: corrected fields are now certain; approval confirms the rest
+    const parseMetadata = (violation.parse_metadata || {}) as Record<string, unknown>;
+    const confidence = parseMetadata.field_confidence as ParseConfidence | undefined;
+    if (confidence) {
+      for (const key of correctedFields) {
+        const [field, itemNumber] = key.split('#');
+        const scores = itemNumber ? confidence.items[itemNumber] : confidence.notice;
+        if (scores) scores[CONFIDENCE_KEYS[field] || field] = { score: 100, reason: 'Corrected by reviewer' };
+      }
+      if (approve) {
+        for (const scores of [confidence.notice, ...Object.values(confidence.items)]) {
+          for (const [field, c] of Object.entries(scores)) {
+            if (c.score < confidence.threshold) scores[field] = { score: 100, reason: 'Confirmed by reviewer' };
+          }
+        }
+      }
+      const allScores = [confidence.notice, ...Object.values(confidence.items)].flatMap((s) => Object.values(s));
+      confidence.low_confidence_count = allScores.filter((c) => c.score < confidence.threshold).length;
+      confidence.needs_review = confidence.low_confidence_count > 0;
+    }
+
+    const previousReview = parseMetadata.review as ParseReview | undefined;
+    const review: ParseReview = {
+      reviewed_by: user.id,
+      reviewed_at: new Date().toISOString(),
+      corrected_fields: [...new Set([...(previousReview?.corrected_fields || []), ...correctedFields])],
+    };
+
+    const newStatus = approve && violation.status === 'NEEDS_REVIEW' ? 'PARSED' : violation.status;
+
+    const fields = {
+      ...violationUpdates,
+      parse_metadata: {
+        ...parseMetadata,
+        ...(confidence && { field_confidence: confidence }),
+        review,
+      },
+    };
+
+    let updated;
+    if (newStatus !== violation.status) {
+      const result = await transitionViolation(id, newStatus, { orgId: violation.org_id, fields });
+      if (!result.ok) {
+        return NextResponse.json({ error: result.block.message, block: result.block }, { status: 409 });
+      }
+      updated = result.violation;
+    } else {
+      const { data, error: updateError } = await adminSupabase
+        .from('violations')
+        .update(fields)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (updateError) {
+        return NextResponse.json({ error: updateError.message }, { status: 500 });
+      }
+      updated = data;
+    }
+
+    await adminSupabase.from('audit_log').insert({
+      org_id: violation.org_id,
+      table_name: 'violations',
+      record_id: id,
+      action: 'REVIEW',
+      old_values: { status: violation.status },
+      new_values: { status: newStatus, corrected_fields: correctedFields, approved: approve },
+      changed_by: user.id,
+    });
+
+    return NextResponse.json({ violation: updated, corrected_fields: correctedFields });
+  } catch (error) {
+    console.error('Violation review error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listTransitions } from '@/lib/violation-transitions';
+
+/**
+ * GET /api/violations/[id]/transitions
+ * The statuses the org's workflow allows next, each with the reason the
+ * move is blocked right now (`block`, null when it would go through).
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('org_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+    }
+
+    const transitions = await listTransitions(id, profile.org_id);
+    if (!transitions) {
+      return NextResponse.json({ error: 'Violation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(transitions);
+  } catch (error) {
+    console.error('Violation transitions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
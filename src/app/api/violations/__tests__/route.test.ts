@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { GET } from '../route';
+import { GET, PATCH } from '../route';
 import { NextRequest } from 'next/server';
 
 // chainable supabase mock
@@ -26,6 +26,11 @@ vi.mock('@/lib/supabase/server', () => ({
   }),
 }));
 
+const mockTransition = vi.fn();
+vi.mock('@/lib/violation-transitions', () => ({
+  transitionViolation: (...args: unknown[]) => mockTransition(...args),
+}));
+
 function makeRequest(params: Record<string, string> = {}) {
   const url = new URL('http://localhost/api/violations');
   Object.entries(params).forEach(([k, v]) => url.searchParams.set(k, v));
@@ -89,3 +94,49 @@ describe('GET /api/violations', () => {
     expect(chain.in).toHaveBeenCalledWith('status', ['NEW', 'PARSED', 'ASSIGNED']);
   });
 });
+
+describe('PATCH /api/violations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthGetUser.mockResolvedValue({ data: { user: { id: 'u1' } }, error: null });
+  });
+
+  function patch(body: Record<string, unknown>) {
+    return PATCH(new NextRequest('http://localhost/api/violations', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+    }));
+  }
+
+  it('writes the other fields with the status in one transition', async () => {
+    mockFrom.mockReturnValueOnce(chainMock({ data: { org_id: 'org-1', role: 'PROJECT_MANAGER' }, error: null }));
+    mockTransition.mockResolvedValue({ ok: true, from: 'PARSED', changed: true, violation: { id: 'v-1', status: 'ASSIGNED' } });
+
+    const res = await patch({ id: 'v-1', status: 'ASSIGNED', assigned_to: 'u2', org_id: 'org-2' });
+
+    expect(res.status).toBe(200);
+    expect(mockTransition).toHaveBeenCalledWith('v-1', 'ASSIGNED', { orgId: 'org-1', fields: { assigned_to: 'u2' } });
+    // Only the profile lookup; no second write
+    expect(mockFrom).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the block when the move is not allowed', async () => {
+    mockFrom.mockReturnValueOnce(chainMock({ data: { org_id: 'org-1', role: 'OWNER' }, error: null }));
+    const block = { code: 'NOT_ALLOWED', message: 'Not allowed', from: 'NEW', to: 'SUBMITTED' };
+    mockTransition.mockResolvedValue({ ok: false, block });
+
+    const res = await patch({ id: 'v-1', status: 'SUBMITTED' });
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'Not allowed', block });
+  });
+
+  it('checks the role before changing the status', async () => {
+    mockFrom.mockReturnValueOnce(chainMock({ data: { org_id: 'org-1', role: 'CONTRACTOR' }, error: null }));
+
+    const res = await patch({ id: 'v-1', status: 'ASSIGNED' });
+
+    expect(res.status).toBe(403);
+    expect(mockTransition).not.toHaveBeenCalled();
+  });
+});
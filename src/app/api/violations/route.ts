@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { transitionViolation } from '@/lib/violation-transitions';
 
 export async function GET(request: NextRequest) {
   const supabase = await createClient();
@@ -68,7 +69,7 @@ export async function GET(request: NextRequest) {
   if (needsAttention === 'true') {
     const today = new Date().toISOString().split('T')[0];
     query = query.or(
-      `priority.eq.1,status.in.(NEW,PARSED,AWAITING_PHOTOS),abatement_deadline.lt.${today}`
+      `priority.eq.1,status.in.(NEW,PARSED,NEEDS_REVIEW,AWAITING_PHOTOS),abatement_deadline.lt.${today}`
     );
   }
 
@@ -96,6 +97,14 @@ export async function GET(request: NextRequest) {
   });
 }
 
+/**
+ * PATCH /api/violations
+ * Update a violation. A status change goes through the transition service,
+ * which writes the other fields along with the status in the same update;
+ * if the workflow or a guard blocks it, nothing is saved and the 409
+ * carries the reason as `block`.
+ * Body: { id, status?, ...fields }
+ */
 export async function PATCH(request: NextRequest) {
   const supabase = await createClient();
   const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -105,12 +114,47 @@ export async function PATCH(request: NextRequest) {
   }
 
   const body = await request.json();
-  const { id, ...updates } = body;
+  const { id, status, ...updates } = body;
+  // org_id can't be moved: the service writes with the admin client
+  delete updates.org_id;
 
   if (!id) {
     return NextResponse.json({ error: 'Violation id is required' }, { status: 400 });
   }
 
+  if (status !== undefined && typeof status !== 'string') {
+    return NextResponse.json({ error: 'status must be a string' }, { status: 400 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('org_id, role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile) {
+    return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+  }
+
+  // The same roles the violations RLS policy lets write
+  if (!['OWNER', 'PROJECT_MANAGER', 'ADMIN'].includes(profile.role)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  if (status !== undefined) {
+    const result = await transitionViolation(id, status, {
+      orgId: profile.org_id,
+      ...(Object.keys(updates).length > 0 && { fields: updates }),
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.block.message, block: result.block },
+        { status: result.block.code === 'NOT_FOUND' ? 404 : 409 },
+      );
+    }
+    return NextResponse.json(result.violation);
+  }
+
   const { data, error } = await supabase
     .from('violations')
     .update(updates)
@@ -39,8 +39,9 @@ vi.mock('resend', () => ({
   },
 }));
 
-vi.mock('@/lib/status-transitions', () => ({
-  canTransition: vi.fn().mockReturnValue(true),
+const mockTransition = vi.fn();
+vi.mock('@/lib/violation-transitions', () => ({
+  transitionViolation: (...args: unknown[]) => mockTransition(...args),
 }));
 
 describe('POST /api/work-orders', () => {
@@ -96,12 +97,6 @@ describe('POST /api/work-orders', () => {
       error: null,
     }));
 
-    // 7. Violation status update
-    mockFrom.mockReturnValueOnce(chainMock({
-      data: null,
-      error: null,
-    }));
-
     mockSendEmail.mockResolvedValue({ data: { id: 'email-123' }, error: null });
 
     const request = new NextRequest('http://localhost:3000/api/work-orders', {
@@ -121,6 +116,7 @@ describe('POST /api/work-orders', () => {
     expect(json.work_order).toBeDefined();
     expect(json.token).toBeDefined();
     expect(json.magic_link).toContain('/contractor/');
+    expect(mockTransition).toHaveBeenCalledWith('v-123', 'ASSIGNED', { orgId: expect.any(String) });
   });
 
   it('returns 400 for missing contractor_name', async () => {
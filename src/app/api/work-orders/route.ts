@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createAdminClient } from '@/lib/supabase/server';
-import { canTransition } from '@/lib/status-transitions';
+import { transitionViolation } from '@/lib/violation-transitions';
 import { Resend } from 'resend';
 import { randomUUID } from 'crypto';
 import { FROM_EMAIL } from '@/lib/email';
@@ -185,12 +185,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 9. Update violation status to ASSIGNED (if transitioning from PARSED)
-    if (violation.status === 'PARSED' && canTransition('PARSED', 'ASSIGNED')) {
-      await adminClient
-        .from('violations')
-        .update({ status: 'ASSIGNED' })
-        .eq('id', violation_id);
+    // 9. Update violation status to ASSIGNED (if transitioning from PARSED
+    // and the org's workflow allows it)
+    if (violation.status === 'PARSED') {
+      await transitionViolation(violation_id, 'ASSIGNED', { orgId: profile.org_id });
     }
 
     // 10. Construct magic link
@@ -311,6 +311,9 @@ export default function ContractorViewPage() {
                       <span className="text-slate-400">#{item.item_number}</span>
                       <span className="bg-white border border-slate-200 text-slate-700 text-xs px-2 py-0.5 rounded-md uppercase tracking-wider">{item.violation_code}</span>
                     </CardTitle>
+                    {item.violation_codes?.title && (
+                      <p className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-1">{item.violation_codes.title}</p>
+                    )}
                     <p className="text-sm font-medium text-slate-700 leading-snug">{item.violation_description}</p>
                     {item.task_description && (
                       <div className="mt-3 bg-blue-50 border border-blue-100 p-3 rounded-lg">
@@ -318,6 +321,12 @@ export default function ContractorViewPage() {
                         <p className="text-sm font-medium text-blue-900">{item.task_description}</p>
                       </div>
                     )}
+                    {item.violation_codes?.remediation_task && item.violation_codes.remediation_task !== item.task_description && (
+                      <div className="mt-3 bg-slate-50 border border-slate-200 p-3 rounded-lg">
+                        <p className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-0.5">Standard Remediation</p>
+                        <p className="text-sm font-medium text-slate-800 whitespace-pre-line">{item.violation_codes.remediation_task}</p>
+                      </div>
+                    )}
                   </div>
                 </div>
               </CardHeader>
@@ -328,6 +337,7 @@ export default function ContractorViewPage() {
                     const existingAfter = afterByInspector.get(inspectorPhoto.id);
                     const description = (inspectorPhoto.metadata as Record<string, string>)?.description;
                     const inspectorSignedUrl = (inspectorPhoto as any).signed_url as string | undefined;
+                    const inspectorThumbnailUrl = (inspectorPhoto as Photo & { thumbnail_url?: string }).thumbnail_url;
 
                     return (
                       <div key={inspectorPhoto.id} className="last:mb-0 mb-6 pb-6 last:pb-0 last:border-0 border-b border-slate-100">
@@ -345,11 +355,13 @@ export default function ContractorViewPage() {
                               Original Infraction (Before)
                             </p>
                             <div className="rounded-xl overflow-hidden border border-slate-200 bg-slate-50">
-                              {pdf_url && inspectorPhoto.page_number ? (
+                              {(inspectorSignedUrl || pdf_url) && inspectorPhoto.page_number ? (
                                 <EvidencePhoto
                                   pdfUrl={pdf_url}
                                   pageNumber={inspectorPhoto.page_number}
                                   width={200}
+                                  imageUrl={inspectorSignedUrl}
+                                  thumbnailUrl={inspectorThumbnailUrl}
                                 />
                               ) : (
                                 <div className="flex h-[260px] items-center justify-center text-slate-400 text-xs">
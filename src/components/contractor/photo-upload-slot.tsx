@@ -161,7 +161,7 @@ export function PhotoUploadSlot({
       });
 
       // Trigger angle verification for AFTER photos with inspector pairing
-      if (photoType === 'AFTER' && pdfUrl && inspectorPageNumber && data.photo?.id) {
+      if (photoType === 'AFTER' && (inspectorImageUrl || (pdfUrl && inspectorPageNumber)) && data.photo?.id) {
         runVerification(data.photo.id);
       }
     } catch (error) {
@@ -13,8 +13,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Search, X, AlertTriangle } from 'lucide-react';
-import type { ViolationStatus, Property } from '@/lib/types';
-import { STATUS_LABELS } from '@/lib/status-transitions';
+import type { Property } from '@/lib/types';
+import { useWorkflow } from '@/components/workflow/workflow-provider';
 
 interface FilterSidebarProps {
   search: string;
@@ -35,8 +35,6 @@ interface FilterSidebarProps {
   onNeedsAttentionChange?: (value: boolean) => void;
 }
 
-const STATUSES = Object.entries(STATUS_LABELS) as [ViolationStatus, string][];
-
 export function FilterSidebar({
   search,
   onSearchChange,
@@ -54,6 +52,7 @@ export function FilterSidebar({
   needsAttention = false,
   onNeedsAttentionChange,
 }: FilterSidebarProps) {
+  const { workflow } = useWorkflow();
   const [properties, setProperties] = useState<Property[]>([]);
 
   useEffect(() => {
@@ -88,9 +87,9 @@ export function FilterSidebar({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All statuses</SelectItem>
-              {STATUSES.map(([value, label]) => (
-                <SelectItem key={value} value={value}>
-                  {label}
+              {workflow.states.map((state) => (
+                <SelectItem key={state.key} value={state.key}>
+                  {state.label}
                 </SelectItem>
               ))}
             </SelectContent>
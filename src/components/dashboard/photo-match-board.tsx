@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { GripVertical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Photo, ViolationItem } from '@/lib/types';
+import type { PhotoMatchMetadata } from '@/lib/photo-matching';
+
+const EvidencePhoto = dynamic(() => import('@/components/parser/evidence-photo').then(m => m.EvidencePhoto), {
+  ssr: false,
+  loading: () => (
+    <div className="flex h-[260px] w-[200px] items-center justify-center rounded-lg border bg-gray-50">
+      <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-400 border-t-transparent" />
+    </div>
+  ),
+});
+
+interface PhotoMatchBoardProps {
+  violationId: string;
+  items: ViolationItem[];
+  photos: (Photo & { signed_url?: string | null; thumbnail_url?: string | null })[];
+  pdfUrl: string | null;
+  onReassigned: () => void;
+}
+
+const UNMATCHED = 'unmatched';
+
+function matchOf(photo: Photo): PhotoMatchMetadata | undefined {
+  return (photo.metadata as Record<string, unknown>)?.match as PhotoMatchMetadata | undefined;
+}
+
+/** Badge text and tooltip explaining how a photo came to be on its item */
+function matchSummary(photo: Photo): { label: string; title: string; tone: string } | null {
+  const match = matchOf(photo);
+  if (!match) return null;
+
+  if (match.method === 'manual') {
+    return {
+      label: 'Moved by PM',
+      title: `Reassigned ${match.reassigned_at ? new Date(match.reassigned_at).toLocaleString() : ''}`.trim(),
+      tone: 'bg-blue-50 text-blue-700 border-blue-200',
+    };
+  }
+
+  const chosen = match.candidates.find(c => c.item_id === photo.violation_item_id);
+  const lines = match.candidates.map(c =>
+    `#${c.item_number ?? '?'} ${c.violation_code ?? ''} — ${Math.round(c.score * 100)}%${c.reasons.length ? `: ${c.reasons.join('; ')}` : ''}`,
+  );
+  const score = chosen?.score ?? match.score ?? 0;
+  return {
+    label: `${Math.round(score * 100)}% match`,
+    title: lines.length > 0 ? `Candidates:\n${lines.join('\n')}` : 'No candidates scored',
+    tone: score >= 0.8
+      ? 'bg-green-50 text-green-700 border-green-200'
+      : 'bg-amber-50 text-amber-700 border-amber-200',
+  };
+}
+
+/**
+ * Inspector photos grouped by item. A PM can drag a photo onto another item
+ * (or back to Unmatched) to correct the automatic match.
+ */
+export function PhotoMatchBoard({ violationId, items, photos, pdfUrl, onReassigned }: PhotoMatchBoardProps) {
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const inspectorPhotos = photos.filter(p => p.photo_type === 'INSPECTOR' && p.page_number);
+  const itemIds = new Set(items.map(i => i.id));
+  const photosFor = (zone: string) => inspectorPhotos.filter(p =>
+    zone === UNMATCHED ? !p.violation_item_id || !itemIds.has(p.violation_item_id) : p.violation_item_id === zone,
+  );
+
+  const handleDrop = async (zone: string) => {
+    const photoId = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!photoId) return;
+
+    const photo = inspectorPhotos.find(p => p.id === photoId);
+    const itemId = zone === UNMATCHED ? null : zone;
+    if (!photo || photo.violation_item_id === itemId) return;
+
+    setSaving(photoId);
+    try {
+      const res = await fetch(`/api/violations/${violationId}/photos/${photoId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ violation_item_id: itemId }),
+      });
+      if (res.ok) {
+        const item = items.find(i => i.id === itemId);
+        toast.success(item ? `Page ${photo.page_number} moved to item #${item.item_number}` : `Page ${photo.page_number} unmatched`);
+        onReassigned();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || 'Failed to move photo');
+      }
+    } catch {
+      toast.error('Failed to move photo');
+    }
+    setSaving(null);
+  };
+
+  const zones = [
+    ...items.map(item => ({
+      id: item.id,
+      title: `#${item.item_number} — ${item.violation_code || 'Unknown Code'}`,
+      subtitle: [item.specific_location, item.floor_number && `Floor ${item.floor_number}`].filter(Boolean).join(' · '),
+    })),
+    { id: UNMATCHED, title: 'Unmatched Evidence Photos', subtitle: 'Drag a photo onto an item to link it' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Drag an inspector photo onto a different item to correct its match. Hover a match score to see why it was chosen.
+      </p>
+      {zones.map(zone => {
+        const zonePhotos = photosFor(zone.id);
+        if (zone.id === UNMATCHED && zonePhotos.length === 0 && !dragging) return null;
+
+        return (
+          <div
+            key={zone.id}
+            onDragOver={(e) => {
+              if (!dragging) return;
+              e.preventDefault();
+              setDropTarget(zone.id);
+            }}
+            onDragLeave={() => setDropTarget(current => (current === zone.id ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(zone.id);
+            }}
+            className={cn(
+              'rounded-lg border border-dashed p-4 transition-colors',
+              dropTarget === zone.id ? 'border-blue-400 bg-blue-50/60' : 'border-gray-200',
+            )}
+          >
+            <div className="mb-3">
+              <p className={cn('text-sm font-medium', zone.id === UNMATCHED ? 'text-gray-500' : 'text-gray-700')}>
+                {zone.title}
+              </p>
+              {zone.subtitle && <p className="text-xs text-gray-400">{zone.subtitle}</p>}
+            </div>
+            {zonePhotos.length > 0 ? (
+              <div className="flex flex-wrap gap-4">
+                {zonePhotos.map(photo => {
+                  const summary = matchSummary(photo);
+                  return (
+                    <div
+                      key={photo.id}
+                      draggable={saving !== photo.id}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragging(photo.id);
+                      }}
+                      onDragEnd={() => {
+                        setDragging(null);
+                        setDropTarget(null);
+                      }}
+                      className={cn(
+                        'cursor-grab space-y-1.5 active:cursor-grabbing',
+                        (dragging === photo.id || saving === photo.id) && 'opacity-50',
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                        <span className="flex items-center gap-1">
+                          <GripVertical className="h-3.5 w-3.5" />
+                          Page {photo.page_number}
+                          {photo.matched_violation_code && ` · ${photo.matched_violation_code}`}
+                        </span>
+                        {summary && (
+                          <Badge variant="outline" className={cn('text-[10px] whitespace-pre-line', summary.tone)} title={summary.title}>
+                            {summary.label}
+                          </Badge>
+                        )}
+                      </div>
+                      <EvidencePhoto
+                        pdfUrl={pdfUrl}
+                        pageNumber={photo.page_number!}
+                        width={200}
+                        imageUrl={photo.signed_url}
+                        thumbnailUrl={photo.thumbnail_url}
+                        description={(photo.metadata as Record<string, string>)?.description || undefined}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="py-4 text-center text-xs text-gray-400">
+                {dropTarget === zone.id ? 'Drop to move here' : 'No inspector photos'}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,8 +5,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Building2, AlertTriangle, Clock, DollarSign } from 'lucide-react';
 import type { PropertyPortfolioStats } from '@/lib/types';
-import { STATUS_COLORS, STATUS_LABELS } from '@/lib/status-transitions';
-import type { ViolationStatus } from '@/lib/types';
+import { statusColor, statusLabel } from '@/lib/workflow';
+import { useWorkflow } from '@/components/workflow/workflow-provider';
 import { cn } from '@/lib/utils';
 
 interface PropertyCardProps {
@@ -14,6 +14,7 @@ interface PropertyCardProps {
 }
 
 export function PropertyCard({ property }: PropertyCardProps) {
+  const { workflow } = useWorkflow();
   const hasOverdue = property.overdue_count > 0;
   const hasP1 = property.p1_count > 0;
 
@@ -67,7 +68,7 @@ export function PropertyCard({ property }: PropertyCardProps) {
                   {statusEntries.map(([status, count]) => (
                     <div 
                       key={status} 
-                      className={cn("h-full", STATUS_COLORS[status as ViolationStatus]?.replace('text-', 'bg-').replace('bg-', 'bg-').split(' ')[0] || 'bg-slate-300')}
+                      className={cn("h-full", statusColor(status, workflow).split(' ')[0])}
                       style={{ width: `${(count / property.violation_count) * 100}%` }}
                     />
                   ))}
@@ -75,8 +76,8 @@ export function PropertyCard({ property }: PropertyCardProps) {
               <div className="flex flex-wrap gap-2">
                 {statusEntries.map(([status, count]) => (
                   <div key={status} className="flex items-center gap-1.5 text-[0.7rem] font-medium text-slate-600">
-                    <span className={cn("h-2 w-2 rounded-full", STATUS_COLORS[status as ViolationStatus]?.replace('text-', 'bg-').replace('bg-', 'bg-').split(' ')[0] || 'bg-slate-300')} />
-                    <span>{count} {STATUS_LABELS[status as ViolationStatus] || status}</span>
+                    <span className={cn("h-2 w-2 rounded-full", statusColor(status, workflow).split(' ')[0])} />
+                    <span>{count} {statusLabel(status, workflow)}</span>
                   </div>
                 ))}
               </div>
@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Lock, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { FieldChange, ItemDiff, ReparseDiff } from '@/lib/reparse-diff';
+
+interface StagingRow {
+  id: string;
+  status: 'pending' | 'ready' | 'applied' | 'discarded' | 'failed';
+  error_message: string | null;
+  created_at: string;
+}
+
+interface ReparseDialogProps {
+  violationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied: () => void;
+}
+
+const KIND_STYLES: Record<ItemDiff['kind'], string> = {
+  changed: 'bg-amber-100 text-amber-800',
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+}
+
+/** Everything is selected by default except fields someone edited since the last parse */
+function defaultSelection(diff: ReparseDiff): Record<string, boolean> {
+  const selected: Record<string, boolean> = {};
+  for (const c of diff.notice) selected[`notice:${c.field}`] = !c.edited_since_parse;
+  for (const item of diff.items) {
+    if (item.kind === 'added') selected[`item:${item.key}`] = true;
+    if (item.kind === 'removed') selected[`item:${item.key}`] = !item.protected_reason;
+    for (const c of item.changes) selected[`item:${item.key}:${c.field}`] = !c.edited_since_parse;
+  }
+  return selected;
+}
+
+export function ReparseDialog({ violationId, open, onOpenChange, onApplied }: ReparseDialogProps) {
+  const [staging, setStaging] = useState<StagingRow | null>(null);
+  const [diff, setDiff] = useState<ReparseDiff | null>(null);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Load the latest re-parse; poll while extraction is running
+  useEffect(() => {
+    if (!open) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const fetchStaging = async () => {
+      try {
+        const res = await fetch(`/api/violations/${violationId}/reparse`);
+        const data = await res.json();
+        if (cancelled) return;
+        setStaging(data.staging);
+        setDiff(data.diff);
+        if (data.diff) setSelected(defaultSelection(data.diff));
+        if (data.staging?.status === 'pending') timer = setTimeout(fetchStaging, 3000);
+      } catch {
+        if (!cancelled) toast.error('Failed to load re-parse');
+      }
+    };
+    fetchStaging();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [open, violationId, reloadKey]);
+
+  const handleStart = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/violations/${violationId}/reparse`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start re-parse');
+      toast.success('Re-parse started');
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to start re-parse');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setLoading(true);
+    try {
+      await fetch(`/api/violations/${violationId}/reparse`, { method: 'DELETE' });
+      setReloadKey((k) => k + 1);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!staging || !diff) return;
+
+    const noticeFields = diff.notice.filter((c) => selected[`notice:${c.field}`]).map((c) => c.field);
+    const items: Array<{ key: string; fields?: string[] }> = [];
+    for (const item of diff.items) {
+      if (item.kind === 'added' || item.kind === 'removed') {
+        if (selected[`item:${item.key}`]) items.push({ key: item.key });
+      } else if (item.kind === 'changed') {
+        const fields = item.changes.filter((c) => selected[`item:${item.key}:${c.field}`]).map((c) => c.field);
+        if (fields.length > 0) items.push({ key: item.key, fields });
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/violations/${violationId}/reparse/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ staging_id: staging.id, notice_fields: noticeFields, items }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to apply re-parse');
+
+      const skipped = data.applied?.skipped?.length || 0;
+      toast.success(skipped > 0 ? `Re-parse applied (${skipped} protected item${skipped !== 1 ? 's' : ''} kept)` : 'Re-parse applied');
+      onApplied();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to apply re-parse');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggle = (key: string, checked: boolean) => setSelected((prev) => ({ ...prev, [key]: checked }));
+
+  const renderChange = (change: FieldChange, key: string) => (
+    <label key={key} className="flex items-start gap-2 py-1 text-sm">
+      <Checkbox
+        checked={!!selected[key]}
+        onCheckedChange={(checked) => toggle(key, checked === true)}
+        className="mt-0.5"
+      />
+      <span className="w-40 shrink-0 font-medium text-gray-700">{change.field.replace(/_/g, ' ')}</span>
+      <span className="flex-1">
+        <span className="text-red-700 line-through">{formatValue(change.current)}</span>
+        {' → '}
+        <span className="text-green-700">{formatValue(change.staged)}</span>
+        {change.edited_since_parse && (
+          <Badge variant="outline" className="ml-2 text-xs">Edited since parse</Badge>
+        )}
+      </span>
+    </label>
+  );
+
+  const changedItems = diff?.items.filter((i) => i.kind !== 'unchanged') || [];
+  const unchangedCount = (diff?.items.length || 0) - changedItems.length;
+  const hasChanges = !!diff && (diff.notice.length > 0 || changedItems.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5" />
+            Re-parse NOI
+          </DialogTitle>
+          <DialogDescription>
+            Extraction runs into a staging area. Review the differences and apply only what you want —
+            work orders, photos and anything you leave unchecked stay as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        {(!staging || ['applied', 'discarded'].includes(staging.status)) && (
+          <p className="py-6 text-center text-sm text-gray-500">
+            Run extraction again on the original PDF and compare it with the current items.
+          </p>
+        )}
+
+        {staging?.status === 'pending' && (
+          <div className="flex items-center justify-center gap-3 py-10 text-sm text-gray-600">
+            <div className="h-5 w-5 animate-spin rounded-full border-2 border-blue-600 border-t-transparent" />
+            Re-parsing PDF…
+          </div>
+        )}
+
+        {staging?.status === 'failed' && (
+          <p className="rounded-lg bg-red-50 p-4 text-sm text-red-700">
+            Re-parse failed: {staging.error_message || 'Unknown error'}
+          </p>
+        )}
+
+        {staging?.status === 'ready' && diff && (
+          <div className="space-y-4">
+            {!hasChanges && (
+              <p className="py-6 text-center text-sm text-gray-500">
+                The re-parse matches the current record. Nothing to apply.
+              </p>
+            )}
+
+            {diff.notice.length > 0 && (
+              <div>
+                <h4 className="mb-1 text-sm font-semibold">Notice</h4>
+                {diff.notice.map((c) => renderChange(c, `notice:${c.field}`))}
+              </div>
+            )}
+
+            {changedItems.map((item) => (
+              <div key={item.key} className={cn('rounded-lg border p-3', item.kind === 'removed' && 'bg-red-50/40')}>
+                <div className="flex items-center gap-2">
+                  {item.kind !== 'changed' && (
+                    <Checkbox
+                      checked={!!selected[`item:${item.key}`]}
+                      disabled={!!item.protected_reason}
+                      onCheckedChange={(checked) => toggle(`item:${item.key}`, checked === true)}
+                    />
+                  )}
+                  <span className="text-sm font-semibold">Item {item.item_number ?? '?'}</span>
+                  <span className="text-sm text-gray-600">{item.violation_code}</span>
+                  <Badge className={KIND_STYLES[item.kind]}>{item.kind}</Badge>
+                  {item.protected_reason && (
+                    <span className="flex items-center gap-1 text-xs text-gray-500">
+                      <Lock className="h-3 w-3" />
+                      Kept — {item.protected_reason}
+                    </span>
+                  )}
+                </div>
+                {item.kind === 'added' && item.staged && (
+                  <p className="mt-1 pl-6 text-sm text-gray-600">{item.staged.violation_description}</p>
+                )}
+                {item.changes.length > 0 && (
+                  <div className="mt-1 pl-2">
+                    {item.changes.map((c) => renderChange(c, `item:${item.key}:${c.field}`))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {unchangedCount > 0 && (
+              <p className="text-xs text-gray-500">{unchangedCount} item{unchangedCount !== 1 ? 's' : ''} unchanged</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {staging && ['ready', 'failed'].includes(staging.status) && (
+            <Button variant="outline" onClick={handleDiscard} disabled={loading || submitting}>
+              Discard
+            </Button>
+          )}
+          {staging?.status === 'ready' && hasChanges ? (
+            <Button onClick={handleApply} disabled={submitting}>
+              {submitting ? 'Applying…' : 'Apply Selected'}
+            </Button>
+          ) : staging?.status !== 'pending' && (
+            <Button onClick={handleStart} disabled={loading}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {staging?.status === 'ready' ? 'Re-parse Again' : 'Start Re-parse'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
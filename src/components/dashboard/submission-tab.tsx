@@ -5,7 +5,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { FileText, Plus, CheckCircle2, Clock, XCircle, AlertTriangle } from 'lucide-react';
+import { FileText, Plus, CheckCircle2, Clock, XCircle, AlertTriangle, Mail } from 'lucide-react';
 import { toast } from 'sonner';
 import type { Submission, SubmissionResponse } from '@/lib/types';
 
@@ -102,6 +102,26 @@ export function SubmissionTab({ violationId, violationStatus }: SubmissionTabPro
     }
   };
 
+  const handleDismissProposal = async (submissionId: string) => {
+    try {
+      const res = await fetch(`/api/submissions/${submissionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ proposed_response: null }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to dismiss');
+      }
+
+      toast.success('Suggested response dismissed');
+      fetchSubmissions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to dismiss');
+    }
+  };
+
   const canSubmit = ['READY_FOR_SUBMISSION', 'SUBMITTED', 'REJECTED', 'ADDITIONAL_INFO_REQUESTED'].includes(violationStatus);
 
   if (loading) {
@@ -172,6 +192,7 @@ export function SubmissionTab({ violationId, violationStatus }: SubmissionTabPro
         const config = RESPONSE_STATUS_CONFIG[submission.response_status];
         const StatusIcon = config.icon;
         const isUpdating = updatingId === submission.id;
+        const proposal = submission.proposed_response;
 
         return (
           <Card key={submission.id}>
@@ -224,6 +245,43 @@ export function SubmissionTab({ violationId, violationStatus }: SubmissionTabPro
                 )}
               </div>
 
+              {/* DOB response email that sync couldn't apply on its own */}
+              {proposal && !isUpdating && (
+                <div className="mt-4 rounded-md border border-blue-200 bg-blue-50 p-3">
+                  <div className="flex items-start gap-2">
+                    <Mail className="mt-0.5 h-4 w-4 text-blue-600" />
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-blue-900">
+                        {proposal.status
+                          ? `DOB email suggests: ${RESPONSE_STATUS_CONFIG[proposal.status].label}`
+                          : `DOB email may be a response (${proposal.candidates.map(c => RESPONSE_STATUS_CONFIG[c].label).join(' or ')})`}
+                      </p>
+                      <p className="mt-1 text-xs text-blue-800">
+                        &ldquo;{proposal.email.subject}&rdquo; from {proposal.email.from},{' '}
+                        {new Date(proposal.email.received_at).toLocaleDateString('en-US', {
+                          month: 'short', day: 'numeric', year: 'numeric',
+                        })}
+                      </p>
+                      <div className="mt-2 flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => {
+                            setUpdatingId(submission.id);
+                            setResponseStatus(proposal.status ?? proposal.candidates[0] ?? 'PENDING');
+                            setResponseNotes(proposal.notes);
+                          }}
+                        >
+                          Review &amp; Apply
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDismissProposal(submission.id)}>
+                          Dismiss
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Update response form */}
               {isUpdating && (
                 <div className="mt-4 space-y-3 border-t pt-4">
@@ -14,13 +14,13 @@ import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight, ArrowUpDown, Trash2 } from 'lucide-react';
 import type { Violation, SortField, SortDirection } from '@/lib/types';
 import {
-  STATUS_LABELS,
-  STATUS_COLORS,
   getPriorityColor,
   getPriorityLabel,
   getUrgencyColor,
   getDaysRemaining,
 } from '@/lib/status-transitions';
+import { statusColor, statusLabel } from '@/lib/workflow';
+import { useWorkflow } from '@/components/workflow/workflow-provider';
 import { cn } from '@/lib/utils';
 
 interface ViolationTableProps {
@@ -46,6 +46,7 @@ export function ViolationTable({
   onPageChange,
   onDelete,
 }: ViolationTableProps) {
+  const { workflow } = useWorkflow();
   const totalPages = Math.ceil(total / pageSize);
 
   const SortableHeader = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
@@ -116,8 +117,8 @@ export function ViolationTable({
                     </span>
                   </TableCell>
                   <TableCell className="py-4">
-                    <span className={cn("inline-flex items-center px-2 py-1 rounded-md text-xs", STATUS_COLORS[v.status])}>
-                      {STATUS_LABELS[v.status]}
+                    <span className={cn("inline-flex items-center px-2 py-1 rounded-md text-xs", statusColor(v.status, workflow))}>
+                      {statusLabel(v.status, workflow)}
                     </span>
                   </TableCell>
                   <TableCell className="py-4 text-sm font-semibold text-slate-500">
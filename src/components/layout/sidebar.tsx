@@ -9,6 +9,7 @@ import {
   LogOut,
   Settings,
   Users,
+  ClipboardCheck,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { createClient } from '@/lib/supabase/client';
@@ -19,6 +20,7 @@ const navItems = [
   { href: '/violations', label: 'All Infractions', icon: Table },
   { href: '/contacts', label: 'Contacts', icon: Users },
   { href: '/parse', label: 'Parse NOI', icon: FileUp },
+  { href: '/review', label: 'Needs Review', icon: ClipboardCheck },
   { href: '/settings', label: 'Settings', icon: Settings },
 ];
 
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ParseProgress } from '../parse-progress';
+
+const { mockToast, mockSelect } = vi.hoisted(() => ({
+  mockToast: { success: vi.fn(), error: vi.fn(), info: vi.fn() },
+  mockSelect: vi.fn(),
+}));
+
+vi.mock('sonner', () => ({ toast: mockToast }));
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({
+    from: () => ({
+      select: mockSelect,
+    }),
+    channel: () => ({
+      on: vi.fn().mockReturnThis(),
+      subscribe: vi.fn(),
+    }),
+    removeChannel: vi.fn(),
+  }),
+}));
+
+function setupMockQuery(parseStatus: string, parseMetadata: Record<string, unknown>) {
+  mockSelect.mockReturnValue({
+    eq: vi.fn().mockReturnValue({
+      single: vi.fn().mockResolvedValue({
+        data: { parse_status: parseStatus, parse_metadata: parseMetadata },
+      }),
+    }),
+  });
+}
+
+const failedMetadata = {
+  steps: [
+    { step: 'ai_parse', status: 'completed', message: 'Extracted 4 items' },
+    { step: 'insert_records', status: 'completed', message: 'Saved 4 violation items' },
+    { step: 'analyze_pages', status: 'failed', message: 'Gemini request timed out' },
+    { step: 'match_photos', status: 'pending' },
+    { step: 'extract_photos', status: 'pending' },
+    { step: 'complete', status: 'pending' },
+  ],
+  attempts: [
+    {
+      attempt: 1,
+      failed_step: 'match_photos',
+      error: 'Storage unavailable',
+      resumed_from: 'match_photos',
+      resumed_at: '2026-10-19T14:00:00Z',
+    },
+  ],
+};
+
+describe('ParseProgress — Retry from step', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = vi.fn();
+  });
+
+  it('offers to retry from the failed step and lists earlier attempts', async () => {
+    setupMockQuery('failed', failedMetadata);
+
+    render(<ParseProgress violationId="v-456" onComplete={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /Retry from Page Analysis/i })).toBeInTheDocument();
+    });
+    expect(screen.getByText('Previous Attempts')).toBeInTheDocument();
+    expect(screen.getByText(/Storage unavailable/)).toBeInTheDocument();
+  });
+
+  it('asks the retry API to resume this parse', async () => {
+    setupMockQuery('failed', failedMetadata);
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ retried: ['v-456'], resumed: { 'v-456': 'analyze_pages' }, skipped: [] }),
+    } as Response);
+
+    const user = userEvent.setup();
+    render(<ParseProgress violationId="v-456" onComplete={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /Retry from Page Analysis/i })).toBeInTheDocument();
+    });
+    await user.click(screen.getByRole('button', { name: /Retry from Page Analysis/i }));
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/parse/retry', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ violationIds: ['v-456'], resume: true }),
+    });
+    await waitFor(() => {
+      expect(mockToast.success).toHaveBeenCalledWith('Retrying from Page Analysis');
+    });
+  });
+
+  it('does not offer a retry while the parse is still running', async () => {
+    setupMockQuery('processing', {
+      steps: failedMetadata.steps.map(s => (s.status === 'failed' ? { ...s, status: 'running' } : s)),
+    });
+
+    render(<ParseProgress violationId="v-456" onComplete={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Page Analysis')).toBeInTheDocument();
+    });
+    expect(screen.queryByRole('button', { name: /Retry from/i })).not.toBeInTheDocument();
+  });
+});
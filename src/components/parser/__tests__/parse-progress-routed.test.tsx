@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { ParseProgress } from '../parse-progress';
+
+const { mockSelect } = vi.hoisted(() => ({
+  mockSelect: vi.fn(),
+}));
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn(), info: vi.fn() } }));
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({
+    from: () => ({
+      select: mockSelect,
+    }),
+    channel: () => ({
+      on: vi.fn().mockReturnThis(),
+      subscribe: vi.fn(),
+    }),
+    removeChannel: vi.fn(),
+  }),
+}));
+
+function setupMockQuery(parseStatus: string, parseMetadata: Record<string, unknown>) {
+  mockSelect.mockReturnValue({
+    eq: vi.fn().mockReturnValue({
+      single: vi.fn().mockResolvedValue({
+        data: { parse_status: parseStatus, parse_metadata: parseMetadata },
+      }),
+    }),
+  });
+}
+
+describe('ParseProgress — DOB correspondence', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('links to the violation an approval letter was filed on', async () => {
+    const onComplete = vi.fn();
+    setupMockQuery('routed', {
+      steps: [{ step: 'classify_document', status: 'completed', message: 'Abatement Approval Letter for 25NOIE-INS-05478' }],
+      document_type: 'APPROVAL_LETTER',
+      routed_to: { violation_id: 'v-1', document_id: 'doc-1', reference_notice_id: '25NOIE-INS-05478' },
+    });
+
+    render(<ParseProgress violationId="v-456" onComplete={onComplete} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Abatement Approval Letter for 25NOIE-INS-05478')).toBeInTheDocument();
+    });
+    expect(screen.getByText(/now marked approved/)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /Open Violation/i })).toHaveAttribute('href', '/dashboard/v-1');
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+});
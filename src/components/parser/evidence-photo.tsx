@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import Image from 'next/image';
 import { Document, Page, pdfjs } from 'react-pdf';
 import { Loader2, ImageOff, Camera, ZoomIn } from 'lucide-react';
 import {
@@ -8,18 +9,22 @@ import {
   DialogContent,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { EVIDENCE_THUMBNAIL_WIDTH } from '@/lib/evidence-images';
 
 // Configure PDF.js worker via CDN
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
 
 interface EvidencePhotoProps {
-  pdfUrl: string;
+  pdfUrl?: string | null;
   pageNumber: number;
   width?: number;
   description?: string;
+  // Cropped photo extracted by the parse pipeline; when set the PDF is not rendered
+  imageUrl?: string | null;
+  thumbnailUrl?: string | null;
 }
 
-export function EvidencePhoto({ pdfUrl, pageNumber, width = 280, description }: EvidencePhotoProps) {
+export function EvidencePhoto({ pdfUrl, pageNumber, width = 280, description, imageUrl, thumbnailUrl }: EvidencePhotoProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
   const [lightboxOpen, setLightboxOpen] = useState(false);
@@ -30,7 +35,7 @@ export function EvidencePhoto({ pdfUrl, pageNumber, width = 280, description }:
     if (node) setLightboxWidth(node.clientWidth);
   }, []);
 
-  if (error) {
+  if (error || (!imageUrl && !pdfUrl)) {
     return (
       <div
         className="flex flex-col items-center justify-center rounded-lg border bg-gray-50 text-gray-400"
@@ -59,20 +64,35 @@ export function EvidencePhoto({ pdfUrl, pageNumber, width = 280, description }:
         )}
         {/* Collapse to h-0 while loading so intermediate render states are invisible */}
         <div className={loading ? 'h-0 overflow-hidden' : ''}>
-          <Document
-            file={pdfUrl}
-            onLoadError={() => setError(true)}
-            loading={null}
-          >
-            <Page
-              pageNumber={pageNumber}
+          {imageUrl ? (
+            // Signed storage URLs expire, so they skip the image optimizer
+            <Image
+              src={(width <= EVIDENCE_THUMBNAIL_WIDTH && thumbnailUrl) || imageUrl}
+              alt={description || `Evidence photo — page ${pageNumber}`}
               width={width}
-              renderTextLayer={false}
-              renderAnnotationLayer={false}
-              onRenderSuccess={() => setLoading(false)}
-              onRenderError={() => setError(true)}
+              height={Math.round(width * 1.3)}
+              unoptimized
+              className="block h-auto"
+              style={{ width, height: 'auto' }}
+              onLoad={() => setLoading(false)}
+              onError={() => setError(true)}
             />
-          </Document>
+          ) : (
+            <Document
+              file={pdfUrl}
+              onLoadError={() => setError(true)}
+              loading={null}
+            >
+              <Page
+                pageNumber={pageNumber}
+                width={width}
+                renderTextLayer={false}
+                renderAnnotationLayer={false}
+                onRenderSuccess={() => setLoading(false)}
+                onRenderError={() => setError(true)}
+              />
+            </Document>
+          )}
         </div>
         {/* Zoom overlay on hover */}
         {!loading && (
@@ -93,14 +113,25 @@ export function EvidencePhoto({ pdfUrl, pageNumber, width = 280, description }:
         <DialogContent className="max-h-[90vh] w-[90vw] max-w-3xl overflow-hidden p-4">
           <DialogTitle className="sr-only">Evidence Photo — Page {pageNumber}</DialogTitle>
           <div ref={lightboxRef}>
-            <Document file={pdfUrl} loading={null}>
-              <Page
-                pageNumber={pageNumber}
+            {imageUrl ? (
+              <Image
+                src={imageUrl}
+                alt={description || `Evidence photo — page ${pageNumber}`}
                 width={lightboxWidth}
-                renderTextLayer={false}
-                renderAnnotationLayer={false}
+                height={Math.round(lightboxWidth * 1.3)}
+                unoptimized
+                className="mx-auto block h-auto max-h-[75vh] w-auto max-w-full"
               />
-            </Document>
+            ) : (
+              <Document file={pdfUrl} loading={null}>
+                <Page
+                  pageNumber={pageNumber}
+                  width={lightboxWidth}
+                  renderTextLayer={false}
+                  renderAnnotationLayer={false}
+                />
+              </Document>
+            )}
           </div>
           {description && (
             <div className="flex items-start gap-2">
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback } from 'react';
+import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardContent } from '@/components/ui/card';
@@ -11,19 +12,23 @@ import {
   Loader2,
   XCircle,
   Clock,
+  FileSearch,
   FileText,
   Database,
   ScanSearch,
   ImageIcon,
+  Crop,
   PartyPopper,
   AlertTriangle,
   DollarSign,
   Copy,
   RefreshCw,
+  Inbox,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import type { ParseMetadata, ParseStepStatus, ParseStepName } from '@/lib/ai/schemas';
+import { DOCUMENT_TYPE_LABELS } from '@/lib/types';
 
 interface ParseProgressProps {
   violationId: string;
@@ -31,20 +36,27 @@ interface ParseProgressProps {
 }
 
 const VISIBLE_STEPS: ParseStepName[] = [
+  'classify_document',
   'ai_parse',
   'insert_records',
   'analyze_pages',
   'match_photos',
+  'extract_photos',
   'complete',
 ];
 
 const STEP_WEIGHT = 100 / VISIBLE_STEPS.length;
 
+// Parse statuses after which nothing changes without user action
+const STOPPED_PARSE_STATUSES = ['completed', 'failed', 'duplicate', 'budget_paused', 'manual', 'routed'];
+
 const STEP_CONFIG: Record<string, { label: string; icon: React.ElementType; description: string }> = {
+  classify_document: { label: 'Document Type', icon: FileSearch, description: 'Checking whether this is a new NOI or DOB correspondence' },
   ai_parse:       { label: 'AI Analysis',    icon: FileText,    description: 'Reading and extracting violation data from your PDF' },
   insert_records: { label: 'Saving Data',     icon: Database,    description: 'Writing parsed violations to the database' },
   analyze_pages:  { label: 'Page Analysis',   icon: ScanSearch,  description: 'Identifying evidence photos on each page' },
   match_photos:   { label: 'Photo Matching',  icon: ImageIcon,   description: 'Linking evidence photos to violation items' },
+  extract_photos: { label: 'Photo Extraction', icon: Crop,       description: 'Cropping inspector photos from the evidence pages' },
   complete:       { label: 'Complete',         icon: PartyPopper, description: 'Finalizing and verifying all data' },
 };
 
@@ -61,6 +73,7 @@ export function ParseProgress({ violationId, onComplete }: ParseProgressProps) {
   const [elapsed, setElapsed] = useState<number>(0);
   const completionTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [duplicateResolving, setDuplicateResolving] = useState(false);
+  const [resuming, setResuming] = useState(false);
 
   // Stable completion handler with delay so user sees the final state
   const handleComplete = useCallback(() => {
@@ -77,7 +90,7 @@ export function ParseProgress({ violationId, onComplete }: ParseProgressProps) {
 
   // Elapsed time ticker — runs while pending or processing
   useEffect(() => {
-    if (parseStatus === 'completed' || parseStatus === 'failed' || parseStatus === 'duplicate') return;
+    if (STOPPED_PARSE_STATUSES.includes(parseStatus)) return;
     const interval = setInterval(() => {
       setElapsed(Math.floor((Date.now() - startTime) / 1000));
     }, 1000);
@@ -133,7 +146,7 @@ export function ParseProgress({ violationId, onComplete }: ParseProgressProps) {
 
   // Polling fallback — ensures progress updates even if Realtime isn't enabled
   useEffect(() => {
-    if (parseStatus === 'completed' || parseStatus === 'failed' || parseStatus === 'duplicate') return;
+    if (STOPPED_PARSE_STATUSES.includes(parseStatus)) return;
 
     const supabase = createClient();
     const poll = async () => {
@@ -183,7 +196,35 @@ export function ParseProgress({ violationId, onComplete }: ParseProgressProps) {
     }
   };
 
+  // Resume a failed parse from its failed step; earlier steps keep their output
+  const handleResume = async () => {
+    setResuming(true);
+    try {
+      const res = await fetch('/api/parse/retry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ violationIds: [violationId], resume: true }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to retry parse');
+      } else if (data.retried?.length) {
+        const step = data.resumed?.[violationId] as ParseStepName | undefined;
+        toast.success(step ? `Retrying from ${STEP_CONFIG[step]?.label ?? step}` : 'Retrying parse');
+        // Restarts polling; the pipeline's own updates take over from here
+        setParseStatus('pending');
+      } else {
+        toast.info('This parse is no longer in a failed state');
+      }
+    } catch {
+      toast.error('Failed to retry parse');
+    } finally {
+      setResuming(false);
+    }
+  };
+
   const steps = metadata?.steps || [];
+  const attempts = metadata?.attempts || [];
 
   // Compute overall progress
   const progress = steps.reduce((acc, step) => {
@@ -248,6 +289,62 @@ export function ParseProgress({ violationId, onComplete }: ParseProgressProps) {
     );
   }
 
+  // DOB correspondence about an NOI already on file — filed there instead of parsed
+  const routedTo = metadata?.routed_to;
+  if (parseStatus === 'routed' && routedTo) {
+    const documentLabel = DOCUMENT_TYPE_LABELS[metadata.document_type ?? 'UNKNOWN'];
+    return (
+      <div className="rounded-2xl border-2 border-indigo-300 bg-indigo-50/50 p-6 sm:p-10 shadow-sm">
+        <div className="flex flex-col items-center text-center gap-6">
+          <div className="bg-indigo-100 p-4 rounded-full">
+            <Inbox className="h-10 w-10 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="text-2xl font-black tracking-tight text-slate-900 mb-2">
+              {documentLabel} for {routedTo.reference_notice_id}
+            </h3>
+            <p className="text-sm font-medium text-slate-600 max-w-md mx-auto">
+              This PDF isn&apos;t a new NOI. It has been filed on the existing violation for {routedTo.reference_notice_id}
+              {metadata.document_type === 'APPROVAL_LETTER' ? ', which is now marked approved.' : '.'}
+            </p>
+          </div>
+          <Link href={`/dashboard/${routedTo.violation_id}`}>
+            <Button className="h-12 px-6 font-bold">Open Violation</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Monthly AI budget reached — the pipeline stopped before any AI call
+  if (parseStatus === 'budget_paused' || parseStatus === 'manual') {
+    const paused = parseStatus === 'budget_paused';
+    return (
+      <div className="rounded-2xl border-2 border-orange-300 bg-orange-50/50 p-6 sm:p-10 shadow-sm">
+        <div className="flex flex-col items-center text-center gap-6">
+          <div className="bg-orange-100 p-4 rounded-full">
+            <DollarSign className="h-10 w-10 text-orange-600" />
+          </div>
+          <div>
+            <h3 className="text-2xl font-black tracking-tight text-slate-900 mb-2">
+              Monthly AI Budget Reached
+            </h3>
+            <p className="text-sm font-medium text-slate-600 max-w-md mx-auto">
+              {paused
+                ? 'This NOI is saved and waiting in the parse queue. Retry it there once the budget is raised or the month rolls over.'
+                : 'AI extraction was skipped. Anything readable from the PDF text has been filled in — check it and enter the rest by hand.'}
+            </p>
+          </div>
+          <Link href={paused ? '/parse/queue' : `/review/${violationId}`}>
+            <Button className="h-12 px-6 font-bold">
+              {paused ? 'Open Parse Queue' : 'Enter Details Manually'}
+            </Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`rounded-2xl border border-slate-200/80 bg-white p-6 sm:p-10 shadow-sm transition-colors ${
       isFailed ? 'border-red-300 bg-red-50/50' : ''
@@ -283,12 +380,9 @@ export function ParseProgress({ violationId, onComplete }: ParseProgressProps) {
       <div className="relative">
         {/* Synthetic "Preparing to process..." step */}
         {(() => {
-          const aiParseStep = visibleSteps.find(s => s.step === 'ai_parse');
-          const allPending = visibleSteps.every(s => s.status === 'pending');
           const preparingStatus =
             isFailed || isComplete ? null :
-            allPending ? 'running' :
-            (aiParseStep?.status === 'pending') ? 'running' :
+            visibleSteps[0].status === 'pending' ? 'running' :
             'completed';
 
           if (!preparingStatus) return null;
@@ -376,12 +470,46 @@ export function ParseProgress({ violationId, onComplete }: ParseProgressProps) {
                     <p className="text-sm font-medium text-red-700 leading-snug">{step.error || step.message}</p>
                   </div>
                 )}
+                {isStepFailed && isFailed && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="mt-3 border-red-200 font-bold text-red-700 hover:bg-red-50"
+                    onClick={handleResume}
+                    disabled={resuming}
+                  >
+                    {resuming ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                    )}
+                    Retry from {config?.label || step.step}
+                  </Button>
+                )}
               </div>
             </div>
           );
         })}
       </div>
 
+      {/* Earlier attempts of this parse */}
+      {attempts.length > 0 && (
+        <div className="mt-6 rounded-lg border border-slate-200 bg-slate-50/60 p-4">
+          <p className="mb-2 text-[10px] font-bold uppercase tracking-wider text-slate-400">Previous Attempts</p>
+          <ul className="space-y-1">
+            {attempts.map(attempt => (
+              <li key={attempt.attempt} className="text-xs text-slate-600">
+                <span className="font-semibold">Attempt {attempt.attempt}</span> failed at{' '}
+                {STEP_CONFIG[attempt.failed_step]?.label ?? attempt.failed_step}
+                {attempt.error && <span className="text-slate-400"> — {attempt.error}</span>}
+                {' · '}resumed from {STEP_CONFIG[attempt.resumed_from]?.label ?? attempt.resumed_from}{' '}
+                {new Date(attempt.resumed_at).toLocaleString()}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Live Data Preview Cards */}
       {metadata && (metadata.items_found != null || metadata.total_pages != null || metadata.photos_matched != null || metadata.costs) && (
         <>
@@ -6,13 +6,17 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { CheckCircle, MapPin, Calendar, DollarSign, AlertTriangle, Camera, Coins } from 'lucide-react';
+import { CheckCircle, MapPin, Calendar, DollarSign, AlertTriangle, Camera, Coins, ClipboardCheck } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import type { Violation, ViolationItem, Photo } from '@/lib/types';
-import type { ParseCosts } from '@/lib/ai/schemas';
+import type { ParseCosts, ParseConfidence } from '@/lib/ai/schemas';
 import { getPriorityColor, getPriorityLabel } from '@/lib/status-transitions';
+import { formatDueDate } from '@/lib/deadlines';
+import { getFieldConfidence, isLowConfidence } from '@/lib/ai/confidence';
+import { cn } from '@/lib/utils';
 import dynamic from 'next/dynamic';
+import { SplitNotices } from './split-notices';
 
 const EvidencePhoto = dynamic(() => import('./evidence-photo').then(m => m.EvidencePhoto), {
   ssr: false,
@@ -108,17 +112,45 @@ export function ParsedResults({ violationId, onParseAnother }: ParsedResultsProp
     return <p className="text-center text-gray-500">Violation not found.</p>;
   }
 
+  const confidence = violation.parse_metadata?.field_confidence as ParseConfidence | undefined;
+  const needsReview = violation.status === 'NEEDS_REVIEW';
+
+  // Highlight low-confidence values so the PM knows what to check against the PDF
+  const flag = (field: string, itemNumber?: number | null) =>
+    isLowConfidence(confidence, field, itemNumber) ? 'rounded bg-amber-100 px-1 text-amber-900' : '';
+  const reason = (field: string, itemNumber?: number | null) =>
+    isLowConfidence(confidence, field, itemNumber)
+      ? getFieldConfidence(confidence, field, itemNumber)?.reason
+      : undefined;
+
   return (
     <div className="space-y-6">
+      {/* Other notices split off the same upload */}
+      <SplitNotices violationId={violationId} />
+
       {/* Notice-level info */}
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-2">
-              <CheckCircle className="h-5 w-5 text-green-500" />
-              Parsed Successfully
+              {needsReview ? (
+                <>
+                  <AlertTriangle className="h-5 w-5 text-amber-500" />
+                  Needs Review
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="h-5 w-5 text-green-500" />
+                  Parsed Successfully
+                </>
+              )}
             </CardTitle>
             <div className="flex gap-2">
+              {violation.page_start && (
+                <Badge variant="outline" className="text-sm">
+                  Pages {violation.page_start}–{violation.page_end}
+                </Badge>
+              )}
               <Badge variant="outline" className="text-sm">
                 {items.length} violation{items.length !== 1 ? 's' : ''}
               </Badge>
@@ -141,27 +173,41 @@ export function ParsedResults({ violationId, onParseAnother }: ParsedResultsProp
           </div>
         </CardHeader>
         <CardContent>
+          {needsReview && confidence && (
+            <div className="mb-4 flex items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <span>
+                {confidence.low_confidence_count} field{confidence.low_confidence_count !== 1 ? 's' : ''} extracted
+                with low confidence. This violation can&apos;t be assigned until they&apos;re reviewed.
+              </span>
+              <Button size="sm" onClick={() => router.push(`/review/${violationId}`)}>
+                <ClipboardCheck className="mr-1 h-4 w-4" />
+                Review Fields
+              </Button>
+            </div>
+          )}
           <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
             <div>
               <p className="text-xs text-gray-500">NOI Number</p>
-              <p className="font-semibold">{violation.notice_id || '—'}</p>
+              <p className={cn('font-semibold', flag('notice_id'))} title={reason('notice_id')}>{violation.notice_id || '—'}</p>
             </div>
             <div>
               <p className="text-xs text-gray-500">Respondent</p>
-              <p className="font-semibold">{violation.respondent || '—'}</p>
+              <p className={cn('font-semibold', flag('respondent'))} title={reason('respondent')}>{violation.respondent || '—'}</p>
             </div>
             <div className="flex items-start gap-1">
               <MapPin className="mt-0.5 h-3 w-3 text-gray-400" />
               <div>
                 <p className="text-xs text-gray-500">Address</p>
-                <p className="font-semibold">{violation.infraction_address || '—'}</p>
+                <p className={cn('font-semibold', flag('infraction_address'))} title={reason('infraction_address')}>
+                  {violation.infraction_address || '—'}
+                </p>
               </div>
             </div>
             <div className="flex items-start gap-1">
               <DollarSign className="mt-0.5 h-3 w-3 text-gray-400" />
               <div>
                 <p className="text-xs text-gray-500">Total Fines</p>
-                <p className="font-semibold text-red-600">
+                <p className={cn('font-semibold text-red-600', flag('total_fines'))} title={reason('total_fines')}>
                   {violation.total_fines ? `$${violation.total_fines.toLocaleString()}` : '—'}
                 </p>
               </div>
@@ -173,7 +219,7 @@ export function ParsedResults({ violationId, onParseAnother }: ParsedResultsProp
           <div className="grid grid-cols-2 gap-4">
             <div className="flex items-center gap-1">
               <Calendar className="h-3 w-3 text-gray-400" />
-              <span className="text-sm text-gray-600">
+              <span className={cn('text-sm text-gray-600', flag('date_of_service'))} title={reason('date_of_service')}>
                 Date of Service: {violation.date_of_service || '—'}
               </span>
             </div>
@@ -201,14 +247,23 @@ export function ParsedResults({ violationId, onParseAnother }: ParsedResultsProp
                       <span className="text-sm font-bold text-gray-500">
                         #{item.item_number}
                       </span>
-                      <Badge variant="outline" className="text-xs">
+                      <Badge
+                        variant="outline"
+                        className={cn('text-xs', flag('violation_code', item.item_number))}
+                        title={reason('violation_code', item.item_number)}
+                      >
                         {item.violation_code}
                       </Badge>
                       <span className={`rounded px-2 py-0.5 text-xs font-medium ${getPriorityColor(item.priority)}`}>
                         P{item.priority}
                       </span>
                     </div>
-                    <p className="mb-1 text-sm text-gray-700">{item.violation_description}</p>
+                    <p
+                      className={cn('mb-1 text-sm text-gray-700', flag('violation_description', item.item_number))}
+                      title={reason('violation_description', item.item_number)}
+                    >
+                      {item.violation_description}
+                    </p>
                     {item.task_description && (
                       <p className="text-sm text-blue-700">
                         <span className="font-medium">Fix: </span>
@@ -217,10 +272,16 @@ export function ParsedResults({ violationId, onParseAnother }: ParsedResultsProp
                     )}
                   </div>
                   <div className="ml-4 text-right">
-                    <p className="font-semibold text-red-600">
+                    <p className={cn('font-semibold text-red-600', flag('fine', item.item_number))} title={reason('fine', item.item_number)}>
                       {item.fine ? `$${item.fine.toLocaleString()}` : '—'}
                     </p>
-                    <p className="text-xs text-gray-500">{item.abatement_deadline}</p>
+                    <p
+                      className={cn('text-xs text-gray-500', flag('abatement_deadline', item.item_number))}
+                      title={reason('abatement_deadline', item.item_number)}
+                    >
+                      {item.abatement_deadline_text}
+                      {item.abatement_deadline && ` · due ${formatDueDate(item.abatement_deadline)}`}
+                    </p>
                   </div>
                 </div>
                 <div className="mt-2 flex gap-4 text-xs text-gray-400">
@@ -282,13 +343,23 @@ export function ParsedResults({ violationId, onParseAnother }: ParsedResultsProp
 
       {/* Action buttons */}
       <div className="flex gap-3">
-        <Button
-          onClick={handleConfirm}
-          size="lg"
-          className="flex-1"
-        >
-          View on Dashboard
-        </Button>
+        {needsReview ? (
+          <Button
+            onClick={() => router.push(`/review/${violationId}`)}
+            size="lg"
+            className="flex-1"
+          >
+            Review Low-Confidence Fields
+          </Button>
+        ) : (
+          <Button
+            onClick={handleConfirm}
+            size="lg"
+            className="flex-1"
+          >
+            View on Dashboard
+          </Button>
+        )}
         <Button
           variant="outline"
           size="lg"
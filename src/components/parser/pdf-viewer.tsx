@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import { Loader2 } from 'lucide-react';
+
+// Configure PDF.js worker via CDN
+pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+interface PdfViewerProps {
+  pdfUrl: string;
+  width?: number;
+  /** Limit to one notice's pages when the PDF holds several notices */
+  pageStart?: number | null;
+  pageEnd?: number | null;
+}
+
+/** Scrollable view of every page of a PDF — used to check parsed fields against the source */
+export function PdfViewer({ pdfUrl, width = 560, pageStart, pageEnd }: PdfViewerProps) {
+  const [numPages, setNumPages] = useState(0);
+  const first = pageStart || 1;
+  const last = Math.min(pageEnd || numPages, numPages);
+
+  return (
+    <Document
+      file={pdfUrl}
+      onLoadSuccess={({ numPages: n }) => setNumPages(n)}
+      loading={
+        <div className="flex h-64 items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-400" />
+        </div>
+      }
+      error={<p className="p-6 text-center text-sm text-gray-500">Failed to load PDF.</p>}
+    >
+      <div className="space-y-3">
+        {Array.from({ length: Math.max(last - first + 1, 0) }, (_, i) => first + i).map((pageNumber) => (
+          <div key={pageNumber} className="overflow-hidden rounded-lg border bg-white shadow-sm">
+            <Page
+              pageNumber={pageNumber}
+              width={width}
+              renderTextLayer={false}
+              renderAnnotationLayer={false}
+            />
+            <p className="border-t bg-gray-50 px-3 py-1 text-xs text-gray-500">
+              Page {pageNumber} of {numPages}
+            </p>
+          </div>
+        ))}
+      </div>
+    </Document>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, CheckCircle, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { getFieldConfidence } from '@/lib/ai/confidence';
+import type { ParseConfidence } from '@/lib/ai/schemas';
+import type { Violation, ViolationItem } from '@/lib/types';
+
+type FieldValue = string | number | null;
+
+interface ReviewFieldProps {
+  label: string;
+  value: FieldValue;
+  onChange: (value: FieldValue) => void;
+  confidence?: { score: number; reason: string };
+  threshold: number;
+  type?: 'text' | 'number' | 'date' | 'textarea';
+}
+
+function ReviewField({ label, value, onChange, confidence, threshold, type = 'text' }: ReviewFieldProps) {
+  const low = !!confidence && confidence.score < threshold;
+
+  const handleChange = (raw: string) => {
+    if (type === 'number') onChange(raw === '' ? null : Number(raw));
+    else onChange(raw === '' ? null : raw);
+  };
+
+  return (
+    <div className={cn('space-y-1.5 rounded-md p-2', low && 'bg-amber-50 ring-1 ring-amber-300')}>
+      <Label className="flex items-center justify-between text-xs text-gray-500">
+        <span>{label}</span>
+        {confidence && (
+          <span className={cn('font-mono', low ? 'text-amber-700' : 'text-gray-400')}>
+            {confidence.score}%
+          </span>
+        )}
+      </Label>
+      {type === 'textarea' ? (
+        <Textarea value={value ?? ''} onChange={(e) => handleChange(e.target.value)} rows={2} />
+      ) : (
+        <Input type={type} value={value ?? ''} onChange={(e) => handleChange(e.target.value)} />
+      )}
+      {low && (
+        <p className="flex items-center gap-1 text-xs text-amber-700">
+          <AlertTriangle className="h-3 w-3" />
+          {confidence?.reason}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ReviewFormProps {
+  violation: Violation;
+  items: ViolationItem[];
+  onSaved: (approved: boolean) => void;
+}
+
+export function ReviewForm({ violation, items, onSaved }: ReviewFormProps) {
+  const confidence = violation.parse_metadata?.field_confidence as ParseConfidence | undefined;
+  const threshold = confidence?.threshold ?? 70;
+
+  const [notice, setNotice] = useState<Record<string, FieldValue>>({
+    notice_id: violation.notice_id,
+    respondent: violation.respondent,
+    infraction_address: violation.infraction_address,
+    date_of_service: violation.date_of_service,
+    total_fines: violation.total_fines,
+  });
+  const [itemValues, setItemValues] = useState<Record<string, Record<string, FieldValue>>>(
+    Object.fromEntries(items.map((item) => [item.id, {
+      violation_code: item.violation_code,
+      priority: item.priority,
+      abatement_deadline_text: item.abatement_deadline_text,
+      abatement_deadline: item.abatement_deadline,
+      fine: item.fine,
+      violation_description: item.violation_description,
+      specific_location: item.specific_location,
+      floor_number: item.floor_number,
+      date_of_infraction: item.date_of_infraction,
+      task_description: item.task_description,
+    }])),
+  );
+  const [saving, setSaving] = useState<'save' | 'approve' | null>(null);
+
+  const setItemField = (itemId: string, field: string, value: FieldValue) => {
+    setItemValues((prev) => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
+  };
+
+  const handleSubmit = async (approve: boolean) => {
+    setSaving(approve ? 'approve' : 'save');
+    try {
+      const res = await fetch(`/api/violations/${violation.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notice,
+          items: Object.entries(itemValues).map(([id, values]) => ({ id, ...values })),
+          approve,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save review');
+
+      const corrected = data.corrected_fields?.length ?? 0;
+      toast.success(approve
+        ? 'Review approved — violation is ready to assign'
+        : `Saved ${corrected} correction${corrected !== 1 ? 's' : ''}`);
+      onSaved(approve);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const noticeField = (field: string, label: string, type?: ReviewFieldProps['type']) => (
+    <ReviewField
+      label={label}
+      value={notice[field]}
+      onChange={(v) => setNotice((prev) => ({ ...prev, [field]: v }))}
+      confidence={getFieldConfidence(confidence, field)}
+      threshold={threshold}
+      type={type}
+    />
+  );
+
+  const itemField = (
+    item: ViolationItem,
+    field: string,
+    label: string,
+    type?: ReviewFieldProps['type'],
+    confidenceField: string | null = field,
+  ) => (
+    <ReviewField
+      label={label}
+      value={itemValues[item.id]?.[field] ?? null}
+      onChange={(v) => setItemField(item.id, field, v)}
+      confidence={confidenceField ? getFieldConfidence(confidence, confidenceField, item.item_number) : undefined}
+      threshold={threshold}
+      type={type}
+    />
+  );
+
+  const itemCount = getFieldConfidence(confidence, 'item_count');
+
+  return (
+    <div className="space-y-4">
+      {confidence && (
+        <div className={cn(
+          'flex items-center gap-2 rounded-lg border p-3 text-sm',
+          confidence.needs_review ? 'border-amber-200 bg-amber-50 text-amber-800' : 'border-green-200 bg-green-50 text-green-800',
+        )}>
+          {confidence.needs_review
+            ? <AlertTriangle className="h-4 w-4 shrink-0" />
+            : <CheckCircle className="h-4 w-4 shrink-0" />}
+          {confidence.needs_review
+            ? `${confidence.low_confidence_count} field${confidence.low_confidence_count !== 1 ? 's' : ''} below ${threshold}% confidence — check them against the PDF.`
+            : 'All fields are above the confidence threshold.'}
+        </div>
+      )}
+
+      {itemCount && itemCount.score < threshold && (
+        <p className="flex items-center gap-1 text-sm text-amber-700">
+          <AlertTriangle className="h-4 w-4" />
+          {itemCount.reason}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Notice</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {noticeField('notice_id', 'NOI Number')}
+          {noticeField('respondent', 'Respondent')}
+          {noticeField('infraction_address', 'Address')}
+          {noticeField('date_of_service', 'Date of Service', 'date')}
+          {noticeField('total_fines', 'Total Fines', 'number')}
+        </CardContent>
+      </Card>
+
+      {items.map((item) => (
+        <Card key={item.id}>
+          <CardHeader>
+            <CardTitle className="text-base">Item #{item.item_number}</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+            {itemField(item, 'violation_code', 'Violation Code')}
+            {itemField(item, 'priority', 'Priority', 'number')}
+            {itemField(item, 'fine', 'Fine', 'number')}
+            {itemField(item, 'abatement_deadline_text', 'Abatement Period', 'text', 'abatement_deadline')}
+            {itemField(item, 'abatement_deadline', 'Due Date', 'date', null)}
+            {itemField(item, 'date_of_infraction', 'Date of Infraction', 'date')}
+            {itemField(item, 'specific_location', 'Location')}
+            <div className="sm:col-span-2">
+              {itemField(item, 'violation_description', 'Description', 'textarea')}
+            </div>
+            <div className="sm:col-span-2">
+              {itemField(item, 'task_description', 'Remediation Task', 'textarea')}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={() => handleSubmit(false)} disabled={!!saving}>
+          {saving === 'save' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Corrections
+        </Button>
+        <Button className="flex-1" onClick={() => handleSubmit(true)} disabled={!!saving}>
+          {saving === 'approve' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+          Approve & Mark Parsed
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Files, Loader2 } from 'lucide-react';
+import { StatusBadge } from '@/components/workflow/status-badge';
+import type { Violation } from '@/lib/types';
+
+type NoticeRow = Pick<Violation, 'id' | 'notice_id' | 'status' | 'page_start' | 'page_end' | 'total_fines'>;
+
+interface SplitNoticesProps {
+  violationId: string;
+}
+
+/**
+ * Every violation created from one upload. Multi-notice PDFs are split by the
+ * parse pipeline into one violation per notice; the others keep parsing after
+ * the first finishes, so this polls until they all settle.
+ */
+export function SplitNotices({ violationId }: SplitNoticesProps) {
+  const [notices, setNotices] = useState<NoticeRow[]>([]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const fetchNotices = async () => {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from('violations')
+        .select('id, notice_id, status, page_start, page_end, total_fines')
+        .or(`id.eq.${violationId},source_violation_id.eq.${violationId}`)
+        .order('page_start', { ascending: true, nullsFirst: true });
+
+      if (cancelled || !data) return;
+      setNotices(data as NoticeRow[]);
+      if (data.some((v) => ['NEW', 'PARSING'].includes(v.status))) {
+        timer = setTimeout(fetchNotices, 3000);
+      }
+    };
+    fetchNotices();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [violationId]);
+
+  if (notices.length <= 1) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Files className="h-5 w-5 text-blue-500" />
+          This PDF contained {notices.length} notices
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="divide-y">
+        {notices.map((notice) => {
+          const parsing = ['NEW', 'PARSING'].includes(notice.status);
+          const href = notice.status === 'NEEDS_REVIEW' ? `/review/${notice.id}` : `/dashboard/${notice.id}`;
+          return (
+            <div key={notice.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+              <div className="flex items-center gap-3">
+                {parsing ? (
+                  <span className="flex items-center gap-2 text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Parsing…
+                  </span>
+                ) : (
+                  <Link href={href} className="font-semibold text-blue-700 hover:underline">
+                    {notice.notice_id || 'Unknown NOI'}
+                  </Link>
+                )}
+                {notice.page_start && (
+                  <span className="text-xs text-gray-500">
+                    Pages {notice.page_start}–{notice.page_end}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {notice.total_fines != null && (
+                  <span className="text-xs font-medium text-red-600">${notice.total_fines.toLocaleString()}</span>
+                )}
+                <StatusBadge status={notice.status} />
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { FileUp, File, X } from 'lucide-react';
+import { Copy, FileUp, File, FileArchive, Loader2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { createClient } from '@/lib/supabase/client';
 import { toast } from 'sonner';
@@ -9,39 +9,105 @@ import { cn } from '@/lib/utils';
 
 interface UploadZoneProps {
   onUploadComplete: (violationId: string) => void;
+  /** Called instead of onUploadComplete when several PDFs or a zip were queued */
+  onBatchQueued?: (count: number) => void;
+  /** Called when the user links a duplicate upload to the violation it matches */
+  onDuplicateLinked?: (violationId: string) => void;
 }
 
-export function UploadZone({ onUploadComplete }: UploadZoneProps) {
-  const [file, setFile] = useState<File | null>(null);
+interface PendingDuplicate {
+  storagePath: string;
+  violation_id: string;
+  notice_id: string | null;
+  match: 'exact' | 'text';
+}
+
+const isPdf = (f: File) => f.type === 'application/pdf' || f.name.toLowerCase().endsWith('.pdf');
+const isZip = (f: File) => /zip/.test(f.type) || f.name.toLowerCase().endsWith('.zip');
+
+function storagePathFor(file: File, prefix = 'uploads') {
+  return `${prefix}/${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+}
+
+export function UploadZone({ onUploadComplete, onBatchQueued, onDuplicateLinked }: UploadZoneProps) {
+  const [files, setFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [duplicate, setDuplicate] = useState<PendingDuplicate | null>(null);
+  const [resolving, setResolving] = useState(false);
   const [dragOver, setDragOver] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
 
+  const addFiles = useCallback((incoming: File[]) => {
+    const accepted = incoming.filter((f) => isPdf(f) || isZip(f));
+    if (accepted.length < incoming.length) {
+      toast.error('Only PDF and zip files can be uploaded');
+    }
+    setFiles((prev) => [...prev, ...accepted.filter((f) => !prev.some((p) => p.name === f.name && p.size === f.size))]);
+  }, []);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
-
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile?.type === 'application/pdf') {
-      setFile(droppedFile);
-    } else {
-      toast.error('Please upload a PDF file');
-    }
-  }, []);
+    addFiles(Array.from(e.dataTransfer.files));
+  }, [addFiles]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selected = e.target.files?.[0];
-    if (selected) {
-      if (selected.type === 'application/pdf') {
-        setFile(selected);
-      } else {
-        toast.error('Please upload a PDF file');
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handleBatchUpload = async () => {
+    setUploading(true);
+    setUploadProgress(5);
+
+    try {
+      const supabase = createClient();
+      const pdfPaths: string[] = [];
+      const zipPaths: string[] = [];
+
+      for (const [i, f] of files.entries()) {
+        const storagePath = storagePathFor(f, isZip(f) ? 'uploads/batches' : 'uploads');
+        const { error: uploadError } = await supabase.storage.from('noi-pdfs').upload(storagePath, f);
+        if (uploadError) {
+          throw new Error(`Upload failed for ${f.name}: ${uploadError.message}`);
+        }
+        (isZip(f) ? zipPaths : pdfPaths).push(storagePath);
+        setUploadProgress(5 + Math.round(((i + 1) / files.length) * 75));
+      }
+
+      // One request for the loose PDFs, one per zip (unpacked server-side)
+      const requests = [
+        ...(pdfPaths.length > 0 ? [{ pdfStoragePaths: pdfPaths }] : []),
+        ...zipPaths.map((zipStoragePath) => ({ zipStoragePath })),
+      ];
+
+      let queued = 0;
+      for (const body of requests) {
+        const res = await fetch('/api/parse/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to queue parse jobs');
+        queued += data.queued.length;
       }
+
+      setUploadProgress(100);
+      toast.success(`${queued} NOI${queued !== 1 ? 's' : ''} queued for parsing`);
+      onBatchQueued?.(queued);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setUploading(false);
+      setUploadProgress(0);
     }
   };
 
   const handleUpload = async () => {
-    if (!file) return;
+    if (files.length === 0) return;
+    if (files.length > 1 || isZip(files[0])) return handleBatchUpload();
+    const file = files[0];
 
     setUploading(true);
     setUploadProgress(10);
@@ -50,9 +116,7 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
       const supabase = createClient();
 
       // Generate a unique storage path
-      const timestamp = Date.now();
-      const safeName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
-      const storagePath = `uploads/${timestamp}_${safeName}`;
+      const storagePath = storagePathFor(file);
 
       setUploadProgress(30);
 
@@ -67,23 +131,26 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
 
       setUploadProgress(60);
 
-      // Trigger the parse API
+      // Trigger the parse API — answers 409 if this PDF was uploaded before
       const res = await fetch('/api/parse', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ pdfStoragePath: storagePath }),
       });
+      const data = await res.json();
 
+      if (res.status === 409 && data.duplicate) {
+        setDuplicate({ storagePath, ...data.duplicate });
+        return;
+      }
       if (!res.ok) {
-        const err = await res.json();
-        throw new Error(err.error || 'Failed to start parse job');
+        throw new Error(data.error || 'Failed to start parse job');
       }
 
-      const { violationId } = await res.json();
       setUploadProgress(100);
 
       toast.success('NOI PDF uploaded! AI parsing started...');
-      onUploadComplete(violationId);
+      onUploadComplete(data.violationId);
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Upload failed');
     } finally {
@@ -92,6 +159,73 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
     }
   };
 
+  const handleDuplicateDecision = async (onDuplicate: 'link' | 'parse') => {
+    if (!duplicate) return;
+    setResolving(true);
+    try {
+      const res = await fetch('/api/parse', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pdfStoragePath: duplicate.storagePath, onDuplicate }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start parse job');
+
+      setDuplicate(null);
+      if (data.linked) {
+        toast.success('Linked to the existing violation — no parse needed');
+        (onDuplicateLinked || onUploadComplete)(data.violationId);
+      } else {
+        toast.success('NOI PDF uploaded! AI parsing started...');
+        onUploadComplete(data.violationId);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to start parse job');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  if (duplicate) {
+    return (
+      <div className="max-w-2xl mx-auto w-full rounded-2xl border-2 border-amber-300 bg-amber-50/50 p-6 sm:p-10 shadow-sm">
+        <div className="flex flex-col items-center text-center gap-6">
+          <div className="bg-amber-100 p-4 rounded-full">
+            <Copy className="h-10 w-10 text-amber-600" />
+          </div>
+          <div>
+            <h3 className="text-2xl font-black tracking-tight text-slate-900 mb-2">
+              This PDF Was Already Uploaded
+            </h3>
+            <p className="text-sm font-medium text-slate-600 max-w-md mx-auto">
+              {duplicate.match === 'exact' ? 'An identical file' : 'A PDF with the same text'} is already on
+              file{duplicate.notice_id ? ` as ${duplicate.notice_id}` : ''}. Link this upload to it instead of
+              parsing again?
+            </p>
+          </div>
+          <div className="flex gap-3 w-full max-w-sm">
+            <Button
+              variant="outline"
+              className="flex-1 h-12 font-bold"
+              onClick={() => handleDuplicateDecision('parse')}
+              disabled={resolving}
+            >
+              Parse Anyway
+            </Button>
+            <Button
+              className="flex-1 h-12 font-bold bg-amber-600 hover:bg-amber-700"
+              onClick={() => handleDuplicateDecision('link')}
+              disabled={resolving}
+            >
+              {resolving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Use Existing
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6 max-w-2xl mx-auto w-full">
       <div
@@ -102,26 +236,41 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
           "group relative flex flex-col items-center justify-center rounded-2xl border-2 border-dashed p-12 transition-all duration-300",
           dragOver
             ? "border-blue-400 bg-blue-50/80 scale-[1.02] shadow-lg shadow-blue-100/50"
-            : file
+            : files.length > 0
             ? "border-emerald-300 bg-emerald-50/50"
             : "border-slate-300 bg-slate-50/50 hover:border-slate-400 hover:bg-slate-100/50 hover:shadow-sm"
         )}
       >
-        {file ? (
-          <div className="flex items-center gap-4 bg-white p-4 pr-5 rounded-xl border border-emerald-100 shadow-sm transition-all">
-            <div className="bg-emerald-100 p-2.5 rounded-lg shrink-0">
-               <File className="h-7 w-7 text-emerald-600" />
-            </div>
-            <div className="flex-1 min-w-0">
-              <p className="font-bold text-slate-800 tracking-tight truncate">{file.name}</p>
-              <p className="text-xs font-semibold uppercase tracking-wider text-slate-400 mt-0.5">{(file.size / 1024).toFixed(0)} KB</p>
-            </div>
-            <button
-              onClick={(e) => { e.stopPropagation(); setFile(null); }}
-              className="ml-2 rounded-full p-1.5 hover:bg-slate-100 text-slate-400 hover:text-slate-600 transition-colors"
-            >
-              <X className="h-5 w-5" />
-            </button>
+        {files.length > 0 ? (
+          <div className="w-full space-y-2">
+            {files.map((f) => (
+              <div key={`${f.name}-${f.size}`} className="flex items-center gap-4 bg-white p-4 pr-5 rounded-xl border border-emerald-100 shadow-sm transition-all">
+                <div className="bg-emerald-100 p-2.5 rounded-lg shrink-0">
+                  {isZip(f) ? (
+                    <FileArchive className="h-7 w-7 text-emerald-600" />
+                  ) : (
+                    <File className="h-7 w-7 text-emerald-600" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-slate-800 tracking-tight truncate">{f.name}</p>
+                  <p className="text-xs font-semibold uppercase tracking-wider text-slate-400 mt-0.5">{(f.size / 1024).toFixed(0)} KB</p>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setFiles((prev) => prev.filter((p) => p !== f)); }}
+                  disabled={uploading}
+                  className="ml-2 rounded-full p-1.5 hover:bg-slate-100 text-slate-400 hover:text-slate-600 transition-colors"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            ))}
+            {!uploading && (
+              <label className="block cursor-pointer text-center text-sm font-semibold text-blue-600 hover:text-blue-700">
+                + Add more files
+                <input type="file" accept=".pdf,.zip" multiple onChange={handleFileSelect} className="hidden" />
+              </label>
+            )}
           </div>
         ) : (
           <>
@@ -129,18 +278,19 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
                <FileUp className="h-10 w-10 text-slate-400 group-hover:text-blue-500 transition-colors" />
             </div>
             <p className="mb-2 text-xl font-bold tracking-tight text-slate-800">
-              Drag & Drop your NOI PDF here
+              Drag & Drop NOI PDFs or a zip here
             </p>
             <p className="mb-6 text-sm font-medium text-slate-500">
               or click below to browse your files
             </p>
             <label className="cursor-pointer">
               <span className="rounded-xl border border-slate-200 bg-white px-5 py-2.5 text-sm font-bold text-slate-700 hover:bg-slate-50 hover:text-slate-900 shadow-sm transition-all focus:ring-2 focus:ring-slate-300 inline-block">
-                Choose File
+                Choose Files
               </span>
               <input
                 type="file"
-                accept=".pdf"
+                accept=".pdf,.zip"
+                multiple
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -149,7 +299,7 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
         )}
       </div>
 
-      {file && (
+      {files.length > 0 && (
         <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
           {uploading && (
             <div className="space-y-2">
@@ -171,7 +321,11 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
             className="w-full h-14 rounded-xl text-base font-bold shadow-md hover:scale-[1.02] transition-all bg-slate-900 hover:bg-slate-800 disabled:hover:scale-100"
             size="lg"
           >
-            {uploading ? 'Processing NOI Document...' : 'Upload & Parse NOI'}
+            {uploading
+              ? 'Processing NOI Documents...'
+              : files.length === 1 && !isZip(files[0])
+              ? 'Upload & Parse NOI'
+              : 'Upload & Queue for Parsing'}
           </Button>
         </div>
       )}
@@ -67,7 +67,7 @@ export function GeneratePdfButton({ violation, items, photos, pdfUrl }: Generate
       const signer = ownerProfile || profile;
 
       // 2. Group photos: INSPECTOR by item, AFTER by inspector_photo_id
-      const inspectorsByItem = new Map<string, Photo[]>();
+      const inspectorsByItem = new Map<string, (Photo & { signed_url?: string })[]>();
       const afterByInspector = new Map<string, Photo & { signed_url?: string }>();
 
       for (const item of items) {
@@ -119,7 +119,7 @@ export function GeneratePdfButton({ violation, items, photos, pdfUrl }: Generate
             item_number: item.item_number ?? pairIndex,
             violation_code: item.violation_code || '—',
             priority: item.priority,
-            abatement_deadline: item.abatement_deadline || '60 Days',
+            abatement_deadline: item.abatement_deadline_text || '60 Days',
             fine: item.fine,
             violation_description: item.violation_description,
             specific_location: item.specific_location,
@@ -140,8 +140,16 @@ export function GeneratePdfButton({ violation, items, photos, pdfUrl }: Generate
           let inspectorPhotoDataUrl: string | null = null;
           let remediationPhotoDataUrl: string | null = null;
 
-          // Render inspector photo from PDF page
-          if (inspectorPhoto.page_number && pdfUrl) {
+          // Use the cropped photo extracted by the parser; older parses render the PDF page
+          const inspectorImageUrl = inspectorPhoto.signed_url;
+          if (inspectorImageUrl) {
+            try {
+              inspectorPhotoDataUrl = await fetchImageAsDataUrl(inspectorImageUrl);
+            } catch (err) {
+              console.warn(`Failed to fetch inspector photo for page ${inspectorPhoto.page_number}:`, err);
+            }
+          }
+          if (!inspectorPhotoDataUrl && inspectorPhoto.page_number && pdfUrl) {
             try {
               inspectorPhotoDataUrl = await renderPdfPageToImage(pdfUrl, inspectorPhoto.page_number);
             } catch (err) {
@@ -164,7 +172,7 @@ export function GeneratePdfButton({ violation, items, photos, pdfUrl }: Generate
             item_number: item.item_number ?? pairIndex,
             violation_code: item.violation_code || '—',
             priority: item.priority,
-            abatement_deadline: item.abatement_deadline || '60 Days',
+            abatement_deadline: item.abatement_deadline_text || '60 Days',
             fine: item.fine,
             violation_description: item.violation_description,
             specific_location: item.specific_location,
@@ -0,0 +1,17 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { statusColor, statusLabel } from '@/lib/workflow';
+import type { WorkflowStatus } from '@/lib/types';
+import { useWorkflow } from './workflow-provider';
+
+/** A violation status, labelled and colored by the org's workflow */
+export function StatusBadge({ status, className }: { status: WorkflowStatus; className?: string }) {
+  const { workflow } = useWorkflow();
+  return (
+    <Badge className={cn(statusColor(status, workflow), className)}>
+      {statusLabel(status, workflow)}
+    </Badge>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import { DEFAULT_WORKFLOW, readWorkflow, type Workflow } from '@/lib/workflow';
+
+interface WorkflowContextValue {
+  workflow: Workflow;
+  // For the settings editor, so a saved workflow shows up without a reload
+  setWorkflow: (workflow: Workflow) => void;
+}
+
+const WorkflowContext = createContext<WorkflowContextValue>({
+  workflow: DEFAULT_WORKFLOW,
+  setWorkflow: () => {},
+});
+
+/**
+ * Loads the org's violation workflow once for the signed-in pages, so status
+ * labels, badge colors and next-status buttons follow it. The default
+ * workflow is used until it arrives.
+ */
+export function WorkflowProvider({ children }: { children: React.ReactNode }) {
+  const [workflow, setWorkflow] = useState<Workflow>(DEFAULT_WORKFLOW);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/settings');
+        if (res.ok) {
+          const data = await res.json();
+          setWorkflow(readWorkflow(data.settings));
+        }
+      } catch {
+        console.error('Failed to load workflow');
+      }
+    })();
+  }, []);
+
+  return (
+    <WorkflowContext.Provider value={{ workflow, setWorkflow }}>
+      {children}
+    </WorkflowContext.Provider>
+  );
+}
+
+export function useWorkflow(): WorkflowContextValue {
+  return useContext(WorkflowContext);
+}
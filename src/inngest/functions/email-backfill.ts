@@ -0,0 +1,103 @@
+import { inngest } from '@/inngest/client';
+import { createAdminClient } from '@/lib/supabase/server';
+import { backfillPage } from '@/lib/mailbox/sync';
+
+/**
+ * Event-driven function that imports a mailbox connection's historical NOIs
+ * over a date range (email_backfills row). Each step imports one result
+ * page and saves the next page token with the running totals, so a backfill
+ * that fails or is cancelled resumes from its last finished page when the
+ * event is sent again. Messages logged before are not imported twice.
+ */
+export const emailBackfill = inngest.createFunction(
+  {
+    id: 'email-backfill',
+    name: 'Email Backfill',
+    retries: 2,
+    // One backfill page at a time per mailbox
+    concurrency: {
+      key: 'event.data.connectionId',
+      limit: 1,
+    },
+    onFailure: async ({ event, error }) => {
+      const { backfillId } = event.data.event.data;
+      const supabase = createAdminClient();
+      await supabase
+        .from('email_backfills')
+        .update({ status: 'failed', error_message: error.message })
+        .eq('id', backfillId)
+        .eq('status', 'running');
+    },
+  },
+  { event: 'email/backfill.requested' },
+  async ({ event, step }) => {
+    const { backfillId } = event.data;
+
+    const started = await step.run('start', async () => {
+      const supabase = createAdminClient();
+      const { data } = await supabase
+        .from('email_backfills')
+        .update({ status: 'running', error_message: null })
+        .eq('id', backfillId)
+        .in('status', ['pending', 'running'])
+        .select('id')
+        .maybeSingle();
+      return !!data;
+    });
+
+    if (!started) return { backfillId, skipped: 'Backfill is not pending' };
+
+    for (let page = 0; ; page++) {
+      const done = await step.run(`page-${page}`, async () => {
+        const supabase = createAdminClient();
+        const { data: backfill } = await supabase
+          .from('email_backfills')
+          .select('*')
+          .eq('id', backfillId)
+          .single();
+
+        if (!backfill || backfill.status !== 'running') return true;
+
+        const { data: connection } = await supabase
+          .from('email_connections')
+          .select('*')
+          .eq('id', backfill.email_connection_id)
+          .single();
+
+        if (!connection || connection.status !== 'active') {
+          throw new Error('Mailbox connection is no longer active');
+        }
+
+        const result = await backfillPage(connection, {
+          startDate: backfill.start_date,
+          endDate: backfill.end_date,
+          pageToken: backfill.page_token,
+        });
+
+        await supabase
+          .from('email_backfills')
+          .update({
+            page_token: result.nextPageToken,
+            pages_processed: backfill.pages_processed + 1,
+            messages_found: backfill.messages_found + result.messagesFound,
+            violations_created: backfill.violations_created + result.violationsCreated,
+            duplicates: backfill.duplicates + result.duplicates,
+            skipped: backfill.skipped + result.skipped,
+            failed: backfill.failed + result.errors.length,
+          })
+          .eq('id', backfillId);
+
+        if (result.nextPageToken) return false;
+
+        await supabase
+          .from('email_backfills')
+          .update({ status: 'completed', completed_at: new Date().toISOString() })
+          .eq('id', backfillId)
+          .eq('status', 'running');
+        return true;
+      });
+
+      if (done) return { backfillId, pages: page + 1 };
+    }
+  },
+);
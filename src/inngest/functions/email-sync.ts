@@ -1,9 +1,11 @@
 import { inngest } from '@/inngest/client';
 import { createAdminClient } from '@/lib/supabase/server';
-import { syncEmailConnection } from '@/lib/gmail-sync';
+import { syncEmailConnection } from '@/lib/mailbox/sync';
+import { MAILBOX_PROVIDERS } from '@/lib/mailbox/provider';
 
 /**
- * Inngest cron function: polls all active email connections with auto_poll_enabled.
+ * Inngest cron function: polls all active Gmail and Outlook connections with auto_poll_enabled.
+ * Inbound-email webhook connections receive mail as it arrives instead.
  * Runs every 5 minutes. Each connection is synced independently.
  */
 export const emailSyncCron = inngest.createFunction(
@@ -20,6 +22,7 @@ export const emailSyncCron = inngest.createFunction(
       const { data, error } = await supabase
         .from('email_connections')
         .select('*')
+        .in('provider', [...MAILBOX_PROVIDERS])
         .eq('status', 'active')
         .eq('auto_poll_enabled', true);
 
@@ -1,21 +1,94 @@
 import { inngest } from '../client';
 import { createAdminClient } from '@/lib/supabase/server';
-import { parseNOIPdf, analyzePdfPages } from '@/lib/ai/gemini';
-import { ParseLogger } from '@/lib/parse-logger';
+import { getAIProvider } from '@/lib/ai/provider';
+import { getAIBudgetStatus, recordAIUsage } from '@/lib/ai/usage';
+import { ParseLogger, pendingParseMetadata, resumesAfter } from '@/lib/parse-logger';
 import { normalizeAddress, findMatchingProperty } from '@/lib/address-normalization';
-import type { ParseCosts } from '@/lib/ai/schemas';
+import { crossCheckPdfText, detectNotices, parseNOIText } from '@/lib/noi-text-parser';
+import { extractPdfText, hasTextLayer } from '@/lib/pdf/extract-text';
+import { renderPdfPages } from '@/lib/pdf/render-page-server';
+import { cropEvidencePage } from '@/lib/pdf/crop-evidence';
+import { scoreParseConfidence } from '@/lib/ai/confidence';
+import { fingerprintPdf } from '@/lib/pdf-fingerprint';
+import { toViolationFields, toViolationItemFields, parseDate } from '@/lib/parse-values';
+import { readDeadlineRules } from '@/lib/deadlines';
+import type { CatalogCode } from '@/lib/violation-codes';
+import { matchEvidencePages, MATCH_THRESHOLD, type PhotoMatchMetadata } from '@/lib/photo-matching';
+import { evidenceImagePaths, type EvidenceImage } from '@/lib/evidence-images';
+import { classifyPdf, isRoutedDocument, routeInboundDocument } from '@/lib/inbound-documents';
+import { transitionViolation, type TransitionOptions } from '@/lib/violation-transitions';
+import { DOCUMENT_TYPE_LABELS, type WorkflowStatus } from '@/lib/types';
+import type { ParseCosts, ParseConfidence, PageRange, ParseMetadata, ParseStepName, NOIParseResult } from '@/lib/ai/schemas';
+
+export const PARSE_CONCURRENCY_PER_ORG = 3;
+
+/**
+ * The org's deadline counting rules and violation code catalog, read per parse
+ * so settings and catalog changes apply to the next NOI
+ */
+async function getParseContext(supabase: ReturnType<typeof createAdminClient>, orgId: string) {
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('settings, violation_codes(id, code, aliases, remediation_task)')
+    .eq('id', orgId)
+    .single();
+  return {
+    deadlineRules: readDeadlineRules(org?.settings as Record<string, unknown> | null),
+    codeCatalog: (org?.violation_codes || []) as CatalogCode[],
+  };
+}
+
+/**
+ * One of the pipeline's own status moves. A move the org's workflow or a
+ * guard blocks is logged and forced, so the violation can't sit in PARSING
+ * while parse_status says otherwise; one that fails even then fails the step.
+ */
+async function moveViolation(
+  log: ParseLogger,
+  logStep: string,
+  violationId: string,
+  to: WorkflowStatus,
+  options: TransitionOptions,
+) {
+  let result = await transitionViolation(violationId, to, options);
+  if (!result.ok && !options.force) {
+    log.warn(logStep, `Moving to ${to} was blocked — forcing it: ${result.block.message}`, { block: result.block });
+    result = await transitionViolation(violationId, to, { ...options, force: true });
+  }
+  if (!result.ok) {
+    log.warn(logStep, `Could not move to ${to}: ${result.block.message}`, { block: result.block });
+    throw new Error(`Failed to move violation to ${to}: ${result.block.message}`);
+  }
+}
 
 export const parseNOI = inngest.createFunction(
   {
     id: 'parse-noi-pdf',
     name: 'Parse NOI PDF',
     retries: 2,
+    // Batch uploads queue dozens of parses; cap each org's parallel AI calls
+    // so one backlog import can't starve other orgs or hit Gemini rate limits
+    concurrency: {
+      key: 'event.data.orgId',
+      limit: PARSE_CONCURRENCY_PER_ORG,
+    },
+    // A step that throws past its retries never reports itself; mark it failed
+    // so the parse can be resumed from it
+    onFailure: async ({ event, error }) => {
+      const { violationId } = event.data.event.data;
+      await new ParseLogger(violationId).failCurrentStep(error.message);
+    },
   },
   { event: 'noi/parse.requested' },
   async ({ event, step }) => {
     const { violationId, pdfStoragePath, orgId } = event.data;
+    // Set when this run handles one notice split off a multi-notice PDF
+    const eventPageRange = event.data.pageRange as PageRange | undefined;
+    // Set when a failed parse is resumed: steps before it reuse their saved output
+    const resumeFrom = event.data.resumeFrom as ParseStepName | undefined;
     const supabase = createAdminClient();
     const log = new ParseLogger(violationId);
+    const ai = getAIProvider();
 
     // ================================================================
     // STEP 0: Init — Mark violation as parsing (wrapped in step so it
@@ -27,19 +100,279 @@ export const parseNOI = inngest.createFunction(
         pdfStoragePath,
         orgId,
         event_id: event.id,
+        ai_provider: ai.name,
+        ...(resumeFrom && { resume_from: resumeFrom }),
       });
 
-      await supabase
+      // A retried or resumed parse starts over from whatever status it left
+      await moveViolation(log, 'init', violationId, 'PARSING', {
+        orgId,
+        fields: { parse_status: 'processing' },
+        force: true,
+      });
+    });
+
+    // ================================================================
+    // STEP 0.25: Classify Document — DOB also sends reinspection notices,
+    // approval letters, fine notices and hearing notices. Those are filed
+    // on the violation for the notice they quote and this run stops; NOIs
+    // and anything unrecognised continue as before.
+    // ================================================================
+    const routing = await step.run('classify-document', async () => {
+      if (eventPageRange) {
+        await log.stepComplete('classify_document', 'Notice split from a multi-notice NOI');
+        return null;
+      }
+      if (resumesAfter(resumeFrom, 'classify_document')) return null;
+
+      await log.stepStart('classify_document', 'Checking what kind of DOB document this is');
+
+      const { data: pdfData } = await supabase.storage.from('noi-pdfs').download(pdfStoragePath);
+      if (!pdfData) {
+        // ai-parse reports the download failure
+        await log.stepComplete('classify_document', 'PDF unavailable — treating as an NOI');
+        return null;
+      }
+
+      const { data: current } = await supabase
         .from('violations')
-        .update({ status: 'PARSING', parse_status: 'processing' })
-        .eq('id', violationId);
+        .select('source, parse_metadata')
+        .eq('id', violationId)
+        .single();
+      const emailSubject = (current?.parse_metadata as Record<string, unknown> | null)?.email_subject as string | undefined;
+
+      const classification = await classifyPdf(Buffer.from(await pdfData.arrayBuffer()), {
+        subject: emailSubject,
+        filename: pdfStoragePath.split('/').pop(),
+      });
+      log.info('classify_document', `Classified as ${classification.type}`, { ...classification });
+
+      if (!isRoutedDocument(classification)) {
+        await log.stepComplete(
+          'classify_document',
+          classification.type === 'NOI' ? 'Notice of Infraction' : 'Document type not recognised — parsing as an NOI',
+          undefined,
+          { document_type: classification.type },
+        );
+        return null;
+      }
+
+      const label = DOCUMENT_TYPE_LABELS[classification.type];
+      const routed = await routeInboundDocument({
+        orgId,
+        classification,
+        storagePath: pdfStoragePath,
+        source: current?.source || 'parser',
+        intakeViolationId: violationId,
+      });
+
+      if (!routed) {
+        // Nothing to attach it to yet; retrying once the NOI is imported files it
+        await moveViolation(log, 'classify_document', violationId, 'NEW', { orgId });
+        await log.stepFail(
+          'classify_document',
+          classification.reference_notice_id
+            ? `${label} for ${classification.reference_notice_id}, but no violation has that notice number. Import the NOI, then retry.`
+            : `${label} with no notice number, so it can't be matched to a violation`,
+          { ...classification },
+        );
+        return { violationId: null };
+      }
+
+      await log.stepComplete('classify_document', `${label} for ${classification.reference_notice_id}`, undefined, {
+        document_type: classification.type,
+        routed_to: {
+          violation_id: routed.violation_id,
+          document_id: routed.document_id,
+          reference_notice_id: classification.reference_notice_id,
+        },
+      });
+
+      // Closed the way a cancelled duplicate upload is, pointing at where the document went
+      await moveViolation(log, 'classify_document', violationId, 'CLOSED', {
+        orgId,
+        fields: {
+          parse_status: 'routed',
+          notes: `${label} for ${classification.reference_notice_id}. Filed on violation ${routed.violation_id}.`,
+        },
+        force: true,
+      });
+
+      return { violationId: routed.violation_id };
     });
 
+    if (routing) {
+      return { success: !!routing.violationId, violationId, routedTo: routing.violationId };
+    }
+
+    // ================================================================
+    // STEP 0.5: Split Notices — One PDF may hold several NOIs. Each extra
+    // notice gets its own violation (same PDF, own page range) and its own
+    // pipeline run; this run continues with the first notice.
+    // ================================================================
+    let pageRange = eventPageRange;
+    if (!pageRange) {
+      const split = await step.run('split-notices', async () => {
+        const { data: pdfData } = await supabase.storage.from('noi-pdfs').download(pdfStoragePath);
+        if (!pdfData) return null; // ai-parse reports the download failure
+        const buffer = Buffer.from(await pdfData.arrayBuffer());
+
+        // Batch and retried uploads reach the pipeline without a fingerprint
+        await supabase
+          .from('violations')
+          .update(await fingerprintPdf(buffer))
+          .eq('id', violationId)
+          .is('pdf_sha256', null);
+
+        const notices = await detectNotices(buffer);
+        if (notices.length <= 1) return null;
+
+        const [first, ...rest] = notices;
+
+        // Reuse siblings from a previous attempt so retries don't duplicate them
+        const { data: existing } = await supabase
+          .from('violations')
+          .select('id, page_start')
+          .eq('source_violation_id', violationId);
+
+        const siblings: Array<{ id: string; range: PageRange }> = [];
+        for (const notice of rest) {
+          const range = { start: notice.start, end: notice.end };
+          const found = existing?.find(v => v.page_start === notice.start);
+          if (found) {
+            siblings.push({ id: found.id, range });
+            continue;
+          }
+
+          const { data: sibling, error } = await supabase
+            .from('violations')
+            .insert({
+              org_id: orgId,
+              pdf_storage_path: pdfStoragePath,
+              page_start: notice.start,
+              page_end: notice.end,
+              source_violation_id: violationId,
+              source: 'parser',
+              status: 'PARSING',
+              parse_status: 'pending',
+              parse_metadata: pendingParseMetadata(),
+            })
+            .select('id')
+            .single();
+
+          if (error || !sibling) {
+            throw new Error(`Failed to create violation for notice ${notice.notice_id}: ${error?.message}`);
+          }
+          siblings.push({ id: sibling.id, range });
+        }
+
+        const { data: current } = await supabase
+          .from('violations')
+          .select('parse_metadata')
+          .eq('id', violationId)
+          .single();
+
+        const noticeSplit = { notices, sibling_violation_ids: siblings.map(s => s.id) };
+        await supabase
+          .from('violations')
+          .update({
+            page_start: first.start,
+            page_end: first.end,
+            parse_metadata: {
+              ...(current?.parse_metadata as Record<string, unknown> || {}),
+              notice_split: noticeSplit,
+            },
+          })
+          .eq('id', violationId);
+
+        log.info('split_notices', `PDF contains ${notices.length} notices`, noticeSplit);
+        await log.flush();
+
+        return { first: { start: first.start, end: first.end }, siblings };
+      });
+
+      if (split) {
+        await step.sendEvent('parse-split-notices', split.siblings.map(sibling => ({
+          name: 'noi/parse.requested',
+          data: { violationId: sibling.id, pdfStoragePath, orgId, pageRange: sibling.range },
+        })));
+        pageRange = split.first;
+      }
+    }
+
+    // ================================================================
+    // STEP 0.75: Budget — Once the org's monthly AI budget is spent, hold
+    // the parse (resumed from the parse queue) or fall back to manual entry
+    // with whatever the PDF text layer yields, without any AI calls.
+    // ================================================================
+    const budgetHold = await step.run('check-ai-budget', async () => {
+      // Nothing left to spend when resuming past the AI steps
+      if (resumesAfter(resumeFrom, 'analyze_pages')) return null;
+
+      const budget = await getAIBudgetStatus(orgId);
+      if (!budget.exceeded) return null;
+
+      log.info('budget', `Monthly AI budget reached — ${budget.action === 'pause' ? 'pausing parse' : 'falling back to manual entry'}`, {
+        month_to_date_usd: budget.month_to_date_usd,
+        budget_usd: budget.budget_usd,
+      });
+
+      if (budget.action === 'pause') {
+        await moveViolation(log, 'budget', violationId, 'NEW', { orgId });
+        await log.flush('budget_paused');
+        return budget.action;
+      }
+
+      const { data: pdfData } = await supabase.storage.from('noi-pdfs').download(pdfStoragePath);
+      const pages = pdfData ? await extractPdfText(Buffer.from(await pdfData.arrayBuffer())).catch(() => []) : [];
+      const scoped = pageRange ? pages.slice(pageRange.start - 1, pageRange.end) : pages;
+
+      // A resumed parse already saved its AI-extracted items; keep them
+      if (hasTextLayer(scoped) && !resumesAfter(resumeFrom, 'insert_records')) {
+        const { notice_level_data, work_orders } = parseNOIText(scoped);
+        const { deadlineRules, codeCatalog } = await getParseContext(supabase, orgId);
+        const serviceDate = parseDate(notice_level_data.date_of_service);
+        await supabase
+          .from('violations')
+          .update(toViolationFields(notice_level_data, work_orders, deadlineRules))
+          .eq('id', violationId);
+        await supabase.from('violation_items').delete().eq('violation_id', violationId);
+        await supabase.from('violation_items').insert(work_orders.map(wo => ({
+          org_id: orgId,
+          violation_id: violationId,
+          ...toViolationItemFields(wo, serviceDate, deadlineRules, codeCatalog),
+        })));
+        log.info('budget', `Prefilled ${work_orders.length} items from the PDF text layer`);
+      }
+
+      await moveViolation(log, 'budget', violationId, 'NEEDS_REVIEW', { orgId });
+      await log.flush('manual');
+      return budget.action;
+    });
+
+    if (budgetHold) {
+      return { success: false, violationId, budgetHold };
+    }
+
     // ================================================================
     // STEP 1: AI Parse — Download PDF, send to Gemini, get structured data
     // ================================================================
-    const aiResult = await step.run('ai-parse', async () => {
-      await log.stepStart('ai_parse', 'Downloading PDF and sending to Gemini for structured extraction');
+    const aiParse = await step.run('ai-parse', async () => {
+      if (resumesAfter(resumeFrom, 'ai_parse')) {
+        const { data: previous } = await supabase
+          .from('violations')
+          .select('raw_ai_output')
+          .eq('id', violationId)
+          .single();
+        if (previous?.raw_ai_output) {
+          log.info('ai_parse', 'Resuming: reusing the extraction from the previous attempt');
+          await log.flush();
+          return { parsed: previous.raw_ai_output as NOIParseResult, usage: null };
+        }
+        log.warn('ai_parse', 'Resuming, but no saved extraction was found — extracting again');
+      }
+
+      await log.stepStart('ai_parse', `Downloading PDF and sending to ${ai.name} for structured extraction`);
 
       // Task: Download PDF from storage
       const downloadResult = await log.timed(
@@ -59,10 +392,10 @@ export const parseNOI = inngest.createFunction(
       const buffer = Buffer.from(await pdfData.arrayBuffer());
       log.info('ai_parse', 'PDF downloaded', { pdf_size_bytes: buffer.length });
 
-      // Do: Send to Gemini
+      // Do: Send to the AI provider
       const geminiResult = await log.timed(
-        'ai_parse', 'Gemini structured extraction',
-        () => parseNOIPdf(buffer),
+        'ai_parse', `${ai.name} structured extraction`,
+        () => ai.parseNOIPdf(buffer, pageRange),
       );
 
       // Verify: Check extraction quality
@@ -81,6 +414,35 @@ export const parseNOI = inngest.createFunction(
         ],
       };
 
+      // Cross-check: deterministic text-layer parse (best-effort, never fails the step)
+      const textLayerCheck = await crossCheckPdfText(buffer, geminiResult.parsed, pageRange);
+
+      if (textLayerCheck.available) {
+        verification.checks.push({
+          name: 'text layer agrees',
+          passed: textLayerCheck.disagreements.length === 0,
+          detail: `${textLayerCheck.fields_matched}/${textLayerCheck.fields_compared} fields match`,
+        });
+        for (const d of textLayerCheck.disagreements) {
+          verification.checks.push({
+            name: `text layer: ${d.item_number !== undefined ? `item ${d.item_number} ` : ''}${d.field}`,
+            passed: false,
+            detail: `AI "${d.ai_value}" vs text "${d.text_value}"`,
+          });
+        }
+      } else {
+        // Scans have no text layer to compare against; that isn't a failed check
+        log.info('ai_parse', `Text layer cross-check skipped — ${textLayerCheck.skipped_reason}`);
+      }
+
+      // Score every field; low-confidence fields route the violation to review
+      const confidence = scoreParseConfidence(geminiResult.parsed, textLayerCheck);
+      verification.checks.push({
+        name: 'field confidence',
+        passed: !confidence.needs_review,
+        detail: `${confidence.low_confidence_count} fields below ${confidence.threshold}`,
+      });
+
       log.info('ai_parse', 'Token usage', {
         prompt_tokens: geminiResult.meta.usage.prompt_tokens,
         output_tokens: geminiResult.meta.usage.output_tokens,
@@ -88,6 +450,12 @@ export const parseNOI = inngest.createFunction(
         cost_usd: geminiResult.meta.usage.cost_usd,
       });
 
+      // Saved now (not just in insert-records) so a resumed parse can skip extraction
+      await supabase
+        .from('violations')
+        .update({ raw_ai_output: geminiResult.parsed })
+        .eq('id', violationId);
+
       await log.stepComplete(
         'ai_parse',
         `Extracted ${geminiResult.meta.work_order_count} violation items from ${geminiResult.meta.pdf_size_bytes} byte PDF`,
@@ -96,10 +464,26 @@ export const parseNOI = inngest.createFunction(
           items_found: geminiResult.meta.work_order_count,
           gemini_meta: geminiResult.meta,
           costs: { ai_parse: geminiResult.meta.usage },
+          text_layer_check: textLayerCheck,
+          field_confidence: confidence,
         },
       );
 
-      return geminiResult.parsed;
+      return { parsed: geminiResult.parsed, usage: { model: geminiResult.meta.model, usage: geminiResult.meta.usage } };
+    });
+    const aiResult = aiParse.parsed;
+
+    // Its own step, so a retried ai-parse only records the call that succeeded
+    await step.run('record-ai-parse-usage', async () => {
+      if (!aiParse.usage) return;
+      await recordAIUsage({
+        orgId,
+        feature: 'noi_parse',
+        provider: ai.name,
+        model: aiParse.usage.model,
+        usage: aiParse.usage.usage,
+        violationId,
+      });
     });
 
     // ================================================================
@@ -107,7 +491,8 @@ export const parseNOI = inngest.createFunction(
     // ================================================================
     const duplicateInfo = await step.run('check-duplicate', async () => {
       const noticeId = aiResult.notice_level_data.notice_id;
-      if (!noticeId) return { isDuplicate: false, existingViolationId: null };
+      // The previous attempt already settled any duplicate before saving items
+      if (!noticeId || resumesAfter(resumeFrom, 'insert_records')) return { isDuplicate: false, existingViolationId: null };
 
       const { data: existing } = await supabase
         .from('violations')
@@ -168,14 +553,14 @@ export const parseNOI = inngest.createFunction(
       if (!decision || decision.data.action !== 'overwrite') {
         // User chose to cancel or timed out
         await step.run('halt-duplicate', async () => {
-          await supabase
-            .from('violations')
-            .update({
-              status: 'CLOSED',
+          await moveViolation(log, 'halt_duplicate', violationId, 'CLOSED', {
+            orgId,
+            fields: {
               parse_status: 'duplicate',
               notes: `Duplicate of existing violation ${duplicateInfo.existingViolationId}. Cancelled by user.`,
-            })
-            .eq('id', violationId);
+            },
+            force: true,
+          });
 
           log.info('halt_duplicate', 'Pipeline halted — user cancelled duplicate', {
             existing_violation_id: duplicateInfo.existingViolationId,
@@ -198,13 +583,11 @@ export const parseNOI = inngest.createFunction(
         await supabase.from('violations').delete().eq('id', oldId);
 
         // Reset current violation to continue pipeline
-        await supabase
-          .from('violations')
-          .update({
-            parse_status: 'processing',
-            status: 'PARSING',
-          })
-          .eq('id', violationId);
+        await moveViolation(log, 'overwrite_duplicate', violationId, 'PARSING', {
+          orgId,
+          fields: { parse_status: 'processing' },
+          force: true,
+        });
 
         log.info('overwrite_duplicate', 'Old violation deleted, continuing pipeline', {
           deleted_violation_id: oldId,
@@ -216,54 +599,31 @@ export const parseNOI = inngest.createFunction(
     // STEP 2: Insert Records — Write parsed data to Supabase
     // ================================================================
     await step.run('insert-records', async () => {
+      if (resumesAfter(resumeFrom, 'insert_records')) {
+        const { count } = await supabase
+          .from('violation_items')
+          .select('*', { count: 'exact', head: true })
+          .eq('violation_id', violationId);
+        if (count) {
+          log.info('insert_records', `Resuming: keeping ${count} items saved by the previous attempt`);
+          await log.flush();
+          return;
+        }
+      }
+
       await log.stepStart('insert_records', 'Saving parsed data to database');
 
       const { notice_level_data, work_orders } = aiResult;
 
-      const parseFine = (fineStr: string): number | null => {
-        if (!fineStr) return null;
-        // Strip dollar sign and whitespace
-        let cleaned = fineStr.replace(/[$\s]/g, '');
-        // Handle ambiguous last separator: if the last comma or period has exactly
-        // 2 digits after it, treat it as the decimal point. This handles Gemini
-        // returning "2,358,00" (comma instead of period) or EU-style formatting.
-        const lastSep = cleaned.search(/[.,]\d{2}$/);
-        if (lastSep !== -1) {
-          const before = cleaned.slice(0, lastSep).replace(/[.,]/g, '');
-          const after = cleaned.slice(lastSep + 1);
-          cleaned = `${before}.${after}`;
-        } else {
-          cleaned = cleaned.replace(/[,]/g, '');
-        }
-        const num = parseFloat(cleaned);
-        return isNaN(num) ? null : num;
-      };
-
-      const parseDate = (dateStr: string): string | null => {
-        if (!dateStr) return null;
-        const parts = dateStr.split('/');
-        if (parts.length !== 3) return null;
-        const [month, day, year] = parts;
-        return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-      };
-
-      const serviceDate = parseDate(notice_level_data.date_of_service);
-      let deadlineDate: string | null = null;
-      if (serviceDate && work_orders.length > 0) {
-        const shortestDeadline = Math.min(
-          ...work_orders.map(wo => parseInt(wo.abatement_deadline) || 60),
-        );
-        const deadline = new Date(serviceDate);
-        deadline.setDate(deadline.getDate() + shortestDeadline);
-        deadlineDate = deadline.toISOString().split('T')[0];
-      }
+      const { deadlineRules, codeCatalog } = await getParseContext(supabase, orgId);
+      const violationFields = toViolationFields(notice_level_data, work_orders, deadlineRules);
 
       log.info('insert_records', 'Parsed notice-level fields', {
-        notice_id: notice_level_data.notice_id,
-        respondent: notice_level_data.respondent,
-        service_date: serviceDate,
-        deadline_date: deadlineDate,
-        total_fines: parseFine(notice_level_data.total_fines),
+        notice_id: violationFields.notice_id,
+        respondent: violationFields.respondent,
+        service_date: violationFields.date_of_service,
+        deadline_date: violationFields.abatement_deadline,
+        total_fines: violationFields.total_fines,
       });
 
       // Task: Update violation record
@@ -272,13 +632,7 @@ export const parseNOI = inngest.createFunction(
         async () => supabase
           .from('violations')
           .update({
-            notice_id: notice_level_data.notice_id,
-            respondent: notice_level_data.respondent,
-            infraction_address: notice_level_data.infraction_address,
-            date_of_service: serviceDate,
-            total_fines: parseFine(notice_level_data.total_fines),
-            abatement_deadline: deadlineDate,
-            priority: Math.min(...work_orders.map(wo => wo.priority), 3),
+            ...violationFields,
             raw_ai_output: aiResult,
           })
           .eq('id', violationId),
@@ -303,17 +657,7 @@ export const parseNOI = inngest.createFunction(
       const items = work_orders.map(wo => ({
         org_id: orgId,
         violation_id: violationId,
-        item_number: wo.item_number,
-        violation_code: wo.violation_code,
-        priority: wo.priority,
-        abatement_deadline: wo.abatement_deadline,
-        fine: parseFine(wo.fine),
-        violation_description: wo.violation_description,
-        specific_location: wo.specific_location,
-        floor_number: wo.floor_number,
-        date_of_infraction: parseDate(wo.date_of_infraction),
-        time_of_infraction: wo.time_of_infraction,
-        task_description: wo.task_description,
+        ...toViolationItemFields(wo, violationFields.date_of_service, deadlineRules, codeCatalog),
       }));
 
       const insertResult = await log.timed(
@@ -485,8 +829,23 @@ export const parseNOI = inngest.createFunction(
     // STEP 4: Analyze Pages — Gemini identifies evidence photos per page
     // (was Step 3 before auto-link was added)
     // ================================================================
-    const pageAnalysis = await step.run('analyze-pages', async () => {
-      await log.stepStart('analyze_pages', 'Sending PDF to Gemini for page-level analysis');
+    const analyzePages = await step.run('analyze-pages', async () => {
+      if (resumesAfter(resumeFrom, 'analyze_pages')) {
+        const { data: previous } = await supabase
+          .from('violations')
+          .select('parse_metadata')
+          .eq('id', violationId)
+          .single();
+        const saved = (previous?.parse_metadata as ParseMetadata | null)?.page_analysis;
+        if (saved) {
+          log.info('analyze_pages', 'Resuming: reusing the page analysis from the previous attempt');
+          await log.flush();
+          return { analysis: saved, usage: null };
+        }
+        log.warn('analyze_pages', 'Resuming, but no saved page analysis was found — analyzing again');
+      }
+
+      await log.stepStart('analyze_pages', `Sending PDF to ${ai.name} for page-level analysis`);
 
       const redownloadResult = await log.timed(
         'analyze_pages', 'Re-download PDF for page analysis',
@@ -501,10 +860,21 @@ export const parseNOI = inngest.createFunction(
       const buffer = Buffer.from(await redownloadResult.data.arrayBuffer());
 
       const geminiResult = await log.timed(
-        'analyze_pages', 'Gemini page-level analysis',
-        () => analyzePdfPages(buffer),
+        'analyze_pages', `${ai.name} page-level analysis`,
+        () => ai.analyzePdfPages(buffer, pageRange),
       );
 
+      // Multi-notice PDF: only this notice's pages can hold its evidence photos
+      if (pageRange) {
+        const { start, end } = pageRange;
+        const pages = geminiResult.analysis.pages.filter(p => p.page_number >= start && p.page_number <= end);
+        geminiResult.analysis.pages = pages;
+        geminiResult.meta.total_pages = pages.length;
+        geminiResult.meta.evidence_photo_count = pages.filter(p => p.is_evidence_photo).length;
+        geminiResult.meta.pages_with_codes = pages.filter(p => p.violation_code).length;
+        log.info('analyze_pages', `Scoped to pages ${start}-${end}`, { pages_kept: geminiResult.analysis.pages.length });
+      }
+
       log.info('analyze_pages', 'Page analysis details', {
         total_pages: geminiResult.meta.total_pages,
         evidence_photos: geminiResult.meta.evidence_photo_count,
@@ -537,22 +907,49 @@ export const parseNOI = inngest.createFunction(
         {
           total_pages: geminiResult.meta.total_pages,
           gemini_page_meta: geminiResult.meta,
+          page_analysis: geminiResult.analysis,
           costs: { analyze_pages: geminiResult.meta.usage },
         },
       );
 
-      return geminiResult.analysis;
+      return { analysis: geminiResult.analysis, usage: { model: geminiResult.meta.model, usage: geminiResult.meta.usage } };
+    });
+    const pageAnalysis = analyzePages.analysis;
+
+    await step.run('record-page-analysis-usage', async () => {
+      if (!analyzePages.usage) return;
+      await recordAIUsage({
+        orgId,
+        feature: 'page_analysis',
+        provider: ai.name,
+        model: analyzePages.usage.model,
+        usage: analyzePages.usage.usage,
+        violationId,
+      });
     });
 
     // ================================================================
     // STEP 5: Match Photos — Link evidence photos to violation items
     // ================================================================
     await step.run('match-photos', async () => {
-      await log.stepStart('match_photos', 'Matching evidence photos to violation items by code');
+      if (resumesAfter(resumeFrom, 'match_photos')) {
+        const { count } = await supabase
+          .from('photos')
+          .select('*', { count: 'exact', head: true })
+          .eq('violation_id', violationId)
+          .eq('photo_type', 'INSPECTOR');
+        if (count) {
+          log.info('match_photos', `Resuming: keeping ${count} photos matched by the previous attempt`);
+          await log.flush();
+          return;
+        }
+      }
+
+      await log.stepStart('match_photos', 'Matching evidence photos to violation items by code, location, floor and page order');
 
       const { data: items } = await supabase
         .from('violation_items')
-        .select('id, violation_code, specific_location, task_description')
+        .select('id, item_number, violation_code, code_id, specific_location, floor_number, task_description')
         .eq('violation_id', violationId);
 
       if (!items || items.length === 0) {
@@ -574,80 +971,51 @@ export const parseNOI = inngest.createFunction(
         item_codes: items.map(i => i.violation_code),
       });
 
+      const { codeCatalog } = await getParseContext(supabase, orgId);
+
       let matchedCount = 0;
       let unmatchedCount = 0;
-      const matchLog: Array<{ page: number; code: string; matched_item_id: string | null }> = [];
-
-      const normalizeCode = (code: string) => code.replace(/\s+/g, ' ').trim().toLowerCase();
-
-      // Tokenize a string into lowercase words for similarity comparison
-      const tokenize = (text: string) =>
-        text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w.length > 2);
-
-      // Compute word-overlap similarity between two texts (Jaccard-like)
-      const textSimilarity = (a: string, b: string): number => {
-        const wordsA = new Set(tokenize(a));
-        const wordsB = new Set(tokenize(b));
-        if (wordsA.size === 0 || wordsB.size === 0) return 0;
-        let intersection = 0;
-        for (const w of wordsA) if (wordsB.has(w)) intersection++;
-        return intersection / Math.max(wordsA.size, wordsB.size);
-      };
+      const matchLog: Array<{ page: number; code: string | null; matched_item_id: string | null; score: number }> = [];
 
-      for (const page of pageAnalysis.pages) {
-        if (!page.is_evidence_photo || !page.violation_code) continue;
+      const evidencePages = pageAnalysis.pages.filter(page => page.is_evidence_photo);
+      const matches = matchEvidencePages(evidencePages, items, codeCatalog);
 
-        const normalizedPageCode = normalizeCode(page.violation_code);
-
-        // Find ALL items matching this code
-        const matchingItems = items.filter(item =>
-          item.violation_code && normalizeCode(item.violation_code) === normalizedPageCode,
-        );
-
-        let matchedItem: typeof items[0] | null = null;
-        if (matchingItems.length === 1) {
-          matchedItem = matchingItems[0];
-        } else if (matchingItems.length > 1 && page.description) {
-          // Content-based matching: compare photo description against
-          // each item's task_description + specific_location
-          let bestScore = -1;
-          for (const item of matchingItems) {
-            const itemText = [item.task_description || '', item.specific_location || ''].join(' ');
-            const score = textSimilarity(page.description, itemText);
-            if (score > bestScore) {
-              bestScore = score;
-              matchedItem = item;
-            }
-          }
-        } else if (matchingItems.length > 1) {
-          // No description available, fall back to first match
-          matchedItem = matchingItems[0];
-        }
+      for (const match of matches) {
+        const page = evidencePages.find(p => p.page_number === match.page_number)!;
 
         matchLog.push({
           page: page.page_number,
           code: page.violation_code,
-          matched_item_id: matchedItem?.id || null,
+          matched_item_id: match.item_id,
+          score: match.score,
         });
 
-        if (!matchedItem) {
+        if (!match.item_id) {
           log.warn('match_photos', `No item match for page ${page.page_number} code "${page.violation_code}"`, {
             available_codes: items.map(i => i.violation_code),
+            best_score: match.score,
           });
           unmatchedCount++;
         }
 
+        const matchMetadata: PhotoMatchMetadata = {
+          method: 'auto',
+          score: match.score,
+          threshold: MATCH_THRESHOLD,
+          candidates: match.candidates,
+        };
+
         const { error: photoError } = await supabase.from('photos').insert({
           org_id: orgId,
           violation_id: violationId,
-          violation_item_id: matchedItem?.id || null,
+          violation_item_id: match.item_id,
           photo_type: 'INSPECTOR',
           storage_path: pdfStoragePath,
           file_name: `page_${page.page_number}.pdf`,
           page_number: page.page_number,
           matched_violation_code: page.violation_code,
           status: 'APPROVED',
-          metadata: { description: page.description },
+          metadata: { description: page.description, match: matchMetadata },
         });
 
         if (photoError) {
@@ -676,7 +1044,102 @@ export const parseNOI = inngest.createFunction(
     });
 
     // ================================================================
-    // STEP 6: Mark Complete — Final verification
+    // STEP 6: Extract Photos — Crop evidence pages to stored JPEGs so
+    // the portal, dashboard and submission PDF don't render the NOI
+    // ================================================================
+    await step.run('extract-photos', async () => {
+      if (resumesAfter(resumeFrom, 'extract_photos')) return;
+
+      await log.stepStart('extract_photos', 'Rendering evidence pages and cropping inspector photos');
+
+      const { data: photos } = await supabase
+        .from('photos')
+        .select('id, page_number, metadata')
+        .eq('violation_id', violationId)
+        .eq('photo_type', 'INSPECTOR')
+        .not('page_number', 'is', null);
+
+      if (!photos || photos.length === 0) {
+        await log.stepComplete('extract_photos', 'No evidence pages to extract', {
+          passed: true,
+          checks: [{ name: 'evidence pages available', passed: false, detail: 'Skipped — no inspector photos' }],
+        });
+        return;
+      }
+
+      const download = await log.timed(
+        'extract_photos', 'Re-download PDF for rendering',
+        async () => supabase.storage.from('noi-pdfs').download(pdfStoragePath),
+      );
+      if (!download.data) {
+        await log.stepFail('extract_photos', 'Failed to re-download PDF for photo extraction');
+        throw new Error('Failed to download PDF for photo extraction');
+      }
+
+      const pdfBuffer = Buffer.from(await download.data.arrayBuffer());
+      const rendered = await log.timed(
+        'extract_photos', `Render ${photos.length} evidence pages`,
+        () => renderPdfPages(pdfBuffer, photos.map(p => p.page_number as number)),
+      );
+
+      let extractedCount = 0;
+      let croppedCount = 0;
+
+      // Extraction is best-effort: a photo without an image still renders from the PDF
+      for (const photo of photos) {
+        const page = rendered.find(r => r.pageNumber === photo.page_number);
+        if (!page) {
+          log.warn('extract_photos', `Page ${photo.page_number} could not be rendered`);
+          continue;
+        }
+
+        try {
+          const cropped = await cropEvidencePage(page.buffer);
+          const paths = evidenceImagePaths(orgId, violationId, page.pageNumber);
+
+          for (const [path, file] of [[paths.path, cropped.image], [paths.thumbnail_path, cropped.thumbnail]] as const) {
+            const { error: uploadError } = await supabase.storage
+              .from('noi-pdfs')
+              .upload(path, file, { contentType: 'image/jpeg', upsert: true });
+            if (uploadError) throw new Error(`Storage upload failed: ${uploadError.message}`);
+          }
+
+          const image: EvidenceImage = { ...paths, width: cropped.width, height: cropped.height, crop: cropped.crop };
+          const { error: updateError } = await supabase
+            .from('photos')
+            .update({
+              storage_path: paths.path,
+              file_name: `page_${page.pageNumber}.jpg`,
+              file_size: cropped.image.length,
+              mime_type: 'image/jpeg',
+              metadata: { ...(photo.metadata as Record<string, unknown>), image },
+            })
+            .eq('id', photo.id);
+          if (updateError) throw new Error(updateError.message);
+
+          extractedCount++;
+          if (cropped.crop) croppedCount++;
+        } catch (err) {
+          log.warn('extract_photos', `Failed to extract photo from page ${page.pageNumber}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+
+      await log.stepComplete(
+        'extract_photos',
+        `Extracted ${extractedCount} of ${photos.length} evidence photos (${croppedCount} cropped)`,
+        {
+          passed: true, // Pages without an image fall back to PDF rendering
+          checks: [
+            { name: 'photos extracted', passed: extractedCount === photos.length, detail: `${extractedCount}/${photos.length} photos` },
+            { name: 'photo region found', passed: croppedCount === extractedCount, detail: `${croppedCount} cropped, ${extractedCount - croppedCount} full page` },
+          ],
+        },
+        { photos_extracted: extractedCount, photos_cropped: croppedCount },
+      );
+    });
+
+    // ================================================================
+    // STEP 7: Mark Complete — Final verification
     // ================================================================
     await step.run('mark-complete', async () => {
       await log.stepStart('complete', 'Finalizing parse');
@@ -702,17 +1165,18 @@ export const parseNOI = inngest.createFunction(
       const existingCosts = (meta.costs || {}) as ParseCosts;
       const totalCost = (existingCosts.ai_parse?.cost_usd ?? 0) + (existingCosts.analyze_pages?.cost_usd ?? 0);
 
+      const needsReview = (meta.field_confidence as ParseConfidence | undefined)?.needs_review ?? false;
+
       log.info('complete', 'Final counts', {
         item_count: itemCount,
         photo_count: photoCount,
         total_cost_usd: totalCost,
+        needs_review: needsReview,
       });
 
-      // Set final status — this is the authoritative status update
-      await supabase
-        .from('violations')
-        .update({ status: 'PARSED' })
-        .eq('id', violationId);
+      // Set final status — this is the authoritative status update.
+      // Low-confidence parses wait in the review queue before they can be assigned.
+      await moveViolation(log, 'complete', violationId, needsReview ? 'NEEDS_REVIEW' : 'PARSED', { orgId });
 
       // stepComplete will flush parse_metadata and set parse_status = 'completed'
       // (since all merged steps will be completed)
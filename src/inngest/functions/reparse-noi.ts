@@ -0,0 +1,107 @@
+import { inngest } from '../client';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getAIProvider } from '@/lib/ai/provider';
+import { recordAIUsage } from '@/lib/ai/usage';
+import { crossCheckPdfText } from '@/lib/noi-text-parser';
+import { scoreParseConfidence } from '@/lib/ai/confidence';
+import { PARSE_CONCURRENCY_PER_ORG } from './parse-noi';
+
+/**
+ * Re-run extraction for an existing violation without touching its records.
+ * The result lands in parse_staging; the dashboard diffs it against the live
+ * violation_items and the user applies changes selectively.
+ */
+export const reparseNOI = inngest.createFunction(
+  {
+    id: 'reparse-noi-pdf',
+    name: 'Re-parse NOI PDF',
+    retries: 2,
+    concurrency: {
+      key: 'event.data.orgId',
+      limit: PARSE_CONCURRENCY_PER_ORG,
+    },
+    onFailure: async ({ event, error }) => {
+      const { stagingId } = event.data.event.data;
+      const supabase = createAdminClient();
+      await supabase
+        .from('parse_staging')
+        .update({ status: 'failed', error_message: error.message })
+        .eq('id', stagingId)
+        .eq('status', 'pending');
+    },
+  },
+  { event: 'noi/reparse.requested' },
+  async ({ event, step }) => {
+    const { violationId, orgId, stagingId } = event.data;
+    const supabase = createAdminClient();
+    const ai = getAIProvider();
+
+    const { model, ...staged } = await step.run('ai-parse', async () => {
+      const { data: violation } = await supabase
+        .from('violations')
+        .select('pdf_storage_path, page_start, page_end')
+        .eq('id', violationId)
+        .single();
+
+      if (!violation?.pdf_storage_path) {
+        throw new Error('Violation has no PDF to re-parse');
+      }
+
+      const { data: pdfData, error: downloadError } = await supabase.storage
+        .from('noi-pdfs')
+        .download(violation.pdf_storage_path);
+
+      if (downloadError || !pdfData) {
+        throw new Error(`Failed to download PDF: ${downloadError?.message}`);
+      }
+
+      // Notices split off a multi-notice PDF only re-parse their own pages
+      const pageRange = violation.page_start && violation.page_end
+        ? { start: violation.page_start, end: violation.page_end }
+        : undefined;
+
+      const buffer = Buffer.from(await pdfData.arrayBuffer());
+      const result = await ai.parseNOIPdf(buffer, pageRange);
+      const textLayerCheck = await crossCheckPdfText(buffer, result.parsed, pageRange);
+
+      return {
+        model: result.meta.model,
+        parsed: result.parsed,
+        usage: result.meta.usage,
+        text_layer_check: textLayerCheck,
+        field_confidence: scoreParseConfidence(result.parsed, textLayerCheck),
+      };
+    });
+
+    // Its own step, so a retried ai-parse only records the call that succeeded
+    await step.run('record-ai-usage', async () => {
+      await recordAIUsage({
+        orgId,
+        feature: 'noi_reparse',
+        provider: ai.name,
+        model,
+        usage: staged.usage,
+        violationId,
+      });
+    });
+
+    const isStaged = await step.run('stage-result', async () => {
+      // A re-parse discarded or replaced while it ran stays that way
+      const { data, error } = await supabase
+        .from('parse_staging')
+        .update({ status: 'ready', ...staged })
+        .eq('id', stagingId)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (error) throw new Error(`Failed to stage re-parse: ${error.message}`);
+      return (data?.length ?? 0) > 0;
+    });
+
+    if (!isStaged) {
+      return { success: false, violationId, stagingId, reason: 'Re-parse is no longer pending' };
+    }
+
+    return { success: true, violationId, stagingId };
+  },
+);
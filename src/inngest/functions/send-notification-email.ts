@@ -1,11 +1,14 @@
 import { inngest } from '../client';
 import { createAdminClient } from '@/lib/supabase/server';
-import { sendEmail, submissionConfirmationEmail } from '@/lib/email';
+import { sendEmail, submissionConfirmationEmail, aiBudgetReachedEmail, dobResponseEmail } from '@/lib/email';
+import { RESPONSE_LABELS } from '@/lib/dob-responses';
 
 /**
  * Event-driven function that sends emails when certain events occur:
  * - Submission created → confirmation email to org PMs/owners
  * - Status change → notification email (if user has it enabled)
+ * - Monthly AI budget reached → alert email to org owners/admins
+ * - DOB response read from email → email to the violation's PM
  */
 export const sendNotificationEmail = inngest.createFunction(
   {
@@ -67,6 +70,87 @@ export const sendNotificationEmail = inngest.createFunction(
       });
     }
 
+    if (type === 'ai_budget_reached') {
+      await step.run('send-ai-budget-email', async () => {
+        const { org_id, month_to_date_usd, budget_usd, action } = payload;
+
+        const { data: admins } = await supabase
+          .from('profiles')
+          .select('full_name, email')
+          .eq('org_id', org_id)
+          .in('role', ['OWNER', 'ADMIN']);
+
+        if (!admins) return;
+
+        for (const admin of admins) {
+          if (!admin.email) continue;
+
+          const emailContent = aiBudgetReachedEmail({
+            recipientName: admin.full_name || 'Team Member',
+            monthToDateUsd: month_to_date_usd,
+            budgetUsd: budget_usd,
+            action,
+            settingsLink: `${appUrl}/settings?tab=ai-usage`,
+          });
+
+          try {
+            await sendEmail({
+              to: admin.email,
+              subject: emailContent.subject,
+              html: emailContent.html,
+            });
+          } catch (err) {
+            console.error(`Failed to send AI budget email to ${admin.email}:`, err);
+          }
+        }
+      });
+    }
+
+    if (type === 'dob_response') {
+      await step.run('send-dob-response-email', async () => {
+        const { violation_id, recipient_ids, response_status, applied } = payload;
+
+        const { data: violation } = await supabase
+          .from('violations')
+          .select('notice_id, infraction_address')
+          .eq('id', violation_id)
+          .single();
+
+        if (!violation) return;
+
+        const { data: recipients } = await supabase
+          .from('profiles')
+          .select('full_name, email, settings')
+          .in('id', recipient_ids);
+
+        if (!recipients) return;
+
+        for (const recipient of recipients) {
+          const settings = (recipient.settings as Record<string, boolean> | null) || {};
+          if (settings.email_status_changes === false) continue;
+          if (!recipient.email) continue;
+
+          const emailContent = dobResponseEmail({
+            recipientName: recipient.full_name || 'Team Member',
+            violationAddress: violation.infraction_address || 'Unknown',
+            noticeId: violation.notice_id || 'N/A',
+            responseLabel: applied && response_status ? RESPONSE_LABELS[response_status as keyof typeof RESPONSE_LABELS] : null,
+            violationLink: `${appUrl}/dashboard/${violation_id}`,
+          });
+
+          try {
+            await sendEmail({
+              to: recipient.email,
+              subject: emailContent.subject,
+              html: emailContent.html,
+            });
+          } catch (err) {
+            console.error(`Failed to send DOB response email to ${recipient.email}:`, err);
+          }
+        }
+      });
+    }
+
     return { success: true, type };
   },
 );
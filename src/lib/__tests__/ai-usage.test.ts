@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { monthStart, readBudgetSettings, summarizeUsage, recordAIUsage } from '../ai/usage';
+
+function makeMock(data: unknown) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'insert', 'update', 'eq', 'in', 'gte'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown) => Promise.resolve({ data, error: null }).then(resolve));
+  chain.single = vi.fn().mockResolvedValue({ data, error: null });
+  return chain;
+}
+
+const mockFrom = vi.fn();
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => ({ from: mockFrom }),
+}));
+
+const mockSend = vi.fn();
+vi.mock('@/inngest/client', () => ({
+  inngest: { send: (...args: unknown[]) => mockSend(...args) },
+}));
+
+const usage = { prompt_tokens: 1000, output_tokens: 200, thoughts_tokens: 0, total_tokens: 1200, cost_usd: 0.4 };
+
+describe('monthStart', () => {
+  it('returns the first instant of the UTC month', () => {
+    expect(monthStart(new Date('2025-08-19T15:30:00Z'))).toBe('2025-08-01T00:00:00.000Z');
+  });
+});
+
+describe('readBudgetSettings', () => {
+  it('defaults to no cap and pausing', () => {
+    expect(readBudgetSettings({})).toEqual({ budget_usd: null, action: 'pause' });
+    expect(readBudgetSettings(null)).toEqual({ budget_usd: null, action: 'pause' });
+  });
+
+  it('reads a budget and the manual fallback, ignoring junk', () => {
+    expect(readBudgetSettings({ ai_monthly_budget_usd: 50, ai_budget_action: 'manual' }))
+      .toEqual({ budget_usd: 50, action: 'manual' });
+    expect(readBudgetSettings({ ai_monthly_budget_usd: 'lots' }).budget_usd).toBeNull();
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('groups ledger rows by feature, most expensive first', () => {
+    const summary = summarizeUsage([
+      { feature: 'photo_verification', total_tokens: 500, cost_usd: '0.010000' },
+      { feature: 'noi_parse', total_tokens: 9000, cost_usd: '0.120000' },
+      { feature: 'noi_parse', total_tokens: 8000, cost_usd: 0.1 },
+    ]);
+
+    expect(summary.map((r) => r.feature)).toEqual(['noi_parse', 'photo_verification']);
+    expect(summary[0]).toMatchObject({ calls: 2, total_tokens: 17000 });
+    expect(summary[0].cost_usd).toBeCloseTo(0.22);
+  });
+});
+
+describe('recordAIUsage', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('skips replayed fixture calls', async () => {
+    await recordAIUsage({ orgId: 'org-1', feature: 'noi_parse', provider: 'fixture', model: 'gemini-2.5-flash', usage });
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('alerts owners and admins once when the budget is reached', async () => {
+    const ledgerInsert = makeMock(null);
+    const orgUpdate = makeMock(null);
+    const notifications = makeMock(null);
+    mockFrom
+      .mockReturnValueOnce(ledgerInsert)
+      .mockReturnValueOnce(makeMock({ settings: { ai_monthly_budget_usd: 1 } })) // budget status: org
+      .mockReturnValueOnce(makeMock([{ cost_usd: '0.700000' }, { cost_usd: '0.400000' }])) // budget status: ledger
+      .mockReturnValueOnce(makeMock({ settings: { ai_monthly_budget_usd: 1 } })) // alert: org
+      .mockReturnValueOnce(orgUpdate)
+      .mockReturnValueOnce(makeMock([{ id: 'owner-1' }, { id: 'admin-1' }]))
+      .mockReturnValueOnce(notifications);
+
+    await recordAIUsage({
+      orgId: 'org-1', feature: 'noi_parse', provider: 'gemini', model: 'gemini-2.5-flash', usage, violationId: 'v-1',
+    });
+
+    expect(ledgerInsert.insert).toHaveBeenCalledWith(expect.objectContaining({
+      org_id: 'org-1', feature: 'noi_parse', total_tokens: 1200, cost_usd: 0.4, violation_id: 'v-1',
+    }));
+    expect(orgUpdate.update).toHaveBeenCalledWith({
+      settings: { ai_monthly_budget_usd: 1, ai_budget_alerted_month: monthStart().slice(0, 7) },
+    });
+    expect(notifications.insert.mock.calls[0][0]).toHaveLength(2);
+    expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ type: 'ai_budget_reached' }),
+    }));
+  });
+
+  it('does not alert again in the same month', async () => {
+    const alreadyAlerted = { ai_monthly_budget_usd: 1, ai_budget_alerted_month: monthStart().slice(0, 7) };
+    mockFrom
+      .mockReturnValueOnce(makeMock(null))
+      .mockReturnValueOnce(makeMock({ settings: alreadyAlerted }))
+      .mockReturnValueOnce(makeMock([{ cost_usd: 2 }]))
+      .mockReturnValueOnce(makeMock({ settings: alreadyAlerted }));
+
+    await recordAIUsage({ orgId: 'org-1', feature: 'noi_parse', provider: 'gemini', model: 'gemini-2.5-flash', usage });
+
+    expect(mockFrom).toHaveBeenCalledTimes(4);
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
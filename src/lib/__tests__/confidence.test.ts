@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { scoreParseConfidence, isLowConfidence, CONFIDENCE_THRESHOLD } from '../ai/confidence';
+import type { NOIParseResult, TextLayerCheck } from '../ai/schemas';
+
+const parsed: NOIParseResult = {
+  notice_level_data: {
+    notice_id: '25NOIE-INS-05478',
+    respondent: 'YOKE LEBAUM LLC',
+    infraction_address: '551 LEBAUM ST SE, Unit:300',
+    date_of_service: '08/19/2025',
+    total_fines: '$625.00',
+  },
+  work_orders: [{
+    item_number: 1,
+    violation_code: 'IPMC § 605.1',
+    priority: 1,
+    abatement_deadline: '1 Day',
+    fine: '$625.00',
+    violation_description: 'Failure to install electrical equipment',
+    specific_location: 'Sleeping Room',
+    floor_number: '1',
+    date_of_infraction: '08/08/2025',
+    time_of_infraction: '09:58 PM',
+    task_description: 'Repair ceiling fan',
+  }],
+};
+
+const agreeingCheck: TextLayerCheck = {
+  available: true,
+  fields_compared: 8,
+  fields_matched: 8,
+  compared_fields: [
+    'notice_id', 'respondent', 'infraction_address', 'date_of_service', 'total_fines',
+    'item_count', 'violation_code#1', 'fine#1',
+  ],
+  disagreements: [],
+};
+
+describe('scoreParseConfidence', () => {
+  it('scores cross-checked fields high and does not need review', () => {
+    const result = scoreParseConfidence(parsed, agreeingCheck);
+
+    expect(result.notice.notice_id.score).toBe(99);
+    expect(result.items['1'].violation_code.score).toBe(99);
+    expect(result.items['1'].violation_description.score).toBe(80);
+    expect(result.needs_review).toBe(false);
+    expect(result.threshold).toBe(CONFIDENCE_THRESHOLD);
+  });
+
+  it('leaves a blank task description out of the review decision', () => {
+    const edited = structuredClone(parsed);
+    edited.work_orders[0].task_description = '';
+
+    const result = scoreParseConfidence(edited, agreeingCheck);
+
+    expect(result.items['1'].task_description).toBeUndefined();
+    expect(result.needs_review).toBe(false);
+  });
+
+  it('flags empty fields and items without codes', () => {
+    const edited = structuredClone(parsed);
+    edited.work_orders[0].violation_code = '';
+
+    const result = scoreParseConfidence(edited);
+
+    expect(result.items['1'].violation_code).toEqual({ score: 0, reason: 'Not extracted' });
+    expect(result.needs_review).toBe(true);
+    expect(result.low_confidence_count).toBe(1);
+  });
+
+  it('flags malformed values', () => {
+    const edited = structuredClone(parsed);
+    edited.notice_level_data.date_of_service = 'August 19';
+
+    const result = scoreParseConfidence(edited);
+
+    expect(result.notice.date_of_service.score).toBe(40);
+    expect(isLowConfidence(result, 'date_of_service')).toBe(true);
+  });
+
+  it('flags fields the text layer contradicts', () => {
+    const check: TextLayerCheck = {
+      ...agreeingCheck,
+      fields_matched: 6,
+      disagreements: [
+        { field: 'fine', item_number: 1, ai_value: '$625.00', text_value: '$1,250.00' },
+        { field: 'item_count', ai_value: '1', text_value: '2' },
+      ],
+    };
+
+    const result = scoreParseConfidence(parsed, check);
+
+    expect(result.items['1'].fine).toEqual({ score: 30, reason: 'PDF text reads "$1,250.00"' });
+    expect(result.notice.item_count.score).toBe(30);
+    expect(isLowConfidence(result, 'fine', 1)).toBe(true);
+    expect(isLowConfidence(result, 'violation_code', 1)).toBe(false);
+    expect(result.low_confidence_count).toBe(2);
+  });
+});
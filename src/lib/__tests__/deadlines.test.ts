@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DEADLINE_RULES,
+  computeItemDeadline,
+  dcHolidays,
+  earliestOpenDeadline,
+  isBusinessDay,
+  parseDeadlineText,
+  readDeadlineRules,
+  validateDeadlineRules,
+  type DeadlineRules,
+} from '../deadlines';
+
+const business: DeadlineRules = { ...DEFAULT_DEADLINE_RULES, counting: 'business' };
+
+describe('parseDeadlineText', () => {
+  it('reads day and hour periods', () => {
+    expect(parseDeadlineText('60 Days')).toEqual({ amount: 60, unit: 'days' });
+    expect(parseDeadlineText('1 Day')).toEqual({ amount: 1, unit: 'days' });
+    expect(parseDeadlineText('24 Hours')).toEqual({ amount: 24, unit: 'hours' });
+    expect(parseDeadlineText('Immediately')).toBeNull();
+    expect(parseDeadlineText(null)).toBeNull();
+  });
+});
+
+describe('dcHolidays', () => {
+  it('lists observed DC holidays, shifting weekend dates', () => {
+    expect(dcHolidays(2026)).toEqual([
+      '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-16', '2026-05-25', '2026-06-19',
+      '2026-07-03', // July 4 is a Saturday
+      '2026-09-07', '2026-10-12', '2026-11-11', '2026-11-26', '2026-12-25',
+    ]);
+  });
+
+  it('adds Inauguration Day after presidential elections', () => {
+    expect(dcHolidays(2025)).toContain('2025-01-20');
+    expect(dcHolidays(2025)).toHaveLength(12); // coincides with MLK Day
+    expect(dcHolidays(2033)).toContain('2033-01-20');
+  });
+
+  it('lists a New Year\'s Day observed on Dec 31 in the year it falls', () => {
+    expect(dcHolidays(2027)).toContain('2027-12-31'); // Jan 1 2028 is a Saturday
+    expect(dcHolidays(2028)).not.toContain('2027-12-31');
+    expect(dcHolidays(2028)).not.toContain('2028-01-01');
+    expect(isBusinessDay('2027-12-31')).toBe(false);
+  });
+});
+
+describe('computeItemDeadline', () => {
+  it('counts calendar days from the date of service by default', () => {
+    expect(computeItemDeadline('2025-08-19', '1 Day')).toBe('2025-08-20');
+    expect(computeItemDeadline('2026-01-15', '60 Days')).toBe('2026-03-16');
+  });
+
+  it('rounds hour periods up to whole calendar days', () => {
+    expect(computeItemDeadline('2025-08-19', '24 Hours')).toBe('2025-08-20');
+    expect(computeItemDeadline('2025-08-19', '36 Hours', business)).toBe('2025-08-21');
+  });
+
+  it('falls back to the 60-day routine deadline for unreadable text', () => {
+    expect(computeItemDeadline('2026-01-15', '')).toBe('2026-03-16');
+  });
+
+  it('needs a date of service', () => {
+    expect(computeItemDeadline(null, '60 Days')).toBeNull();
+    expect(computeItemDeadline('08/19/2025', '60 Days')).toBeNull();
+  });
+
+  it('skips weekends and DC holidays when counting business days', () => {
+    // Fri Jul 2 2026 + 1 business day: Jul 3 (observed July 4) and the weekend are skipped
+    expect(computeItemDeadline('2026-07-02', '1 Day', business)).toBe('2026-07-06');
+    expect(computeItemDeadline('2026-07-02', '1 Day', { ...business, observe_dc_holidays: false })).toBe('2026-07-03');
+    expect(computeItemDeadline('2026-07-06', '1 Day', { ...business, extra_holidays: ['2026-07-07'] })).toBe('2026-07-08');
+  });
+
+  it('optionally rolls calendar deadlines off weekends and holidays', () => {
+    const roll = { ...DEFAULT_DEADLINE_RULES, roll_to_business_day: true };
+    // Thu Dec 24 2026 + 1 day = Christmas, then the weekend
+    expect(computeItemDeadline('2026-12-24', '1 Day')).toBe('2026-12-25');
+    expect(computeItemDeadline('2026-12-24', '1 Day', roll)).toBe('2026-12-28');
+  });
+});
+
+describe('isBusinessDay', () => {
+  it('excludes weekends and holidays', () => {
+    expect(isBusinessDay('2026-04-16')).toBe(false); // DC Emancipation Day
+    expect(isBusinessDay('2026-04-18')).toBe(false); // Saturday
+    expect(isBusinessDay('2026-04-17')).toBe(true);
+  });
+});
+
+describe('earliestOpenDeadline', () => {
+  it('takes the earliest deadline among open items', () => {
+    expect(earliestOpenDeadline([
+      { abatement_deadline: '2025-08-20', status: 'abated' },
+      { abatement_deadline: '2025-10-18', status: 'open' },
+      { abatement_deadline: '2025-09-01', status: 'in_repair' },
+    ])).toBe('2025-09-01');
+  });
+
+  it('keeps the earliest overall once every item is abated', () => {
+    expect(earliestOpenDeadline([
+      { abatement_deadline: '2025-10-18', status: 'abated' },
+      { abatement_deadline: '2025-08-20', status: 'abated' },
+    ])).toBe('2025-08-20');
+    expect(earliestOpenDeadline([])).toBeNull();
+  });
+});
+
+describe('readDeadlineRules / validateDeadlineRules', () => {
+  it('defaults missing or invalid settings', () => {
+    expect(readDeadlineRules(null)).toEqual(DEFAULT_DEADLINE_RULES);
+    expect(readDeadlineRules({ deadline_rules: { counting: 'business', extra_holidays: ['2026-12-24', 'soon'] } }))
+      .toEqual({ ...business, extra_holidays: ['2026-12-24'] });
+  });
+
+  it('rejects malformed payloads', () => {
+    expect(validateDeadlineRules({ counting: 'business', roll_to_business_day: true })).toBeNull();
+    expect(validateDeadlineRules({ counting: 'weekly' })).toMatch(/counting/);
+    expect(validateDeadlineRules({ observe_dc_holidays: 'yes' })).toMatch(/observe_dc_holidays/);
+    expect(validateDeadlineRules({ extra_holidays: ['12/24/2026'] })).toMatch(/extra_holidays/);
+    expect(validateDeadlineRules([])).toMatch(/object/);
+  });
+});
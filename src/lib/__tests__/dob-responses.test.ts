@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { detectDobResponse, recordDobResponse } from '../dob-responses';
+
+function makeMock(data: unknown, row: unknown = null) {
+  const result = { data, error: null };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'insert', 'update', 'eq', 'not', 'in', 'order', 'limit'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown) => Promise.resolve(result).then(resolve));
+  chain.single = vi.fn().mockResolvedValue({ data: row, error: null });
+  chain.maybeSingle = vi.fn().mockResolvedValue({ data: row, error: null });
+  return chain;
+}
+
+const mockAdminFrom = vi.fn();
+const mockSend = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => ({ from: mockAdminFrom }),
+}));
+
+vi.mock('@/inngest/client', () => ({
+  inngest: { send: (...args: unknown[]) => mockSend(...args) },
+}));
+
+const mockTransition = vi.fn();
+const mockApplyResponse = vi.fn();
+vi.mock('@/lib/violation-transitions', () => ({
+  transitionViolation: (...args: unknown[]) => mockTransition(...args),
+  applyResponseToItems: (...args: unknown[]) => mockApplyResponse(...args),
+}));
+
+const approval = {
+  subject: 'RE: Abatement submission 25NOIE-INS-05478',
+  body: 'Good afternoon,\nThe abatement has been approved. No further action is required.\nDOB Compliance',
+};
+
+const submission: {
+  id: string;
+  violation_id: string;
+  confirmation_number: string | null;
+  response_status: string;
+  responded_at?: string;
+} = {
+  id: 'sub-1',
+  violation_id: 'v-1',
+  confirmation_number: 'DOB-2026-12345',
+  response_status: 'PENDING',
+};
+
+const violation = { id: 'v-1', status: 'SUBMITTED', notice_id: '25NOIE-INS-05478', assigned_to: 'pm-1' };
+
+let tables: Record<string, ReturnType<typeof makeMock>>;
+
+function setupTables(submissionRow: typeof submission) {
+  tables = {
+    submissions: makeMock([submissionRow], submissionRow),
+    violations: makeMock([{ id: 'v-1' }], violation),
+    audit_log: makeMock(null),
+    profiles: makeMock([{ id: 'owner-1' }]),
+    notifications: makeMock(null),
+  };
+  mockAdminFrom.mockImplementation((table: string) => tables[table]);
+}
+
+function email(overrides: Partial<typeof approval> = {}) {
+  return {
+    ...approval,
+    ...overrides,
+    from: 'compliance@dc.gov',
+    received_at: '2026-03-02T15:00:00.000Z',
+    message_id: 'm-1',
+  };
+}
+
+describe('detectDobResponse', () => {
+  it('reads an approval and the notice it quotes', () => {
+    expect(detectDobResponse(approval)).toMatchObject({
+      status: 'APPROVED',
+      candidates: ['APPROVED'],
+      notice_ids: ['25NOIE-INS-05478'],
+      excerpt: 'The abatement has been approved.',
+    });
+  });
+
+  it('reads rejections and requests for more information', () => {
+    expect(detectDobResponse({ subject: 'Submission', body: 'We are unable to approve the submission.' })?.status)
+      .toBe('REJECTED');
+    expect(detectDobResponse({ subject: 'Submission', body: 'Please provide additional photographs of the repair.' })?.status)
+      .toBe('ADDITIONAL_INFO_REQUESTED');
+  });
+
+  it('ignores mail that is not a response and leaves mixed signals undecided', () => {
+    expect(detectDobResponse({ subject: 'Notice of Infraction', body: 'See the attached notice.' })).toBeNull();
+
+    const mixed = detectDobResponse({
+      subject: 'Submission',
+      body: 'The abatement was approved for item 1. We are unable to approve item 2.',
+    });
+    expect(mixed?.status).toBeNull();
+    expect(mixed?.candidates).toEqual(['APPROVED', 'REJECTED']);
+  });
+});
+
+describe('recordDobResponse', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupTables(submission);
+    mockTransition.mockResolvedValue({ ok: true, from: 'SUBMITTED', changed: true, violation: { ...violation, status: 'APPROVED' } });
+  });
+
+  it('applies a clear response to a pending submission and notifies the assigned PM', async () => {
+    const result = await recordDobResponse({
+      orgId: 'org-1',
+      email: email({ subject: 'Confirmation DOB-2026-12345 for 25NOIE-INS-05478', body: 'Your abatement was approved.' }),
+    });
+
+    expect(result).toEqual({ submission_id: 'sub-1', violation_id: 'v-1', status: 'APPROVED', applied: true });
+    expect(tables.submissions.update).toHaveBeenCalledWith(expect.objectContaining({
+      response_status: 'APPROVED',
+      responded_at: '2026-03-02T15:00:00.000Z',
+      proposed_response: null,
+    }));
+    expect(mockTransition).toHaveBeenCalledWith('v-1', 'APPROVED', { orgId: 'org-1', force: true });
+    expect(mockApplyResponse).toHaveBeenCalledWith('v-1', 'APPROVED');
+    expect(tables.submissions.in).toHaveBeenCalledWith('confirmation_number', expect.arrayContaining(['DOB-2026-12345']));
+    expect(tables.audit_log.insert).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'DOB_RESPONSE',
+      new_values: expect.objectContaining({ status: 'APPROVED' }),
+    }));
+    expect(tables.notifications.insert).toHaveBeenCalledWith([
+      expect.objectContaining({ user_id: 'pm-1', title: 'DOB response: Approved', link: '/dashboard/v-1' }),
+    ]);
+    expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ type: 'dob_response' }),
+    }));
+  });
+
+  it('proposes instead of applying when only the confirmation number matches', async () => {
+    const result = await recordDobResponse({
+      orgId: 'org-1',
+      email: email({ subject: 'Confirmation DOB-2026-12345', body: 'Your abatement was approved.' }),
+    });
+
+    expect(result?.applied).toBe(false);
+    expect(tables.submissions.update).toHaveBeenCalledWith({ proposed_response: expect.objectContaining({ status: 'APPROVED' }) });
+    expect(mockTransition).not.toHaveBeenCalled();
+    expect(mockApplyResponse).not.toHaveBeenCalled();
+  });
+
+  it('leaves the items and audits the status kept when the move is blocked', async () => {
+    mockTransition.mockResolvedValue({
+      ok: false,
+      block: { code: 'STATUS_CHANGED', message: 'The status changed', from: 'SUBMITTED', to: 'APPROVED' },
+    });
+
+    const result = await recordDobResponse({ orgId: 'org-1', email: email() });
+
+    expect(result?.applied).toBe(true);
+    expect(mockApplyResponse).not.toHaveBeenCalled();
+    expect(tables.audit_log.insert).toHaveBeenCalledWith(expect.objectContaining({
+      new_values: expect.objectContaining({ status: 'SUBMITTED' }),
+    }));
+  });
+
+  it('proposes a response for a submission that already has one', async () => {
+    setupTables({ ...submission, confirmation_number: null, response_status: 'REJECTED' });
+
+    const result = await recordDobResponse({ orgId: 'org-1', email: email() });
+
+    expect(result?.applied).toBe(false);
+    expect(tables.submissions.update).toHaveBeenCalledWith({
+      proposed_response: expect.objectContaining({
+        status: 'APPROVED',
+        email: expect.objectContaining({ subject: approval.subject, message_id: 'm-1' }),
+      }),
+    });
+    expect(mockTransition).not.toHaveBeenCalled();
+    expect(mockApplyResponse).not.toHaveBeenCalled();
+    expect(tables.notifications.insert).toHaveBeenCalledWith([
+      expect.objectContaining({ title: 'DOB response needs review' }),
+    ]);
+  });
+
+  it('records an email that reached two connected mailboxes once', async () => {
+    setupTables({ ...submission, response_status: 'APPROVED', responded_at: '2026-03-02T15:00:00+00:00' });
+
+    const result = await recordDobResponse({ orgId: 'org-1', email: email() });
+
+    expect(result).toEqual({ submission_id: 'sub-1', violation_id: 'v-1', status: 'APPROVED', applied: true });
+    expect(tables.submissions.update).not.toHaveBeenCalled();
+    expect(tables.notifications.insert).not.toHaveBeenCalled();
+  });
+
+  it('returns null when no submission is referenced', async () => {
+    const result = await recordDobResponse({
+      orgId: 'org-1',
+      email: email({ subject: 'RE: your request', body: 'The abatement has been approved.' }),
+    });
+
+    expect(result).toBeNull();
+    expect(tables.submissions.update).not.toHaveBeenCalled();
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
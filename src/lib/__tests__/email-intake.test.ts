@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { importEmailPdfs } from '../email-intake';
+
+function makeMock(data: unknown, error: unknown = null) {
+  const result = { data, error };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'insert', 'eq'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown) => Promise.resolve(result).then(resolve));
+  chain.single = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockAdminFrom = vi.fn();
+const mockUpload = vi.fn();
+const mockSend = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => ({
+    from: mockAdminFrom,
+    storage: { from: () => ({ upload: mockUpload }) },
+  }),
+}));
+
+vi.mock('@/inngest/client', () => ({
+  inngest: { send: (...args: unknown[]) => mockSend(...args) },
+}));
+
+vi.mock('@/lib/pdf-fingerprint', () => ({
+  fingerprintPdf: vi.fn().mockResolvedValue({ pdf_sha256: 'abc', pdf_text_sha256: null }),
+  findPdfDuplicate: vi.fn().mockResolvedValue(null),
+}));
+
+const connection = { id: 'conn-1', org_id: 'org-1' };
+const message = {
+  messageId: 'm-1',
+  from: 'inspections@dc.gov',
+  subject: 'Notices of Infraction',
+  receivedAt: '2025-08-19T18:02:00.000Z',
+};
+
+function pdf(filename: string) {
+  return { filename, load: vi.fn().mockResolvedValue(Buffer.from(`%PDF ${filename}`)) };
+}
+
+let tables: Record<string, ReturnType<typeof makeMock>>;
+
+function setupTables(loggedRows: unknown[] = []) {
+  tables = {
+    email_sync_log: makeMock(loggedRows),
+    violations: makeMock({ id: 'v-new' }),
+  };
+  mockAdminFrom.mockImplementation((table: string) => tables[table]);
+}
+
+describe('importEmailPdfs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpload.mockResolvedValue({ error: null });
+    setupTables();
+  });
+
+  it('imports each PDF on its own log row, renaming repeated file names', async () => {
+    const onImported = vi.fn().mockResolvedValue(undefined);
+
+    const outcomes = await importEmailPdfs(
+      connection,
+      message,
+      [pdf('scan.pdf'), pdf('scan.pdf'), pdf('25NOIE-INS-05478.pdf')],
+      { onImported },
+    );
+
+    expect(outcomes.map((o) => o.status)).toEqual(['processed', 'processed', 'processed']);
+    expect(mockUpload.mock.calls.map((c) => c[0])).toEqual([
+      'org-1/email-imports/m-1/scan.pdf',
+      'org-1/email-imports/m-1/scan_2_.pdf',
+      'org-1/email-imports/m-1/25NOIE-INS-05478.pdf',
+    ]);
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(expect.objectContaining({
+      attachment_name: 'scan (2).pdf',
+      status: 'processed',
+    }));
+    expect(mockSend).toHaveBeenCalledTimes(3);
+    expect(onImported).toHaveBeenCalledTimes(1);
+  });
+
+  it('finishes a message an earlier sync only got partway through', async () => {
+    setupTables([{ attachment_name: 'first.pdf' }]);
+    const first = pdf('first.pdf');
+
+    const outcomes = await importEmailPdfs(connection, message, [first, pdf('second.pdf')]);
+
+    expect(outcomes).toHaveLength(1);
+    expect(first.load).not.toHaveBeenCalled();
+    expect(tables.email_sync_log.insert).toHaveBeenCalledTimes(1);
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(expect.objectContaining({ attachment_name: 'second.pdf' }));
+  });
+
+  it('logs a message-level skip once', async () => {
+    const outcomes = await importEmailPdfs(connection, message, [pdf('invoice.pdf')], {
+      skipReason: 'Subject matches no include rule',
+    });
+
+    expect(outcomes).toEqual([{ violationId: null, status: 'skipped', error: 'Subject matches no include rule' }]);
+    expect(tables.email_sync_log.insert).toHaveBeenCalledWith(expect.objectContaining({
+      attachment_name: '',
+      status: 'skipped',
+    }));
+    expect(mockUpload).not.toHaveBeenCalled();
+
+    setupTables([{ attachment_name: '' }]);
+    expect(await importEmailPdfs(connection, message, [])).toEqual([]);
+    expect(tables.email_sync_log.insert).not.toHaveBeenCalled();
+  });
+});
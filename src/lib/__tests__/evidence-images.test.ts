@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectPhotoRegion,
+  evidenceImageOf,
+  evidenceImagePaths,
+  thumbnailSize,
+  type PixelData,
+} from '../evidence-images';
+
+/** A white RGBA page */
+function page(width: number, height: number): PixelData {
+  return { data: new Uint8ClampedArray(width * height * 4).fill(255), width, height };
+}
+
+function fill(pixels: PixelData, x0: number, y0: number, w: number, h: number, shade: number) {
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      const i = (y * pixels.width + x) * 4;
+      pixels.data[i] = shade;
+      pixels.data[i + 1] = shade;
+      pixels.data[i + 2] = shade;
+    }
+  }
+}
+
+/** Lines of 2px-stroke "text": sparse ink that should never read as a photo */
+function text(pixels: PixelData, x0: number, y0: number, w: number, lines: number) {
+  for (let line = 0; line < lines; line++) {
+    for (let x = x0; x < x0 + w; x += 6) fill(pixels, x, y0 + line * 24, 2, 12, 0);
+  }
+}
+
+describe('detectPhotoRegion', () => {
+  it('crops to the photo and ignores the header and caption text', () => {
+    const pixels = page(640, 800);
+    text(pixels, 32, 16, 560, 3);
+    fill(pixels, 100, 160, 400, 300, 90);
+    text(pixels, 32, 560, 480, 4);
+
+    expect(detectPhotoRegion(pixels)).toEqual({ x: 80, y: 144, width: 432, height: 336 });
+  });
+
+  it('keeps the largest photo when the page has a small logo too', () => {
+    const pixels = page(640, 800);
+    fill(pixels, 16, 16, 48, 48, 20);
+    fill(pixels, 160, 320, 320, 256, 140);
+
+    const crop = detectPhotoRegion(pixels)!;
+    expect(crop.x).toBeGreaterThan(64);
+    expect(crop.y).toBeGreaterThan(64);
+  });
+
+  it('returns null for a page with no photo-sized region', () => {
+    const pixels = page(640, 800);
+    text(pixels, 32, 32, 560, 20);
+    fill(pixels, 16, 700, 48, 48, 20);
+
+    expect(detectPhotoRegion(pixels)).toBeNull();
+  });
+});
+
+describe('thumbnailSize', () => {
+  it('scales to the thumbnail width but never upscales', () => {
+    expect(thumbnailSize(1280, 960)).toEqual({ width: 320, height: 240 });
+    expect(thumbnailSize(200, 100)).toEqual({ width: 200, height: 100 });
+  });
+});
+
+describe('evidenceImageOf', () => {
+  const image = { ...evidenceImagePaths('org-1', 'v-1', 6), width: 400, height: 300, crop: null };
+
+  it('reads the stored image from an inspector photo', () => {
+    expect(image.path).toBe('org-1/evidence/v-1/page-6.jpg');
+    expect(evidenceImageOf({ photo_type: 'INSPECTOR', metadata: { image } })).toEqual(image);
+  });
+
+  it('ignores photos that were never extracted and contractor uploads', () => {
+    expect(evidenceImageOf({ photo_type: 'INSPECTOR', metadata: { description: 'Ceiling' } })).toBeNull();
+    expect(evidenceImageOf({ photo_type: 'AFTER', metadata: { image } })).toBeNull();
+  });
+});
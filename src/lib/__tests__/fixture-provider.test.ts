@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createFixtureProvider, withFixtureRecording, sha256 } from '../ai/fixture-provider';
+import type { AIProvider } from '../ai/provider';
+import type { ParseNOIResponse, AnalyzePagesResponse } from '../ai/gemini';
+
+const PDF = Buffer.from('%PDF-1.4 fake noi');
+
+const usage = { prompt_tokens: 1000, output_tokens: 500, thoughts_tokens: 0, total_tokens: 1500, cost_usd: 0.00045 };
+
+const parseResponse: ParseNOIResponse = {
+  parsed: {
+    notice_level_data: {
+      notice_id: '25NOIR-INS-07709',
+      respondent: 'YOKE LEBAUM LLC',
+      infraction_address: '557 LEBAUM ST SE, Unit: 103',
+      date_of_service: '01/15/2026',
+      total_fines: '$625.00',
+    },
+    work_orders: [{
+      item_number: 1,
+      violation_code: '12-G DCMR § 309.1',
+      priority: 2,
+      abatement_deadline: '60 Days',
+      fine: '$625.00',
+      violation_description: 'Damaged ceiling',
+      specific_location: 'Sleeping Room',
+      floor_number: 'Interior',
+      date_of_infraction: '01/10/2026',
+      time_of_infraction: '10:24 PM',
+      task_description: 'Repair ceiling',
+    }],
+  },
+  meta: {
+    raw_response_length: 1234,
+    model: 'gemini-2.5-flash',
+    pdf_size_bytes: PDF.length,
+    work_order_count: 1,
+    validation: {
+      has_notice_id: true, has_respondent: true, has_address: true, has_date: true,
+      has_fines: true, all_items_have_code: true, all_items_have_description: true,
+    },
+    usage,
+  },
+};
+
+const pagesResponse: AnalyzePagesResponse = {
+  analysis: {
+    pages: [
+      { page_number: 1, violation_code: null, description: 'Cover page', is_evidence_photo: false },
+      { page_number: 2, violation_code: '12-G DCMR § 309.1', description: 'Photo of ceiling', is_evidence_photo: true },
+    ],
+  },
+  meta: {
+    raw_response_length: 321,
+    model: 'gemini-2.5-flash',
+    pdf_size_bytes: PDF.length,
+    total_pages: 2,
+    evidence_photo_count: 1,
+    pages_with_codes: 1,
+    usage,
+  },
+};
+
+describe('fixture AI provider', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'ai-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded extraction keyed by PDF hash with zero cost', async () => {
+    await writeFile(
+      path.join(dir, `${sha256(PDF)}.json`),
+      JSON.stringify({ pdf_sha256: sha256(PDF), recorded_at: '2026-01-01T00:00:00Z', parse_noi: parseResponse }),
+    );
+
+    const result = await createFixtureProvider(dir).parseNOIPdf(PDF);
+
+    expect(result.parsed).toEqual(parseResponse.parsed);
+    expect(result.meta.model).toBe('fixture:gemini-2.5-flash');
+    expect(result.meta.usage.cost_usd).toBe(0);
+    expect(result.meta.validation.all_items_have_code).toBe(true);
+  });
+
+  it('recomputes validation from hand-edited fixture data', async () => {
+    const edited = structuredClone(parseResponse);
+    edited.parsed.work_orders[0].violation_code = '';
+    await writeFile(
+      path.join(dir, `${sha256(PDF)}.json`),
+      JSON.stringify({ pdf_sha256: sha256(PDF), recorded_at: '2026-01-01T00:00:00Z', parse_noi: edited }),
+    );
+
+    const result = await createFixtureProvider(dir).parseNOIPdf(PDF);
+
+    expect(result.meta.validation.all_items_have_code).toBe(false);
+  });
+
+  it('throws a descriptive error when no fixture exists for the PDF', async () => {
+    await expect(createFixtureProvider(dir).parseNOIPdf(PDF)).rejects.toThrow(sha256(PDF));
+  });
+
+  it('approves photo verification deterministically when nothing was recorded', async () => {
+    const result = await createFixtureProvider(dir).verifyPhotoAngle('after', 'inspector');
+
+    expect(result.result.isMatch).toBe(true);
+    expect(result.result.confidence).toBe(100);
+    expect(result.meta.usage.cost_usd).toBe(0);
+  });
+
+  it('keeps extractions scoped to one notice of a multi-notice PDF separate', async () => {
+    const live: AIProvider = {
+      name: 'gemini',
+      parseNOIPdf: async () => parseResponse,
+      analyzePdfPages: async () => pagesResponse,
+      verifyPhotoAngle: async () => { throw new Error('not used'); },
+    };
+
+    await withFixtureRecording(live, dir).parseNOIPdf(PDF, { start: 3, end: 5 });
+
+    const replay = createFixtureProvider(dir);
+    const scoped = await replay.parseNOIPdf(PDF, { start: 3, end: 5 });
+    expect(scoped.parsed.notice_level_data.notice_id).toBe('25NOIR-INS-07709');
+    await expect(replay.parseNOIPdf(PDF)).rejects.toThrow('no recorded NOI extraction');
+    await expect(replay.parseNOIPdf(PDF, { start: 1, end: 2 })).rejects.toThrow('for pages 1-2');
+  });
+
+  it('records live responses so they can be replayed', async () => {
+    const live: AIProvider = {
+      name: 'gemini',
+      parseNOIPdf: async () => parseResponse,
+      analyzePdfPages: async () => pagesResponse,
+      verifyPhotoAngle: async () => { throw new Error('not used'); },
+    };
+
+    const recorder = withFixtureRecording(live, dir);
+    await recorder.parseNOIPdf(PDF);
+    await recorder.analyzePdfPages(PDF);
+
+    const saved = JSON.parse(await readFile(path.join(dir, `${sha256(PDF)}.json`), 'utf8'));
+    expect(saved.parse_noi.parsed.notice_level_data.notice_id).toBe('25NOIR-INS-07709');
+    expect(saved.analyze_pages.analysis.pages).toHaveLength(2);
+
+    const replayed = await createFixtureProvider(dir).analyzePdfPages(PDF);
+    expect(replayed.meta.evidence_photo_count).toBe(1);
+  });
+});
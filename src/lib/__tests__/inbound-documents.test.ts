@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { classifyDocumentText, isRoutedDocument, routeInboundDocument } from '../inbound-documents';
+
+const mockAdminFrom = vi.fn();
+vi.mock('../supabase/server', () => ({
+  createAdminClient: () => ({ from: mockAdminFrom }),
+}));
+
+const mockTransition = vi.fn();
+const mockApplyResponse = vi.fn();
+vi.mock('../violation-transitions', () => ({
+  transitionViolation: (...args: unknown[]) => mockTransition(...args),
+  applyResponseToItems: (...args: unknown[]) => mockApplyResponse(...args),
+}));
+
+function makeMock(data: unknown, error: unknown = null) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'insert', 'update', 'eq', 'neq', 'order', 'limit', 'single', 'maybeSingle'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown) => Promise.resolve({ data, error }).then(resolve));
+  return chain;
+}
+
+const noiPage = [
+  'NOTICE OF INFRACTION 08/19/2025',
+  '25NOIE-INS-05478',
+  'Location of Infraction:',
+  '1234 Good Hope Rd SE',
+  'Violation:',
+  'Repair the ceiling. You may request a hearing at the Office of Administrative Hearings.',
+  'Abate in',
+  '30 Days',
+].join('\n');
+
+const approvalLetter = [
+  'Department of Buildings',
+  'RE: Notice of Infraction 25NOIE-INS-05478',
+  'The abatement has been approved. The property was found to be in compliance.',
+  'No further action is required.',
+].join('\n');
+
+describe('classifyDocumentText', () => {
+  it('keeps an NOI an NOI even though its boilerplate mentions hearings', () => {
+    const result = classifyDocumentText([noiPage]);
+    expect(result.type).toBe('NOI');
+    expect(result.reference_notice_id).toBe('25NOIE-INS-05478');
+  });
+
+  it('recognises DOB correspondence and the notice it refers to', () => {
+    expect(classifyDocumentText([approvalLetter])).toMatchObject({
+      type: 'APPROVAL_LETTER',
+      reference_notice_id: '25NOIE-INS-05478',
+    });
+    expect(classifyDocumentText(['Notice of Reinspection for 25NOIR-INS-07709. Reinspection is scheduled for 11/03/2025.']).type)
+      .toBe('REINSPECTION_NOTICE');
+    expect(classifyDocumentText(['NOTICE OF CIVIL FINE 25NOIE-INS-05478 Amount due: $1,500.00']).type).toBe('FINE_NOTICE');
+    expect(classifyDocumentText(['Notice of Hearing. Your hearing is scheduled for 12/01/2025 at the Office of Administrative Hearings.']).type)
+      .toBe('HEARING_NOTICE');
+  });
+
+  it('falls back to the email subject for scanned PDFs', () => {
+    const result = classifyDocumentText([''], { subject: 'Reinspection Notice - 25NOIR-INS-07709', filename: 'scan.pdf' });
+    expect(result).toMatchObject({ type: 'REINSPECTION_NOTICE', reference_notice_id: '25NOIR-INS-07709', has_text: false });
+  });
+
+  it('leaves unrecognised documents UNKNOWN so they are parsed as NOIs', () => {
+    const result = classifyDocumentText(['', ''], { filename: 'upload.pdf' });
+    expect(result.type).toBe('UNKNOWN');
+    expect(isRoutedDocument(result)).toBe(false);
+  });
+});
+
+describe('routeInboundDocument', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const approval = { ...classifyDocumentText([approvalLetter]), type: 'APPROVAL_LETTER' as const };
+
+  it('files an approval letter and approves the latest submission and the violation', async () => {
+    const violationQuery = makeMock([{ id: 'v-1', status: 'SUBMITTED' }]);
+    const documentInsert = makeMock({ id: 'doc-1' });
+    const submissionQuery = makeMock({ id: 'sub-1', response_status: 'PENDING' });
+    const submissionUpdate = makeMock(null);
+    const auditInsert = makeMock(null);
+    mockAdminFrom
+      .mockReturnValueOnce(violationQuery)
+      .mockReturnValueOnce(documentInsert)
+      .mockReturnValueOnce(submissionQuery)
+      .mockReturnValueOnce(submissionUpdate)
+      .mockReturnValueOnce(auditInsert);
+
+    const routed = await routeInboundDocument({
+      orgId: 'org-1',
+      classification: approval,
+      storagePath: 'org-1/email-imports/m-1/approval.pdf',
+      source: 'email',
+      intakeViolationId: 'v-new',
+    });
+
+    expect(routed).toEqual({ violation_id: 'v-1', document_id: 'doc-1', submission_id: 'sub-1' });
+    expect(violationQuery.eq).toHaveBeenCalledWith('notice_id', '25NOIE-INS-05478');
+    expect(violationQuery.neq).toHaveBeenCalledWith('id', 'v-new');
+    expect(documentInsert.insert).toHaveBeenCalledWith(expect.objectContaining({
+      violation_id: 'v-1',
+      document_type: 'APPROVAL_LETTER',
+      intake_violation_id: 'v-new',
+    }));
+    expect(submissionUpdate.update).toHaveBeenCalledWith(expect.objectContaining({ response_status: 'APPROVED' }));
+    expect(mockTransition).toHaveBeenCalledWith('v-1', 'APPROVED', { orgId: 'org-1', force: true });
+    expect(mockApplyResponse).toHaveBeenCalledWith('v-1', 'APPROVED');
+    expect(auditInsert.insert).toHaveBeenCalledWith(expect.objectContaining({
+      record_id: 'v-1',
+      action: 'DOCUMENT_RECEIVED',
+    }));
+  });
+
+  it('returns null when no violation has the referenced notice', async () => {
+    mockAdminFrom.mockReturnValueOnce(makeMock([]));
+
+    const routed = await routeInboundDocument({
+      orgId: 'org-1',
+      classification: approval,
+      storagePath: 'org-1/approval.pdf',
+      source: 'parser',
+    });
+
+    expect(routed).toBeNull();
+    expect(mockAdminFrom).toHaveBeenCalledTimes(1);
+  });
+});
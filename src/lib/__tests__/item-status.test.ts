@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countItemStatuses,
+  isItemOutstanding,
+  isItemStatus,
+  itemStage,
+  itemStatusesBefore,
+  itemStatusLabel,
+  rolledUpStatuses,
+} from '../item-status';
+
+const items = (...statuses: string[]) => statuses.map((status) => ({ status }));
+
+describe('rolledUpStatuses', () => {
+  it('reaches nothing while every item is open', () => {
+    expect(rolledUpStatuses(items('open', 'open'))).toEqual([]);
+    expect(rolledUpStatuses([])).toEqual([]);
+  });
+
+  it('is in progress as soon as one item is past open', () => {
+    expect(rolledUpStatuses(items('open', 'in_repair'))).toEqual(['IN_PROGRESS']);
+    expect(rolledUpStatuses(items('open', 'photo_approved'))).toEqual(['IN_PROGRESS']);
+  });
+
+  it('needs every item for the photo milestones', () => {
+    expect(rolledUpStatuses(items('photo_uploaded', 'photo_approved'))).toEqual(['IN_PROGRESS', 'PHOTOS_UPLOADED']);
+    expect(rolledUpStatuses(items('photo_approved', 'abated'))).toEqual(['IN_PROGRESS', 'PHOTOS_UPLOADED', 'READY_FOR_SUBMISSION']);
+  });
+
+  it('leaves disputed items out', () => {
+    expect(rolledUpStatuses(items('photo_approved', 'disputed'))).toEqual(['IN_PROGRESS', 'PHOTOS_UPLOADED', 'READY_FOR_SUBMISSION']);
+    expect(rolledUpStatuses(items('disputed', 'disputed'))).toEqual([]);
+  });
+});
+
+describe('item status helpers', () => {
+  it('lists the statuses an item can advance from', () => {
+    expect(itemStatusesBefore('open')).toEqual([]);
+    expect(itemStatusesBefore('photo_approved')).toEqual(['open', 'in_repair', 'photo_uploaded']);
+    expect(itemStatusesBefore('disputed')).toEqual([]);
+  });
+
+  it('reads statuses written before items were tracked', () => {
+    expect(itemStatusLabel('in_progress')).toBe('In Repair');
+    expect(itemStage('resolved')).toBe(itemStage('abated'));
+    expect(isItemOutstanding('resolved')).toBe(false);
+    expect(isItemStatus('resolved')).toBe(false);
+  });
+
+  it('counts items per status in lifecycle order', () => {
+    expect(countItemStatuses(items('abated', 'open', 'disputed', 'open'))).toEqual([
+      { status: 'open', count: 2 },
+      { status: 'abated', count: 1 },
+      { status: 'disputed', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MAILBOX_RULES,
+  FORWARDED_MAILBOX_RULES,
+  buildGmailQuery,
+  matchMessage,
+  readMailboxRules,
+  senderMatches,
+  unmatchedReason,
+  validateMailboxRules,
+} from '../mailbox-rules';
+
+const dobEmail = {
+  from: 'DOB Enforcement <noi@dob.dc.gov>',
+  subject: 'Notice of Infraction 25NOIE-INS-05478',
+  labels: ['INBOX'],
+  attachments: ['25NOIE-INS-05478.pdf'],
+};
+
+describe('readMailboxRules', () => {
+  it('falls back to the defaults for an empty or malformed column', () => {
+    expect(readMailboxRules({})).toEqual(DEFAULT_MAILBOX_RULES);
+    expect(readMailboxRules({ include_senders: 'dc.gov', max_results: 9000 })).toEqual(DEFAULT_MAILBOX_RULES);
+  });
+
+  it('keeps saved lists, including empty ones', () => {
+    const rules = readMailboxRules({ include_senders: [' assistant@owner.com ', ''], include_subjects: [] });
+    expect(rules.include_senders).toEqual(['assistant@owner.com']);
+    expect(rules.include_subjects).toEqual([]);
+    expect(rules.max_results).toBe(20);
+  });
+});
+
+describe('validateMailboxRules', () => {
+  it('rejects wrong types and out-of-range limits', () => {
+    expect(validateMailboxRules([])).toBe('rules must be an object');
+    expect(validateMailboxRules({ exclude_labels: [1] })).toMatch(/exclude_labels/);
+    expect(validateMailboxRules({ max_results: 0 })).toMatch(/max_results/);
+    expect(validateMailboxRules({ include_senders: ['@dc.gov'], max_results: 50 })).toBeNull();
+  });
+});
+
+describe('buildGmailQuery', () => {
+  it('reproduces the original hardcoded search from the defaults', () => {
+    expect(buildGmailQuery(DEFAULT_MAILBOX_RULES, '2025/08/19')).toBe(
+      'from:(@dc.gov OR @dcra.dc.gov OR "Department of Buildings") ' +
+      'subject:(NOI OR "Notice of Infraction" OR "housing violation" OR "code violation") ' +
+      'has:attachment after:2025/08/19',
+    );
+  });
+
+  it('adds labels and exclusions', () => {
+    const rules = readMailboxRules({
+      include_senders: ['assistant@owner.com'],
+      include_subjects: [],
+      include_labels: ['DOB Notices'],
+      exclude_subjects: ['Out of office'],
+    });
+    expect(buildGmailQuery(rules)).toBe(
+      'from:assistant@owner.com label:dob-notices -subject:"Out of office" has:attachment',
+    );
+  });
+});
+
+describe('matchMessage', () => {
+  it('matches senders by domain, subdomain, address or name', () => {
+    expect(senderMatches('noi@dob.dc.gov', '@dc.gov')).toBe(true);
+    expect(senderMatches('noi@notdc.gov', '@dc.gov')).toBe(false);
+    expect(senderMatches('Clerk <CLERK@dc.gov>', 'clerk@dc.gov')).toBe(true);
+    expect(senderMatches('Department of Buildings <x@y.com>', 'department of buildings')).toBe(true);
+  });
+
+  it('matches a DOB email with the defaults and explains why', () => {
+    const match = matchMessage(dobEmail, DEFAULT_MAILBOX_RULES);
+    expect(match.matched).toBe(true);
+    expect(match.attachments).toEqual(['25NOIE-INS-05478.pdf']);
+    expect(match.reasons.map(r => r.text)).toEqual([
+      'Sender matches "@dc.gov"',
+      'Subject matches "Notice of Infraction"',
+    ]);
+  });
+
+  it('matches subject words whole, like Gmail', () => {
+    const match = matchMessage({ ...dobEmail, subject: 'Noise complaint' }, DEFAULT_MAILBOX_RULES);
+    expect(match.matched).toBe(false);
+    expect(unmatchedReason(match)).toBe('Subject matches no include rule');
+  });
+
+  it('applies exclude, label and attachment rules', () => {
+    const rules = readMailboxRules({
+      exclude_subjects: ['Reminder'],
+      exclude_labels: ['DOB-Processed'],
+      include_attachments: ['25NOI*.pdf'],
+    });
+    expect(unmatchedReason(matchMessage({ ...dobEmail, subject: 'NOI Reminder' }, rules)))
+      .toBe('Subject matches exclude rule "Reminder"');
+    expect(matchMessage({ ...dobEmail, labels: ['INBOX', 'DOB-Processed'] }, rules).matched).toBe(false);
+    expect(unmatchedReason(matchMessage({ ...dobEmail, attachments: ['invoice.pdf'] }, rules)))
+      .toBe('No PDF attachment matches the attachment rules');
+    expect(matchMessage({ ...dobEmail, attachments: ['cover.pdf', '25NOIE-1.pdf'] }, rules).attachments)
+      .toEqual(['25NOIE-1.pdf']);
+  });
+
+  it('ignores label rules for sources without labels and accepts forwarded mail by default', () => {
+    const forwarded = { from: 'assistant@owner.com', subject: 'Fwd: scan', labels: null, attachments: ['scan.pdf'] };
+    expect(matchMessage(forwarded, readMailboxRules({}, FORWARDED_MAILBOX_RULES)).matched).toBe(true);
+    expect(matchMessage(forwarded, readMailboxRules({ include_labels: ['NOI'] }, FORWARDED_MAILBOX_RULES)).matched)
+      .toBe(true);
+    expect(unmatchedReason(matchMessage({ ...forwarded, attachments: [] }, FORWARDED_MAILBOX_RULES)))
+      .toBe('No PDF attachment found');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { decodeEncodedWords, parseEmail, pdfAttachments } from '../mime';
+
+const pdf = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37, 0x0a, 0xe2, 0xe3, 0xcf, 0xd3]);
+
+describe('parseEmail', () => {
+  it('reads headers and a base64 PDF from a multipart message', () => {
+    const email = parseEmail([
+      'From: inspections@dc.gov',
+      'Subject: NOI',
+      '  25NOIE-INS-05478',
+      'Date: Tue, 19 Aug 2025 14:02:00 -0400',
+      'Message-ID: <abc@dc.gov>',
+      'Content-Type: multipart/mixed; boundary=outer',
+      '',
+      'preamble',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary="inner"',
+      '',
+      '--inner',
+      'Content-Type: text/plain',
+      '',
+      'See attached.',
+      '--inner--',
+      '--outer',
+      'Content-Type: application/octet-stream',
+      'Content-Disposition: attachment; filename="Notice.PDF"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      pdf.toString('base64').replace(/(.{8})/g, '$1\r\n'),
+      '--outer--',
+    ].join('\r\n'));
+
+    expect(email).toMatchObject({
+      messageId: 'abc@dc.gov',
+      from: 'inspections@dc.gov',
+      subject: 'NOI 25NOIE-INS-05478',
+      date: '2025-08-19T18:02:00.000Z',
+      text: 'See attached.',
+    });
+    expect(pdfAttachments(email)).toEqual([
+      { filename: 'Notice.PDF', contentType: 'application/octet-stream', data: pdf },
+    ]);
+  });
+
+  it('finds the PDF inside a message forwarded as an attachment', () => {
+    const forwarded = [
+      'Subject: Notice of Infraction',
+      'Content-Type: multipart/mixed; boundary=fwd',
+      '',
+      '--fwd',
+      "Content-Type: application/pdf; name*=UTF-8''Avis%C3%A9.pdf",
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '%PDF-1.4 =E2=80=94 page',
+      '--fwd--',
+    ].join('\n');
+    const email = parseEmail([
+      'Subject: FW: Notice of Infraction',
+      'Content-Type: multipart/mixed; boundary=top',
+      '',
+      '--top',
+      'Content-Type: message/rfc822',
+      '',
+      forwarded,
+      '--top--',
+    ].join('\n'));
+
+    const [attachment] = pdfAttachments(email);
+    expect(attachment.filename).toBe('Avisé.pdf');
+    expect(attachment.data.toString('utf8')).toBe('%PDF-1.4 — page');
+  });
+
+  it('ignores attachments that are not PDFs', () => {
+    const email = parseEmail([
+      'Content-Type: multipart/mixed; boundary=b',
+      '',
+      '--b',
+      'Content-Type: image/png; name="logo.png"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'iVBORw0KGgo=',
+      '--b--',
+    ].join('\r\n'));
+    expect(email.attachments).toHaveLength(1);
+    expect(pdfAttachments(email)).toEqual([]);
+  });
+
+  it('reads the body of an HTML-only message as text', () => {
+    const email = parseEmail([
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '<p>Your abatement for 25NOIE-INS-05478 has been <b>approved</b>.</p><p>No further action&nbsp;is required.</p>',
+    ].join('\r\n'));
+    expect(email.text).toBe('Your abatement for 25NOIE-INS-05478 has been approved.\nNo further action is required.');
+  });
+});
+
+describe('decodeEncodedWords', () => {
+  it('decodes base64 and Q words and joins adjacent ones', () => {
+    expect(decodeEncodedWords('=?UTF-8?B?Tk9J?= =?ISO-8859-1?Q?_r=E9inspection?=')).toBe('NOI réinspection');
+  });
+});
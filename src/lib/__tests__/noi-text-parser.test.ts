@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { parseNOIText, crossCheckNOIParse, findNoticeBoundaries } from '../noi-text-parser';
+import type { NOIParseResult } from '../ai/schemas';
+
+// Text layer as extracted from docs/sample-nois/25NOIE-INS-05478 (cover + violation page)
+const COVER_PAGE = `GOVERNMENT OF THE DISTRICT OF COLUMBIA
+NOTICE OF INFRACTION
+Page 1 of 8
+Notice Number:
+Date of Service:
+25NOIE-INS-05478
+161185
+08/19/2025
+CERTIFICATE OF SERVICE
+Notice of Infraction Number: 25NOIE-INS-05478`;
+
+const violationPage = (items: string) => `Page 4 of 8
+Notice Number:
+Date of Service:
+25NOIE-INS-05478
+GOVERNMENT OF THE DISTRICT OF COLUMBIA
+NOTICE OF INFRACTION 08/19/2025
+Location of Infraction:
+Respondent Name
+Mailing Address
+Email Address
+551 LEBAUM ST SE, Unit:300
+Charge as Respondent (check) X Yes No
+Type of Location: Vacant Lot/Property Construction Site OccupiedX
+YOKE LEBAUM LLC
+7375 EXECUTIVE PL STE 201
+Priority 1 Violations have been deemed by DOB to be life-safety hazards and must be abated in one (1) day).
+D.C. Official Code AND/OR D.C. Municipal Regulation Citation
+${items}
+Answer: ADMIT (Pay Fine) DENY (Appear for Hearing) ADMIT WITH EXPLANATION (See Back)
+$1,250.00
+If you fail to answer each charge on this Notice within the required timeframe, you may be subject to a penalty.
+Total Fines and Penalties:`;
+
+const ITEM_1 = `$625.00IPMC § 605.1
+Fine for Infraction PenaltyPriority
+1
+Abate in
+1 Day
+Violation: Failure to install electrical equipment, wiring, or appliances in a safe and approved manner
+Location: Sleeping Room Floor Number: 1
+Notes: Repair ceiling fan to be stable on Mount when using the pull strings to turn fan off and on .
+Item#:
+1
+Time of Infraction:
+Signature:
+Date of Infration: 08/08/2025 09:58 PM`;
+
+const ITEM_2 = `$625.00 12-G DCMR § 309.1
+Fine for Infraction PenaltyPriority
+2
+Abate in
+60 Days
+Violation: Damaged ceiling
+Location: Kitchen Floor Number: Interior
+Notes: Patch and paint
+ceiling.
+Item#:
+2
+Date of Infration: 08/08/2025 10:04 PM`;
+
+describe('parseNOIText', () => {
+  it('extracts notice-level fields from the DOB template labels', () => {
+    const result = parseNOIText([COVER_PAGE, violationPage(ITEM_1)]);
+
+    expect(result.notice_level_data).toEqual({
+      notice_id: '25NOIE-INS-05478',
+      respondent: 'YOKE LEBAUM LLC',
+      infraction_address: '551 LEBAUM ST SE, Unit:300',
+      date_of_service: '08/19/2025',
+      total_fines: '$1,250.00',
+    });
+  });
+
+  it('extracts each violation block', () => {
+    const result = parseNOIText([COVER_PAGE, violationPage(`${ITEM_1}\n${ITEM_2}`)]);
+
+    expect(result.work_orders).toHaveLength(2);
+    expect(result.work_orders[0]).toEqual({
+      item_number: 1,
+      violation_code: 'IPMC § 605.1',
+      priority: 1,
+      abatement_deadline: '1 Day',
+      fine: '$625.00',
+      violation_description: 'Failure to install electrical equipment, wiring, or appliances in a safe and approved manner',
+      specific_location: 'Sleeping Room',
+      floor_number: '1',
+      date_of_infraction: '08/08/2025',
+      time_of_infraction: '09:58 PM',
+      task_description: 'Repair ceiling fan to be stable on Mount when using the pull strings to turn fan off and on .',
+    });
+    expect(result.work_orders[1]).toMatchObject({
+      item_number: 2,
+      violation_code: '12-G DCMR § 309.1',
+      priority: 2,
+      abatement_deadline: '60 Days',
+      task_description: 'Patch and paint ceiling.',
+    });
+  });
+
+  it('returns empty fields when the template labels are missing', () => {
+    const result = parseNOIText(['scanned page with no labels']);
+
+    expect(result.notice_level_data.notice_id).toBe('');
+    expect(result.notice_level_data.infraction_address).toBe('');
+    expect(result.work_orders).toEqual([]);
+  });
+});
+
+describe('crossCheckNOIParse', () => {
+  const textResult = parseNOIText([COVER_PAGE, violationPage(`${ITEM_1}\n${ITEM_2}`)]);
+
+  function aiResult(): NOIParseResult {
+    return structuredClone(textResult);
+  }
+
+  it('reports full agreement after normalizing formatting differences', () => {
+    const ai = aiResult();
+    ai.notice_level_data.infraction_address = '551 Lebaum Street SE, Unit: 300';
+    ai.notice_level_data.total_fines = '$1250';
+    ai.work_orders[0].violation_code = 'IPMC §605.1';
+    ai.work_orders[1].abatement_deadline = '60 days';
+    ai.work_orders[1].violation_description = 'Reworded by the model';
+
+    const check = crossCheckNOIParse(ai, textResult);
+
+    expect(check.available).toBe(true);
+    expect(check.disagreements).toEqual([]);
+    expect(check.fields_matched).toBe(check.fields_compared);
+  });
+
+  it('records field-level disagreements with both values', () => {
+    const ai = aiResult();
+    ai.notice_level_data.date_of_service = '08/18/2025';
+    ai.work_orders[1].fine = '$1,000.00';
+    ai.work_orders[1].priority = 3;
+
+    const check = crossCheckNOIParse(ai, textResult);
+
+    expect(check.disagreements).toEqual([
+      { field: 'date_of_service', ai_value: '08/18/2025', text_value: '08/19/2025' },
+      { field: 'fine', item_number: 2, ai_value: '$1,000.00', text_value: '$625.00' },
+      { field: 'priority', item_number: 2, ai_value: '3', text_value: '2' },
+    ]);
+  });
+
+  it('flags a missing item through the item count', () => {
+    const ai = aiResult();
+    ai.work_orders.pop();
+
+    const check = crossCheckNOIParse(ai, textResult);
+
+    expect(check.disagreements).toEqual([{ field: 'item_count', ai_value: '1', text_value: '2' }]);
+  });
+
+  it('does not count fields the text layer could not read', () => {
+    const check = crossCheckNOIParse(aiResult(), parseNOIText(['no labels here']));
+
+    expect(check.fields_compared).toBe(0);
+    expect(check.disagreements).toEqual([]);
+  });
+});
+
+describe('findNoticeBoundaries', () => {
+  const page = (noticeId: string, n: number, of: number) => `Page ${n} of ${of}\nNotice Number:\n${noticeId}`;
+
+  it('treats a single-notice PDF as one range', () => {
+    const pages = [COVER_PAGE, page('25NOIE-INS-05478', 2, 3), page('25NOIE-INS-05478', 3, 3)];
+
+    expect(findNoticeBoundaries(pages)).toEqual([{ notice_id: '25NOIE-INS-05478', start: 1, end: 3 }]);
+  });
+
+  it('starts a new notice when the notice ID changes and keeps unlabeled pages with the previous one', () => {
+    const pages = [
+      page('25NOIE-INS-05478', 1, 2),
+      page('25NOIE-INS-05478', 2, 2),
+      'Blank Page',
+      page('25NOIR-INS-07709', 1, 2),
+      page('25NOIR-INS-07709', 2, 2),
+    ];
+
+    expect(findNoticeBoundaries(pages)).toEqual([
+      { notice_id: '25NOIE-INS-05478', start: 1, end: 3 },
+      { notice_id: '25NOIR-INS-07709', start: 4, end: 5 },
+    ]);
+  });
+
+  it('splits on a restarted page counter even when the ID repeats', () => {
+    const pages = [page('25NOIE-INS-05478', 1, 1), page('25NOIE-INS-05478', 1, 1)];
+
+    expect(findNoticeBoundaries(pages).map((n) => [n.start, n.end])).toEqual([[1, 1], [2, 2]]);
+  });
+});
@@ -0,0 +1,148 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  compareNOI,
+  summarizeAccuracy,
+  findRegressions,
+  postProcessNOI,
+  evaluateCorpus,
+  aiExtractor,
+  textLayerExtractor,
+  formatReport,
+  type EvalReport,
+  type ExpectedNOI,
+} from '../parser-eval';
+import { createFixtureProvider } from '../ai/fixture-provider';
+import { getAIProvider, getFixtureDir } from '../ai/provider';
+import type { NOIParseResult } from '../ai/schemas';
+
+const parsed: NOIParseResult = {
+  notice_level_data: {
+    notice_id: '25NOIR-INS-07709',
+    respondent: 'YOKE LEBAUM LLC',
+    infraction_address: '557 LEBAUM ST SE, Unit: 103',
+    date_of_service: '01/15/2026',
+    total_fines: '$2,358.00',
+  },
+  work_orders: [{
+    item_number: 1,
+    violation_code: '12-G DCMR § 309.1',
+    priority: 2,
+    abatement_deadline: '60 Days',
+    fine: '$2,358.00',
+    violation_description: 'Damaged ceiling',
+    specific_location: 'Sleeping Room',
+    floor_number: 'Interior',
+    date_of_infraction: '01/10/2026',
+    time_of_infraction: '10:00 AM',
+    task_description: 'Repair ceiling',
+  }],
+};
+
+describe('compareNOI', () => {
+  it('matches a post-processed extraction against itself on every field', () => {
+    const processed = postProcessNOI(parsed);
+    const comparisons = compareNOI(processed, processed);
+
+    expect(comparisons.every(c => c.matched)).toBe(true);
+    expect(processed.violation.total_fines).toBe(2358);
+    expect(processed.address).toEqual({ street: '557 lebaum street se', unit: '103' });
+  });
+
+  it('reports a post-processing regression as a per-field miss', () => {
+    const expected = postProcessNOI(parsed);
+    const actual = postProcessNOI(parsed);
+    // e.g. "2,358.00" read with the comma as the decimal separator
+    actual.items[0].fine = 235800;
+
+    const misses = compareNOI(expected, actual).filter(c => !c.matched);
+    expect(misses).toEqual([
+      { field: 'item.fine', item_number: 1, expected: 2358, actual: 235800, matched: false },
+    ]);
+  });
+
+  it('ignores whitespace differences but not content', () => {
+    const expected = postProcessNOI(parsed);
+    const actual = postProcessNOI({
+      ...parsed,
+      work_orders: [{ ...parsed.work_orders[0], task_description: '  Repair   ceiling\n' }],
+    });
+
+    expect(compareNOI(expected, actual).every(c => c.matched)).toBe(true);
+  });
+
+  it('counts every field of a missed item and flags the item count', () => {
+    const expected = postProcessNOI(parsed);
+    const actual: ExpectedNOI = { ...expected, items: [] };
+
+    const misses = compareNOI(expected, actual).filter(c => !c.matched);
+    expect(misses.map(m => m.field)).toContain('items.count');
+    expect(misses.filter(m => m.field.startsWith('item.'))).toHaveLength(11);
+  });
+});
+
+describe('summarizeAccuracy / findRegressions', () => {
+  it('aggregates per field and flags fields below baseline', () => {
+    const { fields, overall } = summarizeAccuracy([
+      { field: 'item.fine', expected: 1, actual: 1, matched: true },
+      { field: 'item.fine', expected: 2, actual: 3, matched: false },
+      { field: 'violation.notice_id', expected: 'A', actual: 'A', matched: true },
+    ]);
+
+    expect(fields['item.fine']).toEqual({ compared: 2, matched: 1, accuracy: 0.5 });
+    expect(overall.accuracy).toBeCloseTo(2 / 3);
+
+    const report: EvalReport = { extractor: 'test', documents: [], fields, overall };
+    expect(findRegressions(report, { 'item.fine': 1, 'violation.notice_id': 1, 'address.unit': 1 })).toEqual([
+      { field: 'item.fine', baseline: 1, accuracy: 0.5 },
+    ]);
+  });
+});
+
+/**
+ * Golden corpus: docs/sample-nois (or PARSER_EVAL_CORPUS). Accuracy per field
+ * must not drop below accuracy-baseline.json. Run `npm run eval:parser` to see
+ * the report; set UPDATE_PARSER_BASELINE=true to accept a new baseline.
+ */
+describe('golden corpus', () => {
+  const corpusDir = process.env.PARSER_EVAL_CORPUS || path.join(process.cwd(), 'docs', 'sample-nois');
+  const baselinePath = path.join(corpusDir, 'accuracy-baseline.json');
+
+  async function checkAgainstBaseline(report: EvalReport) {
+    console.log(formatReport(report));
+
+    const baselines = JSON.parse(await readFile(baselinePath, 'utf8').catch(() => '{}')) as
+      Record<string, Record<string, number>>;
+
+    if (process.env.UPDATE_PARSER_BASELINE === 'true') {
+      baselines[report.extractor] = Object.fromEntries(
+        Object.entries(report.fields).map(([field, entry]) => [field, entry.accuracy]),
+      );
+      await writeFile(baselinePath, JSON.stringify(baselines, null, 2) + '\n');
+      return;
+    }
+
+    expect(report.documents.filter(d => d.status === 'error')).toEqual([]);
+    expect(findRegressions(report, baselines[report.extractor] || {})).toEqual([]);
+  }
+
+  it('text-layer extraction holds its baseline', async () => {
+    const report = await evaluateCorpus(corpusDir, 'text_layer', textLayerExtractor);
+    expect(report.overall.compared).toBeGreaterThan(0);
+    await checkAgainstBaseline(report);
+  });
+
+  it('recorded AI extraction holds its baseline', async () => {
+    // AI_RECORD_FIXTURES=true calls Gemini live and records any missing responses
+    const provider = process.env.AI_RECORD_FIXTURES === 'true'
+      ? getAIProvider()
+      : createFixtureProvider(getFixtureDir());
+    const report = await evaluateCorpus(corpusDir, 'ai', aiExtractor(provider));
+    // Documents without a recording are listed in the report but not scored;
+    // the committed recordings in fixtures/ai must score at least one
+    expect(report.overall.compared).toBeGreaterThan(0);
+    await checkAgainstBaseline(report);
+  });
+});
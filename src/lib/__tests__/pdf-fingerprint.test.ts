@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fingerprintPdf, findPdfDuplicate } from '../pdf-fingerprint';
+
+const mockExtract = vi.fn();
+vi.mock('../pdf/extract-text', () => ({
+  extractPdfText: (...args: unknown[]) => mockExtract(...args),
+  hasTextLayer: (pages: string[]) => pages.join('').replace(/\s+/g, '').length > 200,
+}));
+
+const mockAdminFrom = vi.fn();
+vi.mock('../supabase/server', () => ({
+  createAdminClient: () => ({ from: mockAdminFrom }),
+}));
+
+function makeMock(data: unknown) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'eq', 'neq', 'not', 'or', 'order', 'limit'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown) => Promise.resolve({ data, error: null }).then(resolve));
+  return chain;
+}
+
+const noticeText = 'NOTICE OF INFRACTION 08/19/2025 25NOIE-INS-05478 '.repeat(10);
+
+describe('fingerprintPdf', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('gives re-saved copies different byte hashes but the same text hash', async () => {
+    mockExtract.mockResolvedValueOnce([noticeText]);
+    const original = await fingerprintPdf(Buffer.from('%PDF-1.4 original'));
+
+    mockExtract.mockResolvedValueOnce([noticeText.toLowerCase().replace(/ /g, '  \n')]);
+    const resaved = await fingerprintPdf(Buffer.from('%PDF-1.7 resaved by mail client'));
+
+    expect(original.pdf_sha256).not.toBe(resaved.pdf_sha256);
+    expect(original.pdf_text_sha256).toBe(resaved.pdf_text_sha256);
+  });
+
+  it('leaves the text hash empty for scanned or unreadable PDFs', async () => {
+    mockExtract.mockResolvedValueOnce(['', '']);
+    expect((await fingerprintPdf(Buffer.from('scan'))).pdf_text_sha256).toBeNull();
+
+    mockExtract.mockRejectedValueOnce(new Error('Invalid PDF structure'));
+    const broken = await fingerprintPdf(Buffer.from('broken'));
+    expect(broken.pdf_text_sha256).toBeNull();
+    expect(broken.pdf_sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('findPdfDuplicate', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('prefers a byte-identical match over a text match', async () => {
+    const chain = makeMock([
+      { id: 'v-text', notice_id: '25NOIE-INS-05478', status: 'PARSED', pdf_sha256: 'other' },
+      { id: 'v-exact', notice_id: '25NOIE-INS-05478', status: 'PARSED', pdf_sha256: 'abc' },
+    ]);
+    mockAdminFrom.mockReturnValueOnce(chain);
+
+    const match = await findPdfDuplicate('org-1', { pdf_sha256: 'abc', pdf_text_sha256: 'def' });
+
+    expect(chain.or).toHaveBeenCalledWith('pdf_sha256.eq.abc,pdf_text_sha256.eq.def');
+    expect(match).toEqual({ violation_id: 'v-exact', notice_id: '25NOIE-INS-05478', status: 'PARSED', match: 'exact' });
+  });
+
+  it('reports a text match and returns null when nothing matches', async () => {
+    mockAdminFrom.mockReturnValueOnce(makeMock([
+      { id: 'v-text', notice_id: null, status: 'NEW', pdf_sha256: 'other' },
+    ]));
+    expect((await findPdfDuplicate('org-1', { pdf_sha256: 'abc', pdf_text_sha256: 'def' }))?.match).toBe('text');
+
+    const chain = makeMock([]);
+    mockAdminFrom.mockReturnValueOnce(chain);
+    expect(await findPdfDuplicate('org-1', { pdf_sha256: 'abc', pdf_text_sha256: null })).toBeNull();
+    expect(chain.or).toHaveBeenCalledWith('pdf_sha256.eq.abc');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { matchEvidencePages, scorePhotoMatch, MATCH_THRESHOLD, type MatchableItem } from '../photo-matching';
+
+function item(overrides: Partial<MatchableItem> = {}): MatchableItem {
+  return {
+    id: 'item-1',
+    item_number: 1,
+    violation_code: 'IPMC § 605.1',
+    code_id: null,
+    specific_location: 'Sleeping Room',
+    floor_number: '1',
+    task_description: 'Repair ceiling fan to be stable on mount',
+    ...overrides,
+  };
+}
+
+const items = [
+  item(),
+  item({ id: 'item-2', item_number: 2, violation_code: '12-G DCMR § 309.1', specific_location: 'Kitchen', floor_number: '2', task_description: 'Patch ceiling' }),
+  item({ id: 'item-3', item_number: 3, violation_code: '12-G DCMR § 309.1', specific_location: 'Bathroom', floor_number: '2', task_description: 'Patch ceiling' }),
+];
+
+describe('scorePhotoMatch', () => {
+  it('explains each signal that contributed', () => {
+    const candidate = scorePhotoMatch(
+      { page_number: 6, violation_code: 'IPMC §605.1', description: 'Ceiling fan in sleeping room, 1st floor' },
+      items[0],
+      { pageRank: 0, itemRank: 0 },
+    );
+
+    expect(candidate.signals).toEqual({ code: 1, location: 1, floor: 1, order: 1 });
+    expect(candidate.score).toBe(1);
+    expect(candidate.reasons).toEqual([
+      'Code matches IPMC § 605.1',
+      'Description mentions "Sleeping Room"',
+      'Same floor (1)',
+      'Page order fits item #1',
+    ]);
+  });
+
+  it('gives partial credit to a misread code', () => {
+    const candidate = scorePhotoMatch(
+      { page_number: 6, violation_code: 'IPMC 6O5.1', description: '' },
+      items[0],
+      { pageRank: 0, itemRank: 0 },
+    );
+    expect(candidate.signals.code).toBeGreaterThan(0.8);
+    expect(candidate.signals.code).toBeLessThan(1);
+    expect(candidate.score).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+  });
+
+  it('credits a catalog alias as an exact code match', () => {
+    const candidate = scorePhotoMatch(
+      { page_number: 6, violation_code: 'Sec 605.1 IPMC', description: '' },
+      item({ code_id: 'code-605' }),
+      { pageRank: 0, itemRank: 1, pageEntry: { id: 'code-605', code: 'IPMC § 605.1', aliases: ['Sec 605.1 IPMC'], remediation_task: null } },
+    );
+    expect(candidate.signals.code).toBe(1);
+  });
+});
+
+describe('matchEvidencePages', () => {
+  it('separates items that share a code by location, floor and page order', () => {
+    const matches = matchEvidencePages([
+      { page_number: 6, violation_code: 'IPMC § 605.1', description: 'Ceiling fan loose' },
+      { page_number: 7, violation_code: '12-G DCMR § 309.1', description: 'Hole in kitchen ceiling' },
+      { page_number: 8, violation_code: '12-G DCMR § 309.1', description: 'Water-stained ceiling, bathroom' },
+    ], items);
+
+    expect(matches.map(m => m.item_id)).toEqual(['item-1', 'item-2', 'item-3']);
+    expect(matches[1].candidates.map(c => c.item_id)).toEqual(['item-2', 'item-3', 'item-1']);
+  });
+
+  it('leaves a page unmatched but keeps its candidates when nothing clears the threshold', () => {
+    const [match] = matchEvidencePages(
+      [{ page_number: 9, violation_code: null, description: 'Kitchen, 2nd floor' }],
+      items,
+    );
+
+    expect(match.item_id).toBeNull();
+    expect(match.score).toBeLessThan(MATCH_THRESHOLD);
+    expect(match.candidates[0].item_id).toBe('item-2');
+    expect(match.candidates.length).toBeLessThanOrEqual(3);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { diffReparse, planReparseApply, countPhotosByItem } from '../reparse-diff';
+import { toViolationFields, toViolationItemFields, parseDate } from '../parse-values';
+import type { NOIParseResult } from '../ai/schemas';
+
+type WorkOrder = NOIParseResult['work_orders'][number];
+
+function workOrder(overrides: Partial<WorkOrder> = {}): WorkOrder {
+  return {
+    item_number: 1,
+    violation_code: 'IPMC § 605.1',
+    priority: 1,
+    abatement_deadline: '1 Day',
+    fine: '$625.00',
+    violation_description: 'Failure to install electrical equipment',
+    specific_location: 'Sleeping Room',
+    floor_number: '1',
+    date_of_infraction: '08/08/2025',
+    time_of_infraction: '09:58 PM',
+    task_description: 'Repair ceiling fan',
+    ...overrides,
+  };
+}
+
+function parse(workOrders: WorkOrder[], notice: Partial<NOIParseResult['notice_level_data']> = {}): NOIParseResult {
+  return {
+    notice_level_data: {
+      notice_id: '25NOIE-INS-05478',
+      respondent: 'YOKE LEBAUM LLC',
+      infraction_address: '551 LEBAUM ST SE, Unit:300',
+      date_of_service: '08/19/2025',
+      total_fines: '$625.00',
+      ...notice,
+    },
+    work_orders: workOrders,
+  };
+}
+
+/** Live rows as the parse pipeline would have written them */
+function liveRecords(result: NOIParseResult) {
+  return {
+    violation: { id: 'v-1', ...toViolationFields(result.notice_level_data, result.work_orders) },
+    items: result.work_orders.map((wo, i) => ({
+      id: `item-${i + 1}`,
+      ...toViolationItemFields(wo, parseDate(result.notice_level_data.date_of_service)),
+    })),
+  };
+}
+
+describe('diffReparse', () => {
+  it('reports nothing when the re-parse matches the live records', () => {
+    const baseline = parse([workOrder()]);
+    const diff = diffReparse({ ...liveRecords(baseline), staged: baseline, baseline });
+
+    expect(diff.notice).toEqual([]);
+    expect(diff.items.map((i) => i.kind)).toEqual(['unchanged']);
+  });
+
+  it('matches items by code when numbering shifts and flags fields edited since parse', () => {
+    const baseline = parse([workOrder(), workOrder({ item_number: 2, violation_code: 'IPMC § 304.3', fine: '$250.00' })]);
+    const live = liveRecords(baseline);
+    live.items[0].specific_location = 'Bedroom 2'; // manual correction
+
+    const staged = parse([
+      workOrder({ item_number: 1, violation_code: 'IPMC § 304.3', fine: '$250.00' }),
+      workOrder({ item_number: 2, specific_location: 'Kitchen' }),
+    ]);
+    const diff = diffReparse({ ...live, staged, baseline });
+
+    const fan = diff.items.find((i) => i.key === 'item-1')!;
+    expect(fan.kind).toBe('changed');
+    expect(fan.changes).toEqual([
+      { field: 'item_number', current: 1, staged: 2, edited_since_parse: false },
+      { field: 'specific_location', current: 'Bedroom 2', staged: 'Kitchen', edited_since_parse: true },
+    ]);
+    expect(diff.items.find((i) => i.key === 'item-2')!.changes.map((c) => c.field)).toEqual(['item_number']);
+  });
+
+  it('diffs the computed due date along with the deadline text', () => {
+    const baseline = parse([workOrder()]);
+    const staged = parse([workOrder({ abatement_deadline: '60 Days' })]);
+    const diff = diffReparse({
+      ...liveRecords(baseline),
+      staged,
+      baseline,
+      deadlineRules: { counting: 'business', observe_dc_holidays: true, roll_to_business_day: false, extra_holidays: [] },
+    });
+
+    // 60 business days from Tue Aug 19 2025, skipping Labor Day, Indigenous Peoples' Day and Veterans Day
+    expect(diff.items[0].changes).toEqual([
+      { field: 'abatement_deadline', current: '2025-08-20', staged: '2025-11-14', edited_since_parse: false },
+      { field: 'abatement_deadline_text', current: '1 Day', staged: '60 Days', edited_since_parse: false },
+    ]);
+  });
+
+  it('falls back to item number when a code was misread', () => {
+    const baseline = parse([workOrder(), workOrder({ item_number: 2, violation_code: 'IPMC § 304.3' })]);
+    const staged = parse([workOrder(), workOrder({ item_number: 2, violation_code: 'IPMC § 702.1' })]);
+    const diff = diffReparse({ ...liveRecords(baseline), staged, baseline });
+
+    const kinds = Object.fromEntries(diff.items.map((i) => [i.key, i.kind]));
+    expect(kinds).toEqual({ 'item-1': 'unchanged', 'item-2': 'changed' });
+  });
+});
+
+describe('planReparseApply', () => {
+  const baseline = parse([workOrder(), workOrder({ item_number: 2, violation_code: 'IPMC § 304.3' })]);
+  const staged = parse(
+    [workOrder({ fine: '$1,250.00', floor_number: '2' }), workOrder({ item_number: 3, violation_code: 'IPMC § 702.1' })],
+    { total_fines: '$1,875.00' },
+  );
+
+  it('applies only the selected fields and additions', () => {
+    const diff = diffReparse({ ...liveRecords(baseline), staged, baseline });
+    const added = diff.items.find((i) => i.kind === 'added')!;
+
+    const plan = planReparseApply(diff, {
+      notice_fields: ['total_fines'],
+      items: [{ key: 'item-1', fields: ['fine'] }, { key: added.key }],
+    });
+
+    expect(plan.violationUpdates).toEqual({ total_fines: 1875 });
+    expect(plan.itemUpdates).toEqual([{ id: 'item-1', updates: { fine: 1250 } }]);
+    expect(plan.inserts.map((i) => i.violation_code)).toEqual(['IPMC § 702.1']);
+    expect(plan.deletes).toEqual([]);
+  });
+
+  it('never deletes protected items', () => {
+    const diff = diffReparse({
+      ...liveRecords(baseline),
+      staged,
+      baseline,
+      photoCountsByItem: countPhotosByItem([
+        { violation_item_id: 'item-2' },
+        { violation_item_id: 'item-2' },
+        { violation_item_id: null },
+      ]),
+    });
+    const removed = diff.items.find((i) => i.kind === 'removed')!;
+    expect(removed.protected_reason).toBe('2 contractor photos attached');
+
+    const plan = planReparseApply(diff, { notice_fields: [], items: [{ key: 'item-2' }] });
+    expect(plan.deletes).toEqual([]);
+    expect(plan.skipped).toEqual([{ key: 'item-2', reason: '2 contractor photos attached' }]);
+  });
+
+  it('links the catalog entry when a canonicalized code is applied', () => {
+    const live = liveRecords(parse([workOrder({ violation_code: 'IPMC 6O5.1' })]));
+    const staged = parse([workOrder({ violation_code: 'IPMC 6O5.1' })]);
+    const diff = diffReparse({
+      ...live,
+      staged,
+      codeCatalog: [{ id: 'code-605', code: 'IPMC § 605.1', aliases: ['IPMC 6O5.1'], remediation_task: null }],
+    });
+
+    expect(diff.items[0].changes).toEqual([
+      { field: 'violation_code', current: 'IPMC 6O5.1', staged: 'IPMC § 605.1', edited_since_parse: false },
+    ]);
+
+    const plan = planReparseApply(diff, { notice_fields: [], items: [{ key: 'item-1' }] });
+    expect(plan.itemUpdates).toEqual([
+      { id: 'item-1', updates: { violation_code: 'IPMC § 605.1', code_id: 'code-605' } },
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  codeKey,
+  formatViolationCode,
+  findCatalogCode,
+  sameViolationCode,
+  resolveViolationCode,
+  uncataloguedCodes,
+  validateViolationCodeInput,
+  type CatalogCode,
+} from '../violation-codes';
+import { toViolationItemFields } from '../parse-values';
+
+const catalog: CatalogCode[] = [
+  {
+    id: 'code-309',
+    code: '12-G DCMR § 309.1',
+    aliases: [],
+    remediation_task: 'Repair damaged ceiling surfaces and repaint to match',
+  },
+  {
+    id: 'code-605',
+    code: 'IPMC § 605.1',
+    aliases: ['IPMC 6O5.1'],
+    remediation_task: 'Secure electrical fixture per code',
+  },
+];
+
+describe('codeKey', () => {
+  it('ignores spacing, hyphens, section signs and case', () => {
+    const key = codeKey('12-G DCMR § 309.1');
+    expect(key).toBe('12GDCMR309.1');
+    for (const spelling of ['12G DCMR §309.1', '12-G  DCMR §§ 309.1', '12-g dcmr Sec. 309.1', '12-G DCMR Section 309.1.']) {
+      expect(codeKey(spelling)).toBe(key);
+    }
+  });
+
+  it('keeps section numbers distinct', () => {
+    expect(codeKey('IPMC § 605.1')).not.toBe(codeKey('IPMC § 605.10'));
+    expect(codeKey('D.C. Code § 42-3131.01')).toBe('DCCODE423131.01');
+  });
+});
+
+describe('formatViolationCode', () => {
+  it('normalizes the section sign and whitespace', () => {
+    expect(formatViolationCode('12-G DCMR §309.1')).toBe('12-G DCMR § 309.1');
+    expect(formatViolationCode(' IPMC  Sec. 605.1 ')).toBe('IPMC § 605.1');
+    expect(formatViolationCode('IPMC-502.1')).toBe('IPMC-502.1');
+  });
+});
+
+describe('findCatalogCode / sameViolationCode', () => {
+  it('resolves any spelling or alias to the catalog entry', () => {
+    expect(findCatalogCode('12G DCMR §309.1', catalog)?.id).toBe('code-309');
+    expect(findCatalogCode('IPMC 6O5.1', catalog)?.id).toBe('code-605');
+    expect(findCatalogCode('IPMC § 304.1', catalog)).toBeNull();
+    expect(findCatalogCode(null, catalog)).toBeNull();
+  });
+
+  it('compares codes by key', () => {
+    expect(sameViolationCode('IPMC §605.1', 'ipmc § 605.1')).toBe(true);
+    expect(sameViolationCode('IPMC § 605.1', null)).toBe(false);
+  });
+});
+
+describe('resolveViolationCode', () => {
+  it('returns the canonical code and link, keeping the NOI task', () => {
+    expect(resolveViolationCode('12G DCMR §309.1', 'Patch hole over bed', catalog)).toEqual({
+      violation_code: '12-G DCMR § 309.1',
+      code_id: 'code-309',
+      task_description: 'Patch hole over bed',
+    });
+  });
+
+  it('defaults an empty task to the catalog remediation', () => {
+    expect(resolveViolationCode('IPMC 605.1', '  ', catalog).task_description).toBe('Secure electrical fixture per code');
+  });
+
+  it('tidies codes not in the catalog', () => {
+    expect(resolveViolationCode('IPMC §304.1', '', catalog)).toEqual({
+      violation_code: 'IPMC § 304.1',
+      code_id: null,
+      task_description: '',
+    });
+  });
+
+  it('is applied to parsed work orders', () => {
+    const fields = toViolationItemFields({
+      item_number: 1,
+      violation_code: '12G DCMR §309.1',
+      priority: 2,
+      abatement_deadline: '60 Days',
+      fine: '$500.00',
+      violation_description: 'Damaged ceiling',
+      specific_location: 'Bedroom',
+      floor_number: '1',
+      date_of_infraction: '01/10/2026',
+      time_of_infraction: '10:00 AM',
+      task_description: '',
+    }, '2026-01-15', undefined, catalog);
+
+    expect(fields.violation_code).toBe('12-G DCMR § 309.1');
+    expect(fields.code_id).toBe('code-309');
+    expect(fields.task_description).toBe('Repair damaged ceiling surfaces and repaint to match');
+  });
+});
+
+describe('uncataloguedCodes', () => {
+  it('groups spellings and skips catalogued codes', () => {
+    expect(uncataloguedCodes([
+      { violation_code: 'IPMC § 304.1' },
+      { violation_code: 'IPMC §304.1' },
+      { violation_code: 'IPMC § 304.1' },
+      { violation_code: '12-G DCMR § 309.1' },
+      { violation_code: 'IPMC § 702.1' },
+      { violation_code: null },
+    ], catalog)).toEqual([
+      { code: 'IPMC § 304.1', count: 3 },
+      { code: 'IPMC § 702.1', count: 1 },
+    ]);
+  });
+});
+
+describe('validateViolationCodeInput', () => {
+  it('computes the code key and cleans values', () => {
+    const result = validateViolationCodeInput({
+      code: '12-G DCMR §309.1',
+      title: '  Ceilings ',
+      trade_category: '',
+      typical_fine: 500,
+      aliases: ['12G DCMR 309.1', '12G DCMR 309.1'],
+    }, { partial: false });
+
+    expect(result).toEqual({
+      values: {
+        code: '12-G DCMR § 309.1',
+        code_key: '12GDCMR309.1',
+        title: 'Ceilings',
+        trade_category: null,
+        typical_fine: 500,
+        aliases: ['12G DCMR 309.1'],
+      },
+    });
+  });
+
+  it('rejects missing codes and bad fines', () => {
+    expect(validateViolationCodeInput({ title: 'x' }, { partial: false })).toEqual({ error: 'code is required' });
+    expect(validateViolationCodeInput({ code: ' § ' }, { partial: true })).toEqual({ error: 'code is required' });
+    expect(validateViolationCodeInput({ typical_fine: -5 }, { partial: true }))
+      .toEqual({ error: 'typical_fine must be a non-negative number' });
+    expect(validateViolationCodeInput({}, { partial: true })).toEqual({ error: 'No valid fields to update' });
+  });
+});
@@ -0,0 +1,399 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { advanceItems, listTransitions, rollupViolationStatus, transitionViolation } from '../violation-transitions';
+import { DEFAULT_WORKFLOW } from '../workflow';
+
+function makeMock(data: unknown, extra: Record<string, unknown> = {}) {
+  const result = { data, error: null, ...extra };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'update', 'eq', 'in'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown) => Promise.resolve(result).then(resolve));
+  chain.maybeSingle = vi.fn().mockResolvedValue(result);
+  return chain;
+}
+
+const mockAdminFrom = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => ({ from: mockAdminFrom }),
+}));
+
+interface Setup {
+  status: string;
+  settings?: Record<string, unknown>;
+  // Item id → item status
+  items?: Record<string, string>;
+  afterPhotos?: { violation_item_id: string; status: string }[];
+  submissions?: number;
+}
+
+/** Wires each table to its mock; returns the violations update chain */
+function setup({ status, settings = {}, items = { 'item-1': 'open', 'item-2': 'open' }, afterPhotos = [], submissions = 0 }: Setup) {
+  const load = makeMock({ id: 'v-1', org_id: 'org-1', status, organizations: { settings } });
+  const update = makeMock({ id: 'v-1', org_id: 'org-1', status: 'UPDATED' });
+  const violations = [load, update];
+  mockAdminFrom.mockImplementation((table: string) => {
+    if (table === 'violations') return violations.shift();
+    if (table === 'violation_items') return itemsMock(items);
+    if (table === 'photos') return makeMock(afterPhotos);
+    if (table === 'submissions') return makeMock(null, { count: submissions });
+    throw new Error(`unexpected table ${table}`);
+  });
+  return update;
+}
+
+function itemsMock(items: Record<string, string>) {
+  return makeMock(Object.entries(items).map(([id, status]) => ({ id, status })));
+}
+
+/**
+ * A violation whose status follows the updates made to it, for roll-ups that
+ * move it several times; returns the statuses it was moved to
+ */
+function setupLive({ status, items, afterPhotos = [], settings = {} }: Required<Pick<Setup, 'status' | 'items'>> & Pick<Setup, 'afterPhotos' | 'settings'>) {
+  let current = status;
+  const moves: string[] = [];
+  mockAdminFrom.mockImplementation((table: string) => {
+    if (table === 'violations') {
+      const chain = makeMock(null);
+      chain.maybeSingle = vi.fn(async () => {
+        const update = chain.update.mock.calls[0]?.[0] as { status: string } | undefined;
+        if (update) {
+          current = update.status;
+          moves.push(current);
+        }
+        return { data: { id: 'v-1', org_id: 'org-1', status: current, organizations: { settings } }, error: null };
+      });
+      return chain;
+    }
+    if (table === 'violation_items') return itemsMock(items);
+    if (table === 'photos') return makeMock(afterPhotos);
+    throw new Error(`unexpected table ${table}`);
+  });
+  return moves;
+}
+
+describe('transitionViolation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('makes a move the workflow allows, only from the status it checked', async () => {
+    const update = setup({ status: 'PARSED' });
+
+    const result = await transitionViolation('v-1', 'ASSIGNED', { orgId: 'org-1' });
+
+    expect(result).toMatchObject({ ok: true, from: 'PARSED', changed: true });
+    expect(update.update).toHaveBeenCalledWith({ status: 'ASSIGNED' });
+    expect(update.eq).toHaveBeenCalledWith('status', 'PARSED');
+  });
+
+  it('blocks a move the workflow does not have', async () => {
+    const update = setup({ status: 'PARSED' });
+
+    const result = await transitionViolation('v-1', 'SUBMITTED', { orgId: 'org-1' });
+
+    expect(result).toEqual({
+      ok: false,
+      block: {
+        code: 'NOT_ALLOWED',
+        message: "The workflow doesn't allow moving from Parsed to Submitted",
+        from: 'PARSED',
+        to: 'SUBMITTED',
+      },
+    });
+    expect(update.update).not.toHaveBeenCalled();
+  });
+
+  it('follows the org workflow', async () => {
+    const qaWorkflow = {
+      states: [
+        ...DEFAULT_WORKFLOW.states.map((s) =>
+          s.key === 'PHOTOS_UPLOADED' ? { ...s, transitions: ['QA_REVIEW', 'AWAITING_PHOTOS'] } : s),
+        { key: 'QA_REVIEW', label: 'QA Review', color: 'purple', transitions: ['READY_FOR_SUBMISSION'] },
+      ],
+    };
+    setup({ status: 'PHOTOS_UPLOADED', settings: { workflow: qaWorkflow } });
+
+    const result = await transitionViolation('v-1', 'READY_FOR_SUBMISSION', { orgId: 'org-1' });
+
+    expect(result).toMatchObject({ ok: false, block: { code: 'NOT_ALLOWED' } });
+  });
+
+  it('requires an approved after photo on every item before READY_FOR_SUBMISSION', async () => {
+    setup({
+      status: 'PHOTOS_UPLOADED',
+      afterPhotos: [
+        { violation_item_id: 'item-1', status: 'APPROVED' },
+        { violation_item_id: 'item-2', status: 'PENDING_REVIEW' },
+      ],
+    });
+
+    const result = await transitionViolation('v-1', 'READY_FOR_SUBMISSION', { orgId: 'org-1' });
+
+    expect(result).toMatchObject({
+      ok: false,
+      block: { code: 'UNAPPROVED_AFTER_PHOTOS', message: '1 item still needs an approved after photo', item_ids: ['item-2'] },
+    });
+  });
+
+  it('moves to READY_FOR_SUBMISSION once every item has one', async () => {
+    const update = setup({
+      status: 'PHOTOS_UPLOADED',
+      afterPhotos: [
+        { violation_item_id: 'item-1', status: 'APPROVED' },
+        { violation_item_id: 'item-2', status: 'REJECTED' },
+        { violation_item_id: 'item-2', status: 'APPROVED' },
+      ],
+    });
+
+    const result = await transitionViolation('v-1', 'READY_FOR_SUBMISSION', { orgId: 'org-1' });
+
+    expect(result.ok).toBe(true);
+    expect(update.update).toHaveBeenCalledWith({ status: 'READY_FOR_SUBMISSION' });
+  });
+
+  it('does not count rejected photos toward PHOTOS_UPLOADED', async () => {
+    setup({
+      status: 'IN_PROGRESS',
+      afterPhotos: [
+        { violation_item_id: 'item-1', status: 'PENDING_REVIEW' },
+        { violation_item_id: 'item-2', status: 'REJECTED' },
+      ],
+    });
+
+    const result = await transitionViolation('v-1', 'PHOTOS_UPLOADED', { orgId: 'org-1' });
+
+    expect(result).toMatchObject({ ok: false, block: { code: 'MISSING_AFTER_PHOTOS', item_ids: ['item-2'] } });
+  });
+
+  it('leaves abated and disputed items out of the photo guards', async () => {
+    const update = setup({
+      status: 'PHOTOS_UPLOADED',
+      items: { 'item-1': 'photo_approved', 'item-2': 'disputed', 'item-3': 'abated' },
+      afterPhotos: [{ violation_item_id: 'item-1', status: 'APPROVED' }],
+    });
+
+    const result = await transitionViolation('v-1', 'READY_FOR_SUBMISSION', { orgId: 'org-1' });
+
+    expect(result.ok).toBe(true);
+    expect(update.update).toHaveBeenCalledWith({ status: 'READY_FOR_SUBMISSION' });
+  });
+
+  it('still needs an approved after photo when every item is abated', async () => {
+    setup({ status: 'PHOTOS_UPLOADED', items: { 'item-1': 'abated', 'item-2': 'abated' } });
+
+    const result = await transitionViolation('v-1', 'READY_FOR_SUBMISSION', { orgId: 'org-1' });
+
+    expect(result).toMatchObject({
+      ok: false,
+      block: { code: 'UNAPPROVED_AFTER_PHOTOS', message: 'No after photo has been approved', item_ids: [] },
+    });
+  });
+
+  it('requires a recorded submission before SUBMITTED', async () => {
+    setup({ status: 'READY_FOR_SUBMISSION' });
+    const blocked = await transitionViolation('v-1', 'SUBMITTED', { orgId: 'org-1' });
+    expect(blocked).toMatchObject({ ok: false, block: { code: 'NO_SUBMISSION' } });
+
+    setup({ status: 'READY_FOR_SUBMISSION', submissions: 1 });
+    const moved = await transitionViolation('v-1', 'SUBMITTED', { orgId: 'org-1' });
+    expect(moved.ok).toBe(true);
+  });
+
+  it('lets forced moves skip the workflow but not the target check', async () => {
+    const update = setup({ status: 'READY_FOR_SUBMISSION' });
+    const forced = await transitionViolation('v-1', 'APPROVED', { orgId: 'org-1', force: true });
+    expect(forced.ok).toBe(true);
+    expect(update.update).toHaveBeenCalledWith({ status: 'APPROVED' });
+
+    setup({ status: 'READY_FOR_SUBMISSION' });
+    const unknown = await transitionViolation('v-1', 'ON_HOLD', { orgId: 'org-1', force: true });
+    expect(unknown).toMatchObject({ ok: false, block: { code: 'NOT_IN_WORKFLOW' } });
+  });
+
+  it('writes extra fields with the status', async () => {
+    const update = setup({ status: 'PARSING' });
+
+    await transitionViolation('v-1', 'CLOSED', { orgId: 'org-1', fields: { parse_status: 'duplicate' }, force: true });
+
+    expect(update.update).toHaveBeenCalledWith({ parse_status: 'duplicate', status: 'CLOSED' });
+  });
+
+  it('does nothing when the violation is already there', async () => {
+    const update = setup({ status: 'ASSIGNED' });
+    const result = await transitionViolation('v-1', 'ASSIGNED', { orgId: 'org-1' });
+    expect(result).toMatchObject({ ok: true, changed: false });
+    expect(update.update).not.toHaveBeenCalled();
+  });
+
+  it('reports a status that changed underneath it', async () => {
+    const update = setup({ status: 'PARSED' });
+    update.maybeSingle.mockResolvedValue({ data: null, error: null });
+
+    const result = await transitionViolation('v-1', 'ASSIGNED', { orgId: 'org-1' });
+
+    expect(result).toMatchObject({ ok: false, block: { code: 'STATUS_CHANGED' } });
+  });
+
+  it('reports a violation outside the org as not found', async () => {
+    mockAdminFrom.mockReturnValue(makeMock(null));
+    const result = await transitionViolation('v-1', 'ASSIGNED', { orgId: 'org-2' });
+    expect(result).toMatchObject({ ok: false, block: { code: 'NOT_FOUND', from: null } });
+  });
+});
+
+describe('listTransitions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the next statuses with the reason each is blocked', async () => {
+    setup({ status: 'PHOTOS_UPLOADED', afterPhotos: [{ violation_item_id: 'item-1', status: 'APPROVED' }] });
+
+    const result = await listTransitions('v-1', 'org-1');
+
+    expect(result).toEqual({
+      status: 'PHOTOS_UPLOADED',
+      options: [
+        {
+          status: 'READY_FOR_SUBMISSION',
+          block: expect.objectContaining({ code: 'UNAPPROVED_AFTER_PHOTOS', item_ids: ['item-2'] }),
+        },
+        { status: 'AWAITING_PHOTOS', block: null },
+      ],
+    });
+  });
+});
+
+describe('advanceItems', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('only moves items forward by default', async () => {
+    const chain = makeMock([{ id: 'item-1' }]);
+    mockAdminFrom.mockReturnValue(chain);
+
+    const moved = await advanceItems('v-1', 'photo_uploaded', { itemIds: ['item-1'] });
+
+    expect(moved).toBe(1);
+    expect(chain.update).toHaveBeenCalledWith({ status: 'photo_uploaded' });
+    expect(chain.in).toHaveBeenCalledWith('status', ['open', 'in_repair']);
+    expect(chain.in).toHaveBeenCalledWith('id', ['item-1']);
+  });
+
+  it('moves items only from the statuses given', async () => {
+    const chain = makeMock([]);
+    mockAdminFrom.mockReturnValue(chain);
+
+    await advanceItems('v-1', 'open', { from: ['in_repair'] });
+
+    expect(chain.in).toHaveBeenCalledWith('status', ['in_repair']);
+    expect(chain.in).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('rollupViolationStatus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('walks the violation through every status its items have reached', async () => {
+    const moves = setupLive({
+      status: 'ASSIGNED',
+      items: { 'item-1': 'photo_approved', 'item-2': 'abated' },
+      afterPhotos: [
+        { violation_item_id: 'item-1', status: 'APPROVED' },
+        { violation_item_id: 'item-2', status: 'APPROVED' },
+      ],
+    });
+
+    const status = await rollupViolationStatus('v-1', 'org-1');
+
+    expect(moves).toEqual(['IN_PROGRESS', 'PHOTOS_UPLOADED', 'READY_FOR_SUBMISSION']);
+    expect(status).toBe('READY_FOR_SUBMISSION');
+  });
+
+  it('goes through AWAITING_PHOTOS when the workflow has no direct move to PHOTOS_UPLOADED', async () => {
+    // A workflow saved before IN_PROGRESS could move straight to PHOTOS_UPLOADED
+    const workflow = {
+      states: DEFAULT_WORKFLOW.states.map((s) => (s.key === 'IN_PROGRESS'
+        ? { ...s, transitions: ['AWAITING_PHOTOS', 'CLOSED'] }
+        : s)),
+    };
+    const moves = setupLive({
+      status: 'IN_PROGRESS',
+      settings: { workflow },
+      items: { 'item-1': 'photo_uploaded', 'item-2': 'photo_uploaded' },
+      afterPhotos: [
+        { violation_item_id: 'item-1', status: 'PENDING_REVIEW' },
+        { violation_item_id: 'item-2', status: 'PENDING_REVIEW' },
+      ],
+    });
+
+    expect(await rollupViolationStatus('v-1', 'org-1')).toBe('PHOTOS_UPLOADED');
+    expect(moves).toEqual(['AWAITING_PHOTOS', 'PHOTOS_UPLOADED']);
+  });
+
+  it('starts work on the violation when any item is in repair', async () => {
+    const moves = setupLive({ status: 'ASSIGNED', items: { 'item-1': 'in_repair', 'item-2': 'open' } });
+
+    expect(await rollupViolationStatus('v-1', 'org-1')).toBe('IN_PROGRESS');
+    expect(moves).toEqual(['IN_PROGRESS']);
+  });
+
+  it('stops where a guard blocks the next status', async () => {
+    const moves = setupLive({
+      status: 'IN_PROGRESS',
+      items: { 'item-1': 'photo_uploaded', 'item-2': 'photo_uploaded' },
+      afterPhotos: [{ violation_item_id: 'item-1', status: 'PENDING_REVIEW' }],
+    });
+
+    expect(await rollupViolationStatus('v-1', 'org-1')).toBe('IN_PROGRESS');
+    expect(moves).toEqual([]);
+  });
+
+  it('sends the violation back for photos when its items slip', async () => {
+    const moves = setupLive({
+      status: 'READY_FOR_SUBMISSION',
+      items: { 'item-1': 'photo_approved', 'item-2': 'in_repair' },
+    });
+
+    expect(await rollupViolationStatus('v-1', 'org-1')).toBe('AWAITING_PHOTOS');
+    expect(moves).toEqual(['AWAITING_PHOTOS']);
+  });
+
+  it('steps back only as far as the items require when an approval is revoked', async () => {
+    const moves = setupLive({
+      status: 'READY_FOR_SUBMISSION',
+      items: { 'item-1': 'photo_approved', 'item-2': 'photo_uploaded' },
+      afterPhotos: [
+        { violation_item_id: 'item-1', status: 'APPROVED' },
+        { violation_item_id: 'item-2', status: 'PENDING_REVIEW' },
+      ],
+    });
+
+    expect(await rollupViolationStatus('v-1', 'org-1')).toBe('PHOTOS_UPLOADED');
+    expect(moves).toEqual(['AWAITING_PHOTOS', 'PHOTOS_UPLOADED']);
+  });
+
+  it('never moves a violation awaiting photos back to in progress', async () => {
+    const moves = setupLive({
+      status: 'AWAITING_PHOTOS',
+      items: { 'item-1': 'photo_uploaded', 'item-2': 'in_repair' },
+      afterPhotos: [{ violation_item_id: 'item-1', status: 'PENDING_REVIEW' }],
+    });
+
+    expect(await rollupViolationStatus('v-1', 'org-1')).toBe('AWAITING_PHOTOS');
+    expect(moves).toEqual([]);
+  });
+
+  it('leaves a violation past its photo milestones alone', async () => {
+    const moves = setupLive({ status: 'SUBMITTED', items: { 'item-1': 'photo_approved' } });
+
+    expect(await rollupViolationStatus('v-1', 'org-1')).toBe('SUBMITTED');
+    expect(moves).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WORKFLOW,
+  readWorkflow,
+  statusColor,
+  statusLabel,
+  validateWorkflow,
+  WORKFLOW_COLORS,
+  type Workflow,
+  type WorkflowState,
+} from '../workflow';
+import { canTransition, getNextStatuses } from '../status-transitions';
+
+function withStates(edit: (states: WorkflowState[]) => WorkflowState[]): Workflow {
+  return { states: edit(DEFAULT_WORKFLOW.states.map((s) => ({ ...s, transitions: [...s.transitions] }))) };
+}
+
+function setTransitions(states: WorkflowState[], key: string, transitions: string[]): WorkflowState[] {
+  return states.map((s) => (s.key === key ? { ...s, transitions } : s));
+}
+
+// PHOTOS_UPLOADED → QA_REVIEW → READY_FOR_SUBMISSION
+const withQaReview = withStates((states) => [
+  ...setTransitions(states, 'PHOTOS_UPLOADED', ['QA_REVIEW', 'AWAITING_PHOTOS']),
+  { key: 'QA_REVIEW', label: 'QA Review', color: 'purple', transitions: ['READY_FOR_SUBMISSION', 'AWAITING_PHOTOS'] },
+]);
+
+// PMs take the photos themselves
+const withoutAwaitingPhotos = withStates((states) => {
+  let next = states.filter((s) => s.key !== 'AWAITING_PHOTOS' && s.key !== 'PHOTOS_UPLOADED');
+  next = setTransitions(next, 'IN_PROGRESS', ['READY_FOR_SUBMISSION', 'CLOSED']);
+  next = setTransitions(next, 'READY_FOR_SUBMISSION', ['SUBMITTED', 'IN_PROGRESS']);
+  return setTransitions(next, 'ADDITIONAL_INFO_REQUESTED', ['IN_PROGRESS']);
+});
+
+describe('validateWorkflow', () => {
+  it('accepts the default workflow and customized ones', () => {
+    expect(validateWorkflow(DEFAULT_WORKFLOW)).toBeNull();
+    expect(validateWorkflow(withQaReview)).toBeNull();
+    expect(validateWorkflow(withoutAwaitingPhotos)).toBeNull();
+  });
+
+  it('rejects malformed payloads', () => {
+    expect(validateWorkflow(null)).toBe('workflow must be an object');
+    expect(validateWorkflow({ states: [] })).toBe('workflow.states must be a non-empty list');
+    expect(validateWorkflow(withStates((s) => [...s, { key: 'qa', label: 'QA', color: 'blue', transitions: [] }])))
+      .toMatch(/not a valid state key/);
+    expect(validateWorkflow(withStates((s) => [...s, { ...s[0] }]))).toBe('NEW appears more than once');
+    expect(validateWorkflow(withStates((s) => s.map((x) => (x.key === 'NEW' ? { ...x, color: 'neon' as never } : x)))))
+      .toBe('NEW has an unknown color');
+  });
+
+  it('rejects transitions to unknown states or to the state itself', () => {
+    expect(validateWorkflow(withStates((s) => setTransitions(s, 'ASSIGNED', ['IN_PROGRESS', 'QA_REVIEW']))))
+      .toBe("ASSIGNED moves to QA_REVIEW, which isn't in the workflow");
+    expect(validateWorkflow(withStates((s) => setTransitions(s, 'ASSIGNED', ['ASSIGNED', 'CLOSED']))))
+      .toBe("ASSIGNED can't move to itself");
+  });
+
+  it('keeps the states and moves the app relies on', () => {
+    expect(validateWorkflow(withStates((s) => s.filter((x) => x.key !== 'SUBMITTED'))))
+      .toMatch(/SUBMITTED/);
+    expect(validateWorkflow(withStates((s) => setTransitions(s, 'SUBMITTED', ['APPROVED', 'REJECTED']))))
+      .toBe('SUBMITTED must be able to move to ADDITIONAL_INFO_REQUESTED');
+  });
+
+  it('requires a final state', () => {
+    expect(validateWorkflow(withStates((s) => setTransitions(s, 'CLOSED', ['NEW']))))
+      .toBe('The workflow needs a final state with no next states');
+  });
+
+  it('rejects states that cannot be reached from NEW', () => {
+    const orphan = withStates((s) => [...s, { key: 'ON_HOLD', label: 'On Hold', color: 'gray', transitions: ['CLOSED'] }]);
+    expect(validateWorkflow(orphan)).toBe("ON_HOLD can't be reached from NEW");
+  });
+
+  it('rejects states that cannot reach a final state', () => {
+    const stuck = withStates((s) => [
+      ...setTransitions(s, 'ASSIGNED', ['IN_PROGRESS', 'CLOSED', 'LIMBO']),
+      { key: 'LIMBO', label: 'Limbo', color: 'gray', transitions: ['LIMBO_2'] },
+      { key: 'LIMBO_2', label: 'Limbo 2', color: 'gray', transitions: ['LIMBO'] },
+    ]);
+    expect(validateWorkflow(stuck)).toBe('LIMBO has no way to reach a final state');
+  });
+});
+
+describe('readWorkflow', () => {
+  it('falls back to the default when unset or invalid', () => {
+    expect(readWorkflow(null)).toBe(DEFAULT_WORKFLOW);
+    expect(readWorkflow({})).toBe(DEFAULT_WORKFLOW);
+    expect(readWorkflow({ workflow: { states: [{ key: 'NEW', label: 'New', color: 'slate', transitions: [] }] } }))
+      .toBe(DEFAULT_WORKFLOW);
+  });
+
+  it('returns a stored workflow', () => {
+    expect(readWorkflow({ workflow: withQaReview }).states.map((s) => s.key)).toContain('QA_REVIEW');
+  });
+});
+
+describe('transitions with a custom workflow', () => {
+  it('routes photos through QA review', () => {
+    expect(canTransition('PHOTOS_UPLOADED', 'QA_REVIEW', withQaReview)).toBe(true);
+    expect(canTransition('PHOTOS_UPLOADED', 'READY_FOR_SUBMISSION', withQaReview)).toBe(false);
+    expect(getNextStatuses('QA_REVIEW', withQaReview)).toEqual(['READY_FOR_SUBMISSION', 'AWAITING_PHOTOS']);
+  });
+
+  it('skips awaiting photos', () => {
+    expect(canTransition('IN_PROGRESS', 'READY_FOR_SUBMISSION', withoutAwaitingPhotos)).toBe(true);
+    expect(canTransition('IN_PROGRESS', 'AWAITING_PHOTOS', withoutAwaitingPhotos)).toBe(false);
+  });
+
+  it('has no next statuses for a status the workflow no longer has', () => {
+    expect(getNextStatuses('AWAITING_PHOTOS', withoutAwaitingPhotos)).toEqual([]);
+  });
+});
+
+describe('statusLabel / statusColor', () => {
+  it('uses the workflow, then the defaults, then the key', () => {
+    expect(statusLabel('QA_REVIEW', withQaReview)).toBe('QA Review');
+    expect(statusColor('QA_REVIEW', withQaReview)).toBe(WORKFLOW_COLORS.purple);
+    expect(statusLabel('AWAITING_PHOTOS', withoutAwaitingPhotos)).toBe('Awaiting Photos');
+    expect(statusLabel('ON_HOLD')).toBe('On Hold');
+    expect(statusColor('ON_HOLD')).toBe(WORKFLOW_COLORS.gray);
+  });
+});
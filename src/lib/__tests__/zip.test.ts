@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { DEFAULT_ZIP_LIMITS, readZipEntries, readZipPdfs } from '../zip';
+
+// Builds a zip with local headers, a central directory and an EOCD record.
+// CRCs are left zero — the reader doesn't check them.
+// `size` overrides the declared uncompressed size.
+function buildZip(files: Array<{ name: string; data: Buffer; deflate?: boolean; size?: number }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const body = file.deflate ? deflateRawSync(file.data) : file.data;
+    const method = file.deflate ? 8 : 0;
+    const size = file.size ?? file.data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDir = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(centralDir.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDir, eocd]);
+}
+
+describe('readZipEntries', () => {
+  it('reads stored and deflated entries', () => {
+    const pdf = Buffer.from('%PDF-1.4 '.repeat(50));
+    const zip = buildZip([
+      { name: 'a.pdf', data: pdf },
+      { name: 'nested/b.pdf', data: pdf, deflate: true },
+    ]);
+
+    const entries = readZipEntries(zip);
+    expect(entries.map((e) => e.name)).toEqual(['a.pdf', 'nested/b.pdf']);
+    expect(entries[0].data.equals(pdf)).toBe(true);
+    expect(entries[1].data.equals(pdf)).toBe(true);
+  });
+
+  it('rejects data that is not a zip', () => {
+    expect(() => readZipEntries(Buffer.from('%PDF-1.4 not a zip at all'))).toThrow('Not a zip archive');
+  });
+
+  it('rejects an entry that inflates past its declared size', () => {
+    const zip = buildZip([{ name: 'bomb.pdf', data: Buffer.alloc(100_000), deflate: true, size: 1_000 }]);
+    expect(() => readZipEntries(zip)).toThrow('Corrupt zip entry "bomb.pdf"');
+  });
+
+  it('rejects an entry declared larger than the per-entry limit', () => {
+    const zip = buildZip([{ name: 'big.pdf', data: Buffer.alloc(10), size: DEFAULT_ZIP_LIMITS.maxEntryBytes + 1 }]);
+    expect(() => readZipEntries(zip)).toThrow('Zip entry "big.pdf" is too large');
+  });
+
+  it('caps the total unpacked size and the entry count', () => {
+    const zip = buildZip([
+      { name: 'a.pdf', data: Buffer.alloc(600), deflate: true },
+      { name: 'b.pdf', data: Buffer.alloc(600), deflate: true },
+    ]);
+    const limits = { maxEntries: 10, maxEntryBytes: 1_000, maxTotalBytes: 1_000 };
+
+    expect(() => readZipEntries(zip, limits)).toThrow('Zip is too large once unpacked');
+    expect(() => readZipEntries(zip, { ...limits, maxEntries: 1 })).toThrow('Zip has more than 1 entries');
+    expect(readZipEntries(zip, { ...limits, maxTotalBytes: 1_200 })).toHaveLength(2);
+  });
+});
+
+describe('readZipPdfs', () => {
+  it('skips non-PDFs, macOS resource forks and hidden files', () => {
+    const zip = buildZip([
+      { name: 'notices/', data: Buffer.alloc(0) },
+      { name: 'notices/NOI-1.PDF', data: Buffer.from('%PDF') },
+      { name: 'notices/readme.txt', data: Buffer.from('hi') },
+      { name: '__MACOSX/notices/._NOI-1.PDF', data: Buffer.from('x') },
+      { name: 'notices/.hidden.pdf', data: Buffer.from('x') },
+    ]);
+
+    expect(readZipPdfs(zip).map((e) => e.name)).toEqual(['notices/NOI-1.PDF']);
+  });
+});
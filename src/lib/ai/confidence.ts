@@ -0,0 +1,140 @@
+/**
+ * Field-level confidence scoring for parsed NOIs.
+ *
+ * Each extracted field gets a 0-100 score from three signals:
+ * - presence: an empty field scores 0
+ * - format: a value that doesn't look like the field (bad date, no § in a code) scores 40
+ * - text layer: agreement with the deterministic text-layer parse scores 99,
+ *   disagreement scores 30, and fields that weren't cross-checked score 80
+ *
+ * Anything below the threshold sends the violation to the Needs Review queue.
+ * Optional fields the notice left blank are not scored.
+ */
+
+import type {
+  NOIParseResult,
+  TextLayerCheck,
+  FieldConfidence,
+  ParseConfidence,
+} from './schemas';
+
+export const CONFIDENCE_THRESHOLD = 70;
+
+export const NOTICE_FIELDS = [
+  'notice_id', 'respondent', 'infraction_address', 'date_of_service', 'total_fines',
+] as const;
+
+export const ITEM_FIELDS = [
+  'violation_code', 'priority', 'abatement_deadline', 'fine',
+  'violation_description', 'date_of_infraction', 'task_description',
+] as const;
+
+// Free text NOIs often leave blank; the code catalog can fill it in later
+const OPTIONAL_ITEM_FIELDS: ReadonlyArray<string> = ['task_description'];
+
+const DATE_RE = /^\d{1,2}\/\d{1,2}\/\d{4}$/;
+const MONEY_RE = /^\$?\s?[\d,]+(\.\d{2})?$/;
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  notice_id: (v) => /^\d{2}NOI[A-Z]{0,2}-[A-Z]{2,4}-\d{4,6}$/i.test(v.trim()),
+  infraction_address: (v) => /^\d+\s+\S+/.test(v.trim()),
+  date_of_service: (v) => DATE_RE.test(v.trim()),
+  total_fines: (v) => MONEY_RE.test(v.trim()),
+  violation_code: (v) => /§|\d/.test(v),
+  priority: (v) => ['1', '2', '3'].includes(v),
+  abatement_deadline: (v) => /\d+\s*(day|hour)/i.test(v),
+  fine: (v) => MONEY_RE.test(v.trim()),
+  date_of_infraction: (v) => DATE_RE.test(v.trim()),
+};
+
+function isBlank(value: string | number | undefined): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+function scoreField(
+  field: string,
+  value: string | number | undefined,
+  textCheck: TextLayerCheck | undefined,
+  itemNumber?: number,
+): FieldConfidence {
+  const str = value === undefined || value === null ? '' : String(value).trim();
+  if (!str || str === '0') return { score: 0, reason: 'Not extracted' };
+
+  const formatOk = FORMAT_CHECKS[field]?.(str) ?? true;
+  if (!formatOk) return { score: 40, reason: `Unexpected format: "${str}"` };
+
+  const disagreement = textCheck?.disagreements.find(
+    (d) => d.field === field && d.item_number === itemNumber,
+  );
+  if (disagreement) {
+    return { score: 30, reason: `PDF text reads "${disagreement.text_value}"` };
+  }
+
+  const key = itemNumber !== undefined ? `${field}#${itemNumber}` : field;
+  return textCheck?.compared_fields?.includes(key)
+    ? { score: 99, reason: 'Matches PDF text layer' }
+    : { score: 80, reason: 'Not cross-checked' };
+}
+
+/** Score every notice-level and item-level field of a parse result */
+export function scoreParseConfidence(
+  parsed: NOIParseResult,
+  textCheck?: TextLayerCheck,
+  threshold = CONFIDENCE_THRESHOLD,
+): ParseConfidence {
+  const notice: Record<string, FieldConfidence> = {};
+  for (const field of NOTICE_FIELDS) {
+    notice[field] = scoreField(field, parsed.notice_level_data[field], textCheck);
+  }
+
+  const countMismatch = textCheck?.disagreements.find((d) => d.field === 'item_count');
+  notice.item_count = countMismatch
+    ? { score: 30, reason: `PDF text has ${countMismatch.text_value} items, AI found ${countMismatch.ai_value}` }
+    : parsed.work_orders.length > 0
+      ? { score: textCheck?.compared_fields?.includes('item_count') ? 99 : 80, reason: `${parsed.work_orders.length} items` }
+      : { score: 0, reason: 'No items extracted' };
+
+  const items: Record<string, Record<string, FieldConfidence>> = {};
+  for (const wo of parsed.work_orders) {
+    const scores: Record<string, FieldConfidence> = {};
+    for (const field of ITEM_FIELDS) {
+      if (OPTIONAL_ITEM_FIELDS.includes(field) && isBlank(wo[field])) continue;
+      scores[field] = scoreField(field, wo[field], textCheck, wo.item_number);
+    }
+    items[String(wo.item_number)] = scores;
+  }
+
+  const allScores = [
+    ...Object.values(notice),
+    ...Object.values(items).flatMap((s) => Object.values(s)),
+  ];
+  const lowCount = allScores.filter((c) => c.score < threshold).length;
+
+  return {
+    threshold,
+    notice,
+    items,
+    low_confidence_count: lowCount,
+    needs_review: lowCount > 0,
+  };
+}
+
+/** Look up a field's confidence; item fields are addressed by item_number */
+export function getFieldConfidence(
+  confidence: ParseConfidence | undefined,
+  field: string,
+  itemNumber?: number | null,
+): FieldConfidence | undefined {
+  if (!confidence) return undefined;
+  if (itemNumber === undefined) return confidence.notice[field];
+  return confidence.items[String(itemNumber)]?.[field];
+}
+
+export function isLowConfidence(
+  confidence: ParseConfidence | undefined,
+  field: string,
+  itemNumber?: number | null,
+): boolean {
+  const c = getFieldConfidence(confidence, field, itemNumber);
+  return !!c && !!confidence && c.score < confidence.threshold;
+}
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { GeminiUsage, PageRange } from './schemas';
+import type { AIProvider } from './provider';
+import type { ParseNOIResponse, AnalyzePagesResponse, VerifyPhotoResponse } from './gemini';
+import { validateNOIParse } from './gemini';
+
+interface RecordedCalls {
+  parse_noi?: ParseNOIResponse;
+  analyze_pages?: AnalyzePagesResponse;
+}
+
+/**
+ * Recorded AI responses for one PDF, stored as `<pdf_sha256>.json`.
+ * Either half may be missing if only one call was recorded. Calls scoped to
+ * one notice of a multi-notice PDF are kept under `page_ranges["start-end"]`.
+ */
+export interface AIFixture extends RecordedCalls {
+  pdf_sha256: string;
+  recorded_at: string;
+  page_ranges?: Record<string, RecordedCalls>;
+}
+
+function rangeKey(pages: PageRange) {
+  return `${pages.start}-${pages.end}`;
+}
+
+function recordedCalls(fixture: AIFixture, pages?: PageRange): RecordedCalls {
+  return pages ? fixture.page_ranges?.[rangeKey(pages)] || {} : fixture;
+}
+
+/** Replayed calls cost nothing — token counts are zeroed so spend totals stay honest */
+const REPLAY_USAGE: GeminiUsage = {
+  prompt_tokens: 0,
+  output_tokens: 0,
+  thoughts_tokens: 0,
+  total_tokens: 0,
+  cost_usd: 0,
+};
+
+export function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function fixturePath(dir: string, pdfHash: string) {
+  return path.join(dir, `${pdfHash}.json`);
+}
+
+function verificationPath(dir: string, afterImageBase64: string, inspectorImageBase64: string) {
+  return path.join(dir, 'verifications', `${sha256(inspectorImageBase64 + afterImageBase64)}.json`);
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function writeJson(file: string, value: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(value, null, 2) + '\n');
+}
+
+async function loadFixture(dir: string, pdfBuffer: Buffer): Promise<AIFixture> {
+  const hash = sha256(pdfBuffer);
+  const fixture = await readJson<AIFixture>(fixturePath(dir, hash));
+  if (!fixture) {
+    throw new Error(
+      `No recorded AI fixture for PDF ${hash} in ${dir}. ` +
+      `Record one by running the pipeline with AI_RECORD_FIXTURES=true.`,
+    );
+  }
+  return fixture;
+}
+
+/**
+ * Deterministic provider that replays recorded responses keyed by the PDF's
+ * SHA-256. Validation and counts are recomputed from the recorded data so
+ * hand-edited fixtures stay consistent.
+ */
+export function createFixtureProvider(dir: string): AIProvider {
+  return {
+    name: 'fixture',
+
+    async parseNOIPdf(pdfBuffer, pages) {
+      const fixture = await loadFixture(dir, pdfBuffer);
+      const recorded = recordedCalls(fixture, pages).parse_noi;
+      if (!recorded) {
+        throw new Error(
+          `AI fixture ${fixture.pdf_sha256} has no recorded NOI extraction${pages ? ` for pages ${rangeKey(pages)}` : ''}`,
+        );
+      }
+      const { parsed, meta } = recorded;
+      return {
+        parsed,
+        meta: {
+          ...meta,
+          model: `fixture:${meta.model}`,
+          pdf_size_bytes: pdfBuffer.length,
+          work_order_count: parsed.work_orders.length,
+          validation: validateNOIParse(parsed),
+          usage: REPLAY_USAGE,
+        },
+      };
+    },
+
+    async analyzePdfPages(pdfBuffer, pages) {
+      const fixture = await loadFixture(dir, pdfBuffer);
+      // Page numbers are absolute, so a whole-document analysis can stand in
+      // for a scoped one — callers filter to their notice's pages
+      const recorded = recordedCalls(fixture, pages).analyze_pages || fixture.analyze_pages;
+      if (!recorded) {
+        throw new Error(`AI fixture ${fixture.pdf_sha256} has no recorded page analysis`);
+      }
+      const { analysis, meta } = recorded;
+      return {
+        analysis,
+        meta: {
+          ...meta,
+          model: `fixture:${meta.model}`,
+          pdf_size_bytes: pdfBuffer.length,
+          total_pages: analysis.pages.length,
+          evidence_photo_count: analysis.pages.filter(p => p.is_evidence_photo).length,
+          pages_with_codes: analysis.pages.filter(p => p.violation_code).length,
+          usage: REPLAY_USAGE,
+        },
+      };
+    },
+
+    async verifyPhotoAngle(afterImageBase64, inspectorImageBase64) {
+      const recorded = await readJson<VerifyPhotoResponse>(
+        verificationPath(dir, afterImageBase64, inspectorImageBase64),
+      );
+      if (recorded) {
+        return { result: recorded.result, meta: { model: `fixture:${recorded.meta.model}`, usage: REPLAY_USAGE } };
+      }
+
+      // Contractor photos are new bytes on every upload, so there is rarely a
+      // recording to replay. Approve deterministically to keep the flow moving.
+      return {
+        result: {
+          isMatch: true,
+          confidence: 100,
+          reasoning: 'Fixture provider: no recorded verification, approved by default',
+          details: 'AI angle verification is replaced by the fixture provider in this environment.',
+        },
+        meta: { model: 'fixture', usage: REPLAY_USAGE },
+      };
+    },
+  };
+}
+
+/**
+ * Wrap a live provider so every response is also written to `dir` as a fixture.
+ * Recording failures are logged and never fail the underlying call.
+ */
+export function withFixtureRecording(inner: AIProvider, dir: string): AIProvider {
+  const record = async (pdfBuffer: Buffer, patch: RecordedCalls, pages?: PageRange) => {
+    const hash = sha256(pdfBuffer);
+    const file = fixturePath(dir, hash);
+    try {
+      const existing = await readJson<AIFixture>(file);
+      const update: Partial<AIFixture> = pages
+        ? {
+          page_ranges: {
+            ...existing?.page_ranges,
+            [rangeKey(pages)]: { ...existing?.page_ranges?.[rangeKey(pages)], ...patch },
+          },
+        }
+        : patch;
+      await writeJson(file, {
+        ...existing,
+        ...update,
+        pdf_sha256: hash,
+        recorded_at: new Date().toISOString(),
+      });
+    } catch (err) {
+      console.error(`Failed to record AI fixture ${file}:`, err);
+    }
+  };
+
+  return {
+    name: `${inner.name}+record`,
+
+    async parseNOIPdf(pdfBuffer, pages) {
+      const response = await inner.parseNOIPdf(pdfBuffer, pages);
+      await record(pdfBuffer, { parse_noi: response }, pages);
+      return response;
+    },
+
+    async analyzePdfPages(pdfBuffer, pages) {
+      const response = await inner.analyzePdfPages(pdfBuffer, pages);
+      await record(pdfBuffer, { analyze_pages: response }, pages);
+      return response;
+    },
+
+    async verifyPhotoAngle(afterImageBase64, inspectorImageBase64, afterMimeType) {
+      const response = await inner.verifyPhotoAngle(afterImageBase64, inspectorImageBase64, afterMimeType);
+      const file = verificationPath(dir, afterImageBase64, inspectorImageBase64);
+      await writeJson(file, response).catch(err => console.error(`Failed to record AI fixture ${file}:`, err));
+      return response;
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import { GoogleGenAI } from '@google/genai';
-import type { NOIParseResult, GeminiPageAnalysis, GeminiUsage } from './schemas';
+import type { NOIParseResult, GeminiPageAnalysis, GeminiUsage, PageRange } from './schemas';
+import type { AIProvider } from './provider';
 
 function getClient() {
   return new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
@@ -86,6 +87,14 @@ export interface FieldValidation {
   all_items_have_description: boolean;
 }
 
+/** Restrict a prompt to one notice of a multi-notice PDF */
+function scopeToPages(prompt: string, pages?: PageRange): string {
+  if (!pages) return prompt;
+  return `${prompt}
+
+IMPORTANT: This PDF contains more than one Notice of Infraction. Only consider pages ${pages.start}-${pages.end} (1-based, inclusive) and ignore every other page. Keep page numbers relative to the whole PDF.`;
+}
+
 export interface ParseNOIResponse {
   parsed: NOIParseResult;
   meta: {
@@ -98,7 +107,7 @@ export interface ParseNOIResponse {
   };
 }
 
-export async function parseNOIPdf(pdfBuffer: Buffer): Promise<ParseNOIResponse> {
+export async function parseNOIPdf(pdfBuffer: Buffer, pages?: PageRange): Promise<ParseNOIResponse> {
   const model = 'gemini-2.5-flash';
 
   const response = await getClient().models.generateContent({
@@ -107,7 +116,7 @@ export async function parseNOIPdf(pdfBuffer: Buffer): Promise<ParseNOIResponse>
       role: 'user',
       parts: [
         { inlineData: { mimeType: 'application/pdf', data: pdfBuffer.toString('base64') } },
-        { text: EXTRACTION_PROMPT },
+        { text: scopeToPages(EXTRACTION_PROMPT, pages) },
       ],
     }],
     config: { responseMimeType: 'application/json' },
@@ -143,17 +152,6 @@ export async function parseNOIPdf(pdfBuffer: Buffer): Promise<ParseNOIResponse>
     );
   }
 
-  const nld = parsed.notice_level_data;
-  const validation: FieldValidation = {
-    has_notice_id: !!nld.notice_id && nld.notice_id.length > 0,
-    has_respondent: !!nld.respondent && nld.respondent.length > 0,
-    has_address: !!nld.infraction_address && nld.infraction_address.length > 0,
-    has_date: !!nld.date_of_service && /\d{2}\/\d{2}\/\d{4}/.test(nld.date_of_service),
-    has_fines: !!nld.total_fines && nld.total_fines.includes('$'),
-    all_items_have_code: parsed.work_orders.every(wo => !!wo.violation_code),
-    all_items_have_description: parsed.work_orders.every(wo => !!wo.violation_description),
-  };
-
   return {
     parsed,
     meta: {
@@ -161,12 +159,26 @@ export async function parseNOIPdf(pdfBuffer: Buffer): Promise<ParseNOIResponse>
       model,
       pdf_size_bytes: pdfBuffer.length,
       work_order_count: parsed.work_orders.length,
-      validation,
+      validation: validateNOIParse(parsed),
       usage,
     },
   };
 }
 
+/** Presence checks on an extraction result (shared by every AI provider) */
+export function validateNOIParse(parsed: NOIParseResult): FieldValidation {
+  const nld = parsed.notice_level_data;
+  return {
+    has_notice_id: !!nld.notice_id && nld.notice_id.length > 0,
+    has_respondent: !!nld.respondent && nld.respondent.length > 0,
+    has_address: !!nld.infraction_address && nld.infraction_address.length > 0,
+    has_date: !!nld.date_of_service && /\d{2}\/\d{2}\/\d{4}/.test(nld.date_of_service),
+    has_fines: !!nld.total_fines && nld.total_fines.includes('$'),
+    all_items_have_code: parsed.work_orders.every(wo => !!wo.violation_code),
+    all_items_have_description: parsed.work_orders.every(wo => !!wo.violation_description),
+  };
+}
+
 // ============================================================
 // 2. PAGE-LEVEL ANALYSIS (evidence photo detection)
 // ============================================================
@@ -295,7 +307,7 @@ export async function verifyPhotoAngle(
   return { result, meta: { model, usage } };
 }
 
-export async function analyzePdfPages(pdfBuffer: Buffer): Promise<AnalyzePagesResponse> {
+export async function analyzePdfPages(pdfBuffer: Buffer, pages?: PageRange): Promise<AnalyzePagesResponse> {
   const model = 'gemini-2.5-flash';
 
   const response = await getClient().models.generateContent({
@@ -304,7 +316,7 @@ export async function analyzePdfPages(pdfBuffer: Buffer): Promise<AnalyzePagesRe
       role: 'user',
       parts: [
         { inlineData: { mimeType: 'application/pdf', data: pdfBuffer.toString('base64') } },
-        { text: ANALYSIS_PROMPT },
+        { text: scopeToPages(ANALYSIS_PROMPT, pages) },
       ],
     }],
     config: { responseMimeType: 'application/json' },
@@ -348,3 +360,15 @@ export async function analyzePdfPages(pdfBuffer: Buffer): Promise<AnalyzePagesRe
     },
   };
 }
+
+// ============================================================
+// PROVIDER
+// ============================================================
+
+/** Live Gemini backend for the AI provider interface */
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  parseNOIPdf,
+  analyzePdfPages,
+  verifyPhotoAngle,
+};
@@ -0,0 +1,53 @@
+import path from 'path';
+import type { ParseNOIResponse, AnalyzePagesResponse, VerifyPhotoResponse } from './gemini';
+import type { PageRange } from './schemas';
+import { geminiProvider } from './gemini';
+import { createFixtureProvider, withFixtureRecording } from './fixture-provider';
+
+/**
+ * Backend for every AI call the app makes (NOI extraction, page analysis,
+ * photo angle verification). Callers go through getAIProvider() instead of
+ * importing a model client directly, so staging and local runs can swap in
+ * recorded responses.
+ */
+export interface AIProvider {
+  /** Short identifier recorded in logs and parse_metadata */
+  name: string;
+  /** `pages` restricts extraction to one notice of a multi-notice PDF */
+  parseNOIPdf(pdfBuffer: Buffer, pages?: PageRange): Promise<ParseNOIResponse>;
+  analyzePdfPages(pdfBuffer: Buffer, pages?: PageRange): Promise<AnalyzePagesResponse>;
+  verifyPhotoAngle(
+    afterImageBase64: string,
+    inspectorImageBase64: string,
+    afterMimeType?: string,
+  ): Promise<VerifyPhotoResponse>;
+}
+
+export type AIProviderName = 'gemini' | 'fixture';
+
+/** Directory holding recorded responses, one JSON file per PDF hash */
+export function getFixtureDir(): string {
+  return process.env.AI_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'ai');
+}
+
+/**
+ * Resolve the provider from the environment:
+ * - AI_PROVIDER=gemini (default): live Gemini calls
+ * - AI_PROVIDER=fixture: replay recorded responses from AI_FIXTURE_DIR, no network
+ * - AI_RECORD_FIXTURES=true: live Gemini calls, saving each response as a fixture
+ */
+export function getAIProvider(): AIProvider {
+  const name = (process.env.AI_PROVIDER || 'gemini') as AIProviderName;
+
+  if (name === 'fixture') {
+    return createFixtureProvider(getFixtureDir());
+  }
+  if (name !== 'gemini') {
+    throw new Error(`Unknown AI_PROVIDER "${name}". Expected "gemini" or "fixture".`);
+  }
+
+  if (process.env.AI_RECORD_FIXTURES === 'true') {
+    return withFixtureRecording(geminiProvider, getFixtureDir());
+  }
+  return geminiProvider;
+}
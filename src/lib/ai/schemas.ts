@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { DocumentType } from '../types';
 
 // Schema for the structured data extracted from an NOI PDF by Gemini
 export const NOIParseResultSchema = z.object({
@@ -40,10 +41,12 @@ export type GeminiPageAnalysis = z.infer<typeof GeminiPageAnalysisSchema>;
 
 // Parse step status tracking
 export type ParseStepName =
+  | 'classify_document'
   | 'ai_parse'
   | 'insert_records'
   | 'analyze_pages'
   | 'match_photos'
+  | 'extract_photos'
   | 'complete';
 
 export interface ParseStepStatus {
@@ -55,6 +58,16 @@ export interface ParseStepStatus {
   error?: string;
 }
 
+// One earlier run of the pipeline, recorded when a failed parse is resumed
+export interface ParseAttempt {
+  attempt: number;
+  failed_step: ParseStepName;
+  error?: string;
+  resumed_from: ParseStepName;
+  resumed_at: string;
+  resumed_by?: string;
+}
+
 export interface GeminiUsage {
   prompt_tokens: number;
   output_tokens: number;
@@ -69,6 +82,53 @@ export interface ParseCosts {
   total_usd?: number;
 }
 
+// 1-based inclusive page range of one notice inside a multi-notice PDF
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+export interface NoticeBoundary extends PageRange {
+  notice_id: string;
+}
+
+// Deterministic text-layer cross-check of the AI extraction
+export interface TextLayerDisagreement {
+  field: string;
+  item_number?: number;
+  ai_value: string;
+  text_value: string;
+}
+
+export interface TextLayerCheck {
+  available: boolean;
+  fields_compared: number;
+  fields_matched: number;
+  compared_fields?: string[]; // "field" or "field#item_number"
+  disagreements: TextLayerDisagreement[];
+  skipped_reason?: string;
+}
+
+// Field-level confidence (0-100) attached to a parse result
+export interface FieldConfidence {
+  score: number;
+  reason: string;
+}
+
+export interface ParseConfidence {
+  threshold: number;
+  notice: Record<string, FieldConfidence>;
+  items: Record<string, Record<string, FieldConfidence>>; // keyed by item_number
+  low_confidence_count: number;
+  needs_review: boolean;
+}
+
+export interface ParseReview {
+  reviewed_by: string;
+  reviewed_at: string;
+  corrected_fields: string[];
+}
+
 export interface ParseMetadata {
   steps: ParseStepStatus[];
   total_pages?: number;
@@ -78,9 +138,27 @@ export interface ParseMetadata {
   gemini_meta?: Record<string, unknown>;
   gemini_page_meta?: Record<string, unknown>;
   costs?: ParseCosts;
+  text_layer_check?: TextLayerCheck;
+  field_confidence?: ParseConfidence;
+  review?: ParseReview;
   duplicate_detected?: boolean;
   duplicate_violation_id?: string;
   existing_notice_id?: string;
+  notice_split?: {
+    notices: NoticeBoundary[];
+    sibling_violation_ids: string[];
+  };
+  // What classify_document decided the PDF is
+  document_type?: DocumentType;
+  // Set when the PDF was DOB correspondence filed on an existing violation
+  routed_to?: {
+    violation_id: string;
+    document_id: string;
+    reference_notice_id: string;
+  };
+  // Kept so a parse resumed after analyze_pages doesn't pay for page analysis again
+  page_analysis?: GeminiPageAnalysis;
+  attempts?: ParseAttempt[];
   logs?: Array<{
     ts: string;
     level: string;
@@ -0,0 +1,179 @@
+/**
+ * AI usage ledger and monthly budget caps.
+ *
+ * Every billable AI call is recorded in ai_usage with its org, feature, model,
+ * tokens and cost. Orgs can set a monthly budget in organizations.settings;
+ * once month-to-date spend reaches it, new parses pause or fall back to manual
+ * entry (ai_budget_action) and owners/admins are alerted once per month.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { inngest } from '@/inngest/client';
+import type { GeminiUsage } from './schemas';
+
+export type AIFeature = 'noi_parse' | 'page_analysis' | 'noi_reparse' | 'photo_verification';
+
+export type AIBudgetAction = 'pause' | 'manual';
+
+export interface AIUsageEntry {
+  orgId: string;
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  usage: GeminiUsage;
+  violationId?: string | null;
+}
+
+export interface AIBudgetStatus {
+  month_to_date_usd: number;
+  budget_usd: number | null;
+  action: AIBudgetAction;
+  exceeded: boolean;
+}
+
+export interface AIUsageSummaryRow {
+  feature: AIFeature;
+  calls: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+/** First instant of the current UTC month, as an ISO string */
+export function monthStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+/** Budget fields from organizations.settings, with defaults */
+export function readBudgetSettings(settings: Record<string, unknown> | null | undefined): {
+  budget_usd: number | null;
+  action: AIBudgetAction;
+} {
+  const budget = Number(settings?.ai_monthly_budget_usd);
+  return {
+    budget_usd: settings?.ai_monthly_budget_usd != null && Number.isFinite(budget) && budget >= 0 ? budget : null,
+    action: settings?.ai_budget_action === 'manual' ? 'manual' : 'pause',
+  };
+}
+
+/** Ledger rows grouped by feature, most expensive first */
+export function summarizeUsage(
+  rows: Array<{ feature: string; total_tokens: number | null; cost_usd: number | string | null }>,
+): AIUsageSummaryRow[] {
+  const byFeature = new Map<string, AIUsageSummaryRow>();
+  for (const row of rows) {
+    const entry = byFeature.get(row.feature)
+      || { feature: row.feature as AIFeature, calls: 0, total_tokens: 0, cost_usd: 0 };
+    entry.calls++;
+    entry.total_tokens += row.total_tokens ?? 0;
+    entry.cost_usd += Number(row.cost_usd ?? 0);
+    byFeature.set(row.feature, entry);
+  }
+  return [...byFeature.values()].sort((a, b) => b.cost_usd - a.cost_usd);
+}
+
+export async function getAIBudgetStatus(orgId: string): Promise<AIBudgetStatus> {
+  const supabase = createAdminClient();
+
+  const [{ data: org }, { data: rows }] = await Promise.all([
+    supabase.from('organizations').select('settings').eq('id', orgId).single(),
+    supabase.from('ai_usage').select('cost_usd').eq('org_id', orgId).gte('created_at', monthStart()),
+  ]);
+
+  const { budget_usd, action } = readBudgetSettings(org?.settings as Record<string, unknown> | null);
+  const spent = (rows || []).reduce((sum, r) => sum + Number(r.cost_usd ?? 0), 0);
+
+  return {
+    month_to_date_usd: spent,
+    budget_usd,
+    action,
+    exceeded: budget_usd !== null && spent >= budget_usd,
+  };
+}
+
+/**
+ * Notify owners/admins the first time an org reaches its cap in a month.
+ * The month is remembered in organizations.settings so repeat calls are no-ops.
+ */
+async function alertBudgetReached(orgId: string, status: AIBudgetStatus) {
+  const supabase = createAdminClient();
+  const month = monthStart().slice(0, 7);
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', orgId)
+    .single();
+
+  const settings = (org?.settings as Record<string, unknown>) || {};
+  if (settings.ai_budget_alerted_month === month) return;
+
+  await supabase
+    .from('organizations')
+    .update({ settings: { ...settings, ai_budget_alerted_month: month } })
+    .eq('id', orgId);
+
+  const { data: admins } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('org_id', orgId)
+    .in('role', ['OWNER', 'ADMIN']);
+
+  const message = `$${status.month_to_date_usd.toFixed(2)} of $${status.budget_usd!.toFixed(2)} spent this month. ${
+    status.action === 'pause' ? 'New parses are paused' : 'New NOIs go to manual entry'
+  } until the budget is raised or the month ends.`;
+
+  if (admins && admins.length > 0) {
+    await supabase.from('notifications').insert(admins.map((admin) => ({
+      org_id: orgId,
+      user_id: admin.id,
+      title: 'Monthly AI budget reached',
+      message,
+      type: 'warning',
+      link: '/settings?tab=ai-usage',
+    })));
+  }
+
+  await inngest.send({
+    name: 'notification/email.requested',
+    data: {
+      type: 'ai_budget_reached',
+      payload: {
+        org_id: orgId,
+        month_to_date_usd: status.month_to_date_usd,
+        budget_usd: status.budget_usd,
+        action: status.action,
+      },
+    },
+  });
+}
+
+/**
+ * Record one AI call in the ledger. Best-effort: a ledger failure is logged
+ * but never fails the caller, since the call has already been paid for.
+ * Replayed fixture responses cost nothing and are not recorded.
+ */
+export async function recordAIUsage(entry: AIUsageEntry): Promise<void> {
+  if (entry.provider === 'fixture') return;
+
+  try {
+    const supabase = createAdminClient();
+    const { error } = await supabase.from('ai_usage').insert({
+      org_id: entry.orgId,
+      feature: entry.feature,
+      provider: entry.provider,
+      model: entry.model,
+      prompt_tokens: entry.usage.prompt_tokens,
+      output_tokens: entry.usage.output_tokens,
+      thoughts_tokens: entry.usage.thoughts_tokens,
+      total_tokens: entry.usage.total_tokens,
+      cost_usd: entry.usage.cost_usd,
+      violation_id: entry.violationId ?? null,
+    });
+    if (error) throw new Error(error.message);
+
+    const status = await getAIBudgetStatus(entry.orgId);
+    if (status.exceeded) await alertBudgetReached(entry.orgId, status);
+  } catch (err) {
+    console.error('Failed to record AI usage:', err);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Abatement deadline engine.
+ *
+ * NOIs state each item's deadline as a period ("1 Day", "60 Days", "24 Hours")
+ * counted from the date of service. This turns that text into a due date using
+ * the org's counting rules (organizations.settings.deadline_rules): calendar
+ * or business days, DC government holidays, and whether a calendar deadline
+ * that lands on a weekend or holiday rolls to the next business day.
+ *
+ * Dates are plain YYYY-MM-DD strings throughout, computed in UTC so the result
+ * never depends on the server's time zone.
+ */
+
+export type DeadlineCounting = 'calendar' | 'business';
+
+export interface DeadlineRules {
+  counting: DeadlineCounting;
+  /** DC government holidays are not business days */
+  observe_dc_holidays: boolean;
+  /** Calendar deadlines on a weekend/holiday move to the next business day */
+  roll_to_business_day: boolean;
+  /** Extra closure dates (YYYY-MM-DD) treated like holidays */
+  extra_holidays: string[];
+}
+
+export const DEFAULT_DEADLINE_RULES: DeadlineRules = {
+  counting: 'calendar',
+  observe_dc_holidays: true,
+  roll_to_business_day: false,
+  extra_holidays: [],
+};
+
+/** Routine infractions are 60 days per the NOI cover letter — used when the text is unreadable */
+export const DEFAULT_ABATEMENT_DAYS = 60;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Deadline rules from organizations.settings, with defaults */
+export function readDeadlineRules(settings: Record<string, unknown> | null | undefined): DeadlineRules {
+  const raw = (settings?.deadline_rules || {}) as Partial<DeadlineRules>;
+  return {
+    counting: raw.counting === 'business' ? 'business' : 'calendar',
+    observe_dc_holidays: raw.observe_dc_holidays !== false,
+    roll_to_business_day: raw.roll_to_business_day === true,
+    extra_holidays: Array.isArray(raw.extra_holidays)
+      ? raw.extra_holidays.filter((d): d is string => typeof d === 'string' && ISO_DATE.test(d))
+      : [],
+  };
+}
+
+/** Validation message for a deadline_rules settings payload, or null if valid */
+export function validateDeadlineRules(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'deadline_rules must be an object';
+  const rules = value as Record<string, unknown>;
+  if ('counting' in rules && !['calendar', 'business'].includes(rules.counting as string)) {
+    return "deadline_rules.counting must be 'calendar' or 'business'";
+  }
+  for (const key of ['observe_dc_holidays', 'roll_to_business_day']) {
+    if (key in rules && typeof rules[key] !== 'boolean') return `deadline_rules.${key} must be a boolean`;
+  }
+  if ('extra_holidays' in rules && !(Array.isArray(rules.extra_holidays)
+    && rules.extra_holidays.every((d) => typeof d === 'string' && ISO_DATE.test(d)))) {
+    return 'deadline_rules.extra_holidays must be a list of YYYY-MM-DD dates';
+  }
+  return null;
+}
+
+/** "60 Days" → { amount: 60, unit: 'days' }; null when there is no period in the text */
+export function parseDeadlineText(text: string | null | undefined): { amount: number; unit: 'days' | 'hours' } | null {
+  const match = text?.match(/(\d+)\s*(day|hour|hr)/i);
+  if (!match) return null;
+  return { amount: parseInt(match[1], 10), unit: match[2].toLowerCase() === 'day' ? 'days' : 'hours' };
+}
+
+function toDate(iso: string): Date {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toIso(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86_400_000);
+}
+
+/** nth (1-based) weekday of a month; n = -1 for the last one */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1));
+    return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+  }
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+}
+
+/** Fixed-date holidays on a Saturday are observed Friday, on a Sunday the Monday after */
+function observed(date: Date): Date {
+  const day = date.getUTCDay();
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+/** Observed DC government holidays falling in a year, as YYYY-MM-DD */
+export function dcHolidays(year: number): string[] {
+  const fixed = (month: number, day: number, y = year) => observed(new Date(Date.UTC(y, month, day)));
+  const holidays = [
+    fixed(0, 1), // New Year's Day
+    fixed(0, 1, year + 1), // next New Year's Day, observed Dec 31 when Jan 1 is a Saturday
+    nthWeekday(year, 0, 1, 3), // Martin Luther King Jr. Day
+    nthWeekday(year, 1, 1, 3), // Washington's Birthday
+    fixed(3, 16), // DC Emancipation Day
+    nthWeekday(year, 4, 1, -1), // Memorial Day
+    fixed(5, 19), // Juneteenth
+    fixed(6, 4), // Independence Day
+    nthWeekday(year, 8, 1, 1), // Labor Day
+    nthWeekday(year, 9, 1, 2), // Indigenous Peoples' Day
+    fixed(10, 11), // Veterans Day
+    nthWeekday(year, 10, 4, 4), // Thanksgiving
+    fixed(11, 25), // Christmas
+  ];
+
+  // Inauguration Day (Jan 20 after a presidential election; Jan 21 if a Sunday).
+  // It can coincide with MLK Day, hence the de-duplication below.
+  if (year % 4 === 1) {
+    const inauguration = new Date(Date.UTC(year, 0, 20));
+    holidays.push(inauguration.getUTCDay() === 0 ? addDays(inauguration, 1) : inauguration);
+  }
+
+  return [...new Set(holidays.map(toIso))].filter((iso) => iso.startsWith(`${year}-`)).sort();
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+function isHoliday(date: Date, rules: DeadlineRules): boolean {
+  const iso = toIso(date);
+  if (rules.extra_holidays.includes(iso)) return true;
+  if (!rules.observe_dc_holidays) return false;
+
+  const year = date.getUTCFullYear();
+  if (!holidayCache.has(year)) holidayCache.set(year, new Set(dcHolidays(year)));
+  return holidayCache.get(year)!.has(iso);
+}
+
+export function isBusinessDay(date: string, rules: DeadlineRules = DEFAULT_DEADLINE_RULES): boolean {
+  const d = toDate(date);
+  const day = d.getUTCDay();
+  return day !== 0 && day !== 6 && !isHoliday(d, rules);
+}
+
+function nextBusinessDay(date: Date, rules: DeadlineRules): Date {
+  let d = date;
+  while (!isBusinessDay(toIso(d), rules)) d = addDays(d, 1);
+  return d;
+}
+
+/**
+ * Due date for one item: its deadline period counted from the date of service.
+ * Hour periods are elapsed time, so they always count calendar days (rounded
+ * up to whole days). Returns null without a valid date of service.
+ */
+export function computeItemDeadline(
+  dateOfService: string | null | undefined,
+  deadlineText: string | null | undefined,
+  rules: DeadlineRules = DEFAULT_DEADLINE_RULES,
+): string | null {
+  if (!dateOfService || !ISO_DATE.test(dateOfService)) return null;
+
+  const period = parseDeadlineText(deadlineText) || { amount: DEFAULT_ABATEMENT_DAYS, unit: 'days' as const };
+  const start = toDate(dateOfService);
+
+  if (period.unit === 'days' && rules.counting === 'business') {
+    let d = start;
+    for (let counted = 0; counted < period.amount;) {
+      d = addDays(d, 1);
+      if (isBusinessDay(toIso(d), rules)) counted++;
+    }
+    return toIso(d);
+  }
+
+  const days = period.unit === 'hours' ? Math.ceil(period.amount / 24) : period.amount;
+  const due = addDays(start, days);
+  return toIso(rules.roll_to_business_day ? nextBusinessDay(due, rules) : due);
+}
+
+/**
+ * The violation's deadline: the earliest deadline among items still open.
+ * Once every item is abated the earliest overall deadline is kept, so a
+ * closed violation still shows when it was due.
+ */
+export function earliestOpenDeadline(
+  items: Array<{ abatement_deadline: string | null; status?: string | null }>,
+): string | null {
+  const earliest = (list: typeof items) => list
+    .map((i) => i.abatement_deadline)
+    .filter((d): d is string => !!d)
+    .sort()[0] ?? null;
+
+  return earliest(items.filter((i) => i.status !== 'abated')) ?? earliest(items);
+}
+
+/** "2025-08-20" → "Aug 20, 2025", read as a local date so it never shifts a day */
+export function formatDueDate(date: string | null | undefined): string {
+  if (!date) return '—';
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
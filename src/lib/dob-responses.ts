@@ -0,0 +1,335 @@
+/**
+ * DOB responses to abatement submissions, read from email.
+ *
+ * After a submission is recorded, DOB answers by email: the abatement was
+ * approved, rejected, or more information is needed. Email sync runs every
+ * message from an allowed sender through detectDobResponse; one that reads
+ * like a response and quotes a notice number or a submission's confirmation
+ * number (as a whole word) is matched to that submission. A clear response
+ * on a pending submission that quotes the violation's notice is applied the
+ * way the submissions PATCH route applies one entered by hand
+ * (response_status, notes, violation status); a mixed one, one matched by
+ * confirmation number alone, or one for a submission that already has a
+ * response, is saved as proposed_response for the PM to accept or dismiss. Either way the
+ * violation's assigned PM is notified.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { inngest } from '@/inngest/client';
+import { applyResponseToItems, transitionViolation } from '@/lib/violation-transitions';
+import type { ProposedDobResponse, SubmissionResponse, ViolationStatus } from '@/lib/types';
+
+export type DobResponseStatus = Exclude<SubmissionResponse, 'PENDING'>;
+
+export interface DetectedDobResponse {
+  // null when the signals for two statuses are equally strong
+  status: DobResponseStatus | null;
+  candidates: DobResponseStatus[];
+  notice_ids: string[];
+  signals: string[];
+  // Sentence that carried the strongest signal, for the response notes
+  excerpt: string;
+}
+
+interface Signal {
+  name: string;
+  pattern: RegExp;
+  weight: number;
+}
+
+const SUBJECT_NOUN = '(?:abatement|submission|request|evidence|certification|certificate)';
+
+const RESPONSE_SIGNALS: Record<DobResponseStatus, Signal[]> = {
+  APPROVED: [
+    { name: 'approved', pattern: new RegExp(`${SUBJECT_NOUN}\\s+(?:has been |was |is )?(?:approved|accepted|verified)`, 'i'), weight: 3 },
+    { name: 'in_compliance', pattern: /\b(?:now|found to be) in compliance\b/i, weight: 2 },
+    { name: 'no_further_action', pattern: /no further action is (?:required|needed)/i, weight: 1 },
+  ],
+  REJECTED: [
+    {
+      name: 'rejected',
+      pattern: new RegExp(`${SUBJECT_NOUN}\\s+(?:has been |was |is )?(?:rejected|denied|not (?:been )?(?:approved|accepted))`, 'i'),
+      weight: 3,
+    },
+    { name: 'unable_to_approve', pattern: /\bunable to (?:approve|accept|verify)\b/i, weight: 3 },
+    { name: 'not_in_compliance', pattern: /\b(?:is|was|remains?) not in compliance\b|\bnon-?compliant\b/i, weight: 2 },
+  ],
+  ADDITIONAL_INFO_REQUESTED: [
+    { name: 'more_information', pattern: /\b(?:additional|more|further) (?:information|documentation|evidence|photo(?:graph)?s?)\b/i, weight: 3 },
+    { name: 'please_provide', pattern: /\bplease (?:provide|submit|send|upload)\b/i, weight: 1 },
+    { name: 'resubmit', pattern: /\bre-?submit\b/i, weight: 1 },
+  ],
+};
+
+const MIN_SCORE = 2;
+const NOTICE_IDS_RE = /\b\d{2}NOI[A-Z]{0,2}-[A-Z]{2,4}-\d{4,6}\b/g;
+const EXCERPT_LENGTH = 300;
+
+/**
+ * Read an email as a DOB response. Returns null unless it reads like one;
+ * the caller still has to tie it to a submission (notice or confirmation
+ * number).
+ */
+export function detectDobResponse({ subject, body }: { subject: string; body: string }): DetectedDobResponse | null {
+  const text = `${subject}\n${body}`;
+
+  const scored = (Object.entries(RESPONSE_SIGNALS) as Array<[DobResponseStatus, Signal[]]>)
+    .map(([status, signals]) => {
+      const matched = signals.filter(s => s.pattern.test(text));
+      return { status, matched, score: matched.reduce((sum, s) => sum + s.weight, 0) };
+    })
+    .filter(r => r.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  if (!scored.length) return null;
+
+  const [best, runnerUp] = scored;
+  const strongest = best.matched.reduce((a, b) => (b.weight > a.weight ? b : a));
+  const sentence = text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .find(s => strongest.pattern.test(s)) ?? '';
+
+  return {
+    status: runnerUp && runnerUp.score === best.score ? null : best.status,
+    candidates: scored.map(r => r.status),
+    notice_ids: [...new Set(text.match(NOTICE_IDS_RE) ?? [])],
+    signals: scored.flatMap(r => r.matched.map(s => s.name)),
+    excerpt: sentence.trim().slice(0, EXCERPT_LENGTH),
+  };
+}
+
+export const RESPONSE_VIOLATION_STATUS: Record<DobResponseStatus, ViolationStatus> = {
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  ADDITIONAL_INFO_REQUESTED: 'ADDITIONAL_INFO_REQUESTED',
+};
+
+export const RESPONSE_LABELS: Record<DobResponseStatus, string> = {
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  ADDITIONAL_INFO_REQUESTED: 'Additional info requested',
+};
+
+interface MatchedSubmission {
+  id: string;
+  violation_id: string;
+  confirmation_number: string | null;
+  response_status: SubmissionResponse;
+  responded_at: string | null;
+  proposed_response: ProposedDobResponse | null;
+}
+
+// Whole words of letters, digits and inner dashes, e.g. "DOB-2026-12345"
+const TOKEN_RE = /[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?/g;
+const MAX_CONFIRMATION_CANDIDATES = 100;
+
+/**
+ * Words of the email that could be a confirmation number: at least four
+ * characters with a digit, as written and uppercased
+ */
+function confirmationCandidates(text: string): string[] {
+  const tokens = (text.match(TOKEN_RE) ?? []).filter((t) => t.length >= 4 && /\d/.test(t));
+  return [...new Set(tokens.flatMap((t) => [t, t.toUpperCase()]))].slice(0, MAX_CONFIRMATION_CANDIDATES);
+}
+
+/**
+ * The submission an email is about: the one whose confirmation number
+ * appears in it as a whole word, else the latest one for a quoted notice
+ */
+async function findSubmission(
+  orgId: string,
+  text: string,
+  noticeIds: string[],
+): Promise<MatchedSubmission | null> {
+  const supabase = createAdminClient();
+
+  const candidates = confirmationCandidates(text);
+  if (candidates.length) {
+    const { data: numbered } = await supabase
+      .from('submissions')
+      .select('id, violation_id, confirmation_number, response_status, responded_at, proposed_response')
+      .eq('org_id', orgId)
+      .in('confirmation_number', candidates)
+      .order('submitted_at', { ascending: false })
+      .limit(1);
+
+    const byConfirmation = (numbered as MatchedSubmission[] | null)?.[0];
+    if (byConfirmation) return byConfirmation;
+  }
+
+  if (!noticeIds.length) return null;
+
+  const { data: violations } = await supabase
+    .from('violations')
+    .select('id')
+    .eq('org_id', orgId)
+    .in('notice_id', noticeIds);
+  if (!violations?.length) return null;
+
+  const { data: latest } = await supabase
+    .from('submissions')
+    .select('id, violation_id, confirmation_number, response_status, responded_at, proposed_response')
+    .in('violation_id', violations.map((v: { id: string }) => v.id))
+    .order('submitted_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return latest ?? null;
+}
+
+export interface RecordedDobResponse {
+  submission_id: string;
+  violation_id: string;
+  status: DobResponseStatus | null;
+  applied: boolean;
+}
+
+/**
+ * Apply or propose a DOB response email on the submission it refers to and
+ * notify the violation's PM. Returns null when the email isn't a response
+ * or matches no submission.
+ */
+export async function recordDobResponse({
+  orgId,
+  email,
+}: {
+  orgId: string;
+  email: { subject: string; from: string; body: string; received_at: string; message_id: string };
+}): Promise<RecordedDobResponse | null> {
+  const detected = detectDobResponse(email);
+  if (!detected) return null;
+
+  const submission = await findSubmission(orgId, `${email.subject}\n${email.body}`, detected.notice_ids);
+  if (!submission) return null;
+
+  // The same email arrives in every connected mailbox it was sent to; only
+  // the first copy is recorded
+  const sameEmail = (receivedAt: string | null | undefined) =>
+    !!receivedAt && new Date(receivedAt).getTime() === new Date(email.received_at).getTime();
+  if (sameEmail(submission.responded_at) || sameEmail(submission.proposed_response?.email.received_at)) {
+    return {
+      submission_id: submission.id,
+      violation_id: submission.violation_id,
+      status: detected.status,
+      applied: sameEmail(submission.responded_at),
+    };
+  }
+
+  const supabase = createAdminClient();
+  const { data: violation } = await supabase
+    .from('violations')
+    .select('id, status, notice_id, assigned_to')
+    .eq('id', submission.violation_id)
+    .single();
+  if (!violation) return null;
+
+  const notes = `DOB email "${email.subject}"${detected.excerpt ? `: ${detected.excerpt}` : ''}`;
+  const status = detected.status;
+  // A confirmation number alone isn't enough to act on: the email has to
+  // quote the violation's notice too, or a PM reviews it
+  const noticeQuoted = !!violation.notice_id && detected.notice_ids.includes(violation.notice_id);
+  const applied = !!status && submission.response_status === 'PENDING' && noticeQuoted;
+
+  if (applied) {
+    await supabase
+      .from('submissions')
+      .update({
+        response_status: status,
+        responded_at: email.received_at,
+        response_notes: notes,
+        proposed_response: null,
+      })
+      .eq('id', submission.id);
+
+    const violationStatus = RESPONSE_VIOLATION_STATUS[status];
+    let newStatus = violation.status;
+    if (violation.status !== 'CLOSED' && violation.status !== violationStatus) {
+      const result = await transitionViolation(violation.id, violationStatus, { orgId, force: true });
+      if (result.ok) newStatus = result.violation.status;
+    }
+    // Items follow only when the violation did
+    if (newStatus === violationStatus) {
+      await applyResponseToItems(violation.id, status);
+    }
+
+    await supabase.from('audit_log').insert({
+      org_id: orgId,
+      table_name: 'violations',
+      record_id: violation.id,
+      action: 'DOB_RESPONSE',
+      old_values: { status: violation.status, response_status: submission.response_status },
+      new_values: {
+        status: newStatus,
+        response_status: status,
+        submission_id: submission.id,
+        email_subject: email.subject,
+      },
+      changed_by: null,
+    });
+  } else {
+    const proposal: ProposedDobResponse = {
+      status,
+      candidates: detected.candidates,
+      notes,
+      email: { subject: email.subject, from: email.from, received_at: email.received_at, message_id: email.message_id },
+      detected_at: new Date().toISOString(),
+    };
+    await supabase.from('submissions').update({ proposed_response: proposal }).eq('id', submission.id);
+  }
+
+  await notifyResponse(orgId, violation, status, applied);
+
+  return { submission_id: submission.id, violation_id: violation.id, status, applied };
+}
+
+/** In-app notification and email to the assigned PM, or to the org's PMs when nobody is assigned */
+async function notifyResponse(
+  orgId: string,
+  violation: { id: string; notice_id: string | null; assigned_to: string | null },
+  status: DobResponseStatus | null,
+  applied: boolean,
+) {
+  const supabase = createAdminClient();
+
+  let recipientIds: string[] = violation.assigned_to ? [violation.assigned_to] : [];
+  if (!recipientIds.length) {
+    const { data: managers } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('org_id', orgId)
+      .in('role', ['OWNER', 'PROJECT_MANAGER']);
+    recipientIds = (managers || []).map((m: { id: string }) => m.id);
+  }
+  if (!recipientIds.length) return;
+
+  const notice = violation.notice_id || 'a violation';
+  const title = applied && status
+    ? `DOB response: ${RESPONSE_LABELS[status]}`
+    : 'DOB response needs review';
+  const message = applied && status
+    ? `DOB's response to the submission for ${notice} was recorded as ${RESPONSE_LABELS[status].toLowerCase()}.`
+    : `An email from DOB about ${notice} looks like a response to its submission. Review and apply it.`;
+
+  await supabase.from('notifications').insert(recipientIds.map((userId) => ({
+    org_id: orgId,
+    user_id: userId,
+    title,
+    message,
+    type: applied && status === 'APPROVED' ? 'success' : 'warning',
+    link: `/dashboard/${violation.id}`,
+  })));
+
+  await inngest.send({
+    name: 'notification/email.requested',
+    data: {
+      type: 'dob_response',
+      payload: {
+        org_id: orgId,
+        violation_id: violation.id,
+        recipient_ids: recipientIds,
+        response_status: status,
+        applied,
+      },
+    },
+  });
+}
@@ -0,0 +1,272 @@
+/**
+ * NOI intake bookkeeping shared by every mailbox source — Gmail and Outlook
+ * polling (mailbox/sync.ts) and the inbound-email webhook (/api/email/inbound). Each
+ * PDF attachment gets its own email_sync_log row, keyed by file name within
+ * the message; a message with nothing to import gets one row with an empty
+ * attachment_name. Each PDF is checked for duplicates, stored, turned into a
+ * violation and queued for parsing with noi/parse.requested.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { inngest } from '@/inngest/client';
+import { fingerprintPdf, findPdfDuplicate } from '@/lib/pdf-fingerprint';
+import { pendingParseMetadata } from '@/lib/parse-logger';
+import { recordDobResponse } from '@/lib/dob-responses';
+
+export interface IntakeConnection {
+  id: string;
+  org_id: string;
+}
+
+export interface IntakeMessage {
+  // Provider message ID (Gmail or Graph ID, MIME Message-ID); unique per connection
+  messageId: string;
+  from: string;
+  subject: string;
+  receivedAt: string;
+}
+
+export interface IntakePdf {
+  filename: string;
+  load: () => Promise<Buffer>;
+}
+
+export interface IntakeOutcome {
+  violationId: string | null;
+  status: 'processed' | 'skipped' | 'duplicate' | 'failed' | 'response';
+  error?: string;
+}
+
+/** Attachment names already logged for a message ('' for a message-level row) */
+export async function loggedAttachments(connectionId: string, messageId: string): Promise<Set<string>> {
+  const supabase = createAdminClient();
+  const { data: rows } = await supabase
+    .from('email_sync_log')
+    .select('attachment_name')
+    .eq('email_connection_id', connectionId)
+    .eq('gmail_message_id', messageId);
+  return new Set((rows || []).map((row: { attachment_name: string }) => row.attachment_name));
+}
+
+function logEntryFor(connection: IntakeConnection, message: IntakeMessage, attachmentName = '') {
+  return {
+    org_id: connection.org_id,
+    email_connection_id: connection.id,
+    gmail_message_id: message.messageId,
+    from_address: message.from,
+    subject: message.subject,
+    received_at: message.receivedAt,
+    attachment_name: attachmentName,
+  };
+}
+
+/** Log a message that isn't being imported, e.g. one the mailbox's search rules don't match */
+async function logSkippedMessage(
+  connection: IntakeConnection,
+  message: IntakeMessage,
+  reason: string,
+): Promise<IntakeOutcome> {
+  const supabase = createAdminClient();
+  await supabase.from('email_sync_log').insert({
+    ...logEntryFor(connection, message),
+    status: 'skipped',
+    error_message: reason,
+  });
+  return { violationId: null, status: 'skipped', error: reason };
+}
+
+/** Storage paths can't carry the <, >, / and @ of MIME Message-IDs */
+function storageKey(value: string): string {
+  return value.replace(/[^\w.-]+/g, '_');
+}
+
+/**
+ * Import one PDF attachment: log it, link it to an existing violation if the
+ * PDF was imported before, or upload it and queue a parse.
+ */
+async function importEmailPdf(
+  connection: IntakeConnection,
+  message: IntakeMessage,
+  pdf: IntakePdf,
+): Promise<IntakeOutcome> {
+  const supabase = createAdminClient();
+  const logEntry = logEntryFor(connection, message, pdf.filename);
+
+  try {
+    const pdfBuffer = await pdf.load();
+
+    // Re-forwarded NOIs: link to the existing violation instead of re-parsing
+    const fingerprint = await fingerprintPdf(pdfBuffer);
+    const duplicate = await findPdfDuplicate(connection.org_id, fingerprint);
+    if (duplicate) {
+      await supabase.from('email_sync_log').insert({
+        ...logEntry,
+        violation_id: duplicate.violation_id,
+        status: 'duplicate',
+        error_message: `${duplicate.match === 'exact' ? 'Identical' : 'Same text as'} PDF already imported${duplicate.notice_id ? ` (${duplicate.notice_id})` : ''}`,
+      });
+      return { violationId: duplicate.violation_id, status: 'duplicate' };
+    }
+
+    // Upload to Supabase Storage
+    const storagePath = `${connection.org_id}/email-imports/${storageKey(message.messageId)}/${storageKey(pdf.filename)}`;
+    const { error: uploadError } = await supabase.storage
+      .from('noi-pdfs')
+      .upload(storagePath, pdfBuffer, {
+        contentType: 'application/pdf',
+        upsert: true,
+      });
+
+    if (uploadError) {
+      throw new Error(`Storage upload failed: ${uploadError.message}`);
+    }
+
+    // Create violation record
+    const { data: violation, error: insertError } = await supabase
+      .from('violations')
+      .insert({
+        org_id: connection.org_id,
+        pdf_storage_path: storagePath,
+        ...fingerprint,
+        source: 'email',
+        status: 'NEW',
+        parse_status: 'pending',
+        parse_metadata: {
+          email_subject: message.subject,
+          email_from: message.from,
+          email_received_at: message.receivedAt,
+          gmail_message_id: message.messageId,
+          ...pendingParseMetadata(),
+        },
+      })
+      .select()
+      .single();
+
+    if (insertError || !violation) {
+      throw new Error(`Failed to create violation: ${insertError?.message}`);
+    }
+
+    // Trigger parse pipeline
+    await inngest.send({
+      name: 'noi/parse.requested',
+      data: {
+        violationId: violation.id,
+        pdfStoragePath: storagePath,
+        orgId: connection.org_id,
+      },
+    });
+
+    // Log success
+    await supabase.from('email_sync_log').insert({
+      ...logEntry,
+      violation_id: violation.id,
+      status: 'processed',
+    });
+
+    return { violationId: violation.id, status: 'processed' };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+
+    // Log failure
+    await supabase.from('email_sync_log').insert({
+      ...logEntry,
+      status: 'failed',
+      error_message: errorMessage,
+    });
+
+    return { violationId: null, status: 'failed', error: errorMessage };
+  }
+}
+
+/** 'scan.pdf', 'scan.pdf' → 'scan.pdf', 'scan (2).pdf' so each attachment has its own log row */
+function uniqueFilenames<T extends IntakePdf>(pdfs: T[]): T[] {
+  const seen = new Map<string, number>();
+  return pdfs.map((pdf) => {
+    const count = (seen.get(pdf.filename) ?? 0) + 1;
+    seen.set(pdf.filename, count);
+    if (count === 1) return pdf;
+    const dot = pdf.filename.lastIndexOf('.');
+    const filename = dot > 0
+      ? `${pdf.filename.slice(0, dot)} (${count})${pdf.filename.slice(dot)}`
+      : `${pdf.filename} (${count})`;
+    return { ...pdf, filename };
+  });
+}
+
+/**
+ * Import every PDF attachment of a message, skipping attachments logged by
+ * an earlier sync (so a message interrupted halfway is finished on the next
+ * one). Returns one outcome per attachment imported now; an empty list means
+ * the whole message was handled before. With `skipReason` (the mailbox's
+ * search rules don't match) or no PDFs, the message is logged as skipped
+ * instead. `onImported` runs once any attachment is processed or a
+ * duplicate (the mailbox tags it DOB-Processed); its errors are ignored.
+ */
+export async function importEmailPdfs(
+  connection: IntakeConnection,
+  message: IntakeMessage,
+  pdfs: IntakePdf[],
+  { skipReason, onImported }: { skipReason?: string; onImported?: () => Promise<void> } = {},
+): Promise<IntakeOutcome[]> {
+  const logged = await loggedAttachments(connection.id, message.messageId);
+
+  if (skipReason || !pdfs.length) {
+    if (logged.has('')) return [];
+    return [await logSkippedMessage(connection, message, skipReason || 'No PDF attachment found')];
+  }
+
+  const outcomes: IntakeOutcome[] = [];
+  for (const pdf of uniqueFilenames(pdfs)) {
+    if (logged.has(pdf.filename)) continue;
+    outcomes.push(await importEmailPdf(connection, message, pdf));
+  }
+
+  if (outcomes.some((o) => o.status === 'processed' || o.status === 'duplicate')) {
+    try {
+      await onImported?.();
+    } catch {
+      // Non-critical — don't fail the sync
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Record a message as DOB's response to a submission (see dob-responses.ts)
+ * and log it with status 'response'. Returns null when it isn't one, or the
+ * message was logged before, so the caller carries on importing its PDFs.
+ */
+export async function importDobResponse(
+  connection: IntakeConnection,
+  message: IntakeMessage,
+  body: string,
+): Promise<IntakeOutcome | null> {
+  // Responses are only recorded once; a message seen before goes through the
+  // usual attachment bookkeeping instead
+  if ((await loggedAttachments(connection.id, message.messageId)).size) return null;
+
+  const response = await recordDobResponse({
+    orgId: connection.org_id,
+    email: {
+      subject: message.subject,
+      from: message.from,
+      body,
+      received_at: message.receivedAt,
+      message_id: message.messageId,
+    },
+  });
+  if (!response) return null;
+
+  const supabase = createAdminClient();
+  await supabase.from('email_sync_log').insert({
+    ...logEntryFor(connection, message),
+    violation_id: response.violation_id,
+    status: 'response',
+    error_message: response.applied
+      ? `DOB response recorded: ${response.status}`
+      : 'Possible DOB response, waiting for review on the submission',
+  });
+
+  return { violationId: response.violation_id, status: 'response' };
+}
@@ -158,3 +158,54 @@ export function submissionConfirmationEmail(params: {
     `),
   };
 }
+
+export function aiBudgetReachedEmail(params: {
+  recipientName: string;
+  monthToDateUsd: number;
+  budgetUsd: number;
+  action: 'pause' | 'manual';
+  settingsLink: string;
+}) {
+  return {
+    subject: `[AI Budget] Monthly cap of $${params.budgetUsd.toFixed(2)} reached`,
+    html: emailWrapper('#ea580c', 'Monthly AI Budget Reached', `$${params.monthToDateUsd.toFixed(2)} spent this month`, `
+      <p style="margin: 0 0 16px; color: #334155;">Hi ${params.recipientName},</p>
+      <p style="margin: 0 0 16px; color: #334155;">Your organization has reached its monthly AI budget of <strong>$${params.budgetUsd.toFixed(2)}</strong>.</p>
+      <p style="margin: 0 0 24px; color: #64748b; font-size: 14px;">${
+        params.action === 'pause'
+          ? 'New NOI parses are paused and will wait in the parse queue until the budget is raised or the month ends.'
+          : 'New NOIs skip AI extraction and go to the review queue for manual entry until the budget is raised or the month ends.'
+      }</p>
+      <a href="${params.settingsLink}" style="display: inline-block; background: #0f172a; color: white; padding: 10px 24px; border-radius: 8px; text-decoration: none; font-size: 14px; font-weight: 600;">
+        Review AI Usage
+      </a>
+    `),
+  };
+}
+
+export function dobResponseEmail(params: {
+  recipientName: string;
+  violationAddress: string;
+  noticeId: string;
+  // null when the email has to be reviewed before anything is recorded
+  responseLabel: string | null;
+  violationLink: string;
+}) {
+  const recorded = params.responseLabel !== null;
+  return {
+    subject: recorded
+      ? `DOB response: ${params.responseLabel} for ${params.violationAddress}`
+      : `DOB response needs review: ${params.violationAddress}`,
+    html: emailWrapper(recorded ? '#2563eb' : '#ea580c', recorded ? 'DOB Response Recorded' : 'DOB Response Needs Review', params.noticeId, `
+      <p style="margin: 0 0 16px; color: #334155;">Hi ${params.recipientName},</p>
+      <p style="margin: 0 0 24px; color: #334155;">${
+        recorded
+          ? `DOB replied to the abatement submission for <strong>${params.violationAddress}</strong>. The response was recorded as <strong>${params.responseLabel}</strong> and the violation status updated.`
+          : `An email from DOB about <strong>${params.violationAddress}</strong> looks like a response to its abatement submission. Open the submission to apply or dismiss it.`
+      }</p>
+      <a href="${params.violationLink}" style="display: inline-block; background: #0f172a; color: white; padding: 10px 24px; border-radius: 8px; text-decoration: none; font-size: 14px; font-weight: 600;">
+        View Submission
+      </a>
+    `),
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Inspector evidence photos extracted from NOI pages.
+ *
+ * An NOI evidence page is a scanned sheet with a photo somewhere on it,
+ * surrounded by a header, caption and white margins. The parse pipeline
+ * renders each evidence page on the server, crops it to the photo and stores
+ * a JPEG plus a thumbnail in the noi-pdfs bucket. The stored files are
+ * recorded under photos.metadata.image so the portal, dashboard and
+ * submission PDF can load them directly instead of rendering the NOI PDF in
+ * the browser. Photos without metadata.image fall back to page rendering.
+ */
+
+import type { Photo } from './types';
+
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** What extract-photos stores under photos.metadata.image */
+export interface EvidenceImage {
+  path: string;
+  thumbnail_path: string;
+  width: number;
+  height: number;
+  // Region of the rendered page kept; null when the whole page was kept
+  crop: CropBox | null;
+}
+
+export interface PixelData {
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+}
+
+/** Side of the square blocks the page is scanned in, in pixels */
+const CELL_SIZE = 16;
+/** Pixels darker than this (0–255 luma) count as ink */
+const INK_LUMA = 235;
+/** A block is part of a photo when this share of it is ink; text rarely gets close */
+const PHOTO_CELL_MIN = 0.6;
+/** Regions smaller than this share of the page are logos or stamps, not photos */
+const MIN_REGION_SHARE = 0.05;
+/** Blocks of margin added around the detected region */
+const PAD_CELLS = 1;
+
+export const EVIDENCE_JPEG_QUALITY = 85;
+export const EVIDENCE_THUMBNAIL_WIDTH = 320;
+
+/**
+ * Find the photo on a rendered evidence page: the largest connected run of
+ * densely inked blocks. Returns null when nothing photo-sized is found, in
+ * which case the whole page should be kept.
+ */
+export function detectPhotoRegion({ data, width, height }: PixelData): CropBox | null {
+  const cols = Math.ceil(width / CELL_SIZE);
+  const rows = Math.ceil(height / CELL_SIZE);
+  const dense = new Uint8Array(cols * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x0 = col * CELL_SIZE;
+      const y0 = row * CELL_SIZE;
+      const x1 = Math.min(x0 + CELL_SIZE, width);
+      const y1 = Math.min(y0 + CELL_SIZE, height);
+      let ink = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+          if (luma < INK_LUMA) ink++;
+        }
+      }
+      if (ink / ((x1 - x0) * (y1 - y0)) >= PHOTO_CELL_MIN) dense[row * cols + col] = 1;
+    }
+  }
+
+  // Largest 4-connected component of dense blocks
+  const seen = new Uint8Array(cols * rows);
+  let best: { size: number; minCol: number; minRow: number; maxCol: number; maxRow: number } | null = null;
+
+  for (let start = 0; start < dense.length; start++) {
+    if (!dense[start] || seen[start]) continue;
+
+    const region = { size: 0, minCol: cols, minRow: rows, maxCol: 0, maxRow: 0 };
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      region.size++;
+      region.minCol = Math.min(region.minCol, col);
+      region.maxCol = Math.max(region.maxCol, col);
+      region.minRow = Math.min(region.minRow, row);
+      region.maxRow = Math.max(region.maxRow, row);
+
+      const neighbours = [
+        col > 0 ? cell - 1 : -1,
+        col < cols - 1 ? cell + 1 : -1,
+        row > 0 ? cell - cols : -1,
+        row < rows - 1 ? cell + cols : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && dense[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    if (!best || region.size > best.size) best = region;
+  }
+
+  if (!best || best.size < cols * rows * MIN_REGION_SHARE) return null;
+
+  const x = Math.max(0, (best.minCol - PAD_CELLS) * CELL_SIZE);
+  const y = Math.max(0, (best.minRow - PAD_CELLS) * CELL_SIZE);
+  const right = Math.min(width, (best.maxCol + 1 + PAD_CELLS) * CELL_SIZE);
+  const bottom = Math.min(height, (best.maxRow + 1 + PAD_CELLS) * CELL_SIZE);
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+/** Thumbnail size for an image, never upscaled */
+export function thumbnailSize(width: number, height: number): { width: number; height: number } {
+  if (width <= EVIDENCE_THUMBNAIL_WIDTH) return { width, height };
+  return {
+    width: EVIDENCE_THUMBNAIL_WIDTH,
+    height: Math.max(1, Math.round(height * (EVIDENCE_THUMBNAIL_WIDTH / width))),
+  };
+}
+
+/** Storage paths (noi-pdfs bucket) for one evidence page's image and thumbnail */
+export function evidenceImagePaths(orgId: string, violationId: string, pageNumber: number) {
+  const base = `${orgId}/evidence/${violationId}/page-${pageNumber}`;
+  return { path: `${base}.jpg`, thumbnail_path: `${base}-thumb.jpg` };
+}
+
+/** The extracted image for an inspector photo, if the pipeline produced one */
+export function evidenceImageOf(photo: Pick<Photo, 'photo_type' | 'metadata'>): EvidenceImage | null {
+  if (photo.photo_type !== 'INSPECTOR') return null;
+  const image = (photo.metadata as Record<string, unknown> | null)?.image as EvidenceImage | undefined;
+  return image?.path && image.thumbnail_path ? image : null;
+}
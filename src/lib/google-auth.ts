@@ -14,23 +14,39 @@ function getOAuth2Client() {
   );
 }
 
+export interface AuthState {
+  orgId: string;
+  // Member connecting the mailbox; becomes its owner
+  userId: string;
+}
+
 /**
  * Generate the Google OAuth consent URL.
- * The `state` param carries the encrypted org_id so we can associate the
- * connection with the correct organization after the callback.
+ * The `state` param carries the encrypted org and user IDs so we can
+ * associate the connection with the right organization and owner after the
+ * callback. Google always shows the account chooser, since an org can
+ * connect several mailboxes.
  */
-export function getAuthUrl(orgId: string): string {
+export function getAuthUrl(state: AuthState): string {
   const oauth2 = getOAuth2Client();
-  const state = encryptToken(orgId);
 
   return oauth2.generateAuthUrl({
     access_type: 'offline',
-    prompt: 'consent', // force refresh token
+    prompt: 'select_account consent', // pick the mailbox; force refresh token
     scope: SCOPES,
-    state,
+    state: encryptToken(JSON.stringify(state)),
   });
 }
 
+/** Read the callback's `state` param; throws if it was tampered with */
+export function readAuthState(state: string): AuthState {
+  const parsed = JSON.parse(decryptToken(state));
+  if (typeof parsed?.orgId !== 'string' || typeof parsed?.userId !== 'string') {
+    throw new Error('Invalid OAuth state');
+  }
+  return parsed;
+}
+
 /** Exchange an authorization code for access + refresh tokens */
 export async function exchangeCode(code: string) {
   const oauth2 = getOAuth2Client();
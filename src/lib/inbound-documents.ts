@@ -0,0 +1,241 @@
+/**
+ * Classification and routing of inbound DOB documents.
+ *
+ * Not every PDF DOB sends is a new NOI. Reinspection notices, abatement
+ * approval letters, fine notices and hearing notices all arrive the same way
+ * (dc.gov email, uploads) and quote the notice number of the NOI they are
+ * about. The parse pipeline classifies each PDF from its text layer before
+ * anything else runs; NOIs continue through the pipeline, the rest are filed
+ * against the existing violation for their notice in violation_documents.
+ */
+
+import { createAdminClient } from './supabase/server';
+import { extractPdfText } from './pdf/extract-text';
+import { NOTICE_ID_RE, SERVICE_DATE_RE } from './noi-text-parser';
+import { applyResponseToItems, transitionViolation } from './violation-transitions';
+import type { DocumentType, ViolationDocument } from './types';
+
+export type RoutedDocumentType = ViolationDocument['document_type'];
+
+export interface DocumentClassification {
+  type: DocumentType;
+  // Notice number the document is about (for an NOI, its own)
+  reference_notice_id: string | null;
+  // Names of the rules that matched, for the parse log
+  signals: string[];
+  has_text: boolean;
+}
+
+/** Email subject and file name, used when the PDF is a scan with no text */
+export interface ClassificationHints {
+  subject?: string | null;
+  filename?: string | null;
+}
+
+interface Signal {
+  name: string;
+  pattern: RegExp;
+  weight: number;
+}
+
+// Structure only an NOI has: the dated header and its violation blocks
+const NOI_SIGNALS: Signal[] = [
+  { name: 'noi_header', pattern: SERVICE_DATE_RE, weight: 3 },
+  { name: 'violation_block', pattern: /^Violation:/m, weight: 2 },
+  { name: 'abate_in', pattern: /\bAbate in\b/i, weight: 2 },
+  { name: 'location_of_infraction', pattern: /Location of Infraction/i, weight: 1 },
+];
+
+const DOCUMENT_SIGNALS: Record<RoutedDocumentType, Signal[]> = {
+  REINSPECTION_NOTICE: [
+    { name: 'reinspection_title', pattern: /notice of re-?inspection/i, weight: 3 },
+    { name: 'reinspection', pattern: /\bre-?inspection\b/i, weight: 2 },
+    { name: 'scheduled', pattern: /\bscheduled (?:for|on)\b/i, weight: 1 },
+  ],
+  APPROVAL_LETTER: [
+    { name: 'abatement_approved', pattern: /abatement (?:has been |was |is )?(?:approved|accepted|verified)/i, weight: 3 },
+    { name: 'approval_title', pattern: /(?:approval|acceptance) of abatement|abatement approval/i, weight: 3 },
+    { name: 'in_compliance', pattern: /\b(?:now|found to be) in compliance\b/i, weight: 2 },
+    { name: 'no_further_action', pattern: /no further action is required/i, weight: 1 },
+  ],
+  FINE_NOTICE: [
+    { name: 'fine_title', pattern: /notice of (?:civil )?(?:fine|penalty)/i, weight: 3 },
+    { name: 'amount_due', pattern: /\b(?:amount|payment|balance) due\b/i, weight: 2 },
+    { name: 'pay_fine', pattern: /\bpay (?:the|this|your) fine/i, weight: 1 },
+    { name: 'late_penalty', pattern: /\blate (?:payment )?penalt/i, weight: 1 },
+  ],
+  HEARING_NOTICE: [
+    { name: 'hearing_title', pattern: /notice of (?:a )?hearing/i, weight: 3 },
+    { name: 'hearing_scheduled', pattern: /hearing (?:date|is scheduled|has been scheduled)/i, weight: 2 },
+    { name: 'oah', pattern: /Office of Administrative Hearings/i, weight: 1 },
+  ],
+};
+
+/** Score needed before a document is labelled as anything but UNKNOWN */
+const MIN_SCORE = 2;
+/** NOIs mention fines and hearings in their boilerplate; this much NOI structure wins outright */
+const NOI_STRUCTURE_SCORE = 4;
+
+function score(text: string, signals: Signal[]): { score: number; matched: string[] } {
+  const matched = signals.filter(s => s.pattern.test(text));
+  return { score: matched.reduce((sum, s) => sum + s.weight, 0), matched: matched.map(s => s.name) };
+}
+
+/**
+ * Classify a document from its page text, falling back to the email subject
+ * and file name for scans. UNKNOWN means nothing matched; the pipeline treats
+ * it as an NOI, which is what it did before documents were classified.
+ */
+export function classifyDocumentText(pages: string[], hints: ClassificationHints = {}): DocumentClassification {
+  const body = pages.join('\n');
+  const hintText = [hints.subject, hints.filename].filter(Boolean).join('\n');
+  const has_text = body.replace(/\s+/g, '').length > 0;
+  const text = has_text ? `${body}\n${hintText}` : hintText;
+  const reference_notice_id = (body.match(NOTICE_ID_RE) ?? hintText.match(NOTICE_ID_RE))?.[1] ?? null;
+
+  const noi = score(body, NOI_SIGNALS);
+  if (noi.score >= NOI_STRUCTURE_SCORE) {
+    return { type: 'NOI', reference_notice_id, signals: noi.matched, has_text };
+  }
+
+  let best: { type: RoutedDocumentType; score: number; matched: string[] } | null = null;
+  for (const [type, signals] of Object.entries(DOCUMENT_SIGNALS) as Array<[RoutedDocumentType, Signal[]]>) {
+    const result = score(text, signals);
+    if (result.score >= MIN_SCORE && (!best || result.score > best.score)) {
+      best = { type, ...result };
+    }
+  }
+
+  if (best) return { type: best.type, reference_notice_id, signals: best.matched, has_text };
+  if (noi.score > 0) return { type: 'NOI', reference_notice_id, signals: noi.matched, has_text };
+  return { type: 'UNKNOWN', reference_notice_id, signals: [], has_text };
+}
+
+/** Classify a PDF. Extraction failures classify on the hints alone. */
+export async function classifyPdf(pdfBuffer: Buffer, hints: ClassificationHints = {}): Promise<DocumentClassification> {
+  let pages: string[] = [];
+  try {
+    pages = await extractPdfText(pdfBuffer);
+  } catch {
+    // Unreadable text layer — same as a scan
+  }
+  return classifyDocumentText(pages, hints);
+}
+
+/** True for documents that belong to an existing violation rather than starting one */
+export function isRoutedDocument(
+  classification: DocumentClassification,
+): classification is DocumentClassification & { type: RoutedDocumentType } {
+  return classification.type !== 'NOI' && classification.type !== 'UNKNOWN';
+}
+
+export interface RoutedDocument {
+  violation_id: string;
+  document_id: string;
+  // Submission marked APPROVED by an approval letter
+  submission_id: string | null;
+}
+
+/**
+ * File a non-NOI document against the org's violation for its reference
+ * notice. An approval letter also records DOB's response on the latest
+ * submission and approves the violation, as the submissions PATCH route does
+ * when a PM enters the response by hand. Returns null when the document has
+ * no notice number or no violation carries it.
+ */
+export async function routeInboundDocument({
+  orgId,
+  classification,
+  storagePath,
+  source,
+  intakeViolationId,
+}: {
+  orgId: string;
+  classification: DocumentClassification & { type: RoutedDocumentType };
+  storagePath: string;
+  source: string;
+  intakeViolationId?: string;
+}): Promise<RoutedDocument | null> {
+  if (!classification.reference_notice_id) return null;
+
+  const supabase = createAdminClient();
+
+  let query = supabase
+    .from('violations')
+    .select('id, status')
+    .eq('org_id', orgId)
+    .eq('notice_id', classification.reference_notice_id)
+    .order('created_at', { ascending: true })
+    .limit(1);
+  if (intakeViolationId) query = query.neq('id', intakeViolationId);
+
+  const { data: matches } = await query;
+  const violation = matches?.[0];
+  if (!violation) return null;
+
+  const { data: document, error } = await supabase
+    .from('violation_documents')
+    .insert({
+      org_id: orgId,
+      violation_id: violation.id,
+      document_type: classification.type,
+      reference_notice_id: classification.reference_notice_id,
+      storage_path: storagePath,
+      source,
+      intake_violation_id: intakeViolationId ?? null,
+      classification: { signals: classification.signals, has_text: classification.has_text },
+    })
+    .select('id')
+    .single();
+
+  if (error || !document) {
+    throw new Error(`Failed to file ${classification.type} against ${classification.reference_notice_id}: ${error?.message}`);
+  }
+
+  let submissionId: string | null = null;
+  if (classification.type === 'APPROVAL_LETTER') {
+    const { data: submission } = await supabase
+      .from('submissions')
+      .select('id, response_status')
+      .eq('violation_id', violation.id)
+      .order('submitted_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (submission && submission.response_status !== 'APPROVED') {
+      await supabase
+        .from('submissions')
+        .update({
+          response_status: 'APPROVED',
+          responded_at: new Date().toISOString(),
+          response_notes: 'Abatement approval letter received from DOB',
+        })
+        .eq('id', submission.id);
+      submissionId = submission.id;
+    }
+
+    if (violation.status !== 'APPROVED' && violation.status !== 'CLOSED') {
+      // The letter settles it, wherever the violation was in the workflow
+      await transitionViolation(violation.id, 'APPROVED', { orgId, force: true });
+    }
+    await applyResponseToItems(violation.id, 'APPROVED');
+  }
+
+  await supabase.from('audit_log').insert({
+    org_id: orgId,
+    table_name: 'violations',
+    record_id: violation.id,
+    action: 'DOCUMENT_RECEIVED',
+    old_values: classification.type === 'APPROVAL_LETTER' ? { status: violation.status } : null,
+    new_values: {
+      document_id: document.id,
+      document_type: classification.type,
+      reference_notice_id: classification.reference_notice_id,
+      source,
+      ...(classification.type === 'APPROVAL_LETTER' && { status: 'APPROVED', submission_id: submissionId }),
+    },
+    changed_by: null,
+  });
+
+  return { violation_id: violation.id, document_id: document.id, submission_id: submissionId };
+}
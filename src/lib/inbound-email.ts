@@ -0,0 +1,50 @@
+/**
+ * Signed inbound-email webhook.
+ *
+ * A forwarding rule or inbound-parse service POSTs each raw MIME message to
+ * /api/email/inbound/<connection id> with two headers:
+ *   x-inbound-timestamp  Unix seconds when the request was signed
+ *   x-inbound-signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ * keyed by the org's signing secret. Requests signed more than five minutes
+ * ago are rejected so a captured request can't be replayed.
+ */
+
+import crypto from 'crypto';
+
+export const INBOUND_TIMESTAMP_HEADER = 'x-inbound-timestamp';
+export const INBOUND_SIGNATURE_HEADER = 'x-inbound-signature';
+
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/** Signature header value for a raw message signed at `timestamp` (Unix seconds) */
+export function signInboundEmail(secret: string, timestamp: number | string, body: Buffer): string {
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(`${timestamp}.`);
+  hmac.update(body);
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+export function verifyInboundSignature({
+  secret,
+  timestamp,
+  signature,
+  body,
+  now = Date.now(),
+}: {
+  secret: string;
+  timestamp: string | null;
+  signature: string | null;
+  body: Buffer;
+  now?: number;
+}): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signInboundEmail(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
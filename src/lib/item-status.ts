@@ -0,0 +1,93 @@
+import type { ItemStatus, WorkflowStatus } from './types';
+import { WORKFLOW_COLORS, type WorkflowColor } from './workflow';
+
+/**
+ * Per-item repair lifecycle. Contractor actions and photo approvals move an
+ * item forward through ITEM_LIFECYCLE; `disputed` is set by a PM for items
+ * the org is contesting with DOB and takes the item out of the roll-up.
+ *
+ * The violation's status follows its items (see rolledUpStatuses and
+ * rollupViolationStatus in violation-transitions.ts).
+ */
+
+// In the order work moves through them
+export const ITEM_LIFECYCLE: ItemStatus[] = ['open', 'in_repair', 'photo_uploaded', 'photo_approved', 'abated'];
+
+export const ITEM_STATUSES: ItemStatus[] = [...ITEM_LIFECYCLE, 'disputed'];
+
+// What a PM can set by hand; the photo states follow the photos themselves
+export const MANUAL_ITEM_STATUSES: ItemStatus[] = ['open', 'in_repair', 'abated', 'disputed'];
+
+const ITEM_STATUS_DISPLAY: Record<ItemStatus, { label: string; color: WorkflowColor }> = {
+  open: { label: 'Open', color: 'slate' },
+  in_repair: { label: 'In Repair', color: 'yellow' },
+  photo_uploaded: { label: 'Photo Uploaded', color: 'cyan' },
+  photo_approved: { label: 'Photo Approved', color: 'teal' },
+  abated: { label: 'Abated', color: 'emerald' },
+  disputed: { label: 'Disputed', color: 'red' },
+};
+
+export function isItemStatus(value: unknown): value is ItemStatus {
+  return typeof value === 'string' && (ITEM_STATUSES as string[]).includes(value);
+}
+
+// Rows written before item statuses were tracked may still say 'in_progress' or 'resolved'
+function normalize(status: string | null | undefined): ItemStatus {
+  if (status === 'in_progress') return 'in_repair';
+  if (status === 'resolved') return 'abated';
+  return isItemStatus(status) ? status : 'open';
+}
+
+export function itemStatusLabel(status: string | null | undefined): string {
+  return ITEM_STATUS_DISPLAY[normalize(status)].label;
+}
+
+export function itemStatusColor(status: string | null | undefined): string {
+  return WORKFLOW_COLORS[ITEM_STATUS_DISPLAY[normalize(status)].color];
+}
+
+/** Position in ITEM_LIFECYCLE; -1 for disputed */
+export function itemStage(status: string | null | undefined): number {
+  return ITEM_LIFECYCLE.indexOf(normalize(status));
+}
+
+/** The lifecycle statuses before `to`, i.e. the ones an item can advance to it from */
+export function itemStatusesBefore(to: ItemStatus): ItemStatus[] {
+  const stage = ITEM_LIFECYCLE.indexOf(to);
+  return stage < 0 ? [] : ITEM_LIFECYCLE.slice(0, stage);
+}
+
+/** Whether the item still counts toward the repair (not abated or disputed) */
+export function isItemOutstanding(status: string | null | undefined): boolean {
+  const s = normalize(status);
+  return s !== 'abated' && s !== 'disputed';
+}
+
+/**
+ * The violation statuses its items have reached, in the order the violation
+ * should pass through them:
+ *
+ *   IN_PROGRESS           any item is past open
+ *   PHOTOS_UPLOADED       every item has at least a photo uploaded
+ *   READY_FOR_SUBMISSION  every item's photo is approved (or the item is abated)
+ *
+ * Disputed items are left out; with nothing but disputed items, nothing is
+ * reached.
+ */
+export function rolledUpStatuses(items: Array<{ status: string | null }>): WorkflowStatus[] {
+  const stages = items.map((i) => itemStage(i.status)).filter((stage) => stage >= 0);
+  if (stages.length === 0) return [];
+
+  const reached: WorkflowStatus[] = [];
+  if (stages.some((stage) => stage >= itemStage('in_repair'))) reached.push('IN_PROGRESS');
+  if (stages.every((stage) => stage >= itemStage('photo_uploaded'))) reached.push('PHOTOS_UPLOADED');
+  if (stages.every((stage) => stage >= itemStage('photo_approved'))) reached.push('READY_FOR_SUBMISSION');
+  return reached;
+}
+
+/** Counts per status for the Items tab summary, in ITEM_STATUSES order */
+export function countItemStatuses(items: Array<{ status: string | null }>): Array<{ status: ItemStatus; count: number }> {
+  return ITEM_STATUSES
+    .map((status) => ({ status, count: items.filter((i) => normalize(i.status) === status).length }))
+    .filter(({ count }) => count > 0);
+}
@@ -0,0 +1,287 @@
+/**
+ * Which emails in a connected mailbox are NOI intake.
+ *
+ * Each email_connections row carries search_rules: include and exclude lists
+ * for senders, subjects, labels and attachment names. Mailbox sync turns the
+ * sender and subject rules (and, for Gmail, label rules) into a search query
+ * and checks every message it gets back against all of them with
+ * matchMessage, which is also what the settings "Test rules" preview and the
+ * inbound-email webhook use.
+ * An empty search_rules means the defaults, which are the DOB senders and
+ * NOI subjects intake has always searched for.
+ */
+
+export interface MailboxRules {
+  // '@dc.gov' matches the domain and its subdomains, 'clerk@dc.gov' one
+  // address, anything else a phrase in the From header ("Department of Buildings")
+  include_senders: string[];
+  exclude_senders: string[];
+  // Case-insensitive words or phrases in the subject
+  include_subjects: string[];
+  exclude_subjects: string[];
+  // Gmail label names or Outlook categories; ignored by sources without labels
+  include_labels: string[];
+  exclude_labels: string[];
+  // File name globs (* and ?) narrowing which PDF attachments are imported
+  include_attachments: string[];
+  exclude_attachments: string[];
+  // Mailbox search page size; syncs and backfills follow every page
+  max_results: number;
+}
+
+export type MailboxRuleList = Exclude<keyof MailboxRules, 'max_results'>;
+
+export const MAILBOX_RULE_LISTS: MailboxRuleList[] = [
+  'include_senders',
+  'exclude_senders',
+  'include_subjects',
+  'exclude_subjects',
+  'include_labels',
+  'exclude_labels',
+  'include_attachments',
+  'exclude_attachments',
+];
+
+export const DEFAULT_MAILBOX_RULES: MailboxRules = {
+  include_senders: ['@dc.gov', '@dcra.dc.gov', 'Department of Buildings'],
+  exclude_senders: [],
+  include_subjects: ['NOI', 'Notice of Infraction', 'housing violation', 'code violation'],
+  exclude_subjects: [],
+  include_labels: [],
+  exclude_labels: [],
+  include_attachments: [],
+  exclude_attachments: [],
+  max_results: 20,
+};
+
+export const FORWARDED_MAILBOX_RULES: MailboxRules = {
+  ...DEFAULT_MAILBOX_RULES,
+  include_senders: [],
+  include_subjects: [],
+};
+
+// Gmail's messages.list page size limit
+export const MAX_RESULTS_LIMIT = 500;
+const MAX_RULES_PER_LIST = 50;
+
+function cleanList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  return value
+    .filter((v): v is string => typeof v === 'string')
+    .map(v => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Search rules from email_connections.search_rules, with defaults for
+ * anything unset. Webhook connections pass FORWARDED_MAILBOX_RULES: whatever
+ * is forwarded to them was picked already.
+ */
+export function readMailboxRules(
+  raw: Record<string, unknown> | null | undefined,
+  defaults: MailboxRules = DEFAULT_MAILBOX_RULES,
+): MailboxRules {
+  const rules = { ...defaults };
+  for (const key of MAILBOX_RULE_LISTS) {
+    const list = cleanList(raw?.[key]);
+    if (list) rules[key] = list;
+  }
+  const max = raw?.max_results;
+  if (typeof max === 'number' && Number.isInteger(max) && max >= 1 && max <= MAX_RESULTS_LIMIT) {
+    rules.max_results = max;
+  }
+  return rules;
+}
+
+/** Validation message for a search_rules payload, or null if valid */
+export function validateMailboxRules(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'rules must be an object';
+  const rules = value as Record<string, unknown>;
+  for (const key of MAILBOX_RULE_LISTS) {
+    if (!(key in rules)) continue;
+    const list = rules[key];
+    if (!Array.isArray(list) || !list.every(v => typeof v === 'string')) {
+      return `rules.${key} must be a list of strings`;
+    }
+    if (list.length > MAX_RULES_PER_LIST) return `rules.${key} can have at most ${MAX_RULES_PER_LIST} entries`;
+  }
+  if ('max_results' in rules) {
+    const max = rules.max_results;
+    if (typeof max !== 'number' || !Number.isInteger(max) || max < 1 || max > MAX_RESULTS_LIMIT) {
+      return `rules.max_results must be a whole number from 1 to ${MAX_RESULTS_LIMIT}`;
+    }
+  }
+  return null;
+}
+
+/** False when the rules would match every message with an attachment */
+export function hasIncludeRule(rules: MailboxRules): boolean {
+  return rules.include_senders.length > 0 || rules.include_subjects.length > 0 || rules.include_labels.length > 0;
+}
+
+function quote(term: string): string {
+  return /[\s()"]/.test(term) ? `"${term.replace(/"/g, '')}"` : term;
+}
+
+/** Gmail search labels by name with spaces and slashes as dashes */
+function labelTerm(name: string): string {
+  return name.toLowerCase().replace(/[\s/]+/g, '-');
+}
+
+function anyOf(operator: string, terms: string[]): string {
+  return terms.length === 1 ? `${operator}:${terms[0]}` : `${operator}:(${terms.join(' OR ')})`;
+}
+
+/**
+ * Gmail search query for the sender, subject and label rules. Attachment
+ * globs can't be expressed in Gmail search; matchMessage applies them.
+ */
+export function buildGmailQuery(rules: MailboxRules, afterDate?: string): string {
+  const parts: string[] = [];
+  if (rules.include_senders.length) parts.push(anyOf('from', rules.include_senders.map(quote)));
+  if (rules.include_subjects.length) parts.push(anyOf('subject', rules.include_subjects.map(quote)));
+  if (rules.include_labels.length) {
+    parts.push(rules.include_labels.length === 1
+      ? `label:${labelTerm(rules.include_labels[0])}`
+      : `{${rules.include_labels.map(l => `label:${labelTerm(l)}`).join(' ')}}`);
+  }
+  for (const sender of rules.exclude_senders) parts.push(`-from:${quote(sender)}`);
+  for (const subject of rules.exclude_subjects) parts.push(`-subject:${quote(subject)}`);
+  for (const label of rules.exclude_labels) parts.push(`-label:${labelTerm(label)}`);
+  parts.push('has:attachment');
+  if (afterDate) parts.push(`after:${afterDate}`);
+  return parts.join(' ');
+}
+
+/**
+ * Gmail search for DOB's replies to submissions: the allowed senders with any
+ * subject, attachment or not. Null without sender rules, when it would search
+ * the whole mailbox.
+ */
+export function buildResponseQuery(rules: MailboxRules, afterDate?: string): string | null {
+  if (!rules.include_senders.length) return null;
+  const parts = [anyOf('from', rules.include_senders.map(quote))];
+  for (const sender of rules.exclude_senders) parts.push(`-from:${quote(sender)}`);
+  for (const label of rules.exclude_labels) parts.push(`-label:${labelTerm(label)}`);
+  if (afterDate) parts.push(`after:${afterDate}`);
+  return parts.join(' ');
+}
+
+/** Bare address from a From header: 'DOB <noi@dc.gov>' → 'noi@dc.gov' */
+function senderAddress(from: string): string {
+  return (from.match(/<([^>]+)>/)?.[1] ?? from).trim().toLowerCase();
+}
+
+export function senderMatches(from: string, pattern: string): boolean {
+  const address = senderAddress(from);
+  const p = pattern.trim().toLowerCase();
+  if (p.startsWith('@')) {
+    const domain = address.split('@')[1] ?? '';
+    return domain === p.slice(1) || domain.endsWith(`.${p.slice(1)}`);
+  }
+  if (p.includes('@')) return address === p;
+  return from.toLowerCase().includes(p);
+}
+
+/** True when the sender passes the sender rules, whatever the subject and attachments */
+export function senderAllowed(from: string, rules: MailboxRules): boolean {
+  return !rules.exclude_senders.some(p => senderMatches(from, p))
+    && (!rules.include_senders.length || rules.include_senders.some(p => senderMatches(from, p)));
+}
+
+/** Whole-word phrase match, like Gmail's subject: search ("NOI" doesn't match "noise") */
+export function subjectMatches(subject: string, pattern: string): boolean {
+  const phrase = pattern.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|\\W)${phrase}($|\\W)`, 'i').test(subject);
+}
+
+export function attachmentMatches(filename: string, pattern: string): boolean {
+  const regex = pattern
+    .trim()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regex}$`, 'i').test(filename);
+}
+
+export interface RuleCandidate {
+  from: string;
+  subject: string;
+  // null when the source has no labels (inbound webhook)
+  labels: string[] | null;
+  // File names of the message's PDF attachments
+  attachments: string[];
+}
+
+export interface RuleMatch {
+  matched: boolean;
+  // Each rule group's verdict, for the preview and sync log
+  reasons: Array<{ ok: boolean; text: string }>;
+  // Attachments that pass the attachment rules, in message order
+  attachments: string[];
+}
+
+/** A recent message and whether the rules match it, for the settings preview */
+export interface RulePreviewMessage {
+  id: string;
+  from: string;
+  subject: string;
+  receivedAt: string | null;
+  matched: boolean;
+  reasons: RuleMatch['reasons'];
+  // PDF that would be imported
+  attachment: string | null;
+}
+
+/** Check a message against every rule */
+export function matchMessage(message: RuleCandidate, rules: MailboxRules): RuleMatch {
+  const reasons: RuleMatch['reasons'] = [];
+  const fail = (text: string) => reasons.push({ ok: false, text });
+
+  const check = (
+    label: string,
+    include: string[],
+    exclude: string[],
+    matches: (pattern: string) => boolean,
+  ) => {
+    const excludedBy = exclude.find(matches);
+    if (excludedBy) {
+      fail(`${label} matches exclude rule "${excludedBy}"`);
+      return;
+    }
+    if (!include.length) return;
+    const includedBy = include.find(matches);
+    if (includedBy) {
+      reasons.push({ ok: true, text: `${label} matches "${includedBy}"` });
+    } else {
+      fail(`${label} matches no include rule`);
+    }
+  };
+
+  check('Sender', rules.include_senders, rules.exclude_senders, p => senderMatches(message.from, p));
+  check('Subject', rules.include_subjects, rules.exclude_subjects, p => subjectMatches(message.subject, p));
+
+  if (message.labels) {
+    const labels = message.labels.map(l => l.toLowerCase());
+    check('Label', rules.include_labels, rules.exclude_labels, p => labels.includes(p.trim().toLowerCase()));
+  }
+
+  const attachments = message.attachments.filter(name =>
+    !rules.exclude_attachments.some(p => attachmentMatches(name, p))
+    && (!rules.include_attachments.length || rules.include_attachments.some(p => attachmentMatches(name, p))),
+  );
+  if (!message.attachments.length) {
+    fail('No PDF attachment found');
+  } else if (!attachments.length) {
+    fail('No PDF attachment matches the attachment rules');
+  } else if (rules.include_attachments.length || rules.exclude_attachments.length) {
+    reasons.push({ ok: true, text: `Attachment ${attachments[0]} matches the attachment rules` });
+  }
+
+  return { matched: reasons.every(r => r.ok), reasons, attachments };
+}
+
+/** Sync log message for a message the rules didn't match */
+export function unmatchedReason(match: RuleMatch): string {
+  return match.reasons.filter(r => !r.ok).map(r => r.text).join('; ');
+}
@@ -0,0 +1,232 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { startFakeGraph, type FakeGraph, type FakeGraphMessage } from '@/test/helpers/fake-graph';
+import { DEFAULT_MAILBOX_RULES } from '@/lib/mailbox-rules';
+import { createOutlookClient, outlookProvider, outlookSearchQuery } from '../outlook';
+import { syncEmailConnection } from '../sync';
+import type { MailboxConnection } from '../provider';
+
+function makeMock(data: unknown) {
+  const result = { data, error: null };
+  const chain: Record<string, ReturnType<typeof vi.fn>> = {};
+  ['select', 'insert', 'update', 'eq', 'in'].forEach((m) => {
+    chain[m] = vi.fn(() => chain);
+  });
+  chain.then = vi.fn((resolve: (v: unknown) => unknown) => Promise.resolve(result).then(resolve));
+  return chain;
+}
+
+const mockAdminFrom = vi.fn();
+const mockImportEmailPdfs = vi.fn();
+const mockImportDobResponse = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => ({ from: mockAdminFrom }),
+}));
+
+vi.mock('@/lib/google-auth', () => ({
+  encryptToken: (value: string) => `enc:${value}`,
+  decryptToken: (value: string) => value.replace(/^enc:/, ''),
+  refreshAccessToken: vi.fn(),
+}));
+
+vi.mock('@/lib/email-intake', () => ({
+  importEmailPdfs: (...args: unknown[]) => mockImportEmailPdfs(...args),
+  importDobResponse: (...args: unknown[]) => mockImportDobResponse(...args),
+}));
+
+let graph: FakeGraph;
+
+function message(id: string, overrides: Partial<FakeGraphMessage> = {}): FakeGraphMessage {
+  return {
+    id,
+    subject: `Notice of Infraction ${id}`,
+    from: { name: 'Department of Buildings', address: 'noreply@dc.gov' },
+    receivedDateTime: '2026-09-02T14:30:00Z',
+    categories: [],
+    body: 'Please find the attached notice.',
+    attachments: [
+      { id: `${id}-pdf`, name: 'NOI-25NOIE-INS-05478.pdf', contentType: 'application/pdf', content: '%PDF-1.4 notice' },
+    ],
+    ...overrides,
+  };
+}
+
+const connection: MailboxConnection = {
+  id: 'conn-1',
+  org_id: 'org-1',
+  provider: 'outlook',
+  connected_email: 'compliance@example.com',
+  access_token_encrypted: 'enc:fake-access-token',
+  refresh_token_encrypted: 'enc:old-refresh-token',
+  token_expires_at: '2099-01-01T00:00:00Z',
+  auto_poll_enabled: true,
+  last_synced_at: null,
+  status: 'active',
+  search_rules: null,
+};
+
+beforeAll(async () => {
+  graph = await startFakeGraph();
+  process.env.MICROSOFT_GRAPH_URL = graph.graphUrl;
+  process.env.MICROSOFT_LOGIN_URL = graph.loginUrl;
+});
+
+afterAll(async () => {
+  await graph.close();
+  delete process.env.MICROSOFT_GRAPH_URL;
+  delete process.env.MICROSOFT_LOGIN_URL;
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  graph.messages = [];
+  graph.requests = [];
+  graph.token = { access_token: 'fake-access-token', refresh_token: 'fake-refresh-token', expires_in: 3600 };
+});
+
+describe('outlookSearchQuery', () => {
+  it('turns sender and subject rules into KQL with inclusive dates', () => {
+    const query = outlookSearchQuery({
+      kind: 'noi',
+      rules: { ...DEFAULT_MAILBOX_RULES, include_senders: ['@dc.gov', 'Department of Buildings'], include_subjects: ['NOI'] },
+      after: '2026-09-01',
+      before: '2026-09-30',
+    });
+    expect(query).toBe(
+      '(from:"dc.gov" OR from:"Department of Buildings") AND subject:"NOI" AND hasattachments:true'
+        + ' AND received>=2026-09-01 AND received<=2026-09-30',
+    );
+  });
+
+  it('has no response search without senders', () => {
+    expect(outlookSearchQuery({ kind: 'response', rules: { ...DEFAULT_MAILBOX_RULES, include_senders: [] } })).toBeNull();
+  });
+});
+
+describe('Outlook mailbox client', () => {
+  it('follows result pages and sends the search to Graph', async () => {
+    graph.messages = ['a', 'b', 'c'].map((id) => message(id));
+    const client = createOutlookClient('fake-access-token');
+    const search = { kind: 'noi' as const, rules: DEFAULT_MAILBOX_RULES };
+
+    const first = await client.listMessages(search, 2);
+    expect(first?.messageIds).toEqual(['a', 'b']);
+    expect(first?.nextPageToken).toMatch(/^http:\/\/127\.0\.0\.1/);
+
+    const second = await client.listMessages(search, 2, first?.nextPageToken);
+    expect(second).toEqual({ messageIds: ['c'], nextPageToken: null });
+
+    expect(graph.requests[0].query.get('$search')).toContain('hasattachments:true');
+  });
+
+  it('refuses page tokens that do not point back to Graph', async () => {
+    const client = createOutlookClient('fake-access-token');
+    await expect(
+      client.listMessages({ kind: 'noi', rules: DEFAULT_MAILBOX_RULES }, 2, 'https://attacker.example/page'),
+    ).rejects.toThrow('Invalid page token');
+  });
+
+  it('maps a message, keeping only PDF file attachments', async () => {
+    graph.messages = [message('a', {
+      categories: ['NOIs'],
+      attachments: [
+        { id: 'p1', name: 'notice.pdf', contentType: 'application/pdf', content: '%PDF' },
+        { id: 'p2', name: 'scan.PDF', contentType: 'application/octet-stream', content: '%PDF' },
+        { id: 'd1', name: 'letter.docx', contentType: 'application/msword', content: 'doc' },
+        { id: 'i1', name: 'forwarded.pdf', contentType: 'application/pdf', content: '', '@odata.type': '#microsoft.graph.itemAttachment' },
+      ],
+    })];
+
+    const result = await createOutlookClient('fake-access-token').getMessage('a');
+
+    expect(result).toEqual({
+      id: 'a',
+      from: 'Department of Buildings <noreply@dc.gov>',
+      subject: 'Notice of Infraction a',
+      receivedAt: '2026-09-02T14:30:00.000Z',
+      labels: ['NOIs'],
+      pdfAttachments: [
+        { filename: 'notice.pdf', attachmentId: 'p1' },
+        { filename: 'scan.PDF', attachmentId: 'p2' },
+      ],
+      text: 'Please find the attached notice.',
+    });
+    const messageRequest = graph.requests.find((r) => r.path === '/v1.0/me/messages/a');
+    expect(messageRequest?.headers.prefer).toBe('outlook.body-content-type="text"');
+  });
+
+  it('downloads attachment contents', async () => {
+    graph.messages = [message('a')];
+    const buffer = await createOutlookClient('fake-access-token').downloadAttachment('a', 'a-pdf');
+    expect(buffer.toString()).toBe('%PDF-1.4 notice');
+  });
+
+  it('adds the DOB-Processed category once, keeping existing ones', async () => {
+    graph.messages = [message('a', { categories: ['NOIs'] })];
+    const client = createOutlookClient('fake-access-token');
+
+    await client.markProcessed('a');
+    await client.markProcessed('a');
+
+    expect(graph.messages[0].categories).toEqual(['NOIs', 'DOB-Processed']);
+    expect(graph.requests.filter((r) => r.method === 'PATCH')).toHaveLength(1);
+  });
+
+  it('surfaces Graph errors', async () => {
+    await expect(createOutlookClient('fake-access-token').getMessage('missing')).rejects.toThrow(
+      'Microsoft Graph 404: ErrorItemNotFound',
+    );
+  });
+});
+
+describe('outlookProvider.connect', () => {
+  it('refreshes an expiring token and keeps the rotated refresh token', async () => {
+    graph.token = { access_token: 'fake-access-token', refresh_token: 'new-refresh-token', expires_in: 3600 };
+
+    const { updatedConnection } = await outlookProvider.connect({ ...connection, token_expires_at: null });
+
+    expect(updatedConnection).toMatchObject({
+      access_token_encrypted: 'enc:fake-access-token',
+      refresh_token_encrypted: 'enc:new-refresh-token',
+    });
+    const tokenRequest = new URLSearchParams(graph.requests[0].body);
+    expect(tokenRequest.get('grant_type')).toBe('refresh_token');
+    expect(tokenRequest.get('refresh_token')).toBe('old-refresh-token');
+  });
+
+  it('fails with the token error so the cron can mark the connection expired', async () => {
+    graph.token = { ...graph.token, error: 'invalid_grant' };
+    await expect(outlookProvider.connect({ ...connection, token_expires_at: null })).rejects.toThrow('invalid_grant');
+  });
+});
+
+describe('syncEmailConnection with Outlook', () => {
+  it('imports matching PDFs and tags the message as processed', async () => {
+    graph.messages = [message('a')];
+    const connections = makeMock(null);
+    mockAdminFrom.mockReturnValue(connections);
+    mockImportDobResponse.mockResolvedValue(null);
+    mockImportEmailPdfs.mockImplementation(async (
+      _connection: unknown,
+      _message: unknown,
+      attachments: { filename: string; load: () => Promise<Buffer> }[],
+      options: { onImported: () => Promise<void> },
+    ) => {
+      await Promise.all(attachments.map((a) => a.load()));
+      await options.onImported();
+      return attachments.map((a) => ({ status: 'processed', attachmentName: a.filename }));
+    });
+
+    const result = await syncEmailConnection(connection);
+
+    expect(result).toMatchObject({ messagesFound: 1, violationsCreated: 1, errors: [] });
+    expect(mockImportEmailPdfs.mock.calls[0][1]).toMatchObject({
+      messageId: 'a',
+      from: 'Department of Buildings <noreply@dc.gov>',
+      receivedAt: '2026-09-02T14:30:00.000Z',
+    });
+    expect(graph.messages[0].categories).toEqual(['DOB-Processed']);
+    expect(connections.update).toHaveBeenCalledWith(expect.objectContaining({ last_sync_message_count: 1 }));
+  });
+});
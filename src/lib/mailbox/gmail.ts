@@ -0,0 +1,212 @@
+import { google, gmail_v1 } from 'googleapis';
+import { refreshAccessToken, decryptToken, encryptToken } from '@/lib/google-auth';
+import { htmlToText } from '@/lib/mime';
+import { buildGmailQuery, buildResponseQuery } from '@/lib/mailbox-rules';
+import {
+  PROCESSED_MARKER,
+  tokenNeedsRefresh,
+  type MailboxClient,
+  type MailboxConnection,
+  type MailboxMessage,
+  type MailboxProvider,
+  type MailboxSearch,
+} from './provider';
+
+/** 2025-08-19 → 2025/08/19, offset by `days` */
+function gmailDate(isoDate: string, days = 0): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0].replace(/-/g, '/');
+}
+
+/** Gmail search syntax for a mailbox search; null when it would match the whole mailbox */
+export function gmailSearchQuery(search: MailboxSearch): string | null {
+  const after = search.after ? gmailDate(search.after) : undefined;
+  let query: string | null;
+  if (search.kind === 'noi') {
+    query = buildGmailQuery(search.rules, after);
+  } else if (search.kind === 'response') {
+    query = buildResponseQuery(search.rules, after);
+  } else {
+    // Broad enough to show what the rules leave out, not just what they catch
+    query = `has:attachment${after ? ` after:${after}` : ''}`;
+  }
+  // Gmail's before: is exclusive
+  return query && search.before ? `${query} before:${gmailDate(search.before, 1)}` : query;
+}
+
+/** Extract header value from a Gmail message */
+function getHeader(
+  message: gmail_v1.Schema$Message,
+  name: string,
+): string | undefined {
+  return message.payload?.headers?.find(
+    (h) => h.name?.toLowerCase() === name.toLowerCase(),
+  )?.value ?? undefined;
+}
+
+/** Text of a Gmail message: its first text/plain part, else its first HTML part as text */
+function getMessageText(payload: gmail_v1.Schema$MessagePart | undefined): string {
+  const bodies: Record<string, string> = {};
+
+  function walk(part: gmail_v1.Schema$MessagePart) {
+    const type = part.mimeType || '';
+    if ((type === 'text/plain' || type === 'text/html') && !part.filename && part.body?.data && !(type in bodies)) {
+      bodies[type] = Buffer.from(part.body.data, 'base64url').toString('utf8');
+    }
+    for (const child of part.parts || []) walk(child);
+  }
+
+  if (payload) walk(payload);
+  return bodies['text/plain'] ?? (bodies['text/html'] ? htmlToText(bodies['text/html']) : '');
+}
+
+/** Find PDF attachments in a Gmail message */
+function findPdfParts(
+  payload: gmail_v1.Schema$MessagePart | undefined,
+): { filename: string; attachmentId: string }[] {
+  const results: { filename: string; attachmentId: string }[] = [];
+  if (!payload) return results;
+
+  function walk(part: gmail_v1.Schema$MessagePart) {
+    if (
+      part.mimeType === 'application/pdf' &&
+      part.body?.attachmentId &&
+      part.filename
+    ) {
+      results.push({
+        filename: part.filename,
+        attachmentId: part.body.attachmentId,
+      });
+    }
+    if (part.parts) {
+      for (const child of part.parts) walk(child);
+    }
+  }
+
+  walk(payload);
+  return results;
+}
+
+/** MailboxClient over a Gmail API client */
+export function createGmailClient(gmail: gmail_v1.Gmail): MailboxClient {
+  let labels: Promise<gmail_v1.Schema$Label[]> | null = null;
+
+  // Label list, fetched once per client; used for names and the processed label
+  function listLabels(): Promise<gmail_v1.Schema$Label[]> {
+    labels ??= gmail.users.labels.list({ userId: 'me' }).then((res) => res.data.labels || []);
+    return labels;
+  }
+
+  return {
+    async listMessages(search, pageSize, pageToken) {
+      const query = gmailSearchQuery(search);
+      if (!query) return null;
+
+      const response = await gmail.users.messages.list({
+        userId: 'me',
+        q: query,
+        maxResults: pageSize,
+        pageToken: pageToken || undefined,
+      });
+
+      return {
+        messageIds: (response.data.messages || []).map((m) => m.id).filter((id): id is string => !!id),
+        nextPageToken: response.data.nextPageToken || null,
+      };
+    },
+
+    async getMessage(messageId): Promise<MailboxMessage> {
+      const response = await gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'full',
+      });
+      const message = response.data;
+      const dateStr = getHeader(message, 'Date');
+
+      const labelNames = new Map((await listLabels()).map((l) => [l.id, l.name]));
+
+      return {
+        id: messageId,
+        from: getHeader(message, 'From') || '',
+        subject: getHeader(message, 'Subject') || '',
+        receivedAt: dateStr ? new Date(dateStr).toISOString() : null,
+        labels: (message.labelIds || []).map((id) => labelNames.get(id) || id),
+        pdfAttachments: findPdfParts(message.payload),
+        text: getMessageText(message.payload),
+      };
+    },
+
+    async downloadAttachment(messageId, attachmentId) {
+      const response = await gmail.users.messages.attachments.get({
+        userId: 'me',
+        messageId,
+        id: attachmentId,
+      });
+
+      const data = response.data.data;
+      if (!data) throw new Error('Empty attachment data');
+
+      // Gmail API returns URL-safe base64
+      return Buffer.from(data, 'base64url');
+    },
+
+    async markProcessed(messageId) {
+      // Find or create the label
+      let label = (await listLabels()).find((l) => l.name === PROCESSED_MARKER);
+
+      if (!label) {
+        const created = await gmail.users.labels.create({
+          userId: 'me',
+          requestBody: {
+            name: PROCESSED_MARKER,
+            labelListVisibility: 'labelShow',
+            messageListVisibility: 'show',
+          },
+        });
+        label = created.data;
+        labels = null;
+      }
+
+      if (label?.id) {
+        await gmail.users.messages.modify({
+          userId: 'me',
+          id: messageId,
+          requestBody: { addLabelIds: [label.id] },
+        });
+      }
+    },
+  };
+}
+
+export const gmailProvider: MailboxProvider = {
+  name: 'gmail',
+  searchQuery: gmailSearchQuery,
+
+  async connect(connection: MailboxConnection) {
+    let accessToken = decryptToken(connection.access_token_encrypted);
+    let updatedConnection: Partial<MailboxConnection> | undefined;
+
+    // Refresh if expired or expiring within 5 minutes
+    if (tokenNeedsRefresh(connection)) {
+      const credentials = await refreshAccessToken(decryptToken(connection.refresh_token_encrypted));
+      accessToken = credentials.access_token!;
+
+      updatedConnection = {
+        access_token_encrypted: encryptToken(accessToken),
+        token_expires_at: credentials.expiry_date
+          ? new Date(credentials.expiry_date).toISOString()
+          : null,
+      };
+    }
+
+    const auth = new google.auth.OAuth2();
+    auth.setCredentials({ access_token: accessToken });
+
+    return {
+      client: createGmailClient(google.gmail({ version: 'v1', auth })),
+      updatedConnection,
+    };
+  },
+};
@@ -0,0 +1,181 @@
+import { decryptToken, encryptToken } from '@/lib/google-auth';
+import { graphUrl, refreshMicrosoftToken } from '@/lib/microsoft-auth';
+import {
+  PROCESSED_MARKER,
+  tokenNeedsRefresh,
+  type MailboxClient,
+  type MailboxConnection,
+  type MailboxMessage,
+  type MailboxProvider,
+  type MailboxSearch,
+} from './provider';
+
+interface GraphMessage {
+  id: string;
+  subject?: string | null;
+  from?: { emailAddress?: { name?: string | null; address?: string | null } } | null;
+  receivedDateTime?: string | null;
+  categories?: string[];
+  body?: { contentType?: string; content?: string } | null;
+}
+
+interface GraphAttachment {
+  '@odata.type'?: string;
+  id: string;
+  name?: string | null;
+  contentType?: string | null;
+  isInline?: boolean;
+  contentBytes?: string;
+}
+
+/** KQL phrase: quoted, without the quotes it can't contain */
+function kql(value: string): string {
+  return `"${value.replace(/"/g, '').trim()}"`;
+}
+
+function anyOf(field: string, values: string[]): string {
+  const terms = values.map((v) => `${field}:${kql(v)}`);
+  return terms.length === 1 ? terms[0] : `(${terms.join(' OR ')})`;
+}
+
+/**
+ * Outlook $search (KQL) for a mailbox search; null when it would match the
+ * whole mailbox. It narrows by sender, subject, attachments and date only;
+ * labels (categories), exclusions and attachment names are checked against
+ * each fetched message.
+ */
+export function outlookSearchQuery(search: MailboxSearch): string | null {
+  // '@dc.gov' is a domain pattern; KQL matches the domain without the @
+  const senders = search.rules.include_senders.map((s) => s.replace(/^@/, ''));
+  const parts: string[] = [];
+
+  if (search.kind === 'noi') {
+    if (senders.length) parts.push(anyOf('from', senders));
+    if (search.rules.include_subjects.length) parts.push(anyOf('subject', search.rules.include_subjects));
+    parts.push('hasattachments:true');
+  } else if (search.kind === 'response') {
+    if (!senders.length) return null;
+    parts.push(anyOf('from', senders));
+  } else {
+    parts.push('hasattachments:true');
+  }
+
+  if (search.after) parts.push(`received>=${search.after}`);
+  if (search.before) parts.push(`received<=${search.before}`);
+  return parts.join(' AND ');
+}
+
+function isPdf(attachment: GraphAttachment): boolean {
+  return attachment['@odata.type'] !== '#microsoft.graph.itemAttachment'
+    && attachment['@odata.type'] !== '#microsoft.graph.referenceAttachment'
+    && !!attachment.name
+    && (attachment.contentType === 'application/pdf' || /\.pdf$/i.test(attachment.name));
+}
+
+/** MailboxClient over Microsoft Graph with a bearer token */
+export function createOutlookClient(accessToken: string): MailboxClient {
+  const base = graphUrl();
+
+  async function graph<T>(pathOrUrl: string, init: RequestInit = {}): Promise<T> {
+    const res = await fetch(pathOrUrl.startsWith('http') ? pathOrUrl : `${base}${pathOrUrl}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(`Microsoft Graph ${res.status}: ${data.error?.code || ''} ${data.error?.message || ''}`.trim());
+    }
+    return res.status === 204 ? (undefined as T) : res.json();
+  }
+
+  const messagePath = (messageId: string) => `/me/messages/${encodeURIComponent(messageId)}`;
+
+  return {
+    async listMessages(search, pageSize, pageToken) {
+      // Page tokens are Graph's nextLink URLs; only follow ones back to Graph
+      if (pageToken && !pageToken.startsWith(base)) throw new Error('Invalid page token');
+
+      let url = pageToken;
+      if (!url) {
+        const query = outlookSearchQuery(search);
+        if (!query) return null;
+        const params = new URLSearchParams({ $search: `"${query.replace(/"/g, '\\"')}"`, $top: String(pageSize), $select: 'id' });
+        url = `${base}/me/messages?${params}`;
+      }
+
+      const page = await graph<{ value: { id: string }[]; '@odata.nextLink'?: string }>(url);
+      return {
+        messageIds: page.value.map((m) => m.id),
+        nextPageToken: page['@odata.nextLink'] || null,
+      };
+    },
+
+    async getMessage(messageId): Promise<MailboxMessage> {
+      const [message, attachments] = await Promise.all([
+        graph<GraphMessage>(`${messagePath(messageId)}?$select=id,subject,from,receivedDateTime,categories,body`, {
+          headers: { Prefer: 'outlook.body-content-type="text"' },
+        }),
+        graph<{ value: GraphAttachment[] }>(`${messagePath(messageId)}/attachments?$select=id,name,contentType,isInline`),
+      ]);
+
+      const sender = message.from?.emailAddress;
+      return {
+        id: messageId,
+        from: sender?.name && sender.address ? `${sender.name} <${sender.address}>` : sender?.address || '',
+        subject: message.subject || '',
+        receivedAt: message.receivedDateTime ? new Date(message.receivedDateTime).toISOString() : null,
+        labels: message.categories || [],
+        pdfAttachments: attachments.value
+          .filter(isPdf)
+          .map((a) => ({ filename: a.name!, attachmentId: a.id })),
+        text: message.body?.content || '',
+      };
+    },
+
+    async downloadAttachment(messageId, attachmentId) {
+      const attachment = await graph<GraphAttachment>(
+        `${messagePath(messageId)}/attachments/${encodeURIComponent(attachmentId)}`,
+      );
+      if (!attachment.contentBytes) throw new Error('Empty attachment data');
+      return Buffer.from(attachment.contentBytes, 'base64');
+    },
+
+    async markProcessed(messageId) {
+      // A category rather than a folder, so the message stays where the user filed it
+      const { categories = [] } = await graph<GraphMessage>(`${messagePath(messageId)}?$select=categories`);
+      if (categories.includes(PROCESSED_MARKER)) return;
+
+      await graph(messagePath(messageId), {
+        method: 'PATCH',
+        body: JSON.stringify({ categories: [...categories, PROCESSED_MARKER] }),
+      });
+    },
+  };
+}
+
+export const outlookProvider: MailboxProvider = {
+  name: 'outlook',
+  searchQuery: outlookSearchQuery,
+
+  async connect(connection: MailboxConnection) {
+    let accessToken = decryptToken(connection.access_token_encrypted);
+    let updatedConnection: Partial<MailboxConnection> | undefined;
+
+    if (tokenNeedsRefresh(connection)) {
+      const tokens = await refreshMicrosoftToken(decryptToken(connection.refresh_token_encrypted));
+      accessToken = tokens.access_token;
+
+      updatedConnection = {
+        access_token_encrypted: encryptToken(accessToken),
+        token_expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+        ...(tokens.refresh_token && { refresh_token_encrypted: encryptToken(tokens.refresh_token) }),
+      };
+    }
+
+    return { client: createOutlookClient(accessToken), updatedConnection };
+  },
+};
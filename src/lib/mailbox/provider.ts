@@ -0,0 +1,101 @@
+import type { MailboxRules } from '@/lib/mailbox-rules';
+
+/**
+ * Mail services NOI intake can read from. Sync, backfills, retries and the
+ * rules preview go through a MailboxClient instead of a provider's API, so
+ * Gmail and Microsoft 365 mailboxes are handled the same way; only search
+ * syntax, attachment download and the "processed" marker differ.
+ */
+
+/** email_connections.provider values with OAuth mailboxes behind them ('webhook' rows have none) */
+export const MAILBOX_PROVIDERS = ['gmail', 'outlook'] as const;
+export type MailboxProviderName = (typeof MAILBOX_PROVIDERS)[number];
+
+/** Name of the Gmail label / Outlook category put on messages that were imported */
+export const PROCESSED_MARKER = 'DOB-Processed';
+
+export interface MailboxConnection {
+  id: string;
+  org_id: string;
+  provider: string;
+  connected_email: string;
+  access_token_encrypted: string;
+  refresh_token_encrypted: string;
+  token_expires_at: string | null;
+  auto_poll_enabled: boolean;
+  last_synced_at: string | null;
+  status: string;
+  search_rules: Record<string, unknown> | null;
+}
+
+/** What a search is for: NOIs (has attachments), DOB replies (any message from the senders), or the rules preview */
+export type MailboxSearchKind = 'noi' | 'response' | 'preview';
+
+export interface MailboxSearch {
+  kind: MailboxSearchKind;
+  rules: MailboxRules;
+  // YYYY-MM-DD, inclusive
+  after?: string;
+  // YYYY-MM-DD, inclusive
+  before?: string;
+}
+
+export interface MailboxAttachment {
+  filename: string;
+  attachmentId: string;
+}
+
+/** A message as intake sees it, whatever service it came from */
+export interface MailboxMessage {
+  id: string;
+  from: string;
+  subject: string;
+  receivedAt: string | null;
+  // Gmail label names or Outlook categories, for label rules
+  labels: string[];
+  pdfAttachments: MailboxAttachment[];
+  // Plain-text body, for recognising DOB responses
+  text: string;
+}
+
+export interface MailboxClient {
+  /**
+   * One page of message IDs for a search. Null when the rules can't be
+   * turned into a search that wouldn't read the whole mailbox.
+   */
+  listMessages(
+    search: MailboxSearch,
+    pageSize: number,
+    pageToken?: string | null,
+  ): Promise<{ messageIds: string[]; nextPageToken: string | null } | null>;
+  getMessage(messageId: string): Promise<MailboxMessage>;
+  downloadAttachment(messageId: string, attachmentId: string): Promise<Buffer>;
+  /** Tag an imported message with PROCESSED_MARKER */
+  markProcessed(messageId: string): Promise<void>;
+}
+
+export interface MailboxProvider {
+  name: MailboxProviderName;
+  /** The provider's search syntax for a search, as shown in the rules preview */
+  searchQuery(search: MailboxSearch): string | null;
+  /**
+   * Client for a connection. Refreshes the access token when it is about to
+   * expire and returns the token fields to save on the connection.
+   */
+  connect(connection: MailboxConnection): Promise<{
+    client: MailboxClient;
+    updatedConnection?: Partial<MailboxConnection>;
+  }>;
+}
+
+export function isMailboxProvider(name: string): name is MailboxProviderName {
+  return (MAILBOX_PROVIDERS as readonly string[]).includes(name);
+}
+
+/** Tokens are refreshed when they expire within this window */
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export function tokenNeedsRefresh(connection: Pick<MailboxConnection, 'token_expires_at'>): boolean {
+  const expiresAt = connection.token_expires_at ? new Date(connection.token_expires_at) : null;
+  return !expiresAt || expiresAt.getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS;
+}
@@ -0,0 +1,254 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { importDobResponse, importEmailPdfs, type IntakeOutcome } from '@/lib/email-intake';
+import {
+  matchMessage,
+  readMailboxRules,
+  senderAllowed,
+  unmatchedReason,
+  type MailboxRules,
+  type RulePreviewMessage,
+} from '@/lib/mailbox-rules';
+import { gmailProvider } from './gmail';
+import { outlookProvider } from './outlook';
+import {
+  MAILBOX_PROVIDERS,
+  type MailboxClient,
+  type MailboxConnection,
+  type MailboxProvider,
+  type MailboxSearch,
+} from './provider';
+
+export interface SyncResult {
+  messagesFound: number;
+  violationsCreated: number;
+  skipped: number;
+  duplicates: number;
+  // DOB replies recorded on submissions
+  responses: number;
+  errors: string[];
+}
+
+function emptyResult(): SyncResult {
+  return { messagesFound: 0, violationsCreated: 0, skipped: 0, duplicates: 0, responses: 0, errors: [] };
+}
+
+export function getMailboxProvider(name: string): MailboxProvider {
+  if (name === 'gmail') return gmailProvider;
+  if (name === 'outlook') return outlookProvider;
+  throw new Error(`Unknown mailbox provider "${name}". Expected one of: ${MAILBOX_PROVIDERS.join(', ')}.`);
+}
+
+/** Client for a connection, persisting the access token if it had to be refreshed */
+async function connectMailbox(connection: MailboxConnection): Promise<MailboxClient> {
+  const { client, updatedConnection } = await getMailboxProvider(connection.provider).connect(connection);
+
+  if (updatedConnection) {
+    const supabase = createAdminClient();
+    await supabase
+      .from('email_connections')
+      .update(updatedConnection)
+      .eq('id', connection.id);
+  }
+
+  return client;
+}
+
+/** Every message ID a search finds, following all result pages */
+async function searchAll(client: MailboxClient, search: MailboxSearch): Promise<string[]> {
+  const messageIds: string[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const page = await client.listMessages(search, search.rules.max_results, pageToken);
+    if (!page) break;
+    messageIds.push(...page.messageIds);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return messageIds;
+}
+
+/**
+ * Process a single NOI email: extract each PDF → upload → create violation → trigger parse.
+ * Returns one outcome per attachment imported now; empty when the message was handled before.
+ * `force` imports every PDF attachment whatever the search rules say.
+ */
+async function processNOIEmail(
+  client: MailboxClient,
+  connection: MailboxConnection,
+  messageId: string,
+  rules: MailboxRules,
+  force = false,
+): Promise<IntakeOutcome[]> {
+  const message = await client.getMessage(messageId);
+  const intakeMessage = {
+    messageId,
+    from: message.from,
+    subject: message.subject,
+    receivedAt: message.receivedAt ?? new Date().toISOString(),
+  };
+
+  // DOB replying to a submission rather than sending a notice
+  if (!force && senderAllowed(intakeMessage.from, rules)) {
+    const response = await importDobResponse(connection, intakeMessage, message.text);
+    if (response) return [response];
+  }
+
+  // The search covers senders, subjects and labels only roughly (and not
+  // attachment names); check the message against the rules themselves
+  const match = matchMessage(
+    { from: message.from, subject: message.subject, labels: message.labels, attachments: message.pdfAttachments.map((a) => a.filename) },
+    rules,
+  );
+  const matchedNames = new Set(match.attachments);
+  const pdfParts = message.pdfAttachments.filter((p) => force || matchedNames.has(p.filename));
+
+  return importEmailPdfs(
+    connection,
+    intakeMessage,
+    pdfParts.map((part) => ({
+      filename: part.filename,
+      load: () => client.downloadAttachment(messageId, part.attachmentId),
+    })),
+    {
+      skipReason: match.matched || force ? undefined : unmatchedReason(match),
+      onImported: () => client.markProcessed(messageId),
+    },
+  );
+}
+
+/** Import a batch of messages, tallying outcomes into `result` */
+async function processMessages(
+  client: MailboxClient,
+  connection: MailboxConnection,
+  messageIds: string[],
+  rules: MailboxRules,
+  result: SyncResult,
+): Promise<void> {
+  result.messagesFound += messageIds.length;
+
+  for (const messageId of messageIds) {
+    const outcomes = await processNOIEmail(client, connection, messageId, rules);
+    if (!outcomes.length) result.skipped++;
+    for (const outcome of outcomes) {
+      if (outcome.status === 'processed') {
+        result.violationsCreated++;
+      } else if (outcome.status === 'skipped') {
+        result.skipped++;
+      } else if (outcome.status === 'duplicate') {
+        result.duplicates++;
+      } else if (outcome.status === 'response') {
+        result.responses++;
+      } else if (outcome.status === 'failed') {
+        result.errors.push(outcome.error || 'Unknown error');
+      }
+    }
+  }
+}
+
+const PREVIEW_DAYS = 30;
+const PREVIEW_LIMIT = 25;
+
+/**
+ * Run search rules against the mailbox's recent messages with attachments
+ * without importing anything, for the settings "Test rules" preview.
+ */
+export async function previewMailboxRules(
+  connection: MailboxConnection,
+  rules: MailboxRules,
+): Promise<{ query: string; messages: RulePreviewMessage[] }> {
+  const client = await connectMailbox(connection);
+  const after = new Date(Date.now() - PREVIEW_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  const page = await client.listMessages({ kind: 'preview', rules, after }, PREVIEW_LIMIT);
+
+  const messages = await Promise.all((page?.messageIds ?? []).map(async (id) => {
+    const message = await client.getMessage(id);
+    const match = matchMessage(
+      { from: message.from, subject: message.subject, labels: message.labels, attachments: message.pdfAttachments.map((a) => a.filename) },
+      rules,
+    );
+    return {
+      id,
+      from: message.from,
+      subject: message.subject,
+      receivedAt: message.receivedAt,
+      matched: match.matched,
+      reasons: match.reasons,
+      attachment: match.matched ? match.attachments[0] ?? null : null,
+    };
+  }));
+
+  const query = getMailboxProvider(connection.provider).searchQuery({ kind: 'noi', rules }) ?? '';
+  return { query, messages };
+}
+
+/**
+ * Sync a single email connection: refresh token, search the mailbox, process new emails.
+ */
+export async function syncEmailConnection(connection: MailboxConnection): Promise<SyncResult> {
+  const supabase = createAdminClient();
+  const result = emptyResult();
+
+  const client = await connectMailbox(connection);
+
+  // Search for NOI emails (only after last sync to avoid re-processing)
+  const after = connection.last_synced_at
+    ? new Date(connection.last_synced_at).toISOString().split('T')[0]
+    : undefined;
+
+  const rules = readMailboxRules(connection.search_rules);
+  const messageIds = await searchAll(client, { kind: 'noi', rules, after });
+  const responseIds = await searchAll(client, { kind: 'response', rules, after });
+  await processMessages(client, connection, [...new Set([...messageIds, ...responseIds])], rules, result);
+
+  // Update last synced timestamp
+  await supabase
+    .from('email_connections')
+    .update({
+      last_synced_at: new Date().toISOString(),
+      last_sync_message_count: result.violationsCreated,
+    })
+    .eq('id', connection.id);
+
+  return result;
+}
+
+/**
+ * Import one result page of a historical backfill between two dates
+ * (inclusive). Pass the previous page's token to continue; a null
+ * nextPageToken means the range is done.
+ */
+export async function backfillPage(
+  connection: MailboxConnection,
+  range: { startDate: string; endDate: string; pageToken: string | null },
+): Promise<SyncResult & { nextPageToken: string | null }> {
+  const result = emptyResult();
+
+  const client = await connectMailbox(connection);
+  const rules = readMailboxRules(connection.search_rules);
+
+  const page = await client.listMessages(
+    { kind: 'noi', rules, after: range.startDate, before: range.endDate },
+    rules.max_results,
+    range.pageToken,
+  );
+  if (!page) return { ...result, nextPageToken: null };
+
+  await processMessages(client, connection, page.messageIds, rules, result);
+  return { ...result, nextPageToken: page.nextPageToken };
+}
+
+/**
+ * Run one message through intake again, for the sync history's retry. The
+ * caller removes the log rows being retried first; rows for attachments that
+ * were imported stay, so those aren't imported twice.
+ */
+export async function retryMailboxMessage(
+  connection: MailboxConnection,
+  messageId: string,
+  { force = false }: { force?: boolean } = {},
+): Promise<IntakeOutcome[]> {
+  const client = await connectMailbox(connection);
+  return processNOIEmail(client, connection, messageId, readMailboxRules(connection.search_rules), force);
+}
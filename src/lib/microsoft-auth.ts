@@ -0,0 +1,86 @@
+import { encryptToken, type AuthState } from '@/lib/google-auth';
+
+/**
+ * OAuth for Microsoft 365 / Outlook.com mailboxes (Microsoft identity
+ * platform v2). Uses plain fetch against the token endpoint; the login and
+ * Graph hosts can be pointed at a local fake for tests.
+ */
+
+const SCOPES = ['offline_access', 'User.Read', 'Mail.ReadWrite'];
+
+function loginUrl(): string {
+  const base = process.env.MICROSOFT_LOGIN_URL || 'https://login.microsoftonline.com';
+  return `${base}/${process.env.MICROSOFT_TENANT_ID || 'common'}/oauth2/v2.0`;
+}
+
+export function graphUrl(): string {
+  return process.env.MICROSOFT_GRAPH_URL || 'https://graph.microsoft.com/v1.0';
+}
+
+export interface MicrosoftTokens {
+  access_token: string;
+  // Microsoft issues a new refresh token with each refresh; keep the latest
+  refresh_token?: string;
+  expires_in: number;
+}
+
+/**
+ * Generate the Microsoft consent URL. `state` carries the encrypted org and
+ * user IDs, as for Gmail; the account chooser is always shown.
+ */
+export function getMicrosoftAuthUrl(state: AuthState): string {
+  const params = new URLSearchParams({
+    client_id: process.env.MICROSOFT_CLIENT_ID!,
+    response_type: 'code',
+    redirect_uri: process.env.MICROSOFT_REDIRECT_URI!,
+    response_mode: 'query',
+    scope: SCOPES.join(' '),
+    prompt: 'select_account',
+    state: encryptToken(JSON.stringify(state)),
+  });
+  return `${loginUrl()}/authorize?${params}`;
+}
+
+async function requestToken(grant: Record<string, string>): Promise<MicrosoftTokens> {
+  const res = await fetch(`${loginUrl()}/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: process.env.MICROSOFT_CLIENT_ID!,
+      client_secret: process.env.MICROSOFT_CLIENT_SECRET!,
+      scope: SCOPES.join(' '),
+      ...grant,
+    }),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data.access_token) {
+    // error is e.g. 'invalid_grant', which marks the connection expired
+    throw new Error(`Microsoft token request failed: ${data.error || res.status} ${data.error_description || ''}`.trim());
+  }
+  return data as MicrosoftTokens;
+}
+
+/** Exchange an authorization code for access + refresh tokens */
+export function exchangeMicrosoftCode(code: string): Promise<MicrosoftTokens> {
+  return requestToken({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: process.env.MICROSOFT_REDIRECT_URI!,
+  });
+}
+
+/** Refresh an expired access token using the stored refresh token */
+export function refreshMicrosoftToken(refreshToken: string): Promise<MicrosoftTokens> {
+  return requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+}
+
+/** Address of the signed-in mailbox */
+export async function getMicrosoftMailbox(accessToken: string): Promise<string> {
+  const res = await fetch(`${graphUrl()}/me?$select=mail,userPrincipalName`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) throw new Error(`Microsoft Graph /me failed: ${res.status}`);
+  const me = await res.json();
+  return me.mail || me.userPrincipalName || 'unknown';
+}
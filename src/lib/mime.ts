@@ -0,0 +1,231 @@
+/**
+ * Minimal MIME reader for inbound NOI emails.
+ * Reads a raw RFC 822 message far enough to get its sender, subject, text
+ * and attachments: nested multipart bodies, forwarded messages (message/rfc822),
+ * base64 and quoted-printable transfer encodings, RFC 2047 encoded-word
+ * headers and RFC 2231 filenames. Parts it can't make sense of are skipped.
+ */
+
+export interface MimeAttachment {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  from: string;
+  subject: string;
+  date: string | null;
+  // First text/plain body, or the first HTML body with its tags stripped
+  text: string;
+  attachments: MimeAttachment[];
+}
+
+interface Collected {
+  attachments: MimeAttachment[];
+  plain: string | null;
+  html: string | null;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+// Raw messages are handled as latin1 strings so every byte maps to one char
+// and binary bodies survive the round trip back to a Buffer
+const BYTES = 'latin1';
+
+function splitHeaderBody(raw: string): { head: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { head: raw, body: '' };
+  return { head: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+/** Unfolded headers by lower-cased name; the first occurrence wins */
+function parseHeaders(head: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+/** Decode RFC 2047 encoded words, e.g. =?UTF-8?B?Tk9JIDI1Tk9JRQ==?= */
+export function decodeEncodedWords(value: string): string {
+  return value
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+          text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (__, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+          BYTES,
+        );
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/** `type/subtype; a=1; b="two"` → value plus params, joining RFC 2231 continuations */
+function parseHeaderValue(header: string | undefined): HeaderValue {
+  if (!header) return { value: '', params: {} };
+
+  const semicolon = header.indexOf(';');
+  const value = (semicolon === -1 ? header : header.slice(0, semicolon)).trim().toLowerCase();
+  const raw: Array<{ name: string; index: number; extended: boolean; text: string }> = [];
+
+  const paramRe = /;\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = paramRe.exec(header))) {
+    const key = match[1].toLowerCase();
+    let text = match[2].trim();
+    if (text.startsWith('"')) text = text.slice(1, -1).replace(/\\(.)/g, '$1');
+
+    const parts = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key);
+    if (!parts) continue;
+    raw.push({ name: parts[1], index: Number(parts[2] ?? 0), extended: !!parts[3], text });
+  }
+
+  const params: Record<string, string> = {};
+  for (const name of new Set(raw.map(p => p.name))) {
+    const pieces = raw.filter(p => p.name === name).sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes = pieces.map((piece, i) => {
+      if (!piece.extended) return Buffer.from(piece.text, BYTES);
+      let text = piece.text;
+      if (i === 0) {
+        // charset'language'value
+        const quoted = /^([^']*)'[^']*'(.*)$/.exec(text);
+        if (quoted) {
+          charset = quoted[1] || charset;
+          text = quoted[2];
+        }
+      }
+      return Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), BYTES);
+    });
+    params[name] = pieces.some(p => p.extended)
+      ? decodeCharset(Buffer.concat(bytes), charset)
+      : decodeEncodedWords(Buffer.from(pieces.map(p => p.text).join(''), BYTES).toString('utf8'));
+  }
+
+  return { value, params };
+}
+
+function decodeBody(body: string, encoding: string | undefined): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+        BYTES,
+      );
+    default:
+      return Buffer.from(body, BYTES);
+  }
+}
+
+function collectParts(raw: string, collected: Collected) {
+  const { head, body } = splitHeaderBody(raw);
+  const headers = parseHeaders(head);
+  const contentType = parseHeaderValue(headers['content-type'] || 'text/plain');
+
+  if (contentType.value.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) return;
+    const sections = body.split(`--${boundary}`);
+    // sections[0] is the preamble; a section starting with "--" is the epilogue
+    for (const section of sections.slice(1)) {
+      if (section.startsWith('--')) break;
+      collectParts(section.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n$/, ''), collected);
+    }
+    return;
+  }
+
+  // Forwarded as an attachment — the original message's PDFs are what we want
+  if (contentType.value === 'message/rfc822') {
+    collectParts(decodeBody(body, headers['content-transfer-encoding']).toString(BYTES), collected);
+    return;
+  }
+
+  const disposition = parseHeaderValue(headers['content-disposition']);
+  const filename = disposition.params.filename || contentType.params.name;
+  if (!filename) {
+    const isText = contentType.value === 'text/plain' || contentType.value === 'text/html';
+    if (isText && disposition.value !== 'attachment') {
+      const key = contentType.value === 'text/plain' ? 'plain' : 'html';
+      collected[key] ??= decodeCharset(
+        decodeBody(body, headers['content-transfer-encoding']),
+        contentType.params.charset || 'utf-8',
+      );
+    }
+    return;
+  }
+
+  collected.attachments.push({
+    filename,
+    contentType: contentType.value,
+    data: decodeBody(body, headers['content-transfer-encoding']),
+  });
+}
+
+/** Rough text of an HTML body: enough to read a sentence out of it */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+/** Parse a raw RFC 822 message */
+export function parseEmail(raw: Buffer | string): ParsedEmail {
+  const text = typeof raw === 'string' ? raw : raw.toString(BYTES);
+  const headers = parseHeaders(splitHeaderBody(text).head);
+  // Header bytes are UTF-8 in practice (RFC 6532); re-read them as such
+  const header = (name: string) =>
+    headers[name] ? decodeEncodedWords(Buffer.from(headers[name], BYTES).toString('utf8')) : '';
+
+  const collected: Collected = { attachments: [], plain: null, html: null };
+  collectParts(text, collected);
+
+  const date = header('date') ? new Date(header('date')) : null;
+
+  return {
+    messageId: header('message-id').replace(/^<|>$/g, '') || null,
+    from: header('from'),
+    subject: header('subject'),
+    date: date && !isNaN(date.getTime()) ? date.toISOString() : null,
+    text: collected.plain ?? (collected.html ? htmlToText(collected.html) : ''),
+    attachments: collected.attachments,
+  };
+}
+
+/** PDF attachments, including ones sent as application/octet-stream */
+export function pdfAttachments(email: ParsedEmail): MimeAttachment[] {
+  return email.attachments.filter(
+    a => a.contentType === 'application/pdf' || /\.pdf$/i.test(a.filename),
+  );
+}
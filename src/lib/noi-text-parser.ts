@@ -0,0 +1,268 @@
+/**
+ * Deterministic NOI parser over the PDF text layer.
+ *
+ * DOB generates NOIs from a fixed template, so the notice header and every
+ * violation block carry the same labels ("Location of Infraction:",
+ * "Violation:", "Item#:", "Abate in", ...). This parser reads those labels
+ * with plain regexes — no AI — and is used to cross-check the Gemini
+ * extraction field by field. It never replaces the AI result.
+ */
+
+import { normalizeAddress } from './address-normalization';
+import { extractPdfText, hasTextLayer } from './pdf/extract-text';
+import type { NOIParseResult, NoticeBoundary, PageRange, TextLayerCheck, TextLayerDisagreement } from './ai/schemas';
+
+type WorkOrder = NOIParseResult['work_orders'][number];
+
+export const NOTICE_ID_RE = /\b(\d{2}NOI[A-Z]{0,2}-[A-Z]{2,4}-\d{4,6})\b/;
+export const SERVICE_DATE_RE = /NOTICE OF INFRACTION\s+(\d{1,2}\/\d{1,2}\/\d{4})/;
+const STREET_LINE_RE = /^\d+\s+.+\b(NE|NW|SE|SW)\b/i;
+const MONEY_LINE_RE = /^\$\s?[\d,]+\.\d{2}$/;
+const FINE_AND_CODE_RE = /\$\s?([\d,]+\.\d{2})\s*([^\n$]*§\s*[\w.\-()]+)/g;
+const PRIORITY_RE = /Priority\s*\n\s*([1-3])\s*$/gm;
+const ABATE_RE = /Abate in\s*\n?\s*(\d+\s*(?:Days?|Hours?))/gi;
+const VIOLATION_MARKER_RE = /^Violation:/gm;
+const PAGE_ONE_RE = /\bPage 1 of \d+\b/;
+
+function lastMatch(text: string, re: RegExp): RegExpExecArray | null {
+  let last: RegExpExecArray | null = null;
+  for (const m of text.matchAll(re)) last = m as RegExpExecArray;
+  return last;
+}
+
+function lineAfter(lines: string[], predicate: (line: string) => boolean): string {
+  const index = lines.findIndex(predicate);
+  return index >= 0 && index + 1 < lines.length ? lines[index + 1].trim() : '';
+}
+
+function parseItem(head: string, body: string, index: number): WorkOrder {
+  const fineAndCode = lastMatch(head, FINE_AND_CODE_RE);
+  const priority = lastMatch(head, PRIORITY_RE);
+  const abate = lastMatch(head, ABATE_RE);
+
+  const description = body.match(/^Violation:\s*(.*)$/m);
+  const location = body.match(/^Location:\s*(.*?)\s*Floor Number:\s*(.*)$/m);
+  const notes = body.match(/^Notes:\s*([\s\S]*?)\n(?:Item#:|Time of Infraction:|Date of Infra)/m);
+  const itemNumber = body.match(/Item#:\s*(\d+)/);
+  const infraction = body.match(/Date of Infra\w*:\s*(\d{1,2}\/\d{1,2}\/\d{4})(?:\s+(\d{1,2}:\d{2}\s*[AP]M))?/i);
+
+  return {
+    item_number: itemNumber ? parseInt(itemNumber[1], 10) : index + 1,
+    violation_code: fineAndCode ? fineAndCode[2].trim() : '',
+    priority: priority ? parseInt(priority[1], 10) : 0,
+    abatement_deadline: abate ? abate[1].replace(/\s+/g, ' ') : '',
+    fine: fineAndCode ? `$${fineAndCode[1]}` : '',
+    violation_description: description?.[1].trim() || '',
+    specific_location: location?.[1].trim() || '',
+    floor_number: location?.[2].trim() || '',
+    date_of_infraction: infraction?.[1] || '',
+    time_of_infraction: infraction?.[2] || '',
+    task_description: notes ? notes[1].replace(/\s+/g, ' ').trim() : '',
+  };
+}
+
+/**
+ * Parse NOI fields out of the extracted text layer (one string per page).
+ * Fields the template labels don't yield are returned empty ('' / priority 0).
+ */
+export function parseNOIText(pages: string[]): NOIParseResult {
+  const text = pages.join('\n');
+  const lines = text.split('\n').map((l) => l.trim());
+
+  // Notice header
+  const noticeId = text.match(NOTICE_ID_RE)?.[1] || '';
+  const serviceDate = text.match(SERVICE_DATE_RE)?.[1] || '';
+
+  const locationIndex = lines.findIndex((l) => l.startsWith('Location of Infraction:'));
+  const address = locationIndex >= 0
+    ? lines.slice(locationIndex).find((l) => STREET_LINE_RE.test(l)) || ''
+    : '';
+
+  const respondent = lineAfter(lines, (l) => l.startsWith('Type of Location:'))
+    || text.match(/Owner Name:\s*(.+)/)?.[1].trim()
+    || '';
+
+  const totalIndex = lines.findIndex((l) => l.startsWith('Total Fines and Penalties:'));
+  const totalLine = totalIndex >= 0
+    ? lines.slice(0, totalIndex).reverse().find((l) => MONEY_LINE_RE.test(l))
+    : undefined;
+
+  // Violation blocks — fine, code, priority and "Abate in" precede the
+  // "Violation:" line; description, location, notes and Item# follow it.
+  const markers = [...text.matchAll(VIOLATION_MARKER_RE)].map((m) => m.index!);
+  const workOrders = markers.map((start, i) => {
+    const head = text.slice(i === 0 ? 0 : markers[i - 1], start);
+    const body = text.slice(start, markers[i + 1] ?? text.length);
+    return parseItem(head, body, i);
+  });
+
+  return {
+    notice_level_data: {
+      notice_id: noticeId,
+      respondent,
+      infraction_address: address,
+      date_of_service: serviceDate,
+      total_fines: totalLine ? totalLine.replace(/\s+/g, '') : '',
+    },
+    work_orders: workOrders,
+  };
+}
+
+// ============================================================================
+// Cross-check
+// ============================================================================
+
+function normText(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function normMoney(value: string): string {
+  const n = parseFloat(value.replace(/[$,\s]/g, ''));
+  return isNaN(n) ? normText(value) : n.toFixed(2);
+}
+
+function normDate(value: string): string {
+  const m = value.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  return m ? `${m[3]}-${m[1].padStart(2, '0')}-${m[2].padStart(2, '0')}` : normText(value);
+}
+
+function normCode(value: string): string {
+  return value.toUpperCase().replace(/§/g, '').replace(/\s+/g, '');
+}
+
+function normDeadline(value: string): string {
+  const m = value.match(/(\d+)\s*(day|hour)/i);
+  return m ? `${parseInt(m[1], 10)} ${m[2].toLowerCase()}` : normText(value);
+}
+
+function normAddress(value: string): string {
+  const { street, unit } = normalizeAddress(value);
+  return unit ? `${street} #${unit}` : street;
+}
+
+/**
+ * Compare the AI extraction against the text-layer parse.
+ * Only fields the text layer actually produced are compared — an empty
+ * text-layer value means "could not verify", not a disagreement. Free-text
+ * fields (descriptions, notes) are not compared since the AI may reflow them.
+ */
+export function crossCheckNOIParse(ai: NOIParseResult, text: NOIParseResult): TextLayerCheck {
+  const disagreements: TextLayerDisagreement[] = [];
+  const comparedFields: string[] = [];
+
+  const compare = (
+    field: string,
+    aiValue: string | number,
+    textValue: string | number,
+    normalize: (v: string) => string,
+    itemNumber?: number,
+  ) => {
+    if (textValue === '' || textValue === 0) return;
+    comparedFields.push(itemNumber !== undefined ? `${field}#${itemNumber}` : field);
+    if (normalize(String(aiValue ?? '')) !== normalize(String(textValue))) {
+      disagreements.push({
+        field,
+        ...(itemNumber !== undefined && { item_number: itemNumber }),
+        ai_value: String(aiValue ?? ''),
+        text_value: String(textValue),
+      });
+    }
+  };
+
+  const aiNotice = ai.notice_level_data;
+  const textNotice = text.notice_level_data;
+  compare('notice_id', aiNotice.notice_id, textNotice.notice_id, normCode);
+  compare('respondent', aiNotice.respondent, textNotice.respondent, normText);
+  compare('infraction_address', aiNotice.infraction_address, textNotice.infraction_address, normAddress);
+  compare('date_of_service', aiNotice.date_of_service, textNotice.date_of_service, normDate);
+  compare('total_fines', aiNotice.total_fines, textNotice.total_fines, normMoney);
+
+  if (text.work_orders.length > 0) {
+    compare('item_count', ai.work_orders.length, text.work_orders.length, normText);
+  }
+
+  for (const textItem of text.work_orders) {
+    const aiItem = ai.work_orders.find((w) => w.item_number === textItem.item_number);
+    if (!aiItem) continue; // covered by item_count
+    const n = textItem.item_number;
+    compare('violation_code', aiItem.violation_code, textItem.violation_code, normCode, n);
+    compare('fine', aiItem.fine, textItem.fine, normMoney, n);
+    compare('priority', aiItem.priority, textItem.priority, normText, n);
+    compare('abatement_deadline', aiItem.abatement_deadline, textItem.abatement_deadline, normDeadline, n);
+    compare('date_of_infraction', aiItem.date_of_infraction, textItem.date_of_infraction, normDate, n);
+  }
+
+  return {
+    available: true,
+    fields_compared: comparedFields.length,
+    fields_matched: comparedFields.length - disagreements.length,
+    compared_fields: comparedFields,
+    disagreements,
+  };
+}
+
+/**
+ * Extract the PDF text layer and cross-check an AI result against it.
+ * Best-effort: scanned PDFs and extraction errors return available: false.
+ */
+export async function crossCheckPdfText(
+  pdfBuffer: Buffer,
+  ai: NOIParseResult,
+  range?: PageRange,
+): Promise<TextLayerCheck> {
+  const unavailable = (reason: string): TextLayerCheck => ({
+    available: false, fields_compared: 0, fields_matched: 0, disagreements: [], skipped_reason: reason,
+  });
+
+  try {
+    const allPages = await extractPdfText(pdfBuffer);
+    const pages = range ? allPages.slice(range.start - 1, range.end) : allPages;
+    if (!hasTextLayer(pages)) return unavailable('PDF has no text layer');
+    return crossCheckNOIParse(ai, parseNOIText(pages));
+  } catch (err) {
+    return unavailable(`Text extraction failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Split a PDF's pages into notices. Every DOB NOI page carries its notice ID
+ * and a "Page X of N" footer, so a new notice starts wherever the ID changes
+ * or the page counter restarts. Pages with no ID (blank, photo-only) stay
+ * with the notice before them.
+ */
+export function findNoticeBoundaries(pages: string[]): NoticeBoundary[] {
+  const notices: NoticeBoundary[] = [];
+
+  pages.forEach((text, i) => {
+    const pageNumber = i + 1;
+    const noticeId = text.match(NOTICE_ID_RE)?.[1];
+    const current = notices[notices.length - 1];
+
+    const startsNotice = !current
+      || (noticeId && current.notice_id && noticeId !== current.notice_id)
+      || (noticeId && PAGE_ONE_RE.test(text) && pageNumber > current.start);
+
+    if (startsNotice) {
+      notices.push({ notice_id: noticeId || '', start: pageNumber, end: pageNumber });
+    } else {
+      current.end = pageNumber;
+      if (!current.notice_id && noticeId) current.notice_id = noticeId;
+    }
+  });
+
+  return notices;
+}
+
+/**
+ * Notice boundaries from the PDF text layer. Returns [] for scanned PDFs (no
+ * text layer) or when extraction fails — callers treat those as one notice.
+ */
+export async function detectNotices(pdfBuffer: Buffer): Promise<NoticeBoundary[]> {
+  try {
+    const pages = await extractPdfText(pdfBuffer);
+    if (!hasTextLayer(pages)) return [];
+    return findNoticeBoundaries(pages);
+  } catch {
+    return [];
+  }
+}
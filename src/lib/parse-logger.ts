@@ -1,5 +1,5 @@
 import { createAdminClient } from '@/lib/supabase/server';
-import type { ParseMetadata, ParseStepStatus } from '@/lib/ai/schemas';
+import type { ParseMetadata, ParseStepName, ParseStepStatus } from '@/lib/ai/schemas';
 
 export interface LogEntry {
   ts: string;
@@ -15,6 +15,59 @@ export interface StepVerification {
   checks: Array<{ name: string; passed: boolean; detail?: string }>;
 }
 
+export const PARSE_STEPS: ParseStepName[] = ['classify_document', 'ai_parse', 'insert_records', 'analyze_pages', 'match_photos', 'extract_photos', 'complete'];
+
+/** parse_metadata for a violation queued for (re)parsing — every step pending */
+export function pendingParseMetadata(): ParseMetadata {
+  return { steps: PARSE_STEPS.map(step => ({ step, status: 'pending' })) };
+}
+
+/** The step a failed parse stopped at, if it got as far as starting one */
+export function failedParseStep(metadata: ParseMetadata | null | undefined): ParseStepName | null {
+  return metadata?.steps?.find(s => s.status === 'failed')?.step ?? null;
+}
+
+/** True when a run resumed from `resumeFrom` should reuse `step`'s earlier output */
+export function resumesAfter(resumeFrom: ParseStepName | undefined, step: ParseStepName): boolean {
+  return !!resumeFrom && PARSE_STEPS.indexOf(step) < PARSE_STEPS.indexOf(resumeFrom);
+}
+
+/**
+ * parse_metadata for a failed parse resumed from `resumeFrom`: earlier steps
+ * keep their status and output, the rest go back to pending, and the failed
+ * run is appended to the attempt history.
+ */
+export function resumeParseMetadata(
+  metadata: ParseMetadata,
+  resumeFrom: ParseStepName,
+  resumedBy?: string,
+): ParseMetadata {
+  const previous = metadata.steps || [];
+  const failed = previous.find(s => s.status === 'failed');
+  const attempts = metadata.attempts || [];
+
+  return {
+    ...metadata,
+    steps: PARSE_STEPS.map((step): ParseStepStatus => {
+      if (!resumesAfter(resumeFrom, step)) return { step, status: 'pending' };
+      // Steps added to the pipeline after this parse first ran have nothing to redo
+      return previous.find(s => s.step === step)
+        ?? { step, status: 'completed', message: 'Not part of the pipeline when this parse first ran' };
+    }),
+    attempts: [
+      ...attempts,
+      {
+        attempt: attempts.length + 1,
+        failed_step: failed?.step ?? resumeFrom,
+        ...(failed && { error: failed.error || failed.message }),
+        resumed_from: resumeFrom,
+        resumed_at: new Date().toISOString(),
+        ...(resumedBy && { resumed_by: resumedBy }),
+      },
+    ],
+  };
+}
+
 /**
  * Structured logger for the NOI parse pipeline.
  * All logs are accumulated in-memory and flushed to parse_metadata on each step transition.
@@ -93,6 +146,28 @@ export class ParseLogger {
     await this.flush('failed');
   }
 
+  /**
+   * Mark the step a run was in as failed. Steps that throw (timeouts, provider
+   * errors) rather than failing verification never reach stepFail themselves,
+   * so the function's onFailure handler calls this once retries run out.
+   */
+  async failCurrentStep(message: string) {
+    const supabase = createAdminClient();
+    const { data } = await supabase
+      .from('violations')
+      .select('parse_metadata')
+      .eq('id', this.violationId)
+      .single();
+
+    const steps = (data?.parse_metadata as ParseMetadata | null)?.steps || [];
+    if (steps.some(s => s.status === 'failed')) return; // the step already reported itself
+
+    const current = steps.find(s => s.status === 'running')
+      ?? steps.find(s => s.status === 'pending')
+      ?? steps[steps.length - 1];
+    await this.stepFail(current?.step ?? PARSE_STEPS[0], message);
+  }
+
   // Timed execution wrapper — runs a function, logs duration and errors
   async timed<T>(step: string, label: string, fn: () => Promise<T>): Promise<T> {
     const start = Date.now();
@@ -0,0 +1,90 @@
+/**
+ * Conversion of AI-extracted NOI strings into database column values.
+ * Shared by the parse pipeline (insert-records) and re-parse diffing so
+ * both compare and write the exact same representation.
+ */
+
+import type { NOIParseResult } from './ai/schemas';
+import { computeItemDeadline, earliestOpenDeadline, DEFAULT_DEADLINE_RULES, type DeadlineRules } from './deadlines';
+import { resolveViolationCode, type CatalogCode } from './violation-codes';
+
+type NoticeData = NOIParseResult['notice_level_data'];
+type WorkOrder = NOIParseResult['work_orders'][number];
+
+export function parseFine(fineStr: string): number | null {
+  if (!fineStr) return null;
+  // Strip dollar sign and whitespace
+  let cleaned = fineStr.replace(/[$\s]/g, '');
+  // Handle ambiguous last separator: if the last comma or period has exactly
+  // 2 digits after it, treat it as the decimal point. This handles Gemini
+  // returning "2,358,00" (comma instead of period) or EU-style formatting.
+  const lastSep = cleaned.search(/[.,]\d{2}$/);
+  if (lastSep !== -1) {
+    const before = cleaned.slice(0, lastSep).replace(/[.,]/g, '');
+    const after = cleaned.slice(lastSep + 1);
+    cleaned = `${before}.${after}`;
+  } else {
+    cleaned = cleaned.replace(/[,]/g, '');
+  }
+  const num = parseFloat(cleaned);
+  return isNaN(num) ? null : num;
+}
+
+/** MM/DD/YYYY → YYYY-MM-DD */
+export function parseDate(dateStr: string): string | null {
+  if (!dateStr) return null;
+  const parts = dateStr.split('/');
+  if (parts.length !== 3) return null;
+  const [month, day, year] = parts;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * violation_items columns for one parsed work order (without org/violation ids).
+ * The NOI's deadline text is kept as written; abatement_deadline is the due
+ * date computed from the date of service (YYYY-MM-DD) under the org's rules.
+ * The code is rewritten to its catalog spelling and linked via code_id; an
+ * empty task falls back to the catalog's remediation task.
+ */
+export function toViolationItemFields(
+  wo: WorkOrder,
+  dateOfService: string | null,
+  rules: DeadlineRules = DEFAULT_DEADLINE_RULES,
+  catalog: CatalogCode[] = [],
+) {
+  const code = resolveViolationCode(wo.violation_code, wo.task_description, catalog);
+  return {
+    item_number: wo.item_number,
+    violation_code: code.violation_code,
+    code_id: code.code_id,
+    priority: wo.priority,
+    abatement_deadline: computeItemDeadline(dateOfService, wo.abatement_deadline, rules),
+    abatement_deadline_text: wo.abatement_deadline,
+    fine: parseFine(wo.fine),
+    violation_description: wo.violation_description,
+    specific_location: wo.specific_location,
+    floor_number: wo.floor_number,
+    date_of_infraction: parseDate(wo.date_of_infraction),
+    time_of_infraction: wo.time_of_infraction,
+    task_description: code.task_description,
+  };
+}
+
+/** Violation columns derived from a parse result; the deadline is the earliest item's */
+export function toViolationFields(
+  notice: NoticeData,
+  workOrders: WorkOrder[],
+  rules: DeadlineRules = DEFAULT_DEADLINE_RULES,
+) {
+  const serviceDate = parseDate(notice.date_of_service);
+
+  return {
+    notice_id: notice.notice_id,
+    respondent: notice.respondent,
+    infraction_address: notice.infraction_address,
+    date_of_service: serviceDate,
+    total_fines: parseFine(notice.total_fines),
+    abatement_deadline: earliestOpenDeadline(workOrders.map(wo => toViolationItemFields(wo, serviceDate, rules))),
+    priority: Math.min(...workOrders.map(wo => wo.priority), 3),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Golden-file evaluation of NOI extraction.
+ *
+ * Each PDF in a corpus directory may have a hand-verified `<name>.expected.json`
+ * beside it, holding the values the pipeline should write: violation columns,
+ * the normalized address used for property linking, and violation_items rows.
+ * An extractor (recorded AI responses, or the text-layer parser) is run over
+ * every PDF, its output goes through the same post-processing as parse-noi,
+ * and every field is compared so accuracy can be reported per field.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { toViolationFields, toViolationItemFields, parseDate } from './parse-values';
+import { normalizeAddress } from './address-normalization';
+import { NOTICE_DIFF_FIELDS, ITEM_DIFF_FIELDS } from './reparse-diff';
+import { extractPdfText } from './pdf/extract-text';
+import { parseNOIText } from './noi-text-parser';
+import type { AIProvider } from './ai/provider';
+import type { NOIParseResult } from './ai/schemas';
+
+/** What the pipeline stores for one NOI — the shape of `*.expected.json` */
+export interface ExpectedNOI {
+  violation: Record<string, unknown>;
+  address: { street: string; unit: string | null };
+  items: Array<Record<string, unknown>>;
+}
+
+export type NOIExtractor = (pdfBuffer: Buffer) => Promise<NOIParseResult>;
+
+export interface FieldComparison {
+  field: string; // e.g. "violation.total_fines", "item.fine", "address.unit"
+  item_number?: number;
+  expected: unknown;
+  actual: unknown;
+  matched: boolean;
+}
+
+export interface DocumentResult {
+  file: string;
+  status: 'evaluated' | 'missing_recording' | 'error';
+  error?: string;
+  comparisons: FieldComparison[];
+}
+
+export interface FieldAccuracy {
+  compared: number;
+  matched: number;
+  accuracy: number;
+}
+
+export interface EvalReport {
+  extractor: string;
+  documents: DocumentResult[];
+  fields: Record<string, FieldAccuracy>;
+  overall: FieldAccuracy;
+}
+
+const EXPECTED_SUFFIX = '.expected.json';
+
+/** Run parse-noi's post-processing over an extraction */
+export function postProcessNOI(parsed: NOIParseResult): ExpectedNOI {
+  const serviceDate = parseDate(parsed.notice_level_data.date_of_service);
+  return {
+    violation: toViolationFields(parsed.notice_level_data, parsed.work_orders),
+    address: normalizeAddress(parsed.notice_level_data.infraction_address),
+    items: parsed.work_orders.map(wo => toViolationItemFields(wo, serviceDate)),
+  };
+}
+
+/** Whitespace runs are not meaningful in extracted text; everything else is */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim();
+  return value;
+}
+
+function compareField(field: string, expected: unknown, actual: unknown, item_number?: number): FieldComparison {
+  const matched = normalizeValue(expected) === normalizeValue(actual);
+  return { field, ...(item_number !== undefined && { item_number }), expected, actual, matched };
+}
+
+/**
+ * Compare one document field by field. Items are paired by item_number; an
+ * expected item the extractor missed counts as a miss on each of its fields,
+ * and the item count itself is a field so extra items are penalized too.
+ */
+export function compareNOI(expected: ExpectedNOI, actual: ExpectedNOI): FieldComparison[] {
+  const comparisons: FieldComparison[] = [];
+
+  for (const field of [...NOTICE_DIFF_FIELDS, 'abatement_deadline']) {
+    comparisons.push(compareField(`violation.${field}`, expected.violation[field], actual.violation[field]));
+  }
+  comparisons.push(compareField('address.street', expected.address.street, actual.address.street));
+  comparisons.push(compareField('address.unit', expected.address.unit, actual.address.unit));
+  comparisons.push(compareField('items.count', expected.items.length, actual.items.length));
+
+  for (const expectedItem of expected.items) {
+    const itemNumber = expectedItem.item_number as number;
+    const actualItem = actual.items.find(i => i.item_number === itemNumber) || {};
+    for (const field of ITEM_DIFF_FIELDS) {
+      if (field === 'item_number') continue;
+      comparisons.push(compareField(`item.${field}`, expectedItem[field], actualItem[field as keyof typeof actualItem], itemNumber));
+    }
+  }
+
+  return comparisons;
+}
+
+/** Aggregate comparisons into per-field and overall accuracy */
+export function summarizeAccuracy(comparisons: FieldComparison[]): {
+  fields: Record<string, FieldAccuracy>;
+  overall: FieldAccuracy;
+} {
+  const fields: Record<string, FieldAccuracy> = {};
+  for (const c of comparisons) {
+    const entry = fields[c.field] || { compared: 0, matched: 0, accuracy: 0 };
+    entry.compared++;
+    if (c.matched) entry.matched++;
+    fields[c.field] = entry;
+  }
+
+  const overall = { compared: comparisons.length, matched: comparisons.filter(c => c.matched).length, accuracy: 0 };
+  for (const entry of [...Object.values(fields), overall]) {
+    entry.accuracy = entry.compared > 0 ? entry.matched / entry.compared : 0;
+  }
+  return { fields, overall };
+}
+
+/** PDFs in `dir` that have an expected file beside them */
+export async function listGoldenDocuments(dir: string): Promise<Array<{ pdf: string; expected: string }>> {
+  const entries = await readdir(dir);
+  return entries
+    .filter(name => name.toLowerCase().endsWith('.pdf'))
+    .map(name => ({ pdf: name, expected: name.replace(/\.pdf$/i, EXPECTED_SUFFIX) }))
+    .filter(doc => entries.includes(doc.expected))
+    .sort((a, b) => a.pdf.localeCompare(b.pdf));
+}
+
+/**
+ * Evaluate an extractor over every golden document in `dir`. A document with
+ * no recorded AI response is reported as missing rather than as a failure, so
+ * the corpus can grow ahead of its recordings.
+ */
+export async function evaluateCorpus(dir: string, extractor: string, extract: NOIExtractor): Promise<EvalReport> {
+  const documents: DocumentResult[] = [];
+
+  for (const doc of await listGoldenDocuments(dir)) {
+    const expected = JSON.parse(await readFile(path.join(dir, doc.expected), 'utf8')) as ExpectedNOI;
+    try {
+      const parsed = await extract(await readFile(path.join(dir, doc.pdf)));
+      documents.push({ file: doc.pdf, status: 'evaluated', comparisons: compareNOI(expected, postProcessNOI(parsed)) });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      documents.push({
+        file: doc.pdf,
+        status: message.startsWith('No recorded AI fixture') ? 'missing_recording' : 'error',
+        error: message,
+        comparisons: [],
+      });
+    }
+  }
+
+  return { extractor, documents, ...summarizeAccuracy(documents.flatMap(d => d.comparisons)) };
+}
+
+/** Extract with an AI provider — normally the fixture provider replaying recordings */
+export function aiExtractor(provider: AIProvider): NOIExtractor {
+  return async (pdfBuffer) => (await provider.parseNOIPdf(pdfBuffer)).parsed;
+}
+
+/** Extract deterministically from the PDF's embedded text layer */
+export const textLayerExtractor: NOIExtractor = async (pdfBuffer) => parseNOIText(await extractPdfText(pdfBuffer));
+
+/**
+ * Fields whose accuracy fell below a baseline (field → minimum accuracy).
+ * Fields absent from the report are skipped — no document exercised them.
+ */
+export function findRegressions(
+  report: EvalReport,
+  baseline: Record<string, number>,
+): Array<{ field: string; baseline: number; accuracy: number }> {
+  return Object.entries(baseline)
+    .filter(([field, min]) => report.fields[field] && report.fields[field].accuracy < min)
+    .map(([field, min]) => ({ field, baseline: min, accuracy: report.fields[field].accuracy }));
+}
+
+function pct(accuracy: number) {
+  return `${(accuracy * 100).toFixed(1)}%`.padStart(6);
+}
+
+/** Plain-text report: per-field accuracy table followed by every mismatch */
+export function formatReport(report: EvalReport): string {
+  const lines = [`NOI parser evaluation — ${report.extractor}`];
+  const evaluated = report.documents.filter(d => d.status === 'evaluated').length;
+  lines.push(`${evaluated}/${report.documents.length} documents evaluated`, '');
+
+  const width = Math.max(5, ...Object.keys(report.fields).map(f => f.length));
+  lines.push(`${'field'.padEnd(width)}  accuracy  matched`);
+  for (const [field, entry] of Object.entries(report.fields)) {
+    lines.push(`${field.padEnd(width)}  ${pct(entry.accuracy)}    ${entry.matched}/${entry.compared}`);
+  }
+  lines.push(`${'overall'.padEnd(width)}  ${pct(report.overall.accuracy)}    ${report.overall.matched}/${report.overall.compared}`);
+
+  for (const doc of report.documents) {
+    if (doc.status !== 'evaluated') {
+      lines.push('', `${doc.file}: ${doc.status} — ${doc.error}`);
+      continue;
+    }
+    const misses = doc.comparisons.filter(c => !c.matched);
+    if (misses.length === 0) continue;
+    lines.push('', `${doc.file}:`);
+    for (const miss of misses) {
+      const item = miss.item_number !== undefined ? ` (item ${miss.item_number})` : '';
+      lines.push(`  ${miss.field}${item}: expected ${JSON.stringify(miss.expected)}, got ${JSON.stringify(miss.actual)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,82 @@
+/**
+ * Content fingerprints for uploaded NOI PDFs.
+ *
+ * Checked before parsing so a repeat upload can be linked to the violation
+ * it duplicates without spending AI tokens. Two levels of match:
+ *   exact — SHA-256 of the file bytes
+ *   text  — SHA-256 of the normalized text layer, which survives re-saving,
+ *           re-exporting and mail clients rewriting PDF metadata
+ * Scanned PDFs have no text layer and only match exactly.
+ */
+
+import crypto from 'crypto';
+import { createAdminClient } from './supabase/server';
+import { extractPdfText, hasTextLayer } from './pdf/extract-text';
+
+export interface PdfFingerprint {
+  pdf_sha256: string;
+  pdf_text_sha256: string | null;
+}
+
+export interface PdfDuplicate {
+  violation_id: string;
+  notice_id: string | null;
+  status: string;
+  match: 'exact' | 'text';
+}
+
+function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+export async function fingerprintPdf(pdfBuffer: Buffer): Promise<PdfFingerprint> {
+  let textHash: string | null = null;
+  try {
+    const pages = await extractPdfText(pdfBuffer);
+    if (hasTextLayer(pages)) {
+      textHash = sha256(pages.join('\n').replace(/\s+/g, ' ').trim().toLowerCase());
+    }
+  } catch {
+    // Unreadable text layer — fall back to the byte hash alone
+  }
+
+  return { pdf_sha256: sha256(pdfBuffer), pdf_text_sha256: textHash };
+}
+
+/**
+ * The org's existing violation for the same PDF, preferring a byte-identical
+ * match. Uploads cancelled as duplicates or filed on another violation as
+ * DOB correspondence, and notices split off a multi-notice PDF (which carry
+ * no fingerprint of their own) are never returned.
+ */
+export async function findPdfDuplicate(
+  orgId: string,
+  fingerprint: PdfFingerprint,
+  excludeViolationId?: string,
+): Promise<PdfDuplicate | null> {
+  const supabase = createAdminClient();
+
+  const filters = [`pdf_sha256.eq.${fingerprint.pdf_sha256}`];
+  if (fingerprint.pdf_text_sha256) filters.push(`pdf_text_sha256.eq.${fingerprint.pdf_text_sha256}`);
+
+  let query = supabase
+    .from('violations')
+    .select('id, notice_id, status, pdf_sha256')
+    .eq('org_id', orgId)
+    .not('parse_status', 'in', '(duplicate,routed)')
+    .or(filters.join(','))
+    .order('created_at', { ascending: true })
+    .limit(10);
+  if (excludeViolationId) query = query.neq('id', excludeViolationId);
+
+  const { data: matches } = await query;
+  if (!matches || matches.length === 0) return null;
+
+  const best = matches.find((m) => m.pdf_sha256 === fingerprint.pdf_sha256) || matches[0];
+  return {
+    violation_id: best.id,
+    notice_id: best.notice_id,
+    status: best.status,
+    match: best.pdf_sha256 === fingerprint.pdf_sha256 ? 'exact' : 'text',
+  };
+}
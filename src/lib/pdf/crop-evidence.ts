@@ -0,0 +1,54 @@
+/**
+ * Server-side evidence photo extraction.
+ * Crops a rendered NOI page (PNG from render-page-server) down to its photo
+ * and encodes it as a JPEG plus a thumbnail. Node.js only.
+ */
+
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import {
+  detectPhotoRegion,
+  thumbnailSize,
+  EVIDENCE_JPEG_QUALITY,
+  type CropBox,
+} from '@/lib/evidence-images';
+
+interface CroppedEvidence {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+  crop: CropBox | null;
+}
+
+/**
+ * Crop a rendered page PNG to the detected photo region.
+ * Falls back to the whole page when no photo region is found.
+ */
+export async function cropEvidencePage(pagePng: Buffer): Promise<CroppedEvidence> {
+  const page = await loadImage(pagePng);
+
+  const pageCanvas = createCanvas(page.width, page.height);
+  const pageCtx = pageCanvas.getContext('2d');
+  // Scanned pages can carry transparency, which JPEG would turn black
+  pageCtx.fillStyle = '#ffffff';
+  pageCtx.fillRect(0, 0, page.width, page.height);
+  pageCtx.drawImage(page, 0, 0);
+
+  const crop = detectPhotoRegion(pageCtx.getImageData(0, 0, page.width, page.height));
+  const box = crop ?? { x: 0, y: 0, width: page.width, height: page.height };
+
+  const imageCanvas = createCanvas(box.width, box.height);
+  imageCanvas.getContext('2d').drawImage(pageCanvas, box.x, box.y, box.width, box.height, 0, 0, box.width, box.height);
+
+  const thumb = thumbnailSize(box.width, box.height);
+  const thumbCanvas = createCanvas(thumb.width, thumb.height);
+  thumbCanvas.getContext('2d').drawImage(imageCanvas, 0, 0, thumb.width, thumb.height);
+
+  return {
+    image: await imageCanvas.encode('jpeg', EVIDENCE_JPEG_QUALITY),
+    thumbnail: await thumbCanvas.encode('jpeg', EVIDENCE_JPEG_QUALITY),
+    width: box.width,
+    height: box.height,
+    crop,
+  };
+}
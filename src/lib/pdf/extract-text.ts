@@ -0,0 +1,44 @@
+/**
+ * Server-side PDF text-layer extraction.
+ * Uses pdfjs-dist (legacy Node build) to read the embedded text of each page.
+ * Digitally generated NOIs have a real text layer; scanned PDFs return empty pages.
+ */
+
+/**
+ * Extract the text layer of every page, one string per page (1-indexed order).
+ * Lines are reconstructed from pdfjs end-of-line markers.
+ */
+export async function extractPdfText(pdfBuffer: Buffer): Promise<string[]> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    isEvalSupported: false,
+    useSystemFonts: false,
+  }).promise;
+
+  const pages: string[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      let text = '';
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+      }
+      pages.push(text.trim());
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return pages;
+}
+
+/** True when the PDF has enough embedded text to be worth parsing */
+export function hasTextLayer(pages: string[]): boolean {
+  return pages.join('').replace(/\s+/g, '').length > 200;
+}
@@ -0,0 +1,227 @@
+/**
+ * Scored matching of NOI evidence pages to violation items.
+ *
+ * Each evidence page is scored against every item on four signals, each 0–1:
+ *   code      the page's code against the item's (exact key or catalog alias = 1,
+ *             a near miss such as an OCR'd "6O5.1" gets partial credit)
+ *   location  the item's location / task words found in the page description
+ *   floor     the page description names the item's floor
+ *   order     evidence pages usually follow item order, so a page's position
+ *             among evidence pages should line up with the item's position
+ * The weighted sum is the match score. The best item is assigned when it
+ * clears MATCH_THRESHOLD; the top candidates and their signals are kept in
+ * photos.metadata.match so the dashboard can show why, and a PM can reassign.
+ */
+
+import { codeKey, findCatalogCode, type CatalogCode } from './violation-codes';
+
+export interface EvidencePage {
+  page_number: number;
+  violation_code: string | null;
+  description: string;
+}
+
+export interface MatchableItem {
+  id: string;
+  item_number: number | null;
+  violation_code: string | null;
+  code_id?: string | null;
+  specific_location: string | null;
+  floor_number: string | null;
+  task_description: string | null;
+}
+
+export interface MatchSignals {
+  code: number;
+  location: number;
+  floor: number;
+  order: number;
+}
+
+export interface MatchCandidate {
+  item_id: string;
+  item_number: number | null;
+  violation_code: string | null;
+  score: number;
+  signals: MatchSignals;
+  reasons: string[];
+}
+
+export interface PhotoMatch {
+  page_number: number;
+  item_id: string | null;
+  score: number;
+  candidates: MatchCandidate[];
+}
+
+/** What match-photos stores under photos.metadata.match */
+export interface PhotoMatchMetadata {
+  method: 'auto' | 'manual';
+  score: number | null;
+  threshold: number;
+  candidates: MatchCandidate[];
+  // Set when a PM moved the photo to another item
+  previous_item_id?: string | null;
+  reassigned_by?: string;
+  reassigned_at?: string;
+}
+
+export const MATCH_WEIGHTS: MatchSignals = { code: 0.55, location: 0.2, floor: 0.1, order: 0.15 };
+export const MATCH_THRESHOLD = 0.5;
+export const MAX_CANDIDATES = 3;
+
+/** Codes this close (by edit distance over their keys) still earn partial credit */
+const FUZZY_CODE_MIN = 0.8;
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function tokenize(text: string | null | undefined): Set<string> {
+  return new Set((text || '').toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w.length > 2));
+}
+
+/** Share of `phrase` words that appear in `words` */
+function coverage(phrase: string | null, words: Set<string>): number {
+  const tokens = tokenize(phrase);
+  if (tokens.size === 0 || words.size === 0) return 0;
+  let found = 0;
+  for (const t of tokens) if (words.has(t)) found++;
+  return found / tokens.size;
+}
+
+const ORDINAL_FLOOR = /\b(\d+)(?:st|nd|rd|th)?\s*(?:floor|fl\b)|\b(?:floor|fl\.?)\s*(?:number\s*)?(\d+)/gi;
+const NAMED_FLOORS = ['basement', 'cellar', 'attic', 'roof', 'exterior', 'interior'];
+
+/** Floor labels named in text: "2nd floor" → "2", "Floor 3" → "3", "Basement" → "basement" */
+function floorLabels(text: string | null | undefined): Set<string> {
+  const labels = new Set<string>();
+  if (!text) return labels;
+  for (const m of text.matchAll(ORDINAL_FLOOR)) labels.add(String(parseInt(m[1] || m[2], 10)));
+  const lower = text.toLowerCase();
+  for (const name of NAMED_FLOORS) if (lower.includes(name)) labels.add(name === 'cellar' ? 'basement' : name);
+  return labels;
+}
+
+/** An item's floor_number is usually bare ("1", "B", "Interior") */
+function itemFloorLabels(floor: string | null): Set<string> {
+  if (!floor) return new Set();
+  const trimmed = floor.trim();
+  if (/^\d+$/.test(trimmed)) return new Set([String(parseInt(trimmed, 10))]);
+  if (/^b(sm|smt)?$/i.test(trimmed)) return new Set(['basement']);
+  return floorLabels(trimmed);
+}
+
+function codeSignal(
+  page: EvidencePage,
+  item: MatchableItem,
+  pageEntry: CatalogCode | null,
+): { score: number; reason: string | null } {
+  if (!page.violation_code || !item.violation_code) return { score: 0, reason: null };
+
+  const pageKey = codeKey(page.violation_code);
+  const itemKey = codeKey(item.violation_code);
+  if (pageKey && pageKey === itemKey) return { score: 1, reason: `Code matches ${item.violation_code}` };
+  if (pageEntry && item.code_id === pageEntry.id) {
+    return { score: 1, reason: `"${page.violation_code}" is a catalog spelling of ${item.violation_code}` };
+  }
+
+  const similarity = 1 - levenshtein(pageKey, itemKey) / Math.max(pageKey.length, itemKey.length, 1);
+  if (similarity < FUZZY_CODE_MIN) return { score: 0, reason: null };
+  return {
+    score: similarity,
+    reason: `Code "${page.violation_code}" is close to ${item.violation_code} (${Math.round(similarity * 100)}%)`,
+  };
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/** Score one evidence page against one item */
+export function scorePhotoMatch(
+  page: EvidencePage,
+  item: MatchableItem,
+  context: { pageRank: number; itemRank: number; pageEntry?: CatalogCode | null },
+): MatchCandidate {
+  const reasons: string[] = [];
+  const words = tokenize(page.description);
+
+  const code = codeSignal(page, item, context.pageEntry ?? null);
+  if (code.reason) reasons.push(code.reason);
+
+  const locationCoverage = coverage(item.specific_location, words);
+  const taskCoverage = coverage(item.task_description, words);
+  const location = Math.max(locationCoverage, taskCoverage);
+  if (locationCoverage > 0) reasons.push(`Description mentions "${item.specific_location}"`);
+  else if (taskCoverage > 0) reasons.push(`Description overlaps the task (${Math.round(taskCoverage * 100)}%)`);
+
+  const pageFloors = floorLabels(page.description);
+  const sharedFloor = [...itemFloorLabels(item.floor_number)].find(label => pageFloors.has(label));
+  const floor = sharedFloor ? 1 : 0;
+  if (sharedFloor) reasons.push(`Same floor (${item.floor_number})`);
+
+  const order = 1 - Math.abs(context.pageRank - context.itemRank);
+  if (order >= 0.9) reasons.push(`Page order fits item #${item.item_number ?? '?'}`);
+
+  const signals = { code: round(code.score), location: round(location), floor, order: round(order) };
+  const score = (Object.keys(MATCH_WEIGHTS) as Array<keyof MatchSignals>)
+    .reduce((sum, key) => sum + MATCH_WEIGHTS[key] * signals[key], 0);
+
+  return {
+    item_id: item.id,
+    item_number: item.item_number,
+    violation_code: item.violation_code,
+    score: round(score),
+    signals,
+    reasons,
+  };
+}
+
+/** Position in [0, 1] of index `i` in a list of `n` */
+function rank(i: number, n: number): number {
+  return n > 1 ? i / (n - 1) : 0;
+}
+
+/**
+ * Match every evidence page to its best item. Pages are ranked in page order
+ * and items in item-number order for the order signal; ties go to the lower
+ * item number.
+ */
+export function matchEvidencePages(
+  pages: EvidencePage[],
+  items: MatchableItem[],
+  catalog: CatalogCode[] = [],
+): PhotoMatch[] {
+  const orderedPages = [...pages].sort((a, b) => a.page_number - b.page_number);
+  const orderedItems = [...items].sort((a, b) => (a.item_number ?? Infinity) - (b.item_number ?? Infinity));
+
+  return orderedPages.map((page, p) => {
+    const pageEntry = findCatalogCode(page.violation_code, catalog);
+    const candidates = orderedItems
+      .map((item, i) => scorePhotoMatch(page, item, {
+        pageRank: rank(p, orderedPages.length),
+        itemRank: rank(i, orderedItems.length),
+        pageEntry,
+      }))
+      .filter(c => c.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CANDIDATES);
+
+    const best = candidates[0];
+    return {
+      page_number: page.page_number,
+      item_id: best && best.score >= MATCH_THRESHOLD ? best.item_id : null,
+      score: best?.score ?? 0,
+      candidates,
+    };
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * Diff a staged re-parse against the live violation and its items.
+ *
+ * Items are matched by violation code first (item numbering can shift between
+ * runs), then by item number. Each field change records whether the live value
+ * was edited since the last parse — i.e. it no longer matches raw_ai_output —
+ * so the UI can leave manual corrections unselected by default.
+ */
+
+import { toViolationFields, toViolationItemFields, parseDate } from './parse-values';
+import type { NOIParseResult } from './ai/schemas';
+import type { DeadlineRules } from './deadlines';
+import { codeKey, type CatalogCode } from './violation-codes';
+
+// The violation's abatement_deadline is not diffed: it rolls up from its items
+export const NOTICE_DIFF_FIELDS = [
+  'notice_id', 'respondent', 'infraction_address', 'date_of_service',
+  'total_fines', 'priority',
+] as const;
+
+export const ITEM_DIFF_FIELDS = [
+  'item_number', 'violation_code', 'priority', 'abatement_deadline', 'abatement_deadline_text', 'fine',
+  'violation_description', 'specific_location', 'floor_number',
+  'date_of_infraction', 'time_of_infraction', 'task_description',
+] as const;
+
+export type StagedItem = ReturnType<typeof toViolationItemFields>;
+
+export interface FieldChange {
+  field: string;
+  current: unknown;
+  staged: unknown;
+  edited_since_parse: boolean;
+}
+
+export interface ItemDiff {
+  key: string; // existing item id, or "new:<item_number>" for additions
+  kind: 'changed' | 'added' | 'removed' | 'unchanged';
+  item_number: number | null;
+  violation_code: string | null;
+  existing_item_id?: string;
+  changes: FieldChange[];
+  staged?: StagedItem;
+  protected_reason?: string; // why a removal can't be applied
+}
+
+export interface ReparseDiff {
+  notice: FieldChange[];
+  items: ItemDiff[];
+}
+
+export interface ReparseSelection {
+  notice_fields: string[];
+  items: Array<{ key: string; fields?: string[] }>;
+}
+
+export interface ReparsePlan {
+  violationUpdates: Record<string, unknown>;
+  itemUpdates: Array<{ id: string; updates: Record<string, unknown> }>;
+  inserts: StagedItem[];
+  deletes: string[];
+  skipped: Array<{ key: string; reason: string }>;
+}
+
+type Row = Record<string, unknown>;
+
+function same(a: unknown, b: unknown): boolean {
+  const norm = (v: unknown) => (v === null || v === undefined ? '' : String(v).trim());
+  if (typeof a === 'number' || typeof b === 'number') {
+    const na = a === null || a === undefined || a === '' ? NaN : Number(a);
+    const nb = b === null || b === undefined || b === '' ? NaN : Number(b);
+    if (!isNaN(na) || !isNaN(nb)) return na === nb;
+  }
+  return norm(a) === norm(b);
+}
+
+function diffFields(
+  fields: readonly string[],
+  current: Row,
+  staged: Row,
+  baseline: Row | undefined,
+): FieldChange[] {
+  return fields
+    .filter((field) => !same(current[field], staged[field]))
+    .map((field) => ({
+      field,
+      current: current[field] ?? null,
+      staged: staged[field] ?? null,
+      edited_since_parse: !!baseline && !same(current[field], baseline[field]),
+    }));
+}
+
+/** Pair staged items with existing ones: code+number, then code, then number */
+function matchItems(existing: Row[], staged: StagedItem[]): Map<number, Row> {
+  const matches = new Map<number, Row>();
+  const used = new Set<Row>();
+  const code = (v: unknown) => codeKey(String(v ?? ''));
+
+  const pass = (predicate: (e: Row, s: StagedItem) => boolean) => {
+    staged.forEach((s, i) => {
+      if (matches.has(i)) return;
+      const hit = existing.find((e) => !used.has(e) && predicate(e, s));
+      if (hit) {
+        matches.set(i, hit);
+        used.add(hit);
+      }
+    });
+  };
+
+  pass((e, s) => code(e.violation_code) === code(s.violation_code) && e.item_number === s.item_number);
+  pass((e, s) => !!code(s.violation_code) && code(e.violation_code) === code(s.violation_code));
+  pass((e, s) => e.item_number === s.item_number);
+  return matches;
+}
+
+/** Tally contractor photos per item from `photos` rows */
+export function countPhotosByItem(photos: Array<{ violation_item_id: string | null }>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const photo of photos) {
+    if (!photo.violation_item_id) continue;
+    counts[photo.violation_item_id] = (counts[photo.violation_item_id] || 0) + 1;
+  }
+  return counts;
+}
+
+export function diffReparse(args: {
+  violation: Row;
+  items: Row[];
+  staged: NOIParseResult;
+  baseline?: NOIParseResult | null;
+  photoCountsByItem?: Record<string, number>;
+  deadlineRules?: DeadlineRules;
+  codeCatalog?: CatalogCode[];
+}): ReparseDiff {
+  const { violation, items, staged, baseline, photoCountsByItem = {}, deadlineRules, codeCatalog } = args;
+
+  const stagedNotice = toViolationFields(staged.notice_level_data, staged.work_orders, deadlineRules);
+  const baselineNotice = baseline
+    ? toViolationFields(baseline.notice_level_data, baseline.work_orders, deadlineRules)
+    : undefined;
+  const notice = diffFields(NOTICE_DIFF_FIELDS, violation, stagedNotice, baselineNotice);
+
+  const stagedService = parseDate(staged.notice_level_data.date_of_service);
+  const stagedItems = staged.work_orders.map(wo => toViolationItemFields(wo, stagedService, deadlineRules, codeCatalog));
+  const baselineService = baseline ? parseDate(baseline.notice_level_data.date_of_service) : null;
+  const baselineItems = (baseline?.work_orders || []).map(wo => toViolationItemFields(wo, baselineService, deadlineRules, codeCatalog));
+  const matches = matchItems(items, stagedItems);
+  const matchedIds = new Set([...matches.values()].map((e) => e.id));
+
+  const diffs: ItemDiff[] = stagedItems.map((s, i) => {
+    const existing = matches.get(i);
+    if (!existing) {
+      return {
+        key: `new:${s.item_number}`,
+        kind: 'added',
+        item_number: s.item_number,
+        violation_code: s.violation_code,
+        changes: [],
+        staged: s,
+      };
+    }
+    const base = baselineItems.find((b) => b.item_number === existing.item_number);
+    const changes = diffFields(ITEM_DIFF_FIELDS, existing, s, base);
+    return {
+      key: existing.id as string,
+      kind: changes.length > 0 ? 'changed' : 'unchanged',
+      item_number: existing.item_number as number | null,
+      violation_code: existing.violation_code as string | null,
+      existing_item_id: existing.id as string,
+      changes,
+      staged: s,
+    };
+  });
+
+  for (const existing of items) {
+    if (matchedIds.has(existing.id)) continue;
+    const photoCount = photoCountsByItem[existing.id as string] || 0;
+    diffs.push({
+      key: existing.id as string,
+      kind: 'removed',
+      item_number: existing.item_number as number | null,
+      violation_code: existing.violation_code as string | null,
+      existing_item_id: existing.id as string,
+      changes: [],
+      ...(photoCount > 0 && { protected_reason: `${photoCount} contractor photo${photoCount !== 1 ? 's' : ''} attached` }),
+    });
+  }
+
+  return { notice, items: diffs };
+}
+
+/** Turn a user's selection into concrete writes. Anything not selected is left untouched. */
+export function planReparseApply(diff: ReparseDiff, selection: ReparseSelection): ReparsePlan {
+  const plan: ReparsePlan = { violationUpdates: {}, itemUpdates: [], inserts: [], deletes: [], skipped: [] };
+
+  for (const change of diff.notice) {
+    if (selection.notice_fields.includes(change.field)) {
+      plan.violationUpdates[change.field] = change.staged;
+    }
+  }
+
+  for (const selected of selection.items) {
+    const item = diff.items.find((d) => d.key === selected.key);
+    if (!item) {
+      plan.skipped.push({ key: selected.key, reason: 'Item no longer in diff' });
+      continue;
+    }
+
+    if (item.kind === 'added' && item.staged) {
+      plan.inserts.push(item.staged);
+    } else if (item.kind === 'removed') {
+      if (item.protected_reason) {
+        plan.skipped.push({ key: item.key, reason: item.protected_reason });
+      } else {
+        plan.deletes.push(item.key);
+      }
+    } else if (item.kind === 'changed') {
+      const fields = selected.fields ?? item.changes.map((c) => c.field);
+      const updates: Record<string, unknown> = {};
+      for (const change of item.changes) {
+        if (fields.includes(change.field)) updates[change.field] = change.staged;
+      }
+      // The catalog link follows the code it was resolved from
+      if ('violation_code' in updates && item.staged) updates.code_id = item.staged.code_id;
+      if (Object.keys(updates).length > 0) plan.itemUpdates.push({ id: item.key, updates });
+    }
+  }
+
+  return plan;
+}
@@ -1,63 +1,30 @@
-import type { ViolationStatus } from './types';
+import type { ViolationStatus, WorkflowStatus } from './types';
+import { DEFAULT_WORKFLOW, findState, statusColor, statusLabel, type Workflow } from './workflow';
 
-// Valid status transitions for violations
-const VALID_TRANSITIONS: Record<ViolationStatus, ViolationStatus[]> = {
-  NEW: ['PARSING', 'ASSIGNED', 'CLOSED'],
-  PARSING: ['PARSED', 'NEW'], // Can go back to NEW on parse failure
-  PARSED: ['ASSIGNED', 'CLOSED'],
-  ASSIGNED: ['IN_PROGRESS', 'CLOSED'],
-  IN_PROGRESS: ['AWAITING_PHOTOS', 'CLOSED'],
-  AWAITING_PHOTOS: ['PHOTOS_UPLOADED', 'IN_PROGRESS'],
-  PHOTOS_UPLOADED: ['READY_FOR_SUBMISSION', 'AWAITING_PHOTOS'],
-  READY_FOR_SUBMISSION: ['SUBMITTED', 'AWAITING_PHOTOS'],
-  SUBMITTED: ['APPROVED', 'REJECTED', 'ADDITIONAL_INFO_REQUESTED'],
-  APPROVED: ['CLOSED'],
-  REJECTED: ['IN_PROGRESS'],
-  ADDITIONAL_INFO_REQUESTED: ['AWAITING_PHOTOS', 'IN_PROGRESS'],
-  CLOSED: [],
-};
-
-export function canTransition(from: ViolationStatus, to: ViolationStatus): boolean {
-  return VALID_TRANSITIONS[from]?.includes(to) ?? false;
+// Transitions come from the org's workflow (see workflow.ts); without one,
+// the default workflow applies
+export function canTransition(
+  from: WorkflowStatus,
+  to: WorkflowStatus,
+  workflow: Workflow = DEFAULT_WORKFLOW,
+): boolean {
+  return findState(workflow, from)?.transitions.includes(to) ?? false;
 }
 
-export function getNextStatuses(current: ViolationStatus): ViolationStatus[] {
-  return VALID_TRANSITIONS[current] ?? [];
+export function getNextStatuses(current: WorkflowStatus, workflow: Workflow = DEFAULT_WORKFLOW): WorkflowStatus[] {
+  return findState(workflow, current)?.transitions ?? [];
 }
 
-// Human-readable labels for statuses
-export const STATUS_LABELS: Record<ViolationStatus, string> = {
-  NEW: 'New',
-  PARSING: 'Parsing',
-  PARSED: 'Parsed',
-  ASSIGNED: 'Assigned',
-  IN_PROGRESS: 'In Progress',
-  AWAITING_PHOTOS: 'Awaiting Photos',
-  PHOTOS_UPLOADED: 'Photos Uploaded',
-  READY_FOR_SUBMISSION: 'Ready for Submission',
-  SUBMITTED: 'Submitted',
-  APPROVED: 'Approved',
-  REJECTED: 'Rejected',
-  ADDITIONAL_INFO_REQUESTED: 'More Info Requested',
-  CLOSED: 'Closed',
-};
+// Human-readable labels for the default workflow's statuses; use
+// statusLabel() with the org's workflow for anything shown to users
+export const STATUS_LABELS = Object.fromEntries(
+  DEFAULT_WORKFLOW.states.map((s) => [s.key, statusLabel(s.key)]),
+) as Record<ViolationStatus, string>;
 
-// Color classes for status badges
-export const STATUS_COLORS: Record<ViolationStatus, string> = {
-  NEW: 'bg-slate-50 text-slate-700 ring-1 ring-inset ring-slate-600/20 font-medium',
-  PARSING: 'bg-blue-50 text-blue-700 ring-1 ring-inset ring-blue-600/20 font-medium',
-  PARSED: 'bg-indigo-50 text-indigo-700 ring-1 ring-inset ring-indigo-600/20 font-medium',
-  ASSIGNED: 'bg-purple-50 text-purple-700 ring-1 ring-inset ring-purple-600/20 font-medium',
-  IN_PROGRESS: 'bg-yellow-50 text-yellow-800 ring-1 ring-inset ring-yellow-600/20 font-medium',
-  AWAITING_PHOTOS: 'bg-orange-50 text-orange-700 ring-1 ring-inset ring-orange-600/20 font-medium',
-  PHOTOS_UPLOADED: 'bg-cyan-50 text-cyan-700 ring-1 ring-inset ring-cyan-600/20 font-medium',
-  READY_FOR_SUBMISSION: 'bg-teal-50 text-teal-700 ring-1 ring-inset ring-teal-600/20 font-medium',
-  SUBMITTED: 'bg-blue-50 text-blue-700 ring-1 ring-inset ring-blue-600/20 font-medium',
-  APPROVED: 'bg-emerald-50 text-emerald-700 ring-1 ring-inset ring-emerald-600/20 font-medium',
-  REJECTED: 'bg-red-50 text-red-700 ring-1 ring-inset ring-red-600/20 font-medium',
-  ADDITIONAL_INFO_REQUESTED: 'bg-amber-50 text-amber-700 ring-1 ring-inset ring-amber-600/20 font-medium',
-  CLOSED: 'bg-slate-100 text-slate-600 ring-1 ring-inset ring-slate-500/20 font-medium',
-};
+// Color classes for the default workflow's status badges; see statusColor()
+export const STATUS_COLORS = Object.fromEntries(
+  DEFAULT_WORKFLOW.states.map((s) => [s.key, statusColor(s.key)]),
+) as Record<ViolationStatus, string>;
 
 // Priority display helpers
 export function getPriorityColor(priority: number): string {
@@ -77,7 +44,7 @@ export function getPriorityLabel(priority: number): string {
 }
 
 // Urgency calculation for dashboard color coding
-export function getUrgencyColor(deadline: string | null, status: ViolationStatus): string {
+export function getUrgencyColor(deadline: string | null, status: WorkflowStatus): string {
   if (!deadline || ['APPROVED', 'CLOSED'].includes(status)) {
     return 'text-slate-400';
   }
@@ -1,14 +1,20 @@
 export type UserRole = 'OWNER' | 'PROJECT_MANAGER' | 'CONTRACTOR' | 'ADMIN';
 
 export type ViolationStatus =
-  | 'NEW' | 'PARSING' | 'PARSED' | 'ASSIGNED' | 'IN_PROGRESS'
+  | 'NEW' | 'PARSING' | 'PARSED' | 'NEEDS_REVIEW' | 'ASSIGNED' | 'IN_PROGRESS'
   | 'AWAITING_PHOTOS' | 'PHOTOS_UPLOADED' | 'READY_FOR_SUBMISSION'
   | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'ADDITIONAL_INFO_REQUESTED' | 'CLOSED';
+// A built-in status or one an org added to its workflow (e.g. 'QA_REVIEW')
+export type WorkflowStatus = ViolationStatus | (string & {});
 
 export type WorkOrderStatus = 'ASSIGNED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+// Where a single NOI item is; the violation's status rolls up from these (see item-status.ts)
+export type ItemStatus = 'open' | 'in_repair' | 'photo_uploaded' | 'photo_approved' | 'abated' | 'disputed';
 export type PhotoType = 'BEFORE' | 'AFTER' | 'INSPECTOR' | 'REFERENCE';
 export type PhotoStatus = 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED';
 export type SubmissionResponse = 'PENDING' | 'APPROVED' | 'REJECTED' | 'ADDITIONAL_INFO_REQUESTED';
+export type DocumentType =
+  | 'NOI' | 'REINSPECTION_NOTICE' | 'APPROVAL_LETTER' | 'FINE_NOTICE' | 'HEARING_NOTICE' | 'UNKNOWN';
 
 export interface Organization {
   id: string;
@@ -71,11 +77,16 @@ export interface Violation {
   infraction_address: string | null;
   date_of_service: string | null;
   total_fines: number | null;
-  status: ViolationStatus;
+  status: WorkflowStatus;
   priority: number;
   abatement_deadline: string | null;
   assigned_to: string | null;
   pdf_storage_path: string | null;
+  pdf_sha256: string | null;
+  pdf_text_sha256: string | null;
+  page_start: number | null;
+  page_end: number | null;
+  source_violation_id: string | null;
   parse_status: string;
   parse_metadata: Record<string, unknown>;
   raw_ai_output: Record<string, unknown> | null;
@@ -96,8 +107,10 @@ export interface ViolationItem {
   violation_id: string;
   item_number: number | null;
   violation_code: string | null;
+  code_id: string | null; // catalog entry the code resolved to
   priority: number;
-  abatement_deadline: string | null;
+  abatement_deadline: string | null; // due date (YYYY-MM-DD) computed from the text
+  abatement_deadline_text: string | null; // as printed on the NOI, e.g. "60 Days"
   fine: number | null;
   violation_description: string | null;
   specific_location: string | null;
@@ -105,11 +118,27 @@ export interface ViolationItem {
   date_of_infraction: string | null;
   time_of_infraction: string | null;
   task_description: string | null;
-  status: string;
+  status: ItemStatus;
   created_at: string;
   updated_at: string;
   // Joined relations
   photos?: Photo[];
+  violation_codes?: Pick<ViolationCode, 'title' | 'remediation_task'> | null;
+}
+
+export interface ViolationCode {
+  id: string;
+  org_id: string;
+  code: string; // canonical form, e.g. "12-G DCMR § 309.1"
+  code_key: string;
+  aliases: string[];
+  title: string | null;
+  trade_category: string | null;
+  typical_fine: number | null;
+  remediation_task: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Photo {
@@ -182,6 +211,16 @@ export interface Contractor {
   updated_at: string;
 }
 
+// DOB response read from email that email sync left for the PM to apply
+export interface ProposedDobResponse {
+  // null when the email read as more than one outcome
+  status: Exclude<SubmissionResponse, 'PENDING'> | null;
+  candidates: Exclude<SubmissionResponse, 'PENDING'>[];
+  notes: string;
+  email: { subject: string; from: string; received_at: string; message_id: string };
+  detected_at: string;
+}
+
 export interface Submission {
   id: string;
   org_id: string;
@@ -194,10 +233,25 @@ export interface Submission {
   response_status: SubmissionResponse;
   response_notes: string | null;
   responded_at: string | null;
+  proposed_response: ProposedDobResponse | null;
   created_at: string;
   updated_at: string;
 }
 
+// DOB correspondence about an existing NOI, filed against its violation
+export interface ViolationDocument {
+  id: string;
+  org_id: string;
+  violation_id: string;
+  document_type: Exclude<DocumentType, 'NOI' | 'UNKNOWN'>;
+  reference_notice_id: string | null;
+  storage_path: string;
+  source: string;
+  intake_violation_id: string | null;
+  classification: Record<string, unknown>;
+  created_at: string;
+}
+
 export interface AuditLogEntry {
   id: string;
   org_id: string;
@@ -327,6 +381,15 @@ export const CONTACT_CATEGORY_LABELS: Record<ContactCategory, string> = {
   OTHER: 'Other',
 };
 
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  NOI: 'Notice of Infraction',
+  REINSPECTION_NOTICE: 'Reinspection Notice',
+  APPROVAL_LETTER: 'Abatement Approval Letter',
+  FINE_NOTICE: 'Fine Notice',
+  HEARING_NOTICE: 'Hearing Notice',
+  UNKNOWN: 'Unknown Document',
+};
+
 // ============================================================================
 // Stats
 // ============================================================================
@@ -358,7 +421,7 @@ export interface PropertyPortfolioStats {
 
 // Dashboard filter types
 export interface ViolationFilters {
-  status?: ViolationStatus;
+  status?: WorkflowStatus;
   priority?: number;
   search?: string;
   property_id?: string;
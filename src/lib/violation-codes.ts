@@ -0,0 +1,134 @@
+/**
+ * Violation code catalog.
+ *
+ * Gemini returns each citation as printed on the NOI, so the same code comes
+ * back as "12-G DCMR § 309.1", "12G DCMR §309.1" or "12-G DCMR Sec. 309.1".
+ * Codes are compared by a key that ignores spacing, hyphens, section signs and
+ * case, and resolved against the org's catalog (violation_codes) to a
+ * canonical spelling, title, trade category and standard remediation task.
+ */
+
+import type { ViolationCode } from './types';
+
+/** The catalog fields used to resolve and default parsed items */
+export type CatalogCode = Pick<ViolationCode, 'id' | 'code' | 'aliases' | 'remediation_task'>;
+
+/** "12-G DCMR Sec. 309.1" → "12GDCMR309.1" — equal keys mean the same citation */
+export function codeKey(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/§|\bSECTIONS?\b|\bSECS?\b\.?/g, '')
+    .replace(/[^A-Z0-9.]/g, '')
+    // Dots only matter inside section numbers ("309.1"), not in "D.C." or at the end
+    .replace(/(?<!\d)\.|\.(?!\d)/g, '');
+}
+
+/** Tidy spelling for a code with no catalog entry: single spaces, "§ 309.1" */
+export function formatViolationCode(code: string): string {
+  return code
+    .replace(/\bSec(?:tion)?\b\.?\s*(?=\d)/gi, '§ ')
+    .replace(/\s*§+\s*/g, ' § ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** The catalog entry a code (or one of its aliases) matches */
+export function findCatalogCode<T extends CatalogCode>(code: string | null | undefined, catalog: T[]): T | null {
+  if (!code) return null;
+  const key = codeKey(code);
+  if (!key) return null;
+  return catalog.find(entry =>
+    codeKey(entry.code) === key || entry.aliases.some(alias => codeKey(alias) === key),
+  ) ?? null;
+}
+
+/** Whether two codes are the same citation, whatever their spelling */
+export function sameViolationCode(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false;
+  return codeKey(a) === codeKey(b);
+}
+
+/**
+ * Canonical code, catalog link and task for a parsed item. The NOI's own task
+ * text wins; the catalog's remediation task fills it in when the NOI has none.
+ */
+export function resolveViolationCode(
+  code: string | null | undefined,
+  taskDescription: string | null | undefined,
+  catalog: CatalogCode[],
+): { violation_code: string | null; code_id: string | null; task_description: string | null } {
+  const entry = findCatalogCode(code, catalog);
+  return {
+    violation_code: entry?.code ?? (code ? formatViolationCode(code) : null),
+    code_id: entry?.id ?? null,
+    task_description: taskDescription?.trim() ? taskDescription : entry?.remediation_task ?? taskDescription ?? null,
+  };
+}
+
+/**
+ * Codes on items that no catalog entry covers, most frequent first. Spellings
+ * of one citation are grouped under the most common one.
+ */
+export function uncataloguedCodes(
+  items: Array<{ violation_code: string | null }>,
+  catalog: CatalogCode[],
+): Array<{ code: string; count: number }> {
+  const groups = new Map<string, Map<string, number>>();
+  for (const { violation_code } of items) {
+    if (!violation_code || findCatalogCode(violation_code, catalog)) continue;
+    const key = codeKey(violation_code);
+    if (!key) continue;
+    const spellings = groups.get(key) || new Map<string, number>();
+    spellings.set(violation_code, (spellings.get(violation_code) || 0) + 1);
+    groups.set(key, spellings);
+  }
+
+  return [...groups.values()]
+    .map(spellings => {
+      const [code] = [...spellings.entries()].sort((a, b) => b[1] - a[1])[0];
+      const count = [...spellings.values()].reduce((sum, n) => sum + n, 0);
+      return { code: formatViolationCode(code), count };
+    })
+    .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code));
+}
+
+const EDITABLE_FIELDS = ['code', 'aliases', 'title', 'trade_category', 'typical_fine', 'remediation_task'] as const;
+
+/**
+ * Validate a catalog create/update payload. Returns the columns to write
+ * (with code_key recomputed when the code changes) or an error message.
+ */
+export function validateViolationCodeInput(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean },
+): { values: Record<string, unknown> } | { error: string } {
+  const values: Record<string, unknown> = {};
+
+  for (const field of EDITABLE_FIELDS) {
+    if (!(field in body)) continue;
+    const value = body[field];
+
+    if (field === 'code') {
+      if (typeof value !== 'string' || !codeKey(value)) return { error: 'code is required' };
+      values.code = formatViolationCode(value);
+      values.code_key = codeKey(value);
+    } else if (field === 'aliases') {
+      if (!Array.isArray(value) || !value.every(a => typeof a === 'string')) {
+        return { error: 'aliases must be a list of strings' };
+      }
+      values.aliases = [...new Set(value.map(a => formatViolationCode(a)).filter(Boolean))];
+    } else if (field === 'typical_fine') {
+      if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        return { error: 'typical_fine must be a non-negative number' };
+      }
+      values.typical_fine = value;
+    } else {
+      if (value !== null && typeof value !== 'string') return { error: `${field} must be a string` };
+      values[field] = typeof value === 'string' ? value.trim() || null : null;
+    }
+  }
+
+  if (!partial && !('code' in values)) return { error: 'code is required' };
+  if (Object.keys(values).length === 0) return { error: 'No valid fields to update' };
+  return { values };
+}
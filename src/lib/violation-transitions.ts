@@ -0,0 +1,348 @@
+/**
+ * The one place a violation's status changes.
+ *
+ * Routes and Inngest functions call transitionViolation instead of writing
+ * violations.status themselves. A move has to be one the org's workflow
+ * allows (see workflow.ts) and pass the guard for its target status:
+ *
+ *   PHOTOS_UPLOADED       every item has an AFTER photo that wasn't rejected
+ *   READY_FOR_SUBMISSION  every item has an approved AFTER photo
+ *   SUBMITTED             a submission to DOB has been recorded
+ *
+ * The photo guards skip items that are abated or disputed, but still need at
+ * least one AFTER photo on the violation.
+ *
+ * A blocked move changes nothing and comes back with a TransitionBlock
+ * saying why. Routes return it with a 409, and listTransitions gives the
+ * dashboard the same reasons for the status buttons it disables.
+ *
+ * Outcomes decided outside the app (a DOB response, an approval letter, a
+ * parse that turned out to be another document) pass `force` to skip the
+ * workflow's list of next states. The target still has to be in the
+ * workflow, and guards still apply.
+ *
+ * Items carry their own status (see item-status.ts). advanceItems moves
+ * them as the contractor works and photos are approved, and
+ * rollupViolationStatus then walks the violation up to the status its items
+ * have reached, through the same checks.
+ *
+ * The status change itself is audited by the log_violation_status_change
+ * trigger.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { canTransition } from '@/lib/status-transitions';
+import { findState, readWorkflow, statusLabel, type Workflow } from '@/lib/workflow';
+import { isItemOutstanding, itemStatusesBefore, rolledUpStatuses } from '@/lib/item-status';
+import type { ItemStatus, SubmissionResponse, Violation, WorkflowStatus } from '@/lib/types';
+
+export type TransitionBlockCode =
+  | 'NOT_FOUND'
+  | 'NOT_IN_WORKFLOW'
+  | 'NOT_ALLOWED'
+  | 'MISSING_AFTER_PHOTOS'
+  | 'UNAPPROVED_AFTER_PHOTOS'
+  | 'NO_SUBMISSION'
+  | 'STATUS_CHANGED';
+
+export interface TransitionBlock {
+  code: TransitionBlockCode;
+  message: string;
+  from: WorkflowStatus | null;
+  to: WorkflowStatus;
+  // Items the guard found missing photos, for the photo guards
+  item_ids?: string[];
+}
+
+export type TransitionResult =
+  | { ok: true; from: WorkflowStatus; violation: Violation; changed: boolean }
+  | { ok: false; block: TransitionBlock };
+
+export interface TransitionOptions {
+  orgId: string;
+  // Other violation columns to write along with the status
+  fields?: Record<string, unknown>;
+  // Skip the workflow's next-state list, for outcomes decided outside the app
+  force?: boolean;
+}
+
+export interface TransitionOption {
+  status: WorkflowStatus;
+  block: TransitionBlock | null;
+}
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+async function loadViolation(supabase: AdminClient, violationId: string, orgId: string) {
+  const { data: violation } = await supabase
+    .from('violations')
+    .select('*, organizations(settings)')
+    .eq('id', violationId)
+    .eq('org_id', orgId)
+    .maybeSingle();
+  if (!violation) return null;
+
+  const { organizations, ...row } = violation as Violation & { organizations: { settings: Record<string, unknown> | null } | null };
+  return { violation: row as Violation, workflow: readWorkflow(organizations?.settings) };
+}
+
+function itemsStillNeed(count: number, what: string): string {
+  return count === 1 ? `1 item still needs ${what}` : `${count} items still need ${what}`;
+}
+
+/**
+ * Outstanding items (not abated or disputed) without an AFTER photo passing
+ * `accept`; null when every one has one and at least one photo passes
+ */
+async function itemsMissingAfterPhotos(
+  supabase: AdminClient,
+  violationId: string,
+  accept: (status: string) => boolean,
+): Promise<string[] | null> {
+  const [{ data: items }, { data: photos }] = await Promise.all([
+    supabase.from('violation_items').select('id, status').eq('violation_id', violationId),
+    supabase.from('photos').select('violation_item_id, status').eq('violation_id', violationId).eq('photo_type', 'AFTER'),
+  ]);
+
+  const accepted = (photos || []).filter((p) => accept(p.status));
+  const outstanding = (items || []).filter((i) => isItemOutstanding(i.status)).map((i) => i.id as string);
+  // Abated and disputed items aside, but the violation still needs at least
+  // one photo of the repair, even when it has no items or none outstanding
+  if (accepted.length === 0) return outstanding;
+
+  const covered = new Set(accepted.map((p) => p.violation_item_id));
+  const missing = outstanding.filter((id) => !covered.has(id));
+  return missing.length > 0 ? missing : null;
+}
+
+/** Why `to` can't be entered right now, or null when its guard passes */
+async function checkGuard(
+  supabase: AdminClient,
+  violation: Violation,
+  to: WorkflowStatus,
+): Promise<TransitionBlock | null> {
+  const block = (code: TransitionBlockCode, message: string, itemIds?: string[]): TransitionBlock => ({
+    code,
+    message,
+    from: violation.status,
+    to,
+    ...(itemIds && { item_ids: itemIds }),
+  });
+
+  if (to === 'PHOTOS_UPLOADED') {
+    const missing = await itemsMissingAfterPhotos(supabase, violation.id, (s) => s !== 'REJECTED');
+    if (missing) {
+      return block(
+        'MISSING_AFTER_PHOTOS',
+        missing.length > 0 ? itemsStillNeed(missing.length, 'an after photo') : 'No after photos have been uploaded',
+        missing,
+      );
+    }
+  }
+
+  if (to === 'READY_FOR_SUBMISSION') {
+    const missing = await itemsMissingAfterPhotos(supabase, violation.id, (s) => s === 'APPROVED');
+    if (missing) {
+      return block(
+        'UNAPPROVED_AFTER_PHOTOS',
+        missing.length > 0 ? itemsStillNeed(missing.length, 'an approved after photo') : 'No after photo has been approved',
+        missing,
+      );
+    }
+  }
+
+  if (to === 'SUBMITTED') {
+    const { count } = await supabase
+      .from('submissions')
+      .select('id', { count: 'exact', head: true })
+      .eq('violation_id', violation.id);
+    if (!count) return block('NO_SUBMISSION', 'Record the submission to DOB first');
+  }
+
+  return null;
+}
+
+async function checkTransition(
+  supabase: AdminClient,
+  violation: Violation,
+  workflow: Workflow,
+  to: WorkflowStatus,
+  force = false,
+): Promise<TransitionBlock | null> {
+  const from = violation.status;
+  if (!findState(workflow, to)) {
+    return { code: 'NOT_IN_WORKFLOW', message: `${statusLabel(to, workflow)} isn't part of this organization's workflow`, from, to };
+  }
+  if (!force && !canTransition(from, to, workflow)) {
+    return {
+      code: 'NOT_ALLOWED',
+      message: `The workflow doesn't allow moving from ${statusLabel(from, workflow)} to ${statusLabel(to, workflow)}`,
+      from,
+      to,
+    };
+  }
+  return checkGuard(supabase, violation, to);
+}
+
+/**
+ * Move a violation to `to`, if the org's workflow and the target's guard
+ * allow it. Moving to the status it's already in is a no-op.
+ */
+export async function transitionViolation(
+  violationId: string,
+  to: WorkflowStatus,
+  options: TransitionOptions,
+): Promise<TransitionResult> {
+  const supabase = createAdminClient();
+  const loaded = await loadViolation(supabase, violationId, options.orgId);
+  if (!loaded) {
+    return { ok: false, block: { code: 'NOT_FOUND', message: 'Violation not found', from: null, to } };
+  }
+
+  const { violation, workflow } = loaded;
+  const from = violation.status;
+  if (from === to && !options.fields) return { ok: true, from, violation, changed: false };
+
+  if (from !== to) {
+    const block = await checkTransition(supabase, violation, workflow, to, options.force);
+    if (block) return { ok: false, block };
+  }
+
+  // Only from the status the checks saw, so two moves can't cross
+  const { data: updated, error } = await supabase
+    .from('violations')
+    .update({ ...options.fields, status: to })
+    .eq('id', violationId)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to move violation ${violationId} to ${to}: ${error.message}`);
+  if (!updated) {
+    return {
+      ok: false,
+      block: { code: 'STATUS_CHANGED', message: 'The status changed while this was being saved. Reload and try again.', from, to },
+    };
+  }
+
+  return { ok: true, from, violation: updated as Violation, changed: from !== to };
+}
+
+/**
+ * The workflow's next statuses for a violation, each with the reason it's
+ * blocked right now (null when the move would go through).
+ */
+export async function listTransitions(
+  violationId: string,
+  orgId: string,
+): Promise<{ status: WorkflowStatus; options: TransitionOption[] } | null> {
+  const supabase = createAdminClient();
+  const loaded = await loadViolation(supabase, violationId, orgId);
+  if (!loaded) return null;
+
+  const { violation, workflow } = loaded;
+  const next = findState(workflow, violation.status)?.transitions ?? [];
+  const options = await Promise.all(next.map(async (status) => ({
+    status,
+    block: await checkGuard(supabase, violation, status),
+  })));
+
+  return { status: violation.status, options };
+}
+
+/**
+ * Move items of a violation to `to`. Only items currently in `from` move,
+ * which defaults to the lifecycle statuses before `to`, so items only go
+ * forward and abated or disputed items stay put. Returns how many moved.
+ */
+export async function advanceItems(
+  violationId: string,
+  to: ItemStatus,
+  options: { itemIds?: string[]; from?: ItemStatus[] } = {},
+): Promise<number> {
+  const from = options.from ?? itemStatusesBefore(to);
+  if (from.length === 0) return 0;
+
+  const supabase = createAdminClient();
+  let query = supabase
+    .from('violation_items')
+    .update({ status: to })
+    .eq('violation_id', violationId)
+    .in('status', from);
+  if (options.itemIds) query = query.in('id', options.itemIds);
+
+  const { data, error } = await query.select('id');
+  if (error) throw new Error(`Failed to move items of violation ${violationId} to ${to}: ${error.message}`);
+  return data?.length ?? 0;
+}
+
+/**
+ * What DOB's answer to a submission means for the items: an approval abates
+ * them, a rejection sends the ones with photos back for repair.
+ */
+export async function applyResponseToItems(violationId: string, response: SubmissionResponse): Promise<void> {
+  if (response === 'APPROVED') {
+    await advanceItems(violationId, 'abated');
+  } else if (response === 'REJECTED') {
+    await advanceItems(violationId, 'in_repair', { from: ['photo_uploaded', 'photo_approved'] });
+  }
+}
+
+// Where a violation waits for photos: it goes back here when its items slip,
+// and the roll-up passes through it when the workflow has no direct move to
+// PHOTOS_UPLOADED (as in workflows saved before IN_PROGRESS had one)
+const AWAITING_PHOTOS: WorkflowStatus = 'AWAITING_PHOTOS';
+
+/**
+ * Bring the violation's status in line with its items: move forward through
+ * each status the items have reached (see rolledUpStatuses) that comes after
+ * the current one in the workflow, skipping any the workflow or a guard
+ * blocks. A violation at PHOTOS_UPLOADED or READY_FOR_SUBMISSION whose
+ * items no longer support it steps back (to PHOTOS_UPLOADED if the workflow
+ * allows and the items still reach it, else AWAITING_PHOTOS) and then moves
+ * forward as far as the items reach, so one call settles the status. One
+ * that can't move straight to PHOTOS_UPLOADED goes through AWAITING_PHOTOS on
+ * the way. Returns the resulting status, or null when the violation wasn't
+ * found.
+ */
+export async function rollupViolationStatus(
+  violationId: string,
+  orgId: string,
+): Promise<WorkflowStatus | null> {
+  const supabase = createAdminClient();
+  const [loaded, { data: items }] = await Promise.all([
+    loadViolation(supabase, violationId, orgId),
+    supabase.from('violation_items').select('status').eq('violation_id', violationId),
+  ]);
+  if (!loaded) return null;
+
+  let status = loaded.violation.status;
+  const reached = rolledUpStatuses(items || []);
+
+  if (['PHOTOS_UPLOADED', 'READY_FOR_SUBMISSION'].includes(status) && !reached.includes(status)) {
+    // Only as far back as the items require; the loop below brings it forward again
+    const back = reached.includes('PHOTOS_UPLOADED') && canTransition(status, 'PHOTOS_UPLOADED', loaded.workflow)
+      ? 'PHOTOS_UPLOADED'
+      : AWAITING_PHOTOS;
+    const result = await transitionViolation(violationId, back, { orgId });
+    if (!result.ok) return status;
+    status = result.violation.status;
+  }
+
+  // Only statuses after the one it's at in workflow order, so it never steps back
+  const position = (s: WorkflowStatus) => loaded.workflow.states.findIndex((state) => state.key === s);
+  for (const to of reached) {
+    if (position(to) <= position(status)) continue;
+    if (
+      to === 'PHOTOS_UPLOADED'
+      && !canTransition(status, to, loaded.workflow)
+      && canTransition(status, AWAITING_PHOTOS, loaded.workflow)
+    ) {
+      const via = await transitionViolation(violationId, AWAITING_PHOTOS, { orgId });
+      if (via.ok) status = via.violation.status;
+    }
+    const result = await transitionViolation(violationId, to, { orgId });
+    if (result.ok) status = result.violation.status;
+  }
+  return status;
+}
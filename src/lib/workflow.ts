@@ -0,0 +1,222 @@
+/**
+ * Per-organization violation workflows.
+ *
+ * An org's workflow (organizations.settings.workflow) lists the states a
+ * violation moves through, each with its label, badge color and the states it
+ * can move to next. Orgs whose PMs take the photos can drop AWAITING_PHOTOS;
+ * others can add a stage of their own, such as QA_REVIEW before
+ * READY_FOR_SUBMISSION. Orgs without one get DEFAULT_WORKFLOW.
+ *
+ * The app moves violations into some states by itself (parsing, assignment,
+ * photo verification, submissions, DOB responses), so those states can't be
+ * removed, and the moves the parse pipeline and DOB responses make can't be
+ * taken out. Everything else is the org's to change.
+ */
+
+import type { ViolationStatus, WorkflowStatus } from './types';
+
+/** Badge color classes by palette name */
+export const WORKFLOW_COLORS = {
+  slate: 'bg-slate-50 text-slate-700 ring-1 ring-inset ring-slate-600/20 font-medium',
+  gray: 'bg-slate-100 text-slate-600 ring-1 ring-inset ring-slate-500/20 font-medium',
+  blue: 'bg-blue-50 text-blue-700 ring-1 ring-inset ring-blue-600/20 font-medium',
+  indigo: 'bg-indigo-50 text-indigo-700 ring-1 ring-inset ring-indigo-600/20 font-medium',
+  purple: 'bg-purple-50 text-purple-700 ring-1 ring-inset ring-purple-600/20 font-medium',
+  pink: 'bg-pink-50 text-pink-700 ring-1 ring-inset ring-pink-600/20 font-medium',
+  red: 'bg-red-50 text-red-700 ring-1 ring-inset ring-red-600/20 font-medium',
+  orange: 'bg-orange-50 text-orange-700 ring-1 ring-inset ring-orange-600/20 font-medium',
+  amber: 'bg-amber-50 text-amber-700 ring-1 ring-inset ring-amber-600/20 font-medium',
+  yellow: 'bg-yellow-50 text-yellow-800 ring-1 ring-inset ring-yellow-600/20 font-medium',
+  emerald: 'bg-emerald-50 text-emerald-700 ring-1 ring-inset ring-emerald-600/20 font-medium',
+  teal: 'bg-teal-50 text-teal-700 ring-1 ring-inset ring-teal-600/20 font-medium',
+  cyan: 'bg-cyan-50 text-cyan-700 ring-1 ring-inset ring-cyan-600/20 font-medium',
+} as const;
+
+export type WorkflowColor = keyof typeof WORKFLOW_COLORS;
+
+export interface WorkflowState {
+  key: WorkflowStatus;
+  label: string;
+  color: WorkflowColor;
+  // States this one can move to; a state with none is terminal
+  transitions: WorkflowStatus[];
+}
+
+export interface Workflow {
+  states: WorkflowState[];
+}
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  states: [
+    { key: 'NEW', label: 'New', color: 'slate', transitions: ['PARSING', 'ASSIGNED', 'CLOSED'] },
+    // Can go back to NEW on parse failure
+    { key: 'PARSING', label: 'Parsing', color: 'blue', transitions: ['PARSED', 'NEEDS_REVIEW', 'NEW'] },
+    { key: 'PARSED', label: 'Parsed', color: 'indigo', transitions: ['ASSIGNED', 'CLOSED'] },
+    // Low-confidence parse — not assignable until reviewed
+    { key: 'NEEDS_REVIEW', label: 'Needs Review', color: 'pink', transitions: ['PARSED', 'CLOSED'] },
+    { key: 'ASSIGNED', label: 'Assigned', color: 'purple', transitions: ['IN_PROGRESS', 'CLOSED'] },
+    // Straight to PHOTOS_UPLOADED when the contractor's photos arrive first
+    { key: 'IN_PROGRESS', label: 'In Progress', color: 'yellow', transitions: ['AWAITING_PHOTOS', 'PHOTOS_UPLOADED', 'CLOSED'] },
+    { key: 'AWAITING_PHOTOS', label: 'Awaiting Photos', color: 'orange', transitions: ['PHOTOS_UPLOADED', 'IN_PROGRESS'] },
+    { key: 'PHOTOS_UPLOADED', label: 'Photos Uploaded', color: 'cyan', transitions: ['READY_FOR_SUBMISSION', 'AWAITING_PHOTOS'] },
+    { key: 'READY_FOR_SUBMISSION', label: 'Ready for Submission', color: 'teal', transitions: ['SUBMITTED', 'AWAITING_PHOTOS'] },
+    { key: 'SUBMITTED', label: 'Submitted', color: 'blue', transitions: ['APPROVED', 'REJECTED', 'ADDITIONAL_INFO_REQUESTED'] },
+    { key: 'APPROVED', label: 'Approved', color: 'emerald', transitions: ['CLOSED'] },
+    { key: 'REJECTED', label: 'Rejected', color: 'red', transitions: ['IN_PROGRESS'] },
+    { key: 'ADDITIONAL_INFO_REQUESTED', label: 'More Info Requested', color: 'amber', transitions: ['AWAITING_PHOTOS', 'IN_PROGRESS'] },
+    { key: 'CLOSED', label: 'Closed', color: 'gray', transitions: [] },
+  ],
+};
+
+/** Where every violation starts; every other state must be reachable from it */
+export const INITIAL_STATUS: ViolationStatus = 'NEW';
+
+/** States the app moves violations into by itself */
+export const REQUIRED_STATUSES: ViolationStatus[] = [
+  'NEW', 'PARSING', 'PARSED', 'NEEDS_REVIEW', 'ASSIGNED', 'READY_FOR_SUBMISSION',
+  'SUBMITTED', 'APPROVED', 'REJECTED', 'ADDITIONAL_INFO_REQUESTED', 'CLOSED',
+];
+
+/** Moves the parse pipeline and DOB responses make */
+export const REQUIRED_TRANSITIONS: [ViolationStatus, ViolationStatus][] = [
+  ['NEW', 'PARSING'],
+  ['PARSING', 'PARSED'],
+  ['PARSING', 'NEEDS_REVIEW'],
+  ['PARSING', 'NEW'],
+  ['NEEDS_REVIEW', 'PARSED'],
+  ['SUBMITTED', 'APPROVED'],
+  ['SUBMITTED', 'REJECTED'],
+  ['SUBMITTED', 'ADDITIONAL_INFO_REQUESTED'],
+];
+
+const STATE_KEY = /^[A-Z][A-Z0-9_]{0,39}$/;
+const MAX_STATES = 40;
+const MAX_LABEL_LENGTH = 40;
+
+/** Validation message for a workflow settings payload, or null if valid */
+export function validateWorkflow(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'workflow must be an object';
+  const states = (value as Record<string, unknown>).states;
+  if (!Array.isArray(states) || states.length === 0) return 'workflow.states must be a non-empty list';
+  if (states.length > MAX_STATES) return `A workflow can have at most ${MAX_STATES} states`;
+
+  const keys = new Set<string>();
+  for (const state of states as Record<string, unknown>[]) {
+    if (!state || typeof state !== 'object') return 'Each workflow state must be an object';
+    if (typeof state.key !== 'string' || !STATE_KEY.test(state.key)) {
+      return `"${String(state.key)}" is not a valid state key (capital letters, digits and underscores)`;
+    }
+    if (keys.has(state.key)) return `${state.key} appears more than once`;
+    keys.add(state.key);
+    if (typeof state.label !== 'string' || !state.label.trim() || state.label.length > MAX_LABEL_LENGTH) {
+      return `${state.key} needs a label of at most ${MAX_LABEL_LENGTH} characters`;
+    }
+    if (typeof state.color !== 'string' || !(state.color in WORKFLOW_COLORS)) {
+      return `${state.key} has an unknown color`;
+    }
+    if (!Array.isArray(state.transitions) || !state.transitions.every((t) => typeof t === 'string')) {
+      return `${state.key}.transitions must be a list of state keys`;
+    }
+  }
+
+  const workflow = value as Workflow;
+  for (const state of workflow.states) {
+    for (const to of state.transitions) {
+      if (to === state.key) return `${state.key} can't move to itself`;
+      if (!keys.has(to)) return `${state.key} moves to ${to}, which isn't in the workflow`;
+    }
+    if (new Set(state.transitions).size !== state.transitions.length) {
+      return `${state.key} lists a next state more than once`;
+    }
+  }
+
+  for (const key of REQUIRED_STATUSES) {
+    if (!keys.has(key)) return `${key} is required: the app moves violations into it`;
+  }
+  for (const [from, to] of REQUIRED_TRANSITIONS) {
+    if (!canTransitionIn(workflow, from, to)) return `${from} must be able to move to ${to}`;
+  }
+
+  if (!workflow.states.some((s) => s.transitions.length === 0)) {
+    return 'The workflow needs a final state with no next states';
+  }
+
+  const reachable = reachableFrom(workflow, [INITIAL_STATUS]);
+  const orphan = workflow.states.find((s) => !reachable.has(s.key));
+  if (orphan) return `${orphan.key} can't be reached from ${INITIAL_STATUS}`;
+
+  // Every state must be able to get to a final state
+  const finishing = new Set(workflow.states.filter((s) => s.transitions.length === 0).map((s) => s.key));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const state of workflow.states) {
+      if (!finishing.has(state.key) && state.transitions.some((t) => finishing.has(t))) {
+        finishing.add(state.key);
+        grew = true;
+      }
+    }
+  }
+  const stuck = workflow.states.find((s) => !finishing.has(s.key));
+  if (stuck) return `${stuck.key} has no way to reach a final state`;
+
+  return null;
+}
+
+function reachableFrom(workflow: Workflow, start: WorkflowStatus[]): Set<WorkflowStatus> {
+  const seen = new Set<WorkflowStatus>(start);
+  const queue = [...start];
+  while (queue.length) {
+    const state = findState(workflow, queue.shift()!);
+    for (const next of state?.transitions ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+function canTransitionIn(workflow: Workflow, from: WorkflowStatus, to: WorkflowStatus): boolean {
+  return findState(workflow, from)?.transitions.includes(to) ?? false;
+}
+
+/** Workflow from organizations.settings; the default when unset or invalid */
+export function readWorkflow(settings: Record<string, unknown> | null | undefined): Workflow {
+  const raw = settings?.workflow;
+  if (!raw || validateWorkflow(raw)) return DEFAULT_WORKFLOW;
+  return {
+    states: (raw as Workflow).states.map((s) => ({
+      key: s.key,
+      label: s.label.trim(),
+      color: s.color,
+      transitions: [...s.transitions],
+    })),
+  };
+}
+
+/** One of the app's own statuses, rather than a state an org added */
+export function isBuiltInStatus(status: WorkflowStatus): status is ViolationStatus {
+  return DEFAULT_WORKFLOW.states.some((s) => s.key === status);
+}
+
+export function findState(workflow: Workflow, status: WorkflowStatus): WorkflowState | undefined {
+  return workflow.states.find((s) => s.key === status);
+}
+
+/** QA_REVIEW → "Qa Review", for statuses no longer in the workflow */
+function humanize(status: string): string {
+  return status.toLowerCase().replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+export function statusLabel(status: WorkflowStatus, workflow: Workflow = DEFAULT_WORKFLOW): string {
+  return findState(workflow, status)?.label
+    ?? findState(DEFAULT_WORKFLOW, status)?.label
+    ?? humanize(status);
+}
+
+export function statusColor(status: WorkflowStatus, workflow: Workflow = DEFAULT_WORKFLOW): string {
+  const color = findState(workflow, status)?.color ?? findState(DEFAULT_WORKFLOW, status)?.color ?? 'gray';
+  return WORKFLOW_COLORS[color];
+}
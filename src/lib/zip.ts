@@ -0,0 +1,123 @@
+/**
+ * Minimal ZIP reader for batch NOI uploads.
+ * Reads the central directory and inflates stored (0) and deflated (8)
+ * entries with node's zlib — enough for archives made by Finder, Windows
+ * Explorer and `zip`. Encrypted and ZIP64 archives are rejected, and so are
+ * archives over ZipLimits, so a zip bomb can't exhaust memory.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxEntryBytes: number;   // uncompressed, per entry
+  maxTotalBytes: number;   // uncompressed, whole archive
+}
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxEntries: 1000,
+  maxEntryBytes: 50 * 1024 * 1024,
+  maxTotalBytes: 250 * 1024 * 1024,
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  // EOCD is 22 bytes plus an optional comment of up to 64KB
+  const min = Math.max(0, zip.length - 22 - 0xffff);
+  for (let i = zip.length - 22; i >= min; i--) {
+    if (zip.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error('Not a zip archive');
+}
+
+function inflateEntry(name: string, raw: Buffer, declaredSize: number): Buffer {
+  try {
+    // The declared size bounds the output; an entry that inflates past it is lying
+    return inflateRawSync(raw, { maxOutputLength: Math.max(declaredSize, 1) });
+  } catch {
+    throw new Error(`Corrupt zip entry "${name}"`);
+  }
+}
+
+/** Every file entry in the archive (directories skipped), in archive order */
+export function readZipEntries(zip: Buffer, limits: ZipLimits = DEFAULT_ZIP_LIMITS): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(zip);
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+  if (entryCount > limits.maxEntries) {
+    throw new Error(`Zip has more than ${limits.maxEntries} entries`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const uncompressedSize = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new Error(`Encrypted zip entry "${name}" is not supported`);
+    if (uncompressedSize > limits.maxEntryBytes) {
+      throw new Error(`Zip entry "${name}" is too large`);
+    }
+    if (totalBytes + uncompressedSize > limits.maxTotalBytes) {
+      throw new Error('Zip is too large once unpacked');
+    }
+
+    if (zip.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt zip entry "${name}"`);
+    }
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) {
+      data = Buffer.from(raw);
+    } else if (method === 8) {
+      data = inflateEntry(name, raw, uncompressedSize);
+    } else {
+      throw new Error(`Unsupported compression method ${method} for "${name}"`);
+    }
+
+    totalBytes += data.length;
+    if (data.length > limits.maxEntryBytes || totalBytes > limits.maxTotalBytes) {
+      throw new Error('Zip is too large once unpacked');
+    }
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
+
+/** PDFs in the archive, ignoring macOS resource forks and hidden files */
+export function readZipPdfs(zip: Buffer, limits: ZipLimits = DEFAULT_ZIP_LIMITS): ZipEntry[] {
+  return readZipEntries(zip, limits).filter((entry) => {
+    const base = entry.name.split('/').pop() || '';
+    return base.toLowerCase().endsWith('.pdf')
+      && !base.startsWith('.')
+      && !entry.name.startsWith('__MACOSX/');
+  });
+}
@@ -0,0 +1,162 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * A local stand-in for Microsoft Graph and the Microsoft identity token
+ * endpoint, enough for the Outlook mailbox connector: /me, message search
+ * with paging, messages, attachments and category updates. Point
+ * MICROSOFT_GRAPH_URL at `graphUrl` and MICROSOFT_LOGIN_URL at `loginUrl`.
+ * $search isn't evaluated; every message is returned, and `requests` records
+ * what was asked for.
+ */
+
+export interface FakeGraphAttachment {
+  id: string;
+  name: string;
+  contentType: string;
+  // Raw file contents; served base64-encoded as contentBytes
+  content: string;
+  '@odata.type'?: string;
+}
+
+export interface FakeGraphMessage {
+  id: string;
+  subject: string;
+  from: { name?: string; address: string };
+  receivedDateTime: string;
+  categories: string[];
+  body: string;
+  attachments: FakeGraphAttachment[];
+}
+
+export interface FakeGraphRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export interface FakeGraph {
+  graphUrl: string;
+  loginUrl: string;
+  messages: FakeGraphMessage[];
+  requests: FakeGraphRequest[];
+  // Mailbox address returned by /me
+  mailbox: string;
+  // Token endpoint reply; set `error` to fail the request
+  token: { access_token: string; refresh_token?: string; expires_in: number; error?: string };
+  close(): Promise<void>;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+export async function startFakeGraph(): Promise<FakeGraph> {
+  let server: Server | null = null;
+
+  const fake: FakeGraph = {
+    graphUrl: '',
+    loginUrl: '',
+    messages: [],
+    requests: [],
+    mailbox: 'compliance@example.com',
+    token: { access_token: 'fake-access-token', refresh_token: 'fake-refresh-token', expires_in: 3600 },
+    close: () => new Promise((resolve) => (server ? server.close(() => resolve()) : resolve())),
+  };
+
+  server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', fake.loginUrl);
+    const body = await readBody(req);
+    fake.requests.push({ method: req.method || 'GET', path: url.pathname, query: url.searchParams, headers: req.headers, body });
+
+    const send = (status: number, data?: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(data === undefined ? undefined : JSON.stringify(data));
+    };
+    const notFound = () => send(404, { error: { code: 'ErrorItemNotFound', message: 'The specified object was not found in the store.' } });
+
+    if (/^\/[^/]+\/oauth2\/v2\.0\/token$/.test(url.pathname)) {
+      if (fake.token.error) return send(400, { error: fake.token.error, error_description: 'AADSTS70000: The grant is expired.' });
+      return send(200, fake.token);
+    }
+
+    if (req.headers.authorization !== `Bearer ${fake.token.access_token}`) {
+      return send(401, { error: { code: 'InvalidAuthenticationToken', message: 'Access token is empty or invalid.' } });
+    }
+
+    if (url.pathname === '/v1.0/me') {
+      return send(200, { mail: fake.mailbox, userPrincipalName: fake.mailbox });
+    }
+
+    if (url.pathname === '/v1.0/me/messages') {
+      const top = Number(url.searchParams.get('$top') || 10);
+      const skip = Number(url.searchParams.get('$skip') || 0);
+      const page = fake.messages.slice(skip, skip + top);
+      const next = new URL(url);
+      next.searchParams.set('$skip', String(skip + top));
+      return send(200, {
+        value: page.map((m) => ({ id: m.id })),
+        ...(skip + top < fake.messages.length && { '@odata.nextLink': next.toString() }),
+      });
+    }
+
+    const match = url.pathname.match(/^\/v1\.0\/me\/messages\/([^/]+)(?:\/attachments(?:\/([^/]+))?)?$/);
+    const message = match && fake.messages.find((m) => m.id === decodeURIComponent(match[1]));
+    if (!match || !message) return notFound();
+
+    const [, , attachmentId] = match;
+    const isAttachments = url.pathname.includes('/attachments');
+
+    if (isAttachments && attachmentId) {
+      const attachment = message.attachments.find((a) => a.id === decodeURIComponent(attachmentId));
+      if (!attachment) return notFound();
+      return send(200, {
+        '@odata.type': attachment['@odata.type'] || '#microsoft.graph.fileAttachment',
+        id: attachment.id,
+        name: attachment.name,
+        contentType: attachment.contentType,
+        contentBytes: Buffer.from(attachment.content).toString('base64'),
+      });
+    }
+
+    if (isAttachments) {
+      return send(200, {
+        value: message.attachments.map((a) => ({
+          '@odata.type': a['@odata.type'] || '#microsoft.graph.fileAttachment',
+          id: a.id,
+          name: a.name,
+          contentType: a.contentType,
+          isInline: false,
+        })),
+      });
+    }
+
+    if (req.method === 'PATCH') {
+      const update = JSON.parse(body || '{}');
+      if (Array.isArray(update.categories)) message.categories = update.categories;
+      return send(200, { id: message.id, categories: message.categories });
+    }
+
+    return send(200, {
+      id: message.id,
+      subject: message.subject,
+      from: { emailAddress: { name: message.from.name ?? null, address: message.from.address } },
+      receivedDateTime: message.receivedDateTime,
+      categories: message.categories,
+      body: { contentType: 'text', content: message.body },
+    });
+  });
+
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  fake.loginUrl = `http://127.0.0.1:${port}`;
+  fake.graphUrl = `http://127.0.0.1:${port}/v1.0`;
+  return fake;
+}
@@ -61,6 +61,11 @@ export const mockViolation = (overrides: Partial<Violation> = {}): Violation =>
   abatement_deadline: '2024-03-15',
   assigned_to: null,
   pdf_storage_path: 'uploads/test.pdf',
+  pdf_sha256: null,
+  pdf_text_sha256: null,
+  page_start: null,
+  page_end: null,
+  source_violation_id: null,
   parse_status: 'complete',
   parse_metadata: {},
   raw_ai_output: null,
@@ -77,8 +82,10 @@ export const mockViolationItem = (overrides: Partial<ViolationItem> = {}): Viola
   violation_id: 'v-123',
   item_number: 1,
   violation_code: 'IPMC-502.1',
+  code_id: null,
   priority: 2,
-  abatement_deadline: '60 Days',
+  abatement_deadline: '2024-03-15',
+  abatement_deadline_text: '60 Days',
   fine: 500,
   violation_description: 'Failure to maintain ceiling in habitable condition',
   specific_location: 'Unit 201',
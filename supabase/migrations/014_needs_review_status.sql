@@ -0,0 +1,9 @@
+-- Migration 014: Needs Review status for low-confidence parses
+--
+-- The parse pipeline scores every extracted field (parse_metadata.field_confidence).
+-- When any field falls below the confidence threshold the violation lands in
+-- NEEDS_REVIEW instead of PARSED, and stays out of contractor assignment until a
+-- PM corrects the flagged fields against the PDF.
+
+ALTER TYPE violation_status ADD VALUE IF NOT EXISTS 'NEEDS_REVIEW' AFTER 'PARSED';
+
@@ -0,0 +1,43 @@
+-- Migration 015: Staging area for non-destructive re-parses
+--
+-- A re-parse runs extraction into parse_staging instead of deleting and
+-- re-inserting violation_items. The dashboard diffs the staged result against
+-- the live items and applies only the changes the user selects, so work orders,
+-- approved photos and manual corrections survive.
+
+-- ============================================================
+-- PARSE STAGING
+-- ============================================================
+
+CREATE TABLE parse_staging (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  violation_id UUID NOT NULL REFERENCES violations(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending',  -- 'pending', 'ready', 'applied', 'discarded', 'failed'
+  parsed JSONB,                            -- NOIParseResult from the re-run
+  field_confidence JSONB,
+  text_layer_check JSONB,
+  usage JSONB,
+  error_message TEXT,
+  requested_by UUID REFERENCES profiles(id),
+  applied_by UUID REFERENCES profiles(id),
+  applied_at TIMESTAMPTZ,
+  applied_changes JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_parse_staging_org_id ON parse_staging(org_id);
+CREATE INDEX idx_parse_staging_violation_id ON parse_staging(violation_id, created_at DESC);
+
+ALTER TABLE parse_staging ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can read parse staging" ON parse_staging
+  FOR SELECT USING (org_id = auth_org_id());
+
+CREATE POLICY "PM/Owner/Admin can manage parse staging" ON parse_staging
+  FOR ALL USING (org_id = auth_org_id() AND auth_role() IN ('OWNER', 'PROJECT_MANAGER', 'ADMIN'));
+
+CREATE TRIGGER trg_parse_staging_updated_at
+  BEFORE UPDATE ON parse_staging
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
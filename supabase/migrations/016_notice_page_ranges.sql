@@ -0,0 +1,13 @@
+-- Migration 016: Multi-notice PDFs
+--
+-- One uploaded PDF can contain several NOIs (e.g. one per unit). The parse
+-- pipeline splits it into one violation per notice; each keeps the shared
+-- pdf_storage_path plus the page range its notice occupies. Violations split
+-- off an upload point back at the violation created for that upload.
+
+ALTER TABLE violations
+  ADD COLUMN page_start INTEGER,           -- 1-based, NULL = whole PDF
+  ADD COLUMN page_end INTEGER,
+  ADD COLUMN source_violation_id UUID REFERENCES violations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_violations_source_violation_id ON violations(source_violation_id);
@@ -0,0 +1,18 @@
+-- Migration 017: PDF content fingerprints
+--
+-- The same NOI arrives by email, gets uploaded by hand and gets re-forwarded.
+-- Every uploaded PDF is fingerprinted before parsing so repeats can be linked
+-- to the existing violation without another AI call:
+--   pdf_sha256       SHA-256 of the file bytes (byte-identical copies)
+--   pdf_text_sha256  SHA-256 of the normalized text layer (re-saved or
+--                    re-exported copies of the same notice); NULL when the
+--                    PDF has no text layer
+--
+-- email_sync_log.status gains 'duplicate' for messages whose PDF matched.
+
+ALTER TABLE violations
+  ADD COLUMN pdf_sha256 TEXT,
+  ADD COLUMN pdf_text_sha256 TEXT;
+
+CREATE INDEX idx_violations_pdf_sha256 ON violations(org_id, pdf_sha256);
+CREATE INDEX idx_violations_pdf_text_sha256 ON violations(org_id, pdf_text_sha256);
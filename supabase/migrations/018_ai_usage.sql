@@ -0,0 +1,39 @@
+-- Migration 018: AI usage ledger
+--
+-- One row per billable AI call (NOI extraction, page analysis, re-parse,
+-- photo angle verification) so spend can be summed per org and month instead
+-- of digging through parse_metadata and photo metadata blobs. Rows are written
+-- by the server with the service role; members only read them.
+--
+-- Budget settings live in organizations.settings:
+--   ai_monthly_budget_usd  number, NULL/absent = no cap
+--   ai_budget_action       'pause' (hold new parses) | 'manual' (skip AI,
+--                          route new NOIs to review for manual entry)
+--   ai_budget_alerted_month  'YYYY-MM' of the last cap alert sent to admins
+
+-- ============================================================
+-- AI USAGE
+-- ============================================================
+
+CREATE TABLE ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  feature TEXT NOT NULL,                   -- 'noi_parse', 'page_analysis', 'noi_reparse', 'photo_verification'
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  thoughts_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  violation_id UUID REFERENCES violations(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_ai_usage_org_created ON ai_usage(org_id, created_at DESC);
+CREATE INDEX idx_ai_usage_violation_id ON ai_usage(violation_id);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can read AI usage" ON ai_usage
+  FOR SELECT USING (org_id = auth_org_id());
@@ -0,0 +1,83 @@
+-- Migration 019: Per-item abatement deadline dates
+--
+-- violation_items.abatement_deadline held the NOI's deadline text ("60 Days",
+-- "24 Hours"). It becomes a real DATE computed from the violation's
+-- date_of_service by the deadline engine (src/lib/deadlines.ts), which applies
+-- each org's organizations.settings.deadline_rules:
+--   counting              'calendar' (default) or 'business' days
+--   observe_dc_holidays   DC government holidays are not business days (default true)
+--   roll_to_business_day  calendar deadlines on a weekend/holiday move to the
+--                         next business day (default false)
+--   extra_holidays        additional closure dates, YYYY-MM-DD
+-- The original text is kept in abatement_deadline_text.
+--
+-- violations.abatement_deadline now rolls up from its items: the earliest
+-- deadline among items not yet resolved (or the earliest overall once all are
+-- resolved). A trigger keeps it in sync on every item change.
+
+ALTER TABLE violation_items RENAME COLUMN abatement_deadline TO abatement_deadline_text;
+ALTER TABLE violation_items ADD COLUMN abatement_deadline DATE;
+
+-- Backfill with plain calendar days (the default rules). Hour periods round up
+-- to whole days; unreadable text falls back to the 60-day routine deadline.
+UPDATE violation_items vi
+SET abatement_deadline = v.date_of_service + CASE
+    WHEN vi.abatement_deadline_text ~* '\d+\s*(hour|hr)'
+      THEN CEIL(substring(vi.abatement_deadline_text FROM '(\d+)')::INTEGER / 24.0)::INTEGER
+    WHEN vi.abatement_deadline_text ~* '\d+\s*day'
+      THEN substring(vi.abatement_deadline_text FROM '(\d+)')::INTEGER
+    ELSE 60
+  END
+FROM violations v
+WHERE v.id = vi.violation_id
+  AND v.date_of_service IS NOT NULL;
+
+CREATE INDEX idx_violation_items_abatement_deadline ON violation_items(abatement_deadline);
+
+CREATE OR REPLACE FUNCTION rollup_violation_deadline()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_id UUID;
+  earliest DATE;
+BEGIN
+  v_id := COALESCE(NEW.violation_id, OLD.violation_id);
+
+  SELECT COALESCE(
+    MIN(abatement_deadline) FILTER (WHERE status IS DISTINCT FROM 'resolved'),
+    MIN(abatement_deadline)
+  ) INTO earliest
+  FROM violation_items
+  WHERE violation_id = v_id;
+
+  -- Violations without dated items (manual entry, CSV import) keep their own deadline
+  IF earliest IS NOT NULL THEN
+    UPDATE violations
+    SET abatement_deadline = earliest
+    WHERE id = v_id
+      AND abatement_deadline IS DISTINCT FROM earliest;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_rollup_violation_deadline
+  AFTER INSERT OR DELETE OR UPDATE OF abatement_deadline, status, violation_id ON violation_items
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_violation_deadline();
+
+COMMENT ON FUNCTION rollup_violation_deadline IS 'Keeps violations.abatement_deadline at the earliest open item deadline';
+
+-- Bring existing violations in line with their backfilled items
+UPDATE violations v
+SET abatement_deadline = d.earliest
+FROM (
+  SELECT violation_id, COALESCE(
+    MIN(abatement_deadline) FILTER (WHERE status IS DISTINCT FROM 'resolved'),
+    MIN(abatement_deadline)
+  ) AS earliest
+  FROM violation_items
+  GROUP BY violation_id
+) d
+WHERE d.violation_id = v.id
+  AND d.earliest IS NOT NULL;
@@ -0,0 +1,118 @@
+-- Migration 020: Violation code catalog
+--
+-- violation_items.violation_code is free text as Gemini read it off the NOI,
+-- so one citation arrives as "12-G DCMR § 309.1", "12G DCMR §309.1" or
+-- "12-G DCMR Sec. 309.1". Each org keeps a catalog of the codes it sees with
+-- a canonical spelling, title, trade category, typical fine and the standard
+-- remediation task. Parsed codes are resolved against it by code_key (the
+-- spelling-insensitive key computed by src/lib/violation-codes.ts), rewritten
+-- to the canonical form and linked through violation_items.code_id.
+
+-- ============================================================
+-- VIOLATION CODES
+-- ============================================================
+
+CREATE TABLE violation_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,                      -- canonical form, e.g. "12-G DCMR § 309.1"
+  code_key TEXT NOT NULL,                  -- codeKey(code), e.g. "12GDCMR309.1"
+  aliases TEXT[] NOT NULL DEFAULT '{}',    -- other spellings that resolve to this code
+  title TEXT,
+  trade_category TEXT,                     -- 'Electrical', 'Plumbing', ...
+  typical_fine NUMERIC(10,2),
+  remediation_task TEXT,                   -- default task_description / contractor instructions
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (org_id, code_key)
+);
+
+CREATE INDEX idx_violation_codes_org_id ON violation_codes(org_id);
+
+ALTER TABLE violation_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can read violation codes" ON violation_codes
+  FOR SELECT USING (org_id = auth_org_id());
+
+CREATE POLICY "PM/Owner/Admin can manage violation codes" ON violation_codes
+  FOR ALL USING (org_id = auth_org_id() AND auth_role() IN ('OWNER', 'PROJECT_MANAGER', 'ADMIN'));
+
+CREATE TRIGGER trg_violation_codes_updated_at
+  BEFORE UPDATE ON violation_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE violation_items
+  ADD COLUMN code_id UUID REFERENCES violation_codes(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_violation_items_code_id ON violation_items(code_id);
+
+-- ============================================================
+-- ANALYTICS BY CODE
+-- ============================================================
+
+-- Item counts and fines grouped by the catalog's trade category, plus the most
+-- frequent codes. Uncatalogued items fall under 'Uncategorized' with their raw
+-- code. Same filters as get_analytics().
+CREATE OR REPLACE FUNCTION get_code_analytics(
+  p_date_from DATE DEFAULT (CURRENT_DATE - INTERVAL '90 days')::date,
+  p_date_to DATE DEFAULT CURRENT_DATE,
+  p_property_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_org_id UUID;
+  v_by_trade JSONB;
+  v_top_codes JSONB;
+BEGIN
+  v_org_id := auth_org_id();
+
+  SELECT COALESCE(jsonb_agg(trade_data), '[]'::JSONB)
+  INTO v_by_trade
+  FROM (
+    SELECT jsonb_build_object(
+      'trade_category', COALESCE(vc.trade_category, 'Uncategorized'),
+      'items', COUNT(*),
+      'open_items', COUNT(*) FILTER (WHERE vi.status IS DISTINCT FROM 'resolved'),
+      'fines', COALESCE(SUM(vi.fine), 0)
+    ) AS trade_data
+    FROM violation_items vi
+    JOIN violations v ON v.id = vi.violation_id
+    LEFT JOIN violation_codes vc ON vc.id = vi.code_id
+    WHERE v.org_id = v_org_id
+      AND v.created_at::date BETWEEN p_date_from AND p_date_to
+      AND (p_property_id IS NULL OR v.property_id = p_property_id)
+      AND (v.parse_status IS NULL OR v.parse_status NOT IN ('pending', 'duplicate'))
+    GROUP BY COALESCE(vc.trade_category, 'Uncategorized')
+    ORDER BY COUNT(*) DESC
+  ) sub;
+
+  SELECT COALESCE(jsonb_agg(code_data), '[]'::JSONB)
+  INTO v_top_codes
+  FROM (
+    SELECT jsonb_build_object(
+      'code', COALESCE(vc.code, vi.violation_code),
+      'title', vc.title,
+      'trade_category', COALESCE(vc.trade_category, 'Uncategorized'),
+      'items', COUNT(*),
+      'fines', COALESCE(SUM(vi.fine), 0)
+    ) AS code_data
+    FROM violation_items vi
+    JOIN violations v ON v.id = vi.violation_id
+    LEFT JOIN violation_codes vc ON vc.id = vi.code_id
+    WHERE v.org_id = v_org_id
+      AND vi.violation_code IS NOT NULL
+      AND v.created_at::date BETWEEN p_date_from AND p_date_to
+      AND (p_property_id IS NULL OR v.property_id = p_property_id)
+      AND (v.parse_status IS NULL OR v.parse_status NOT IN ('pending', 'duplicate'))
+    GROUP BY COALESCE(vc.code, vi.violation_code), vc.title, COALESCE(vc.trade_category, 'Uncategorized')
+    ORDER BY COUNT(*) DESC
+    LIMIT 10
+  ) sub;
+
+  RETURN jsonb_build_object(
+    'violations_by_trade', v_by_trade,
+    'top_codes', v_top_codes
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
@@ -0,0 +1,40 @@
+-- Migration 021: Violation documents
+--
+-- DOB sends more than NOIs: reinspection notices, abatement approval letters,
+-- fine notices and hearing notices all arrive through the same inbox and
+-- uploads. The parse pipeline classifies each PDF first (see
+-- src/lib/inbound-documents.ts) and files anything that isn't an NOI against
+-- the existing violation for the notice number it quotes, instead of parsing
+-- it into a new violation. The violation the PDF arrived as is closed with
+-- parse_status 'routed', the way cancelled duplicate uploads are.
+
+-- ============================================================
+-- VIOLATION DOCUMENTS
+-- ============================================================
+
+CREATE TABLE violation_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  violation_id UUID NOT NULL REFERENCES violations(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL
+    CHECK (document_type IN ('REINSPECTION_NOTICE', 'APPROVAL_LETTER', 'FINE_NOTICE', 'HEARING_NOTICE')),
+  reference_notice_id TEXT,                -- notice number quoted by the document
+  storage_path TEXT NOT NULL,              -- noi-pdfs bucket
+  source TEXT NOT NULL,                    -- 'parser', 'email', ...
+  -- Upload/email violation the PDF arrived as; closed with parse_status 'routed'
+  intake_violation_id UUID REFERENCES violations(id) ON DELETE SET NULL,
+  classification JSONB DEFAULT '{}',       -- matched signals, has_text
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_violation_documents_org_id ON violation_documents(org_id);
+CREATE INDEX idx_violation_documents_violation_id ON violation_documents(violation_id);
+CREATE INDEX idx_violation_documents_intake_violation_id ON violation_documents(intake_violation_id);
+
+ALTER TABLE violation_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can read violation documents" ON violation_documents
+  FOR SELECT USING (org_id = auth_org_id());
+
+CREATE POLICY "PM/Owner/Admin can manage violation documents" ON violation_documents
+  FOR ALL USING (org_id = auth_org_id() AND auth_role() IN ('OWNER', 'PROJECT_MANAGER', 'ADMIN'));
@@ -0,0 +1,14 @@
+-- Migration 022: Inbound email webhook
+--
+-- Mailboxes we can't OAuth into (Outlook, shared inboxes) forward raw MIME
+-- messages to /api/email/inbound/<connection id>, from a forwarding rule or
+-- an inbound-parse service. Each org's webhook is an email_connections row
+-- with provider 'webhook' that holds no OAuth tokens, only the secret its
+-- requests are signed with (encrypted like the tokens). Its messages are
+-- logged in email_sync_log like Gmail ones, keyed by Message-ID in
+-- gmail_message_id.
+
+ALTER TABLE email_connections
+  ALTER COLUMN access_token_encrypted DROP NOT NULL,
+  ALTER COLUMN refresh_token_encrypted DROP NOT NULL,
+  ADD COLUMN webhook_secret_encrypted TEXT;
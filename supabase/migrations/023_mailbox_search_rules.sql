@@ -0,0 +1,12 @@
+-- Migration 023: Mailbox search rules
+--
+-- Gmail sync used to search for a hardcoded set of DOB senders and NOI
+-- subjects, so intake stopped without a word whenever DOB changed a sender
+-- address or someone forwarded NOIs from their own mailbox. Each connection
+-- now carries its own include/exclude rules for senders, subjects, labels and
+-- attachment names (see src/lib/mailbox-rules.ts). An empty object means the
+-- defaults, which are the old hardcoded search; webhook connections default
+-- to accepting whatever is forwarded to them.
+
+ALTER TABLE email_connections
+  ADD COLUMN search_rules JSONB NOT NULL DEFAULT '{}';
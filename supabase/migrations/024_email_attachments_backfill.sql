@@ -0,0 +1,60 @@
+-- Migration 024: Per-attachment email intake and Gmail backfills
+--
+-- Emails with several NOIs attached used to import only the first PDF, and a
+-- sync only looked at one page of 20 search results. Every PDF attachment is
+-- now imported and logged on its own row, keyed by file name within the
+-- message (attachment_name; '' for rows about the whole message, such as a
+-- message with no PDF). Syncs follow Gmail's page tokens to the end.
+--
+-- Historical mail is imported by a backfill over a date range. It runs one
+-- Gmail result page per Inngest step and saves the next page token after
+-- each page, so a failed or cancelled backfill resumes where it stopped.
+
+-- ============================================================
+-- EMAIL SYNC LOG: ONE ROW PER ATTACHMENT
+-- ============================================================
+
+ALTER TABLE email_sync_log
+  ADD COLUMN attachment_name TEXT NOT NULL DEFAULT '';
+
+ALTER TABLE email_sync_log
+  DROP CONSTRAINT email_sync_log_email_connection_id_gmail_message_id_key,
+  ADD CONSTRAINT email_sync_log_message_attachment_key
+    UNIQUE (email_connection_id, gmail_message_id, attachment_name);
+
+-- ============================================================
+-- EMAIL BACKFILLS
+-- ============================================================
+
+CREATE TABLE email_backfills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email_connection_id UUID NOT NULL REFERENCES email_connections(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,                    -- inclusive
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  page_token TEXT,                           -- next Gmail result page; NULL before the first page
+  pages_processed INTEGER NOT NULL DEFAULT 0,
+  messages_found INTEGER NOT NULL DEFAULT 0,
+  violations_created INTEGER NOT NULL DEFAULT 0,
+  duplicates INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_email_backfills_connection_id ON email_backfills(email_connection_id, created_at DESC);
+
+CREATE TRIGGER trg_email_backfills_updated_at
+  BEFORE UPDATE ON email_backfills
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE email_backfills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can read email backfills" ON email_backfills
+  FOR SELECT USING (org_id = auth_org_id());
@@ -0,0 +1,12 @@
+-- Migration 025: DOB responses read from email
+--
+-- DOB answers a submission by email (approved, rejected, or more information
+-- needed). Email sync now matches those emails to the submission by
+-- confirmation number or notice number. A clear answer on a pending
+-- submission is applied directly; anything else is kept on the submission as
+-- a proposal for the PM to apply or dismiss. email_sync_log rows for these
+-- messages use status 'response' (the column is unconstrained text).
+
+ALTER TABLE submissions
+  ADD COLUMN proposed_response JSONB;         -- ProposedDobResponse; NULL when nothing awaits review
+
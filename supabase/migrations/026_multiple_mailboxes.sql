@@ -0,0 +1,31 @@
+-- Migration 026: Several Gmail mailboxes per organization
+--
+-- NOIs arrive in more than one inbox (the owner's, a PM's, a shared
+-- compliance address), so an org can now connect one Gmail connection per
+-- address instead of one per provider. Each keeps its own tokens, sync
+-- status, auto-poll toggle and search rules, and has an owner: the member
+-- responsible for it, who connected it unless reassigned. Reconnecting an
+-- address already connected refreshes that row's tokens.
+--
+-- The same notice sent to two connected mailboxes is imported once; the
+-- second copy is caught by the PDF fingerprint check as a duplicate.
+-- The inbound-email webhook stays one per org.
+
+ALTER TABLE email_connections
+  DROP CONSTRAINT email_connections_org_id_provider_key,
+  ADD CONSTRAINT email_connections_org_provider_email_key
+    UNIQUE (org_id, provider, connected_email),
+  ADD COLUMN owner_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_email_connections_one_webhook
+  ON email_connections(org_id) WHERE provider = 'webhook';
+
+-- Existing Gmail connections belong to the org's first owner
+UPDATE email_connections c
+SET owner_id = (
+  SELECT p.id FROM profiles p
+  WHERE p.org_id = c.org_id AND p.role = 'OWNER'
+  ORDER BY p.created_at
+  LIMIT 1
+)
+WHERE c.provider = 'gmail';
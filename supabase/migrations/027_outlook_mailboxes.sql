@@ -0,0 +1,14 @@
+-- Migration 027: Microsoft 365 / Outlook mailboxes
+--
+-- Some ownership entities receive NOIs in Microsoft 365, so email_connections
+-- can now hold Outlook connections next to Gmail ones: provider 'outlook',
+-- with the Microsoft access and refresh tokens in the same encrypted columns.
+-- Sync, backfills, rule previews and retries work the same for both.
+--
+-- For Outlook rows, email_sync_log.gmail_message_id holds the Microsoft Graph
+-- message ID, and imported messages get a "DOB-Processed" category instead
+-- of the Gmail label.
+
+ALTER TABLE email_connections
+  ADD CONSTRAINT email_connections_provider_check
+    CHECK (provider IN ('gmail', 'outlook', 'webhook'));
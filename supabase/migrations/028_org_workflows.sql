@@ -0,0 +1,17 @@
+-- Migration 028: Per-organization violation workflows
+--
+-- Each org can now define its own workflow in organizations.settings.workflow:
+-- the states a violation moves through, their labels and badge colors, and
+-- the moves allowed between them (see src/lib/workflow.ts). Some orgs drop
+-- AWAITING_PHOTOS because the PM takes the photos; others add stages of
+-- their own, such as QA_REVIEW before READY_FOR_SUBMISSION.
+--
+-- Org-defined states can't live in the violation_status enum, so
+-- violations.status becomes TEXT. The app's own statuses keep their names,
+-- and the settings API won't let a workflow drop a state violations are in.
+
+ALTER TABLE violations ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE violations ALTER COLUMN status TYPE TEXT USING status::TEXT;
+ALTER TABLE violations ALTER COLUMN status SET DEFAULT 'NEW';
+
+DROP TYPE violation_status;
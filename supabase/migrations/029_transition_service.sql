@@ -0,0 +1,54 @@
+-- Migration 029: Violation status changes go through the transition service
+--
+-- src/lib/violation-transitions.ts now makes every violation status change,
+-- checking the org's workflow and the target status's guards. The photo
+-- trigger used to move violations to PHOTOS_UPLOADED on its own, whatever
+-- the workflow said; it now only completes the work order, and the
+-- contractor photo upload route asks the transition service for
+-- PHOTOS_UPLOADED instead.
+
+CREATE OR REPLACE FUNCTION auto_progress_photo_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  wo_id UUID;
+  v_id UUID;
+  total_items INTEGER;
+  items_with_after INTEGER;
+BEGIN
+  -- Only trigger on contractor AFTER photos
+  IF NEW.photo_type != 'AFTER' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, violation_id INTO wo_id, v_id
+  FROM work_orders
+  WHERE violation_id = NEW.violation_id
+    AND status IN ('ASSIGNED', 'IN_PROGRESS')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF wo_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO total_items
+  FROM violation_items
+  WHERE violation_id = v_id;
+
+  SELECT COUNT(DISTINCT violation_item_id) INTO items_with_after
+  FROM photos
+  WHERE violation_id = v_id
+    AND photo_type = 'AFTER'
+    AND status != 'REJECTED';
+
+  IF items_with_after >= total_items THEN
+    UPDATE work_orders
+    SET status = 'COMPLETED', completed_at = now()
+    WHERE id = wo_id AND status != 'COMPLETED';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION auto_progress_photo_status IS 'Completes the work order when all items have AFTER photos; the violation status is left to the app';
@@ -0,0 +1,142 @@
+-- Migration 030: Item-level status tracking
+--
+-- violation_items.status had a default of 'open' and nothing else wrote it.
+-- Items now move through their own lifecycle (src/lib/item-status.ts):
+--   open → in_repair → photo_uploaded → photo_approved → abated
+-- plus 'disputed' for items the org is contesting with DOB. Contractor
+-- actions and photo approvals advance them, DOB's answer abates or reopens
+-- them, and the violation's status rolls up from them through the
+-- transition service (src/lib/violation-transitions.ts).
+
+-- Earlier values: in_progress and resolved
+UPDATE violation_items SET status = 'in_repair' WHERE status = 'in_progress';
+UPDATE violation_items SET status = 'abated' WHERE status = 'resolved';
+UPDATE violation_items SET status = 'open' WHERE status IS NULL;
+
+-- Backfill from the evidence already collected
+UPDATE violation_items vi
+SET status = CASE
+  WHEN EXISTS (
+    SELECT 1 FROM photos p
+    WHERE p.violation_item_id = vi.id AND p.photo_type = 'AFTER' AND p.status = 'APPROVED'
+  ) THEN 'photo_approved'
+  WHEN EXISTS (
+    SELECT 1 FROM photos p
+    WHERE p.violation_item_id = vi.id AND p.photo_type = 'AFTER' AND p.status != 'REJECTED'
+  ) THEN 'photo_uploaded'
+  WHEN EXISTS (
+    SELECT 1 FROM photos p
+    WHERE p.violation_item_id = vi.id AND p.photo_type = 'BEFORE'
+  ) THEN 'in_repair'
+  ELSE vi.status
+END
+WHERE vi.status IN ('open', 'in_repair');
+
+-- Items of violations DOB has already signed off on are abated
+UPDATE violation_items vi
+SET status = 'abated'
+FROM violations v
+WHERE v.id = vi.violation_id
+  AND v.status = 'APPROVED'
+  AND vi.status != 'abated';
+
+ALTER TABLE violation_items
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT violation_items_status_check
+    CHECK (status IN ('open', 'in_repair', 'photo_uploaded', 'photo_approved', 'abated', 'disputed'));
+
+COMMENT ON COLUMN violation_items.status IS 'open, in_repair, photo_uploaded, photo_approved, abated or disputed; the violation status rolls up from these';
+
+-- The violation deadline rolls up from items not yet abated (was: not resolved)
+CREATE OR REPLACE FUNCTION rollup_violation_deadline()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_id UUID;
+  earliest DATE;
+BEGIN
+  v_id := COALESCE(NEW.violation_id, OLD.violation_id);
+
+  SELECT COALESCE(
+    MIN(abatement_deadline) FILTER (WHERE status != 'abated'),
+    MIN(abatement_deadline)
+  ) INTO earliest
+  FROM violation_items
+  WHERE violation_id = v_id;
+
+  -- Violations without dated items (manual entry, CSV import) keep their own deadline
+  IF earliest IS NOT NULL THEN
+    UPDATE violations
+    SET abatement_deadline = earliest
+    WHERE id = v_id
+      AND abatement_deadline IS DISTINCT FROM earliest;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE INDEX idx_violation_items_status ON violation_items(violation_id, status);
+
+-- Analytics count items not yet abated as open (was: not resolved)
+CREATE OR REPLACE FUNCTION get_code_analytics(
+  p_date_from DATE DEFAULT (CURRENT_DATE - INTERVAL '90 days')::date,
+  p_date_to DATE DEFAULT CURRENT_DATE,
+  p_property_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_org_id UUID;
+  v_by_trade JSONB;
+  v_top_codes JSONB;
+BEGIN
+  v_org_id := auth_org_id();
+
+  SELECT COALESCE(jsonb_agg(trade_data), '[]'::JSONB)
+  INTO v_by_trade
+  FROM (
+    SELECT jsonb_build_object(
+      'trade_category', COALESCE(vc.trade_category, 'Uncategorized'),
+      'items', COUNT(*),
+      'open_items', COUNT(*) FILTER (WHERE vi.status != 'abated'),
+      'fines', COALESCE(SUM(vi.fine), 0)
+    ) AS trade_data
+    FROM violation_items vi
+    JOIN violations v ON v.id = vi.violation_id
+    LEFT JOIN violation_codes vc ON vc.id = vi.code_id
+    WHERE v.org_id = v_org_id
+      AND v.created_at::date BETWEEN p_date_from AND p_date_to
+      AND (p_property_id IS NULL OR v.property_id = p_property_id)
+      AND (v.parse_status IS NULL OR v.parse_status NOT IN ('pending', 'duplicate'))
+    GROUP BY COALESCE(vc.trade_category, 'Uncategorized')
+    ORDER BY COUNT(*) DESC
+  ) sub;
+
+  SELECT COALESCE(jsonb_agg(code_data), '[]'::JSONB)
+  INTO v_top_codes
+  FROM (
+    SELECT jsonb_build_object(
+      'code', COALESCE(vc.code, vi.violation_code),
+      'title', vc.title,
+      'trade_category', COALESCE(vc.trade_category, 'Uncategorized'),
+      'items', COUNT(*),
+      'fines', COALESCE(SUM(vi.fine), 0)
+    ) AS code_data
+    FROM violation_items vi
+    JOIN violations v ON v.id = vi.violation_id
+    LEFT JOIN violation_codes vc ON vc.id = vi.code_id
+    WHERE v.org_id = v_org_id
+      AND vi.violation_code IS NOT NULL
+      AND v.created_at::date BETWEEN p_date_from AND p_date_to
+      AND (p_property_id IS NULL OR v.property_id = p_property_id)
+      AND (v.parse_status IS NULL OR v.parse_status NOT IN ('pending', 'duplicate'))
+    GROUP BY COALESCE(vc.code, vi.violation_code), vc.title, COALESCE(vc.trade_category, 'Uncategorized')
+    ORDER BY COUNT(*) DESC
+    LIMIT 10
+  ) sub;
+
+  RETURN jsonb_build_object(
+    'violations_by_trade', v_by_trade,
+    'top_codes', v_top_codes
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;